@@ -0,0 +1,2 @@
+export * from './agreement/KeyAgreementKeyPair';
+export * from './agreement/WebCryptoX25519KP';
\ No newline at end of file
@@ -0,0 +1,15 @@
+
+interface KeyAgreementKeyPair {
+
+    generateKey(params?: any): Promise<void>;
+    loadKeyPair(publicKey: string, privateKey?: string): Promise<void>;
+
+    getPublicKey(): string;
+    getPrivateKey(): string | undefined;
+
+    // returns the shared secret (hex encoded) between this key pair and the given public key
+    deriveSharedSecret(publicKey: string): Promise<string>;
+
+}
+
+export { KeyAgreementKeyPair };
@@ -0,0 +1,97 @@
+import { WebCryptoConfig } from 'crypto/config/WebCryptoConfig';
+import { Strings } from 'util/strings';
+import { KeyAgreementKeyPair } from './KeyAgreementKeyPair';
+
+// The standard WebCrypto identifier, and the one used by @peculiar/webcrypto.
+const ALGORITHMS = [{name: 'X25519'}, {name: 'ECDH-ES', namedCurve: 'X25519'}];
+
+const SECRET_BITS = 256;
+
+// Keys are exported like in WebCryptoEd25519SigKP: the public key as base64 of the
+// raw 32-byte key, the private key as base64 of its PKCS #8 representation.
+
+class WebCryptoX25519KP implements KeyAgreementKeyPair {
+
+    publicKeyBase64?  : string;
+    publicKey?        : CryptoKey;
+
+    privateKeyBase64? : string;
+    privateKey?       : CryptoKey;
+
+    async generateKey(_params?: any): Promise<void> {
+
+        const subtle = WebCryptoConfig.getSubtle();
+
+        const keyPair = await WebCryptoConfig.withAlgorithm(ALGORITHMS,
+                            (algorithm: any) => subtle.generateKey(algorithm, true, ['deriveBits']) as Promise<CryptoKeyPair>
+                        );
+
+        this.privateKey = keyPair.privateKey;
+        this.privateKeyBase64 = Strings.Uint8arrayToBase64(new Uint8Array(await subtle.exportKey('pkcs8', keyPair.privateKey as CryptoKey)));
+
+        this.publicKey = keyPair.publicKey;
+        this.publicKeyBase64 = Strings.Uint8arrayToBase64(new Uint8Array(await subtle.exportKey('raw', keyPair.publicKey as CryptoKey)));
+    }
+
+    async loadKeyPair(publicKeyBase64: string, privateKeyBase64?: string): Promise<void> {
+
+        if (privateKeyBase64 !== undefined) {
+            const subtle = WebCryptoConfig.getSubtle();
+
+            const privateKey = await WebCryptoConfig.withAlgorithm(ALGORITHMS,
+                                    (algorithm: any) => subtle.importKey('pkcs8', Strings.base64ToUint8array(privateKeyBase64), algorithm, true, ['deriveBits'])
+                                );
+
+            this.privateKeyBase64 = privateKeyBase64;
+            this.privateKey = privateKey;
+        }
+
+        this.publicKey = await WebCryptoX25519KP.importPublicKey(publicKeyBase64);
+        this.publicKeyBase64 = publicKeyBase64;
+    }
+
+    getPublicKey(): string {
+        if (this.publicKeyBase64 === undefined) {
+            throw new Error('Attempted to export public key, but WebCrypto X25519 keypair is uninitialized.');
+        }
+
+        return this.publicKeyBase64;
+    }
+
+    getPrivateKey(): string | undefined {
+        if (this.publicKeyBase64 === undefined) {
+            throw new Error('Attempted to export private key, but WebCrypto X25519 keypair is uninitialized.');
+        }
+
+        return this.privateKeyBase64;
+    }
+
+    async deriveSharedSecret(publicKeyBase64: string): Promise<string> {
+
+        if (this.privateKey === undefined) {
+            throw new Error('Attempted to derive a shared secret, but WebCrypto X25519 private key is missing.');
+        }
+
+        const publicKey = await WebCryptoX25519KP.importPublicKey(publicKeyBase64);
+
+        const secret = await WebCryptoConfig.getSubtle().deriveBits(
+            {name: this.privateKey.algorithm.name, public: publicKey} as any,
+            this.privateKey,
+            SECRET_BITS
+        );
+
+        return Strings.base64toHex(Strings.Uint8arrayToBase64(new Uint8Array(secret)));
+    }
+
+    private static importPublicKey(publicKeyBase64: string): Promise<CryptoKey> {
+
+        const subtle = WebCryptoConfig.getSubtle();
+
+        return WebCryptoConfig.withAlgorithm(ALGORITHMS,
+                    (algorithm: any) => subtle.importKey('raw', Strings.base64ToUint8array(publicKeyBase64), algorithm, true, [])
+                );
+    }
+
+}
+
+export { WebCryptoX25519KP };
@@ -15,6 +15,24 @@ class WebCryptoConfig {
         }
     }
 
+    // Some algorithms (e.g. Ed25519, X25519) are known by different names in the WebCrypto
+    // standard and in older polyfills: try each of the given algorithm identifiers in turn.
+
+    static async withAlgorithm<T>(algorithms: Array<any>, op: (algorithm: any) => Promise<T>): Promise<T> {
+
+        let lastError: any;
+
+        for (const algorithm of algorithms) {
+            try {
+                return await op(algorithm);
+            } catch (e: any) {
+                lastError = e;
+            }
+        }
+
+        throw lastError;
+    }
+
 }
 
-export { WebCryptoConfig };
\ No newline at end of file
+export { WebCryptoConfig };
@@ -0,0 +1,2 @@
+export { SecretBox } from './secretbox/SecretBox';
+export type { SealedPayload } from './secretbox/SecretBox';
\ No newline at end of file
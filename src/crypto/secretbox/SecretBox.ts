@@ -0,0 +1,55 @@
+// Symmetric authenticated encryption: ChaCha20, with an HMAC-SHA256 over the nonce and the
+// ciphertext. The cipher and MAC keys are both derived from a single key, that can in turn be
+// derived from a passphrase using KeyGen.
+
+import { ChaCha20Impl } from '../ciphers';
+import { HMAC } from '../hmac/HMAC';
+import { KeyGen } from '../keygen/KeyGen';
+import { RNGImpl } from '../random';
+
+type SealedPayload = { nonce: string, ciphertext: string, mac: string };
+
+class SecretBox {
+
+    // The passphrase is utf8, the salt and the resulting key are hex-encoded.
+    static deriveKey(passphrase: string, saltHex: string, rounds: number): string {
+        return new KeyGen().derive(Buffer.from(passphrase, 'utf8').toString('hex'), saltHex, rounds);
+    }
+
+    // Derives independent keys for different purposes from the same key.
+    static subkey(keyHex: string, purpose: string): string {
+        return new HMAC().hmacSHA256hex(purpose, keyHex);
+    }
+
+    private encryptionKey: string;
+    private macKey: string;
+
+    constructor(keyHex: string) {
+        this.encryptionKey = SecretBox.subkey(keyHex, 'encryption');
+        this.macKey        = SecretBox.subkey(keyHex, 'authentication');
+    }
+
+    seal(plaintext: string): SealedPayload {
+
+        const nonce      = new RNGImpl().randomHexString(96);
+        const ciphertext = new ChaCha20Impl().encryptHex(plaintext, this.encryptionKey, nonce);
+        const mac        = new HMAC().hmacSHA256hex(nonce + ciphertext, this.macKey);
+
+        return { nonce: nonce, ciphertext: ciphertext, mac: mac };
+    }
+
+    // Returns undefined if the MAC doesn't match (wrong key, or tampered payload).
+    open(payload: SealedPayload): string | undefined {
+
+        const mac = new HMAC().hmacSHA256hex(payload.nonce + payload.ciphertext, this.macKey);
+
+        if (mac !== payload.mac) {
+            return undefined;
+        }
+
+        return new ChaCha20Impl().decryptHex(payload.ciphertext, this.encryptionKey, payload.nonce);
+    }
+}
+
+export { SecretBox };
+export type { SealedPayload };
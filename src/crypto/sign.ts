@@ -1,2 +1,3 @@
 export * from './sign/SignatureKeyPair';
-export * from './sign/WebCryptoRSASigKP';
\ No newline at end of file
+export * from './sign/WebCryptoRSASigKP';
+export * from './sign/WebCryptoEd25519SigKP';
\ No newline at end of file
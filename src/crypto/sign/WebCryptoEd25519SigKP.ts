@@ -0,0 +1,102 @@
+import { WebCryptoConfig } from 'crypto/config/WebCryptoConfig';
+import { Strings } from 'util/strings';
+import { SignatureKeyPair } from './SignatureKeyPair';
+
+// The standard WebCrypto identifier, and the one used by @peculiar/webcrypto.
+const ALGORITHMS = [{name: 'Ed25519'}, {name: 'EdDSA', namedCurve: 'Ed25519'}];
+
+// Public keys are exported as the base64 encoding of the raw 32-byte key, private
+// keys as the base64 encoding of their PKCS #8 representation.
+
+class WebCryptoEd25519SigKP implements SignatureKeyPair {
+
+    publicKeyBase64?  : string;
+    publicKey?        : CryptoKey;
+
+    privateKeyBase64? : string;
+    privateKey?       : CryptoKey;
+
+    async generateKey(_params?: any): Promise<void> {
+
+        const subtle = WebCryptoConfig.getSubtle();
+
+        const keyPair = await WebCryptoConfig.withAlgorithm(ALGORITHMS, 
+                            (algorithm: any) => subtle.generateKey(algorithm, true, ['sign', 'verify']) as Promise<CryptoKeyPair>
+                        );
+
+        this.privateKey = keyPair.privateKey;
+        this.privateKeyBase64 = Strings.Uint8arrayToBase64(new Uint8Array(await subtle.exportKey('pkcs8', keyPair.privateKey as CryptoKey)));
+
+        this.publicKey = keyPair.publicKey;
+        this.publicKeyBase64 = Strings.Uint8arrayToBase64(new Uint8Array(await subtle.exportKey('raw', keyPair.publicKey as CryptoKey)));
+    }
+
+    async loadKeyPair(publicKeyBase64: string, privateKeyBase64?: string): Promise<void> {
+
+        const subtle = WebCryptoConfig.getSubtle();
+
+        if (privateKeyBase64 !== undefined) {
+            const privateKey = await WebCryptoConfig.withAlgorithm(ALGORITHMS,
+                                    (algorithm: any) => subtle.importKey('pkcs8', Strings.base64ToUint8array(privateKeyBase64), algorithm, true, ['sign'])
+                                );
+
+            this.privateKeyBase64 = privateKeyBase64;
+            this.privateKey = privateKey;
+        }
+
+        const publicKey = await WebCryptoConfig.withAlgorithm(ALGORITHMS,
+                                (algorithm: any) => subtle.importKey('raw', Strings.base64ToUint8array(publicKeyBase64), algorithm, true, ['verify'])
+                            );
+
+        this.publicKeyBase64 = publicKeyBase64;
+        this.publicKey = publicKey;
+    }
+
+    getPublicKey(): string {
+        if (this.publicKeyBase64 === undefined) {
+            throw new Error('Attempted to export public key, but WebCrypto Ed25519 keypair is uninitialized.');
+        }
+
+        return this.publicKeyBase64;
+    }
+
+    getPrivateKey(): string | undefined {
+        if (this.publicKeyBase64 === undefined) {
+            throw new Error('Attempted to export private key, but WebCrypto Ed25519 keypair is uninitialized.');
+        }
+
+        return this.privateKeyBase64;
+    }
+
+    async sign(text: string): Promise<string> {
+
+        if (this.privateKey === undefined) {
+            throw new Error('Attempted to sign, but WebCrypto Ed25519 private key is missing.');
+        }
+
+        const signBuffer = await WebCryptoConfig.getSubtle().sign(
+            {name: this.privateKey.algorithm.name},
+            this.privateKey,
+            new TextEncoder().encode(text)
+        );
+
+        return Strings.Uint8arrayToBase64(new Uint8Array(signBuffer));
+    }
+
+    async verify(text: string, signature: string): Promise<boolean> {
+
+        if (this.publicKey === undefined) {
+            throw new Error('Trying to verify signature with WebCrypto Ed25519, but keypair is uninitialized');
+        }
+
+        return WebCryptoConfig.getSubtle().verify(
+            {name: this.publicKey.algorithm.name},
+            this.publicKey,
+            Strings.base64ToUint8array(signature),
+            new TextEncoder().encode(text)
+        );
+    }
+
+}
+
+export { WebCryptoEd25519SigKP };
@@ -1,10 +1,20 @@
 export * from './collections/mutable/GrowOnlySet';
 export * from './collections/mutable/MutableSet';
 export * from './collections/mutable/MutableReference';
+export * from './collections/mutable/LWWRegister';
+export * from './collections/mutable/MultiValueRegister';
 export * from './collections/mutable/MutableArray';
+export * from './collections/mutable/MutableText';
+export * from './collections/mutable/GrowOnlyCounter';
+export * from './collections/mutable/PNCounter';
 export * from './collections/causal/CausalSet';
 export * from './collections/causal/CausalReference';
+export * from './collections/causal/CausalMap';
+export * from './collections/causal/CausalRecord';
+export * from './collections/causal/CausalTree';
 export { SingleAuthorCausalSet } from './collections/causal/SingleAuthorCausalSet';
 export { MultiAuthorCausalSet } from './collections/causal/MultiAuthorCausalSet';
 export * from './collections/causal/CausalArray';
+export * from './collections/causal/RotatableIdentity';
+export * from './collections/ArrayCursor';
 export * from './collections/Types';
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { Hash } from '../model/hashing';
+import { Ordinal } from 'util/ordinals';
+import { OrderStatisticTree } from 'util/ordertree';
+
+// An array position, as (ordinal, element hash). Arrays are sorted by ordinal, then by hash.
+
+type ArrayEntry = { ordinal: Ordinal, hash: Hash };
+
+function compareArrayEntries(e1: ArrayEntry, e2: ArrayEntry): number {
+    if (e1.ordinal !== e2.ordinal) {
+        return e1.ordinal < e2.ordinal? -1 : 1;
+    } else if (e1.hash !== e2.hash) {
+        return e1.hash < e2.hash? -1 : 1;
+    } else {
+        return 0;
+    }
+}
+
+// A position in an array that stays put while the array changes: instead of an index, it
+// remembers the entry that comes right before it, so when elements are inserted or deleted
+// (locally or by other peers) the cursor keeps pointing at the same place, and getIndex()
+// reflects the shift. If that entry is itself deleted, the cursor stays where it used to be.
+
+class ArrayCursor<T> {
+
+    index   : OrderStatisticTree<ArrayEntry>;
+    element : (entry: ArrayEntry) => T;
+
+    // the entry just before the cursor (undefined if it is at the start), and how many copies
+    // of it come before the cursor (an entry can be repeated in arrays with duplicates)
+    after?: ArrayEntry;
+    afterCopies: number;
+
+    constructor(index: OrderStatisticTree<ArrayEntry>, element: (entry: ArrayEntry) => T, idx=0) {
+        this.index   = index;
+        this.element = element;
+        this.afterCopies = 0;
+
+        this.seek(idx);
+    }
+
+    seek(idx: number) {
+
+        const size = this.index.size();
+
+        if (idx < 0) {
+            idx = size + idx;
+        }
+
+        idx = Math.min(Math.max(idx, 0), size);
+
+        if (idx === 0) {
+            this.after       = undefined;
+            this.afterCopies = 0;
+        } else {
+            this.setAfter(this.index.at(idx-1) as ArrayEntry, idx-1);
+        }
+    }
+
+    getIndex(): number {
+
+        if (this.after === undefined) {
+            return 0;
+        }
+
+        return this.index.rank(this.after) + Math.min(this.afterCopies, this.index.count(this.after));
+    }
+
+    hasNext(): boolean {
+        return this.getIndex() < this.index.size();
+    }
+
+    peek(): T|undefined {
+        const entry = this.index.at(this.getIndex());
+
+        return entry === undefined? undefined : this.element(entry);
+    }
+
+    // Returns up to count elements and moves the cursor past them.
+
+    next(count=1): Array<T> {
+
+        const start   = this.getIndex();
+        const entries = this.index.slice(start, start + count);
+
+        if (entries.length > 0) {
+            this.setAfter(entries[entries.length-1], start + entries.length - 1);
+        }
+
+        return entries.map((entry: ArrayEntry) => this.element(entry));
+    }
+
+    private setAfter(entry: ArrayEntry, idx: number) {
+        this.after       = entry;
+        this.afterCopies = idx - this.index.rank(entry) + 1;
+    }
+}
+
+export { ArrayCursor, compareArrayEntries };
+export type { ArrayEntry };
@@ -6,6 +6,8 @@ import { Ordinal, Ordinals, DenseOrder } from 'util/ordinals';
 import { DedupMultiMap } from 'util/dedupmultimap';
 import { Logger, LogLevel } from 'util/logging';
 import { ArrayMap } from 'util/arraymap';
+import { Timestamps } from 'util/timestamps';
+import { OrderStatisticTree } from 'util/ordertree';
 
 import { Authorizer } from '../../model/causal/Authorization'
 import { Authorization, Verification } from '../../model/causal/Authorization';
@@ -17,6 +19,7 @@ import { MultiMap } from 'util/multimap';
 import { InvalidateAfterOp } from 'data/model/causal';
 import { AuthError, BaseCausalCollection, CausalCollection, CausalCollectionConfig } from './CausalCollection';
 import { Identity } from 'data/identity';
+import { ArrayCursor, ArrayEntry, compareArrayEntries } from '../ArrayCursor';
 
 // A mutable list with a 
 
@@ -161,12 +164,123 @@ class MembershipAttestationOp<T> extends MutationOp {
     }
 }
 
+// Moves the element inserted by insertOp to a new ordinal. The insertion op stays the same, so the
+// element keeps its identity (and any membership attestations based on it). When there are several
+// moves for the same insertion, the one with the highest (sequence, timestamp, hash) wins.
+
+class MoveOp<T> extends MutationOp {
+
+    static className = 'hhs/v0/CausalArray/MoveOp';
+
+    ordinal?: Ordinal;
+    sequence?: number;
+    timestamp?: string;
+
+    constructor(insertOp?: InsertOp<T>, ordinal?: Ordinal, sequence?: number, author?: Identity) {
+        super(insertOp?.getTargetObject());
+
+        if (insertOp !== undefined) {
+            this.addCausalOp('insert-op', insertOp);
+
+            this.ordinal   = ordinal;
+            this.sequence  = sequence;
+            this.timestamp = Timestamps.uniqueTimestamp();
+
+            if (author !== undefined) {
+                this.setAuthor(author);
+            }
+        }
+    }
+
+    getClassName(): string {
+        return MoveOp.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>): Promise<boolean> {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        if (this.causalOps === undefined || this.getCausalOps().size() !== 1) {
+            CausalArray.validationLog.debug('MoveOps should have exactly one causalOp');
+            return false;
+        }
+
+        const insertOp = this.getInsertOp();
+
+        if (insertOp === undefined || !(insertOp instanceof InsertOp)) {
+            CausalArray.validationLog.debug('insertOp is missing from MoveOp ' + this.hash());
+            return false;
+        }
+
+        if (!insertOp.getTargetObject().equals(this.getTargetObject())) {
+            CausalArray.validationLog.debug('insertOp for MoveOp ' + this.hash() + ' has a different target');
+            return false;
+        }
+
+        if (this.ordinal === undefined || !Ordinals.isOrdinal(this.ordinal)) {
+            CausalArray.validationLog.debug('The field ordinal of MoveOp ' + this.hash() + ' is not a valid ordinal');
+            return false;
+        }
+
+        if (typeof(this.sequence) !== 'number') {
+            CausalArray.validationLog.debug('The field sequence of MoveOp ' + this.hash() + ' should be of type number');
+            return false;
+        }
+
+        if (typeof(this.timestamp) !== 'string') {
+            CausalArray.validationLog.debug('The field timestamp of MoveOp ' + this.hash() + ' should be of type string');
+            return false;
+        }
+
+        return true;
+    }
+
+    getInsertOp() {
+        return this.getCausalOps().get('insert-op') as InsertOp<T>;
+    }
+
+    getOrdinal() {
+        return this.ordinal as Ordinal;
+    }
+
+    getSequence() {
+        return this.sequence as number;
+    }
+
+    getTimestamp() {
+        return this.timestamp as string;
+    }
+}
+
+// -1 if m2 comes after m1 (see compareUpdateSigs in CausalReference)
+
+function compareMoves(m1: MoveOp<any>, m2: MoveOp<any>) {
+
+    if (m2.getSequence() > m1.getSequence()) {
+        return -1;
+    } else if (m1.getSequence() > m2.getSequence()) {
+        return 1;
+    } else if (Timestamps.after(m2.getTimestamp(), m1.getTimestamp())) {
+        return -1;
+    } else if (Timestamps.after(m1.getTimestamp(), m2.getTimestamp())) {
+        return 1;
+    } else {
+        return m1.getLastHash().localeCompare(m2.getLastHash());
+    }
+}
+
 type MutableArrayConfig = { duplicates: boolean }
 
 class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection<T> {
 
     static className = 'hhs/v0/CausalArray';
-    static opClasses = [InsertOp.className, DeleteOp.className];
+    static opClasses = [InsertOp.className, DeleteOp.className, MoveOp.className];
     static logger    = new Logger(CausalArray.className, LogLevel.INFO);
     
     duplicates: boolean;
@@ -178,11 +292,14 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
     _currentInsertOps    : DedupMultiMap<Hash, InsertOp<T>>;
     _currentInsertOpOrds : Map<Hash, Ordinal>;
 
-    _needToRebuild: boolean;
+    // valid moves for each insertion op, and the largest sequence number used for each, valid or not
+    _validMovesPerInsertOp : Map<Hash, Map<Hash, MoveOp<T>>>;
+    _largestMoveSequences  : Map<Hash, number>;
 
-    _contents : Array<T>;
-    _hashes   : Array<Hash>;
-    _ordinals : Array<Ordinal>;
+    // the entries that are currently visible (all of them with duplicates, otherwise only the one
+    // with the smallest ordinal for each element), sorted, to find positions in logarithmic time
+    _index       : OrderStatisticTree<ArrayEntry>;
+    _indexedOrds : Map<Hash, Array<Ordinal>>;
 
     constructor(config?: MutableArrayConfig & CausalCollectionConfig) {
         super(CausalArray.opClasses, {...config, supportsUndo: true});
@@ -198,10 +315,11 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
         this._currentInsertOps    = new DedupMultiMap();
         this._currentInsertOpOrds = new Map();
 
-        this._needToRebuild = false;
-        this._contents = [];
-        this._hashes   = [];
-        this._ordinals = [];
+        this._validMovesPerInsertOp = new Map();
+        this._largestMoveSequences  = new Map();
+
+        this._index       = new OrderStatisticTree(compareArrayEntries);
+        this._indexedOrds = new Map();
     }
 
     // canInsert: if a parameter is absent, interpret it as if insertion is allowed for any possible value
@@ -230,8 +348,6 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
     }
 
     async insertManyAt(elements: T[], idx: number, author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
-        this.rebuild();
-
         // In the "no duplicates" case, any items we insert will disappear from their old positions. So
         // we need to count how many are before position idx, and add that to idx to correct.
 
@@ -242,7 +358,7 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
             for (const element of elements) {
                 const elementHash = HashedObject.hashElement(element);
 
-                const elmtIdx = this._hashes.indexOf(elementHash);
+                const elmtIdx = this.indexOfByHash(elementHash);
 
                 if (0 <= elmtIdx && elmtIdx <= idx) {
                     delta = delta + 1;
@@ -255,12 +371,12 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
         let after  : Ordinal|undefined = undefined;
         let before : Ordinal|undefined = undefined;
 
-        if (0 < idx && idx <= this._hashes.length) {
-            after = this._ordinals[idx-1];
+        if (0 < idx && idx <= this._index.size()) {
+            after = this._index.at(idx-1)?.ordinal;
         }
 
-        if (idx < this._hashes.length) {
-            before = this._ordinals[idx];
+        if (idx < this._index.size()) {
+            before = this._index.at(idx)?.ordinal;
         }
 
         for (const element of elements) {
@@ -318,20 +434,82 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
     }
 
     async deleteManyAt(idx: number, count: number, author?: Identity, extraAuth?: Authorizer) {
-        this.rebuild();
-
-        while (idx < this._contents.length && count > 0) {
-            let hash = this._hashes[idx];
+        for (const entry of this._index.slice(Math.max(idx, 0), Math.max(idx + count, 0))) {
 
             if (this.duplicates) {
-                await this.delete(hash, this._ordinals[idx], author, extraAuth);
+                await this.delete(entry.hash, entry.ordinal, author, extraAuth);
             } else {
-                await this.delete(hash, undefined, author, extraAuth);
+                await this.delete(entry.hash, undefined, author, extraAuth);
+            }
+        }
+    }
+
+    // Moves the element at position from, so it ends up at position to. The element keeps its
+    // identity: it is not deleted and re-inserted, so membership attestations remain valid.
+
+    async moveAt(from: number, to: number, author?: Identity, extraAuth?: Authorizer): Promise<void> {
+
+        const size = this._index.size();
+
+        if (from < 0 || from >= size || to < 0 || to >= size) {
+            throw new Error('Trying to move an element from position ' + from + ' to ' + to + ' in a CausalArray of size ' + size + '.');
+        }
+
+        if (from === to) {
+            return;
+        }
+
+        const entry = this._index.at(from) as ArrayEntry;
+
+        let insertOp: InsertOp<T>|undefined = undefined;
+
+        for (const op of this._currentInsertOps.get(entry.hash)) {
+            if (this._currentInsertOpOrds.get(op.getLastHash()) === entry.ordinal) {
+                insertOp = op;
+                break;
             }
+        }
 
-            idx = idx + 1;
-            count = count - 1;
+        if (insertOp === undefined) {
+            throw new Error('Could not find the insertion op for the element at position ' + from + ' in CausalArray ' + this.hash());
         }
+
+        // the neighbours at the destination, as if the element had already been removed
+        const after  = to < from? this._index.at(to-1)?.ordinal : this._index.at(to)?.ordinal;
+        const before = to < from? this._index.at(to)?.ordinal   : this._index.at(to+1)?.ordinal;
+
+        const ordinal = DenseOrder.between(after, before);
+
+        const insertOpHash = insertOp.getLastHash();
+        const largestSeq   = this._largestMoveSequences.get(insertOpHash);
+        const nextSeq      = largestSeq === undefined? 0 : largestSeq + 1;
+
+        const moveOp = new MoveOp(insertOp, ordinal, nextSeq, author);
+
+        const auth = Authorization.chain(this.createMoveAuthorizer(insertOp, ordinal, author), extraAuth);
+
+        this.setCurrentPrevOpsTo(moveOp);
+
+        if (!(await auth.attempt(moveOp))) {
+            throw new AuthError('Cannot authorize move operation on CausalArray ' + this.hash() + ', author is: ' + author?.hash());
+        }
+
+        await this.applyNewOp(moveOp);
+    }
+
+    async moveElement(element: T, to: number, author?: Identity, extraAuth?: Authorizer): Promise<void> {
+
+        const from = this.indexOf(element);
+
+        if (from < 0) {
+            throw new Error('Trying to move an element that is not in CausalArray ' + this.hash());
+        }
+
+        return this.moveAt(from, to, author, extraAuth);
+    }
+
+    canMove(author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
+        return Authorization.chain(this.createMoveAuthorizer(undefined, undefined, author), extraAuth).attempt();
     }
 
     async deleteElement(element: T, author?: Identity, extraAuth?: Authorizer) {
@@ -339,46 +517,51 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
     }
 
     async deleteElementByHash(hash: Hash, author?: Identity, extraAuth?: Authorizer) {
-        this.rebuild();
         this.delete(hash, undefined, author, extraAuth);
     }
 
     async push(element: T, author?: Identity, extraAuth?: Authorizer) {
-        await this.insertAt(element, this._contents.length, author, extraAuth);
+        await this.insertAt(element, this._index.size(), author, extraAuth);
     }
 
     async pop(author?: Identity, extraAuth?: Authorizer): Promise<T> {
-        this.rebuild();
-        const lastIdx = this._contents.length - 1;
-        const last = this._contents[lastIdx];
+        const lastIdx = this._index.size() - 1;
+        const last = this.lookup(lastIdx);
         await this.deleteAt(lastIdx, author, extraAuth);
 
         return last;
     }
 
     async concat(elements: T[], author?: Identity, extraAuth?: Authorizer) {
-        this.rebuild();
-        await this.insertManyAt(elements, this._contents.length, author, extraAuth);
+        await this.insertManyAt(elements, this._index.size(), author, extraAuth);
     }
 
     contents() {
-        this.rebuild();
-        return Array.from(this._contents);
+        return this.slice();
     }
 
     contentHashes() {
-        this.rebuild();
-        return Array.from(this._hashes);
+        return this._index.slice().map((entry: ArrayEntry) => entry.hash);
+    }
+
+    // The elements in positions [start, end), as Array.slice would return them.
+
+    slice(start?: number, end?: number): Array<T> {
+        return this._index.slice(start, end).map((entry: ArrayEntry) => this._elements.get(entry.hash) as T);
+    }
+
+    // A cursor starting at position idx, see ArrayCursor.
+
+    cursor(idx=0): ArrayCursor<T> {
+        return new ArrayCursor(this._index, (entry: ArrayEntry) => this._elements.get(entry.hash) as T, idx);
     }
 
     lookup(idx: number): T {
-        this.rebuild();
-        return this._contents[idx];
+        return this.valueAt(idx);
     }
 
     lookupHash(idx: number): Hash {
-        this.rebuild();
-        return this._hashes[idx];
+        return this._index.at(idx)?.hash as Hash;
     }
 
     get(hash: Hash): T|undefined {
@@ -397,13 +580,22 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
         if (hash === undefined) {
             return -1;
         }
-        this.rebuild();
-        return this._hashes.indexOf(hash);
+
+        const ordinals = this._indexedOrds.get(hash);
+
+        if (ordinals === undefined) {
+            return -1;
+        }
+
+        const first = ordinals.reduce((o1: Ordinal, o2: Ordinal) => o1 < o2? o1 : o2);
+
+        return this._index.rank({ordinal: first, hash: hash});
     }
     
     valueAt(idx: number) {
-        this.rebuild();
-        return this._contents[idx];
+        const entry = this._index.at(idx);
+
+        return (entry === undefined? undefined : this._elements.get(entry.hash)) as T;
     }
 
     private async delete(hash: Hash, ordinal?: Ordinal, author?: Identity, extraAuth?: Authorizer) {
@@ -460,14 +652,14 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
         return this.indexOfByHash(hash) >= 0;
     }
 
-    async mutate(op: MutationOp): Promise<boolean> {
+    async mutate(op: MutationOp, valid: boolean): Promise<boolean> {
 
         const opHash = op.getLastHash();
 
         if (op instanceof InsertOp) {
 
             const element = op.element as T;
-            const ordinal = op.ordinal as Ordinal;
+            const ordinal = this.currentOrdinalFor(op);
 
             const elementHash = HashedObject.hashElement(element);
 
@@ -484,7 +676,7 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
             this._currentInsertOps.add(elementHash, op);
             this._currentInsertOpOrds.set(opHash, ordinal);
 
-            this._needToRebuild = true;
+            this.updateIndexFor(elementHash);
 
             if (wasNotBefore && element instanceof HashedObject) {
                 this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.AddObject, data: element});
@@ -528,7 +720,7 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
 
             const wasDeleted = current.size === 0;
 
-            this._needToRebuild = true;
+            this.updateIndexFor(elementHash);
 
             if (wasDeleted) {
                 if (wasBefore) {
@@ -548,6 +740,57 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
 
             
 
+        } else if (op instanceof MoveOp) {
+
+            const insertOp     = op.getInsertOp() as InsertOp<T>;
+            const insertOpHash = insertOp.getLastHash();
+
+            let validMoves = this._validMovesPerInsertOp.get(insertOpHash);
+
+            if (validMoves === undefined) {
+                validMoves = new Map();
+                this._validMovesPerInsertOp.set(insertOpHash, validMoves);
+            }
+
+            if (valid) {
+                validMoves.set(opHash, op);
+            } else {
+                validMoves.delete(opHash);
+            }
+
+            const largestSeq = this._largestMoveSequences.get(insertOpHash);
+
+            if (largestSeq === undefined || largestSeq < op.getSequence()) {
+                this._largestMoveSequences.set(insertOpHash, op.getSequence());
+            }
+
+            const oldOrdinal = this._currentInsertOpOrds.get(insertOpHash);
+
+            // if the element has been deleted, there is nothing to move
+            if (oldOrdinal === undefined) {
+                return false;
+            }
+
+            const newOrdinal = this.currentOrdinalFor(insertOp);
+
+            if (oldOrdinal === newOrdinal) {
+                return false;
+            }
+
+            const elementHash = HashedObject.hashElement(insertOp.element);
+
+            this._elementsPerOrdinal.delete(oldOrdinal, elementHash);
+            this._ordinalsPerElement.delete(elementHash, oldOrdinal);
+
+            this._elementsPerOrdinal.add(newOrdinal, elementHash);
+            this._ordinalsPerElement.add(elementHash, newOrdinal);
+
+            this._currentInsertOpOrds.set(insertOpHash, newOrdinal);
+
+            this.updateIndexFor(elementHash);
+
+            this._mutationEventSource?.emit({emitter: this, action: 'move', data: this._elements.get(elementHash)} as MoveEvent<T>);
+
         } else {
             throw new Error('Invalid op type for MutableArray:' + op?.getClassName());
         }
@@ -556,35 +799,43 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
 
     }
 
-    private rebuild() {
+    // The ordinal set by the winning move for insertOp, or the original one if it was never moved.
 
-        if (this._needToRebuild) {
-            this._contents = [];
-            this._hashes   = [];
-            this._ordinals = [];
+    private currentOrdinalFor(insertOp: InsertOp<T>): Ordinal {
 
-            const ordinals = Array.from(this._elementsPerOrdinal.keys());
-            ordinals.sort();
-    
-            const seen = new Set<Hash>();
-    
-            for (const ordinal of ordinals) {
-                const elementHashes = this._elementsPerOrdinal.get(ordinal);
-    
-                for (const elementHash of elementHashes) {
-    
-                    if (this.duplicates || !seen.has(elementHash)) {
-                        this._contents.push(this._elements.get(elementHash) as T);
-                        this._hashes.push(elementHash);
-                        this._ordinals.push(ordinal);
-                        if (!this.duplicates) {
-                            seen.add(elementHash);
-                        }
-                    }
-                }
+        let latest: MoveOp<T>|undefined = undefined;
+
+        for (const move of (this._validMovesPerInsertOp.get(insertOp.getLastHash()) || new Map<Hash, MoveOp<T>>()).values()) {
+            if (latest === undefined || compareMoves(latest, move) < 0) {
+                latest = move;
             }
+        }
+
+        return latest === undefined? insertOp.ordinal as Ordinal : latest.getOrdinal();
+    }
+
+    // Replaces the entries in the index for this element, after its ordinals have changed.
+
+    private updateIndexFor(elementHash: Hash) {
+
+        for (const ordinal of this._indexedOrds.get(elementHash) || []) {
+            this._index.delete({ordinal: ordinal, hash: elementHash});
+        }
 
-            this._needToRebuild = false;
+        let ordinals = this._ordinalsPerElement.get(elementHash);
+
+        if (!this.duplicates && ordinals.length > 1) {
+            ordinals = [ordinals.reduce((o1: Ordinal, o2: Ordinal) => o1 < o2? o1 : o2)];
+        }
+
+        for (const ordinal of ordinals) {
+            this._index.add({ordinal: ordinal, hash: elementHash});
+        }
+
+        if (ordinals.length > 0) {
+            this._indexedOrds.set(elementHash, ordinals);
+        } else {
+            this._indexedOrds.delete(elementHash);
         }
     }
 
@@ -633,13 +884,16 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
             return false;
         }
 
-        if (op instanceof InsertOp || op instanceof DeleteOp) {
+        if (op instanceof InsertOp || op instanceof DeleteOp || op instanceof MoveOp) {
             const author = op.getAuthor();
 
             const auth = (op instanceof InsertOp) ?
                                             this.createInsertAtAuthorizer(op.element, op.ordinal, author)
                                                         :
-                                            this.createDeleteAuthorizer(op.getInsertOp(), author);
+                         (op instanceof DeleteOp) ?
+                                            this.createDeleteAuthorizer(op.getInsertOp(), author)
+                                                        :
+                                            this.createMoveAuthorizer(op.getInsertOp(), op.ordinal, author);
 
             const usedKeys     = new Set<string>();
 
@@ -752,19 +1006,22 @@ class CausalArray<T> extends BaseCausalCollection<T> implements CausalCollection
         return this.createWriteAuthorizer(author);
     }
 
+    protected createMoveAuthorizer(_insertOp?: InsertOp<T>, _ordinal?: Ordinal, author?: Identity): Authorizer {
+        return this.createWriteAuthorizer(author);
+    }
+
     values() {
-        this.rebuild();
-        return this._contents.values();
+        return this.contents().values();
     }
     
     size() {
-        this.rebuild()
-        return this._contents.length;
+        return this._index.size();
     }
 }
 
 ClassRegistry.register(InsertOp.className, InsertOp);
 ClassRegistry.register(DeleteOp.className, DeleteOp);
+ClassRegistry.register(MoveOp.className, MoveOp);
 ClassRegistry.register(CausalArray.className, CausalArray);
 
 
@@ -774,6 +1031,6 @@ type DeleteEvent<T> = {emitter: CausalArray<T>, action: 'delete', path?: locatio
 
 type MutationEvent<T> = InsertEvent<T> | MoveEvent<T> | DeleteEvent<T>;
 
-export { CausalArray, InsertOp as CausalArrayInsertOp, DeleteOp as CausalArrayDeleteOp };
+export { CausalArray, InsertOp as CausalArrayInsertOp, DeleteOp as CausalArrayDeleteOp, MoveOp as CausalArrayMoveOp };
 export { InsertEvent as CausalArrayInsertEvent, MoveEvent as CausalArrayMoveEvent, DeleteEvent as CausalArrayDeleteEvent,
          MutationEvent as CausalArrayMutationEvent };
\ No newline at end of file
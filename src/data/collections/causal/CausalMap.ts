@@ -0,0 +1,610 @@
+import { MultiMap } from 'util/multimap';
+import { Timestamps } from 'util/timestamps';
+
+import { Identity } from '../../identity';
+import { Hash, HashedObject, MutableObject, MutationOp, InvalidateAfterOp, MutableContentEvents, ClassRegistry } from '../../model';
+
+import { Authorization, Authorizer, Verification } from '../../model/causal/Authorization';
+
+import { AuthError, BaseCausalCollection, CausalCollection, CausalCollectionConfig } from './CausalCollection';
+
+/*
+ * CausalMap: A key-value map. Setting a key creates a SetOp, deleting it creates a DeleteOp (an
+ *            InvalidateAfterOp) for each of the SetOps for that key that are current, so any ops
+ *            that were generated concurrently and depend on them (e.g. membership attestations
+ *            for the key) are undone by the cascading undo/redo mechanism.
+ *
+ *            A key is in the map if any of its SetOps is valid and has no valid DeleteOps (a
+ *            concurrent set and delete results in the key being present). If there are several,
+ *            the value is taken from the latest one (by causality, then timestamp, then hash),
+ *            as in CausalReference.
+ *
+ *            Keys and values can be either HashedObjects or pure literals. The acceptedTypes and
+ *            acceptedElements constraints in the config apply to the values.
+ */
+
+enum CausalMapEvents {
+    Set    = 'set',
+    Delete = 'delete'
+}
+
+class SetOp<K, V> extends MutationOp {
+    static className = 'hhs/v0/CausalMap/SetOp';
+
+    key?: K;
+    value?: V;
+    sequence?: number;
+    timestamp?: string;
+
+    constructor(targetObject?: CausalMap<K, V>, key?: K, value?: V, sequence?: number, author?: Identity) {
+        super(targetObject);
+
+        if (targetObject !== undefined) {
+            this.key = key;
+            this.value = value;
+            this.sequence = sequence;
+            this.timestamp = Timestamps.uniqueTimestamp();
+
+            if (author !== undefined) {
+                this.setAuthor(author);
+            }
+        }
+    }
+
+    getClassName(): string {
+        return SetOp.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>): Promise<boolean> {
+
+        if (!(await super.validate(references))) {
+            return false;
+        }
+
+        const targetObject = this.getTargetObject();
+
+        if (!(targetObject instanceof CausalMap)) {
+            return false;
+        }
+
+        if (this.key === undefined || this.value === undefined) {
+            MutableObject.validationLog.debug('The fields key and value are mandatory in class CausalMap/SetOp');
+            return false;
+        }
+
+        if (typeof(this.sequence) !== 'number') {
+            MutableObject.validationLog.debug('The field sequence should be of type number in class CausalMap/SetOp');
+            return false;
+        }
+
+        if (typeof(this.timestamp) !== 'string') {
+            MutableObject.validationLog.debug('The field timestamp should be of type string in class CausalMap/SetOp');
+            return false;
+        }
+
+        if (targetObject.acceptedElementHashes !== undefined && !targetObject.acceptedElementHashes.has(HashedObject.hashElement(this.value))) {
+            return false;
+        }
+
+        if (targetObject.acceptedTypes !== undefined &&
+              !(
+                (this.value instanceof HashedObject && targetObject.acceptedTypes.has(this.value.getClassName()))
+                        ||
+                (!(this.value instanceof HashedObject) && targetObject.acceptedTypes.has(typeof(this.value)))
+               )
+        ) {
+            return false;
+        }
+
+        return true;
+    }
+
+    getKey() {
+        return this.key as K;
+    }
+
+    getValue() {
+        return this.value as V;
+    }
+
+    getSequence() {
+        return this.sequence as number;
+    }
+
+    getTimestamp() {
+        return this.timestamp as string;
+    }
+}
+
+class DeleteOp<K, V> extends InvalidateAfterOp {
+    static className = 'hhs/v0/CausalMap/DeleteOp';
+
+    constructor(targetOp?: SetOp<K, V>, author?: Identity) {
+        super(targetOp);
+
+        if (author !== undefined) {
+            this.setAuthor(author);
+        }
+    }
+
+    async validate(references: Map<Hash, HashedObject>): Promise<boolean> {
+        return await super.validate(references) && this.targetOp !== undefined && this.targetOp instanceof SetOp;
+    }
+
+    getClassName(): string {
+        return DeleteOp.className;
+    }
+
+    getSetOp(): SetOp<K, V> {
+        return this.getTargetOp() as SetOp<K, V>;
+    }
+}
+
+class MembershipAttestationOp<K, V> extends MutationOp {
+    static className = 'hhs/v0/CausalMap/MembershipAttestationOp';
+
+    targetOpNonCausalHash?: Hash;
+
+    constructor(setOp?: SetOp<K, V>, targetOp?: MutationOp) {
+        super(setOp?.getTargetObject());
+
+        if (setOp !== undefined) {
+            if (targetOp === undefined) {
+                throw new Error('Attempted to construct a CausalMap MembershipAttestationOp, but no targetOp was provided.');
+            }
+
+            this.addCausalOp('set-op', setOp);
+
+            this.targetOpNonCausalHash = targetOp.nonCausalHash();
+        }
+    }
+
+    getClassName(): string {
+        return MembershipAttestationOp.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>): Promise<boolean> {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        if (this.causalOps === undefined || this.getCausalOps().size() !== 1) {
+            CausalMap.validationLog.debug('CausalMap MembershipAttestationOps should have exactly one causalOp');
+            return false;
+        }
+
+        const setOp = this.getSetOp();
+
+        if (setOp === undefined || !(setOp instanceof SetOp)) {
+            CausalMap.validationLog.debug('setOp is missing from CausalMap MembershipAttestationOp ' + this.hash());
+            return false;
+        }
+
+        if (!setOp.getTargetObject().equals(this.getTargetObject())) {
+            CausalMap.validationLog.debug('setOp for CausalMap MembershipAttestationOp ' + this.hash() + ' has a different target');
+            return false;
+        }
+
+        if (this.targetOpNonCausalHash === undefined) {
+            CausalMap.validationLog.debug('targetOpNonCausalHash is missing for CausalMap MembershipAttestationOp ' + this.hash());
+            return false;
+        }
+
+        return true;
+    }
+
+    getSetOp() {
+        return this.getCausalOps().get('set-op') as SetOp<K, V>;
+    }
+}
+
+// -1 if s2 comes after s1 (see compareUpdateSigs in CausalReference)
+
+function compareSetOps(s1: SetOp<any, any>, s2: SetOp<any, any>) {
+
+    if (s2.getSequence() > s1.getSequence()) {
+        return -1;
+    } else if (s1.getSequence() > s2.getSequence()) {
+        return 1;
+    } else if (Timestamps.after(s2.getTimestamp(), s1.getTimestamp())) {
+        return -1;
+    } else if (Timestamps.after(s1.getTimestamp(), s2.getTimestamp())) {
+        return 1;
+    } else {
+        return s1.getLastHash().localeCompare(s2.getLastHash());
+    }
+}
+
+class CausalMap<K, V> extends BaseCausalCollection<V> implements CausalCollection<K> {
+
+    static className = 'hhs/v0/CausalMap';
+    static opClasses = [SetOp.className, DeleteOp.className, MembershipAttestationOp.className];
+
+    // all the SetOps that have been applied (incl. the invalid ones, they may be redone).
+    _allSetOps : Map<Hash, SetOp<K, V>>;
+
+    // valid: all SetOps and DeleteOps that have NOT been invalidated.
+    _validSetOpsPerKey      : MultiMap<Hash, Hash>;
+    _validDeleteOpsPerSetOp : MultiMap<Hash, Hash>;
+
+    // current: all the valid SetOps that have no valid DeleteOps, and the latest one for each key
+    _currentSetOpsPerKey : MultiMap<Hash, Hash>;
+    _latestSetOpPerKey   : Map<Hash, SetOp<K, V>>;
+
+    constructor(config: CausalCollectionConfig = {}) {
+        super(CausalMap.opClasses, {...config, supportsUndo: true});
+
+        this.setRandomId();
+
+        this._allSetOps = new Map();
+
+        this._validSetOpsPerKey      = new MultiMap();
+        this._validDeleteOpsPerSetOp = new MultiMap();
+
+        this._currentSetOpsPerKey = new MultiMap();
+        this._latestSetOpPerKey   = new Map();
+    }
+
+    getClassName() {
+        return CausalMap.className;
+    }
+
+    // canSet / canDelete: if a parameter is absent, interpret it as if the operation is allowed
+    //                     for any possible value (see CausalSet.canAdd).
+
+    canSet(key?: K, value?: V, author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
+        return Authorization.chain(this.createSetAuthorizer(key, value, author), extraAuth).attempt();
+    }
+
+    canDelete(key?: K, author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
+        return Authorization.chain(this.createDeleteAuthorizer(key, author), extraAuth).attempt();
+    }
+
+    async set(key: K, value: V, author?: Identity, extraAuth?: Authorizer): Promise<void> {
+
+        CausalMap.checkKeyOrValue(key, 'keys');
+        CausalMap.checkKeyOrValue(value, 'values');
+
+        if (!this.shouldAcceptElement(value)) {
+            throw new Error('CausalMap has type/element contraints that reject the value that is being set:' + value);
+        }
+
+        const keyHash = HashedObject.hashElement(key);
+
+        let nextSeq = 0;
+
+        for (const setOpHash of this._currentSetOpsPerKey.get(keyHash)) {
+            nextSeq = Math.max(nextSeq, (this._allSetOps.get(setOpHash) as SetOp<K, V>).getSequence() + 1);
+        }
+
+        const setOp = new SetOp(this, key, value, nextSeq, author);
+
+        const auth = Authorization.chain(this.createSetAuthorizer(key, value, setOp.getAuthor()), extraAuth);
+
+        this.setCurrentPrevOpsTo(setOp);
+
+        if (!(await auth.attempt(setOp))) {
+            throw new AuthError('Cannot authorize set operation on CausalMap ' + this.hash() + ', author is: ' + author?.hash());
+        }
+
+        return this.applyNewOp(setOp);
+    }
+
+    async delete(key: K, author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
+        return this.deleteByHash(HashedObject.hashElement(key), author, extraAuth);
+    }
+
+    async deleteByHash(keyHash: Hash, author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
+
+        const deleteOps: Array<DeleteOp<K, V>> = [];
+
+        for (const setOpHash of this._currentSetOpsPerKey.get(keyHash)) {
+            const setOp    = this._allSetOps.get(setOpHash) as SetOp<K, V>;
+            const deleteOp = new DeleteOp(setOp, author);
+
+            const auth = Authorization.chain(this.createDeleteAuthorizer(setOp.getKey(), deleteOp.getAuthor()), extraAuth);
+
+            this.setCurrentPrevOpsTo(deleteOp);
+
+            if (!(await auth.attempt(deleteOp))) {
+                throw new AuthError('Cannot authorize delete operation on CausalMap ' + this.hash() + ', author is: ' + author?.hash());
+            }
+
+            deleteOps.push(deleteOp);
+        }
+
+        const deletions: Array<Promise<void>> = [];
+
+        for (const deleteOp of deleteOps) {
+            deletions.push(this.applyNewOp(deleteOp));
+        }
+
+        await Promise.all(deletions);
+
+        return deleteOps.length > 0;
+    }
+
+    has(key: K): boolean {
+        return this.hasByHash(HashedObject.hashElement(key));
+    }
+
+    hasByHash(keyHash: Hash): boolean {
+        return this._latestSetOpPerKey.has(keyHash);
+    }
+
+    get(key: K): V|undefined {
+        return this.getByHash(HashedObject.hashElement(key));
+    }
+
+    getByHash(keyHash: Hash): V|undefined {
+        return this._latestSetOpPerKey.get(keyHash)?.getValue();
+    }
+
+    keys() {
+        return Array.from(this._latestSetOpPerKey.values()).map((setOp: SetOp<K, V>) => setOp.getKey()).values();
+    }
+
+    values() {
+        return Array.from(this._latestSetOpPerKey.values()).map((setOp: SetOp<K, V>) => setOp.getValue()).values();
+    }
+
+    entries() {
+        return Array.from(this._latestSetOpPerKey.values()).map((setOp: SetOp<K, V>) => [setOp.getKey(), setOp.getValue()] as [K, V]).values();
+    }
+
+    size() {
+        return this._latestSetOpPerKey.size;
+    }
+
+    attestationKey(key: K) {
+        return this.attestationKeyByHash(HashedObject.hashElement(key));
+    }
+
+    attestationKeyByHash(keyHash: Hash) {
+        return 'CausalMap/attest:' + keyHash + '-belongs-to-' + this.hash();
+    }
+
+    async attestMembershipForOp(key: K, op?: MutationOp): Promise<boolean> {
+        return this.attestMembershipForOpByHash(HashedObject.hashElement(key), op);
+    }
+
+    async attestMembershipForOpByHash(keyHash: Hash, op?: MutationOp): Promise<boolean> {
+
+        const setOp = this._latestSetOpPerKey.get(keyHash);
+
+        if (setOp !== undefined) {
+
+            if (op !== undefined) {
+                const attestOp = new MembershipAttestationOp(setOp, op);
+
+                await this.applyNewOp(attestOp);
+                op.addCausalOp(this.attestationKeyByHash(keyHash), attestOp);
+            }
+
+            return true;
+        } else {
+            return false;
+        }
+    }
+
+    verifyMembershipAttestationForOp(key: K, op: MutationOp, usedKeys: Set<string>): boolean {
+        return this.checkMembershipAttestationByHashForOp(HashedObject.hashElement(key), op, usedKeys);
+    }
+
+    protected checkMembershipAttestationByHashForOp(keyHash: Hash, op: MutationOp, usedKeys: Set<string>): boolean {
+
+        const key = this.attestationKeyByHash(keyHash);
+
+        const attestOp = op.getCausalOps().get(key);
+
+        if (attestOp === undefined || !(attestOp instanceof MembershipAttestationOp)) {
+            return false;
+        }
+
+        if (!attestOp.getTargetObject().equals(this)) {
+            return false;
+        }
+
+        if (attestOp.targetOpNonCausalHash !== op.nonCausalHash()) {
+            return false;
+        }
+
+        if (HashedObject.hashElement(attestOp.getSetOp().getKey()) !== keyHash) {
+            return false;
+        }
+
+        usedKeys.add(key);
+
+        return true;
+    }
+
+    createMembershipAuthorizer(key: K): Authorizer {
+
+        return {
+            attempt : (op?:  MutationOp) => this.attestMembershipForOp(key, op),
+            verify  : (op: MutationOp, usedKeys: Set<string>) => this.verifyMembershipAttestationForOp(key, op, usedKeys)
+        };
+    }
+
+    shouldAcceptMutationOp(op: MutationOp, opReferences: Map<Hash, HashedObject>): boolean {
+
+        if (!super.shouldAcceptMutationOp(op, opReferences)) {
+            return false;
+        }
+
+        if (op instanceof SetOp && !this.shouldAcceptElement(op.value as V)) {
+            return false;
+        }
+
+        if (op instanceof SetOp || op instanceof DeleteOp) {
+            const author = op.getAuthor();
+
+            const auth = (op instanceof SetOp) ?
+                                            this.createSetAuthorizer(op.getKey(), op.getValue(), author)
+                                                        :
+                                            this.createDeleteAuthorizer(op.getSetOp().getKey(), author);
+
+            const usedKeys = new Set<string>();
+
+            if (!auth.verify(op, usedKeys)) {
+                return false;
+            }
+
+            if (!Verification.checkKeys(usedKeys, op)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    async mutate(op: MutationOp, valid: boolean, _cascade: boolean): Promise<boolean> {
+
+        let mutated = false;
+
+        if (op instanceof SetOp || op instanceof DeleteOp) {
+
+            let setOp: SetOp<K, V>;
+
+            if (op instanceof SetOp) {
+
+                setOp = op;
+
+                if (valid) {
+                    this._validSetOpsPerKey.add(HashedObject.hashElement(setOp.getKey()), setOp.getLastHash());
+                } else {
+                    this._validSetOpsPerKey.delete(HashedObject.hashElement(setOp.getKey()), setOp.getLastHash());
+                }
+
+                this._allSetOps.set(setOp.getLastHash(), setOp);
+
+            } else {
+
+                setOp = op.getSetOp();
+
+                if (valid) {
+                    this._validDeleteOpsPerSetOp.add(setOp.getLastHash(), op.getLastHash());
+                } else {
+                    this._validDeleteOpsPerSetOp.delete(setOp.getLastHash(), op.getLastHash());
+                }
+            }
+
+            const keyHash   = HashedObject.hashElement(setOp.getKey());
+            const setOpHash = setOp.getLastHash();
+
+            if (this._validSetOpsPerKey.has(keyHash, setOpHash) &&
+                this._validDeleteOpsPerSetOp.get(setOpHash).size === 0) {
+
+                this._currentSetOpsPerKey.add(keyHash, setOpHash);
+            } else {
+                this._currentSetOpsPerKey.delete(keyHash, setOpHash);
+            }
+
+            // find the latest current SetOp for this key, if any
+
+            const before = this._latestSetOpPerKey.get(keyHash);
+
+            let latest: SetOp<K, V>|undefined = undefined;
+
+            for (const currentHash of this._currentSetOpsPerKey.get(keyHash)) {
+                const current = this._allSetOps.get(currentHash) as SetOp<K, V>;
+                if (latest === undefined || compareSetOps(latest, current) < 0) {
+                    latest = current;
+                }
+            }
+
+            if (latest === undefined) {
+                this._latestSetOpPerKey.delete(keyHash);
+            } else {
+                this._latestSetOpPerKey.set(keyHash, latest);
+            }
+
+            mutated = before?.getLastHash() !== latest?.getLastHash();
+
+            if (mutated) {
+
+                const oldValue = before?.getValue();
+                const newValue = latest?.getValue();
+
+                if (latest === undefined) {
+                    this._mutationEventSource?.emit({emitter: this, action: CausalMapEvents.Delete, data: setOp.getKey()});
+                } else {
+                    this._mutationEventSource?.emit({emitter: this, action: CausalMapEvents.Set, data: [latest.getKey(), newValue]});
+                }
+
+                if (oldValue instanceof HashedObject && !(newValue instanceof HashedObject && newValue.equals(oldValue))) {
+                    this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.RemoveObject, data: oldValue});
+                }
+
+                if (newValue instanceof HashedObject && !(oldValue instanceof HashedObject && oldValue.equals(newValue))) {
+                    this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.AddObject, data: newValue});
+                }
+            }
+        }
+
+        return mutated;
+    }
+
+    init(): void {
+
+    }
+
+    getMutableContents(): MultiMap<Hash, HashedObject> {
+        const contents = new MultiMap<Hash, HashedObject>();
+
+        for (const setOp of this._latestSetOpPerKey.values()) {
+            const value = setOp.getValue();
+
+            if (value instanceof HashedObject) {
+                contents.add(value.hash(), value);
+            }
+        }
+
+        return contents;
+    }
+
+    getMutableContentByHash(hash: Hash): Set<HashedObject> {
+
+        const found = new Set<HashedObject>();
+
+        for (const setOp of this._latestSetOpPerKey.values()) {
+            const value = setOp.getValue();
+
+            if (value instanceof HashedObject && value.hash() === hash) {
+                found.add(value);
+            }
+        }
+
+        return found;
+    }
+
+    protected createSetAuthorizer(_key?: K, _value?: V, author?: Identity): Authorizer {
+        return this.createWriteAuthorizer(author);
+    }
+
+    protected createDeleteAuthorizer(_key?: K, author?: Identity): Authorizer {
+        return this.createWriteAuthorizer(author);
+    }
+
+    private static checkKeyOrValue(something: any, what: string) {
+        if (!(something instanceof HashedObject) && !HashedObject.isLiteral(something)) {
+            throw new Error('CausalMap ' + what + ' can be either a class deriving from HashedObject or a pure literal (a constant, without any HashedObjects within).');
+        }
+    }
+}
+
+ClassRegistry.register(SetOp.className, SetOp);
+ClassRegistry.register(DeleteOp.className, DeleteOp);
+ClassRegistry.register(MembershipAttestationOp.className, MembershipAttestationOp);
+ClassRegistry.register(CausalMap.className, CausalMap);
+
+export { CausalMap, CausalMapEvents, SetOp as CausalMapSetOp, DeleteOp as CausalMapDeleteOp, MembershipAttestationOp as CausalMapMembershipAttestationOp };
@@ -0,0 +1,396 @@
+import { MultiMap } from 'util/multimap';
+import { Timestamps } from 'util/timestamps';
+
+import { Identity } from '../../identity';
+import { Hash, HashedObject, MutableObject, MutationOp, MutableContentEvents, ClassRegistry } from '../../model';
+
+import { Authorization, Authorizer, Verification } from '../../model/causal/Authorization';
+
+import { AuthError, BaseCausalCollection, CausalCollectionConfig } from './CausalCollection';
+import { Types } from '../Types';
+
+/*
+ * CausalRecord: A base class for records with a fixed set of fields, declared in a schema. Each
+ *               field holds either a HashedObject or a literal, and has a type constraint (as in
+ *               Types.satisfies) and, optionally, its own write authorizer (otherwise the record's
+ *               writers / mutableWriters apply).
+ *
+ *               All the fields are updated through ops on the record itself, so the record is
+ *               synchronized as a single mutable object, instead of having one MutableReference
+ *               per field. Each field is resolved as a CausalReference would (by causality, then
+ *               timestamp, then hash), and updates are undone if their authorization is revoked.
+ *
+ *               Field updates are emitted as 'update' events. Fields holding mutable objects are
+ *               reported as mutable contents, so their events are relayed through the record's
+ *               event source when cascadeMutableContentEvents() is enabled.
+ *
+ *               Subclasses pass their schema to the constructor, e.g.:
+ *
+ *               class Profile extends CausalRecord {
+ *                   static className = 'my-app/Profile';
+ *                   static schema = { name: { types: ['string'] },
+ *                                     bio:  { types: ['string'], authorizer: ... } };
+ *
+ *                   constructor(config?: CausalCollectionConfig) {
+ *                       super(Profile.schema, config);
+ *                   }
+ *                   ...
+ *               }
+ */
+
+type RecordFieldAuthorizer = (record: CausalRecord, value?: any, author?: Identity) => Authorizer;
+
+type RecordFieldSpec  = { types?: Array<string>, authorizer?: RecordFieldAuthorizer };
+type RecordSchema     = { [fieldName: string]: RecordFieldSpec };
+
+type RecordUpdateEvent = { field: string, value?: any };
+
+class FieldUpdateOp extends MutationOp {
+
+    static className = 'hhs/v0/CausalRecord/FieldUpdateOp';
+
+    field?: string;
+    value?: any;
+    sequence?: number;
+    timestamp?: string;
+
+    constructor(targetObject?: CausalRecord, field?: string, value?: any, sequence?: number, author?: Identity) {
+        super(targetObject);
+
+        if (targetObject !== undefined) {
+            this.field = field;
+            this.value = value;
+            this.sequence = sequence;
+            this.timestamp = Timestamps.uniqueTimestamp();
+
+            if (author !== undefined) {
+                this.setAuthor(author);
+            }
+        }
+    }
+
+    getClassName(): string {
+        return FieldUpdateOp.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        const targetObject = this.getTargetObject();
+
+        if (!(targetObject instanceof CausalRecord)) {
+            return false;
+        }
+
+        if (typeof(this.field) !== 'string') {
+            MutableObject.validationLog.debug('The field "field" should be of type string in class CausalRecord/FieldUpdateOp');
+            return false;
+        }
+
+        if (typeof(this.sequence) !== 'number') {
+            MutableObject.validationLog.debug('The field sequence should be of type number in class CausalRecord/FieldUpdateOp');
+            return false;
+        }
+
+        if (typeof(this.timestamp) !== 'string') {
+            MutableObject.validationLog.debug('The field timestamp should be of type string in class CausalRecord/FieldUpdateOp');
+            return false;
+        }
+
+        if (this.value === undefined || !(this.value instanceof HashedObject || HashedObject.isLiteral(this.value))) {
+            MutableObject.validationLog.debug('The field value in class CausalRecord/FieldUpdateOp must either be a HashedObject instance or a pure literal (a constant, without any HashedObjects within).');
+            return false;
+        }
+
+        return true;
+    }
+
+    getField() {
+        return this.field as string;
+    }
+
+    getSequence() {
+        return this.sequence as number;
+    }
+
+    getTimestamp() {
+        return this.timestamp as string;
+    }
+}
+
+// -1 if u2 comes after u1 (see compareUpdateSigs in CausalReference)
+
+function compareUpdates(u1: FieldUpdateOp, u2: FieldUpdateOp) {
+
+    if (u2.getSequence() > u1.getSequence()) {
+        return -1;
+    } else if (u1.getSequence() > u2.getSequence()) {
+        return 1;
+    } else if (Timestamps.after(u2.getTimestamp(), u1.getTimestamp())) {
+        return -1;
+    } else if (Timestamps.after(u1.getTimestamp(), u2.getTimestamp())) {
+        return 1;
+    } else {
+        return u1.getLastHash().localeCompare(u2.getLastHash());
+    }
+}
+
+abstract class CausalRecord extends BaseCausalCollection<any> {
+
+    _schema: RecordSchema;
+
+    // all the valid updates for each field, and the one that is currently in effect
+    _validUpdatesPerField : Map<string, Map<Hash, FieldUpdateOp>>;
+    _currentUpdates       : Map<string, FieldUpdateOp>;
+
+    // the largest sequence number used for each field, valid or not
+    _largestSequences : Map<string, number>;
+
+    constructor(schema: RecordSchema, config?: CausalCollectionConfig) {
+        super([FieldUpdateOp.className], {...config, supportsUndo: true});
+
+        this.setRandomId();
+
+        this._schema = schema;
+
+        this._validUpdatesPerField = new Map();
+        this._currentUpdates       = new Map();
+
+        this._largestSequences = new Map();
+    }
+
+    init(): void {
+
+    }
+
+    getSchema(): RecordSchema {
+        return this._schema;
+    }
+
+    getFieldNames(): Array<string> {
+        return Object.keys(this._schema);
+    }
+
+    hasField(field: string): boolean {
+        return this._currentUpdates.has(field);
+    }
+
+    getField(field: string): any {
+        return this._currentUpdates.get(field)?.value;
+    }
+
+    // A plain object with the current value of every field that has been set.
+
+    getFields(): {[fieldName: string]: any} {
+
+        const fields: {[fieldName: string]: any} = {};
+
+        for (const [field, op] of this._currentUpdates.entries()) {
+            fields[field] = op.value;
+        }
+
+        return fields;
+    }
+
+    async setField(field: string, value: any, author?: Identity, extraAuth?: Authorizer): Promise<void> {
+
+        if (!(value instanceof HashedObject) && !HashedObject.isLiteral(value)) {
+            throw new Error('CausalRecord fields can contain either a class deriving from HashedObject or a pure literal (a constant, without any HashedObjects within).');
+        }
+
+        if (!this.shouldAcceptFieldValue(field, value)) {
+            throw new Error('CausalRecord ' + this.getClassName() + ' does not accept the value that is being set for field "' + field + '":' + value);
+        }
+
+        const largestSeq = this._largestSequences.get(field);
+        const nextSeq    = largestSeq === undefined? 0 : largestSeq + 1;
+
+        const op = new FieldUpdateOp(this, field, value, nextSeq, author);
+
+        const auth = Authorization.chain(this.createFieldAuthorizer(field, value, author), extraAuth);
+
+        this.setCurrentPrevOpsTo(op);
+
+        if (!(await auth.attempt(op))) {
+            throw new AuthError('Cannot authorize update of field "' + field + '" on CausalRecord ' + this.hash() + ', author is: ' + author?.hash());
+        }
+
+        return this.applyNewOp(op);
+    }
+
+    // canSetField: if value or author are absent, interpret it as if the update is allowed for any
+    //              possible value / author (see CausalSet.canAdd).
+
+    async canSetField(field: string, value?: any, author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
+
+        if (this._schema[field] === undefined) {
+            return false;
+        }
+
+        return Authorization.chain(this.createFieldAuthorizer(field, value, author), extraAuth).attempt();
+    }
+
+    protected createFieldAuthorizer(field: string, value?: any, author?: Identity): Authorizer {
+
+        const authorizer = this._schema[field]?.authorizer;
+
+        if (authorizer !== undefined) {
+            return authorizer(this, value, author);
+        } else {
+            return this.createWriteAuthorizer(author);
+        }
+    }
+
+    protected shouldAcceptFieldValue(field: string, value: any): boolean {
+
+        const spec = this._schema[field];
+
+        if (spec === undefined) {
+            return false;
+        }
+
+        return Types.satisfies(value, spec.types) && this.shouldAcceptElement(value);
+    }
+
+    async mutate(op: MutationOp, valid: boolean): Promise<boolean> {
+
+        let mutated = false;
+
+        if (op instanceof FieldUpdateOp) {
+
+            const field = op.getField();
+
+            let validUpdates = this._validUpdatesPerField.get(field);
+
+            if (validUpdates === undefined) {
+                validUpdates = new Map();
+                this._validUpdatesPerField.set(field, validUpdates);
+            }
+
+            if (valid) {
+                validUpdates.set(op.getLastHash(), op);
+            } else {
+                validUpdates.delete(op.getLastHash());
+            }
+
+            const largestSeq = this._largestSequences.get(field);
+
+            if (largestSeq === undefined || largestSeq < op.getSequence()) {
+                this._largestSequences.set(field, op.getSequence());
+            }
+
+            const before = this._currentUpdates.get(field);
+
+            let latest: FieldUpdateOp|undefined = undefined;
+
+            for (const update of validUpdates.values()) {
+                if (latest === undefined || compareUpdates(latest, update) < 0) {
+                    latest = update;
+                }
+            }
+
+            if (latest === undefined) {
+                this._currentUpdates.delete(field);
+            } else {
+                this._currentUpdates.set(field, latest);
+            }
+
+            mutated = before?.getLastHash() !== latest?.getLastHash();
+
+            if (mutated) {
+
+                const oldValue = before?.value;
+                const newValue = latest?.value;
+
+                this._mutationEventSource?.emit({emitter: this, action: 'update', data: {field: field, value: newValue} as RecordUpdateEvent});
+
+                if (oldValue !== newValue) {
+                    if (oldValue instanceof HashedObject && !this.isHeldByAnotherField(field, oldValue)) {
+                        this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.RemoveObject, data: oldValue});
+                    }
+                    if (newValue instanceof HashedObject && !this.isHeldByAnotherField(field, newValue)) {
+                        this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.AddObject, data: newValue});
+                    }
+                }
+            }
+        }
+
+        return mutated;
+    }
+
+    getMutableContents(): MultiMap<Hash, HashedObject> {
+        const contents = new MultiMap<Hash, HashedObject>();
+
+        for (const op of this._currentUpdates.values()) {
+            if (op.value instanceof HashedObject) {
+                contents.add(op.value.hash(), op.value);
+            }
+        }
+
+        return contents;
+    }
+
+    getMutableContentByHash(hash: Hash): Set<HashedObject> {
+
+        const found = new Set<HashedObject>();
+
+        for (const op of this._currentUpdates.values()) {
+            if (op.value instanceof HashedObject && op.value.hash() === hash) {
+                found.add(op.value);
+            }
+        }
+
+        return found;
+    }
+
+    shouldAcceptMutationOp(op: MutationOp, opReferences: Map<Hash, HashedObject>): boolean {
+
+        if (!super.shouldAcceptMutationOp(op, opReferences)) {
+            return false;
+        }
+
+        if (op instanceof FieldUpdateOp) {
+
+            if (!this.shouldAcceptFieldValue(op.getField(), op.value)) {
+                return false;
+            }
+
+            const auth = this.createFieldAuthorizer(op.getField(), op.value, op.getAuthor());
+
+            const usedKeys = new Set<string>();
+
+            if (!auth.verify(op, usedKeys)) {
+                return false;
+            }
+
+            if (!Verification.checkKeys(usedKeys, op)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private isHeldByAnotherField(field: string, value: HashedObject): boolean {
+
+        for (const [otherField, op] of this._currentUpdates.entries()) {
+            if (otherField !== field && op.value instanceof HashedObject && op.value.equals(value)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+}
+
+ClassRegistry.register(FieldUpdateOp.className, FieldUpdateOp);
+
+export { CausalRecord, FieldUpdateOp as CausalRecordFieldUpdateOp };
+export type { RecordSchema, RecordFieldSpec, RecordFieldAuthorizer, RecordUpdateEvent };
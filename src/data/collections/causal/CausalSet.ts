@@ -10,6 +10,8 @@ import { MutableSetEvents } from '../../collections/mutable/MutableSet';
 import { MutableContentEvents } from '../../model/mutable/MutableObject';
 import { AuthError, BaseCausalCollection, CausalCollection, CausalCollectionConfig } from './CausalCollection';
 import { ClassRegistry } from 'data/model/literals';
+import { HybridClock } from 'util/timestamps';
+import { BaseCollection } from '../mutable/Collection';
 
 /*
  * CausalSet: A set with an explicit membership attestation op that can be used by other objects
@@ -24,14 +26,18 @@ class AddOp<T> extends MutationOp {
     static className = 'hss/v0/CausalSet/AddOp';
 
     element?: T;
+    timestamp?: string; // only in sets with a capacity, see EvictionWindow
 
-    constructor(targetObject?: CausalSet<T>, element?: T, author?: Identity) {
+    constructor(targetObject?: CausalSet<T>, element?: T, author?: Identity, timestamp?: string) {
         super(targetObject);
 
         this.element = element;
         if (author !== undefined) {
             this.setAuthor(author);
         }
+        if (timestamp !== undefined) {
+            this.timestamp = timestamp;
+        }
     }
 
     getClassName(): string {
@@ -74,6 +80,14 @@ class AddOp<T> extends MutationOp {
             return false;
 
         }
+
+        if (mut.hasCapacity()? !HybridClock.isTimestamp(this.timestamp) : this.timestamp !== undefined) {
+            return false;
+        }
+
+        if (this.timestamp !== undefined && !(await BaseCollection.checkCapacityTimestamp(this, this.timestamp, references))) {
+            return false;
+        }
     
         return true;
     }
@@ -248,11 +262,13 @@ class CausalSet<T> extends BaseCausalCollection<T> implements CausalCollection<T
             throw new Error('CausalSet has type/element contraints that reject the element that is being added:' + elmt)
         }
         
-        const addOp = new AddOp(this, elmt, author);
+        const prevOps = Array.from(this._terminalOps.values());
+
+        const addOp = new AddOp(this, elmt, author, await this.nextCapacityTimestamp(prevOps));
 
         const auth = Authorization.chain(this.createAddAuthorizer(elmt, addOp.getAuthor()), extraAuth);
 
-        this.setCurrentPrevOpsTo(addOp);
+        addOp.setPrevOps(prevOps.values());
 
         if (!(await auth.attempt(addOp))) {
             throw new AuthError('Cannot authorize addition operation on CausalSet ' + this.hash() + ', author is: ' + author?.hash());
@@ -330,8 +346,15 @@ class CausalSet<T> extends BaseCausalCollection<T> implements CausalCollection<T
         return this.attestMembershipForOpByHash(hash, op);
     }
 
+    // Sets with a capacity can't attest membership for other ops: evictions are not ops, so an
+    // attestation for an addition that is later evicted could never be invalidated.
+
     async attestMembershipForOpByHash(hash: Hash, op?: MutationOp): Promise<boolean> {
 
+        if (op !== undefined && this.hasCapacity()) {
+            throw new Error('CausalSet ' + this.hash() + ' has a capacity, so it cannot attest membership for other ops (evicted additions cannot invalidate them).');
+        }
+
         const addOpHashes = this._currentAddOpsPerElmt.get(hash);
 
         if (addOpHashes.size > 0) {
@@ -361,6 +384,10 @@ class CausalSet<T> extends BaseCausalCollection<T> implements CausalCollection<T
 
     protected checkMembershipAttestationByHashForOp(elmtHash: Hash, op: MutationOp, usedKeys: Set<string>): boolean {
 
+        if (this.hasCapacity()) {
+            return false;
+        }
+
         const key = this.attestationKeyByHash(elmtHash);
 
         const attestOp = op.getCausalOps().get(key);
@@ -402,6 +429,10 @@ class CausalSet<T> extends BaseCausalCollection<T> implements CausalCollection<T
             return false;
         }
 
+        if (op instanceof MembershipAttestationOp && this.hasCapacity()) {
+            return false;
+        }
+
         if (op instanceof AddOp || op instanceof DeleteOp) {
             const author = op.getAuthor();
 
@@ -437,6 +468,8 @@ class CausalSet<T> extends BaseCausalCollection<T> implements CausalCollection<T
 
         let mutated = false;
 
+        let evicted: Array<Hash> = [];
+
         if (op instanceof AddOp || op instanceof DeleteOp) {
 
             let addOp     : AddOp<T>|undefined;
@@ -455,7 +488,8 @@ class CausalSet<T> extends BaseCausalCollection<T> implements CausalCollection<T
                     this._validAddOpsPerElmt.delete(elementHash, addOpHash);
                 }
                 
-                if (!cascade) {
+                // (on a redo too: the element may have been dropped if another addition was evicted)
+                if (!cascade || valid) {
                     this._allElements.set(elementHash, addOp.element as T);
                 }
 
@@ -477,6 +511,26 @@ class CausalSet<T> extends BaseCausalCollection<T> implements CausalCollection<T
                 throw new Error("This should be impossible")
             }
 
+            // additions that fell out of the eviction window are gone for good: they cannot be
+            // re-instated by an undo, and deleting them has no effect
+            let isEvicted = false;
+
+            if (op instanceof AddOp && !cascade) {
+                evicted   = this.admitToEvictionWindow(addOp.timestamp, addOpHash);
+                isEvicted = evicted.indexOf(addOpHash) >= 0;
+            } else if (addOp.timestamp !== undefined) {
+                isEvicted = this.getEvictionWindow()?.isEvicted(addOp.timestamp, addOpHash) || false;
+            }
+
+            if (isEvicted) {
+                this._validAddOpsPerElmt.delete(elementHash, addOpHash);
+                this._validDeleteOpsPerAddOp.deleteKey(addOpHash);
+                if (!this._validAddOpsPerElmt.hasKey(elementHash)) {
+                    this._allElements.delete(elementHash);
+                }
+                return false;
+            }
+
             const wasInBefore = this._currentAddOpsPerElmt.get(elementHash).size > 0;
 
             if ( this._validAddOpsPerElmt.has(elementHash, addOpHash) && 
@@ -512,9 +566,67 @@ class CausalSet<T> extends BaseCausalCollection<T> implements CausalCollection<T
 
         }
 
+        for (const evictedOpHash of evicted) {
+            this.evictAddOp(evictedOpHash);
+        }
+
         return mutated;
     }
 
+    // Forgets an addition that has fallen out of the eviction window, removing the element if no
+    // other current addition holds it.
+
+    private evictAddOp(addOpHash: Hash) {
+
+        let elementHash: Hash|undefined = undefined;
+
+        const addOp = this._currentAddOps.get(addOpHash);
+
+        if (addOp !== undefined) {
+            elementHash = HashedObject.hashElement(addOp.getElement());
+        } else {
+            // not current (deleted or undone): look for it among the valid ones, there are at most
+            // as many as fit in the window
+            for (const [elmtHash, addOpHashes] of this._validAddOpsPerElmt.entries()) {
+                if (addOpHashes.has(addOpHash)) {
+                    elementHash = elmtHash;
+                    break;
+                }
+            }
+        }
+
+        this._validDeleteOpsPerAddOp.deleteKey(addOpHash);
+
+        if (elementHash === undefined) {
+            return;
+        }
+
+        const wasInBefore = this._currentAddOpsPerElmt.get(elementHash).size > 0;
+
+        this._validAddOpsPerElmt.delete(elementHash, addOpHash);
+        this._currentAddOps.delete(addOpHash);
+        this._currentAddOpsPerElmt.delete(elementHash, addOpHash);
+
+        const isInNow = this._currentAddOpsPerElmt.get(elementHash).size > 0;
+
+        const element = this._allElements.get(elementHash);
+
+        if (!this._validAddOpsPerElmt.hasKey(elementHash)) {
+            this._allElements.delete(elementHash);
+        }
+
+        if (wasInBefore && !isInNow) {
+            this._mutationEventSource?.emit({emitter: this, action: MutableSetEvents.Delete, data: element});
+            if (element instanceof HashedObject) {
+                this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.RemoveObject, data: element});
+            }
+        }
+    }
+
+    protected supportsCapacity() {
+        return true;
+    }
+
     init(): void {
         
     }
@@ -0,0 +1,633 @@
+import { MultiMap } from 'util/multimap';
+import { HybridClock, Timestamps } from 'util/timestamps';
+import { RNGImpl } from 'crypto/random';
+
+import { Identity } from '../../identity';
+import { Hash, HashedObject, MutableObject, MutationOp, MutableContentEvents, ClassRegistry } from '../../model';
+
+import { Authorization, Authorizer, Verification } from '../../model/causal/Authorization';
+
+import { AuthError, BaseCausalCollection, CausalCollectionConfig } from './CausalCollection';
+
+/*
+ * CausalTree: A replicated tree (e.g. documents and folders), where nodes can be created, moved
+ *             to a different parent, and deleted. Every node can hold a value (a HashedObject or
+ *             a literal), and all of them descend from an implicit root node (CausalTree.rootId).
+ *
+ *             Each op carries a hybrid logical clock timestamp, and the tree is the result of
+ *             applying all the valid ops in (timestamp, author hash, op hash) order, skipping any
+ *             ops that would create a cycle, or that refer to missing or deleted nodes. Since
+ *             all peers use the same order, they all end up with the same tree, and since moves
+ *             are checked against the tree that results from the ops that come before them, the
+ *             result is always a tree, even when there are concurrent moves. Deleting a node is
+ *             final: its whole subtree disappears (unless some of it was moved elsewhere by an op
+ *             that comes later). An op's timestamp must come after those of its prevOps (how
+ *             far ahead of the local clock received timestamps can drag the tree's own is
+ *             bounded by HybridClock.update).
+ *
+ *             Write rights can be customized per node by overriding the createCreateAuthorizer,
+ *             createMoveAuthorizer and createDeleteAuthorizer methods (by default, the tree's
+ *             writers / mutableWriters apply to all nodes). If authorization is revoked, the ops
+ *             it enabled are undone, and the tree is re-computed without them.
+ */
+
+type NodeId = string;
+
+abstract class TreeOp extends MutationOp {
+
+    node?: NodeId;
+    timestamp?: string;
+
+    constructor(targetObject?: CausalTree, node?: NodeId, timestamp?: string, author?: Identity) {
+        super(targetObject);
+
+        if (targetObject !== undefined) {
+            this.node = node;
+            this.timestamp = timestamp;
+
+            if (author !== undefined) {
+                this.setAuthor(author);
+            }
+        }
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        if (!(this.getTargetObject() instanceof CausalTree)) {
+            return false;
+        }
+
+        if (typeof(this.node) !== 'string' || this.node === CausalTree.rootId) {
+            MutableObject.validationLog.debug('The field node should be a string (and not the root id) in class ' + this.getClassName());
+            return false;
+        }
+
+        if (!HybridClock.isTimestamp(this.timestamp)) {
+            MutableObject.validationLog.debug('The field timestamp should be a hybrid clock timestamp in class ' + this.getClassName());
+            return false;
+        }
+
+        // ops are ordered by timestamp, so they can't be placed before the ops they have seen
+
+        for (const prevOpRef of this.getPrevOps()) {
+            const prevOp = references.get(prevOpRef.hash);
+
+            if (prevOp instanceof TreeOp && !Timestamps.after(this.getTimestamp(), prevOp.getTimestamp())) {
+                MutableObject.validationLog.debug('The timestamp of ' + this.getClassName() + ' ' + this.hash() + ' should come after the ones of its prevOps');
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    getNode() {
+        return this.node as NodeId;
+    }
+
+    getTimestamp() {
+        return this.timestamp as string;
+    }
+}
+
+class CreateOp extends TreeOp {
+
+    static className = 'hhs/v0/CausalTree/CreateOp';
+
+    parent?: NodeId;
+    value?: any;
+
+    constructor(targetObject?: CausalTree, node?: NodeId, parent?: NodeId, value?: any, timestamp?: string, author?: Identity) {
+        super(targetObject, node, timestamp, author);
+
+        if (targetObject !== undefined) {
+            this.parent = parent;
+            this.value = value;
+        }
+    }
+
+    getClassName(): string {
+        return CreateOp.className;
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        if (typeof(this.parent) !== 'string') {
+            MutableObject.validationLog.debug('The field parent should be a string in class CausalTree/CreateOp');
+            return false;
+        }
+
+        if (this.value !== undefined && !(this.value instanceof HashedObject || HashedObject.isLiteral(this.value))) {
+            MutableObject.validationLog.debug('The field value in class CausalTree/CreateOp must either be a HashedObject instance or a pure literal (a constant, without any HashedObjects within).');
+            return false;
+        }
+
+        return true;
+    }
+
+    getParent() {
+        return this.parent as NodeId;
+    }
+}
+
+class MoveOp extends TreeOp {
+
+    static className = 'hhs/v0/CausalTree/MoveOp';
+
+    newParent?: NodeId;
+
+    constructor(targetObject?: CausalTree, node?: NodeId, newParent?: NodeId, timestamp?: string, author?: Identity) {
+        super(targetObject, node, timestamp, author);
+
+        if (targetObject !== undefined) {
+            this.newParent = newParent;
+        }
+    }
+
+    getClassName(): string {
+        return MoveOp.className;
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        if (typeof(this.newParent) !== 'string') {
+            MutableObject.validationLog.debug('The field newParent should be a string in class CausalTree/MoveOp');
+            return false;
+        }
+
+        return true;
+    }
+
+    getNewParent() {
+        return this.newParent as NodeId;
+    }
+}
+
+class DeleteOp extends TreeOp {
+
+    static className = 'hhs/v0/CausalTree/DeleteOp';
+
+    getClassName(): string {
+        return DeleteOp.className;
+    }
+}
+
+class CausalTree extends BaseCausalCollection<any> {
+
+    static className = 'hhs/v0/CausalTree';
+    static opClasses = [CreateOp.className, MoveOp.className, DeleteOp.className];
+
+    static rootId: NodeId = 'root';
+
+    _clock: HybridClock;
+
+    // all the valid ops, the tree is re-computed from them when needed
+    _validOps: Map<Hash, TreeOp>;
+
+    _needToRebuild: boolean;
+
+    _parents  : Map<NodeId, NodeId>;
+    _children : MultiMap<NodeId, NodeId>;
+    _values   : Map<NodeId, any>;
+    _created  : Map<NodeId, number>;  // the position of each node's creation, to sort children
+    _deleted  : Set<NodeId>;
+
+    constructor(config?: CausalCollectionConfig) {
+        super(CausalTree.opClasses, {...config, supportsUndo: true});
+
+        this.setRandomId();
+
+        this._clock = new HybridClock();
+
+        this._validOps = new Map();
+
+        this._needToRebuild = false;
+
+        this._parents  = new Map();
+        this._children = new MultiMap();
+        this._values   = new Map();
+        this._created  = new Map();
+        this._deleted  = new Set();
+    }
+
+    getClassName(): string {
+        return CausalTree.className;
+    }
+
+    init(): void {
+
+    }
+
+    // canCreate, canMove, canDelete: if a parameter is absent, interpret it as if the operation is
+    //                                allowed for any possible value (see CausalSet.canAdd).
+
+    canCreate(parent?: NodeId, value?: any, author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
+        return Authorization.chain(this.createCreateAuthorizer(parent, value, author), extraAuth).attempt();
+    }
+
+    canMove(node?: NodeId, newParent?: NodeId, author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
+        return Authorization.chain(this.createMoveAuthorizer(node, newParent, author), extraAuth).attempt();
+    }
+
+    canDelete(node?: NodeId, author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
+        return Authorization.chain(this.createDeleteAuthorizer(node, author), extraAuth).attempt();
+    }
+
+    async create(parent: NodeId=CausalTree.rootId, value?: any, author?: Identity, extraAuth?: Authorizer): Promise<NodeId> {
+
+        if (value !== undefined && !(value instanceof HashedObject) && !HashedObject.isLiteral(value)) {
+            throw new Error('CausalTree node values can be either a class deriving from HashedObject or a pure literal (a constant, without any HashedObjects within).');
+        }
+
+        if (value !== undefined && !this.shouldAcceptElement(value)) {
+            throw new Error('CausalTree has type/element contraints that reject the value of the node that is being created:' + value);
+        }
+
+        if (!this.has(parent)) {
+            throw new Error('Cannot create a node in CausalTree ' + this.hash() + ': parent node ' + parent + ' is not in the tree.');
+        }
+
+        const node = new RNGImpl().randomHexString(128);
+
+        const op = new CreateOp(this, node, parent, value, this._clock.nowAfter(this.getTerminalTimestamps()), author);
+
+        await this.authorizeAndApply(op, this.createCreateAuthorizer(parent, value, author), extraAuth);
+
+        return node;
+    }
+
+    async move(node: NodeId, newParent: NodeId, author?: Identity, extraAuth?: Authorizer): Promise<void> {
+
+        if (!this.has(node)) {
+            throw new Error('Cannot move node ' + node + ' in CausalTree ' + this.hash() + ': it is not in the tree.');
+        }
+
+        if (!this.has(newParent)) {
+            throw new Error('Cannot move node ' + node + ' in CausalTree ' + this.hash() + ': new parent ' + newParent + ' is not in the tree.');
+        }
+
+        if (node === newParent || this.isAncestorOf(node, newParent)) {
+            throw new Error('Cannot move node ' + node + ' in CausalTree ' + this.hash() + ': new parent ' + newParent + ' is the node itself or one of its descendants.');
+        }
+
+        const op = new MoveOp(this, node, newParent, this._clock.nowAfter(this.getTerminalTimestamps()), author);
+
+        await this.authorizeAndApply(op, this.createMoveAuthorizer(node, newParent, author), extraAuth);
+    }
+
+    async delete(node: NodeId, author?: Identity, extraAuth?: Authorizer): Promise<boolean> {
+
+        if (!this.has(node) || node === CausalTree.rootId) {
+            return false;
+        }
+
+        const op = new DeleteOp(this, node, this._clock.nowAfter(this.getTerminalTimestamps()), author);
+
+        await this.authorizeAndApply(op, this.createDeleteAuthorizer(node, author), extraAuth);
+
+        return true;
+    }
+
+    // A node is in the tree if it was created and neither it nor any of its ancestors was deleted.
+
+    has(node: NodeId): boolean {
+        this.rebuild();
+
+        if (node === CausalTree.rootId) {
+            return true;
+        }
+
+        let current: NodeId|undefined = node;
+
+        while (current !== undefined && current !== CausalTree.rootId) {
+            if (this._deleted.has(current)) {
+                return false;
+            }
+
+            current = this._parents.get(current);
+        }
+
+        return current === CausalTree.rootId;
+    }
+
+    getParent(node: NodeId): NodeId|undefined {
+        return this.has(node)? this._parents.get(node) : undefined;
+    }
+
+    // The children of a node, in the order they were created.
+
+    getChildren(node: NodeId=CausalTree.rootId): Array<NodeId> {
+
+        if (!this.has(node)) {
+            return [];
+        }
+
+        const children = Array.from(this._children.get(node)).filter((child: NodeId) => !this._deleted.has(child));
+
+        children.sort((c1: NodeId, c2: NodeId) => (this._created.get(c1) as number) - (this._created.get(c2) as number));
+
+        return children;
+    }
+
+    getValue(node: NodeId): any {
+        return this.has(node)? this._values.get(node) : undefined;
+    }
+
+    // The path from the root to the node (both included).
+
+    getPath(node: NodeId): Array<NodeId> {
+
+        if (!this.has(node)) {
+            return [];
+        }
+
+        const path: Array<NodeId> = [];
+
+        let current: NodeId|undefined = node;
+
+        while (current !== undefined) {
+            path.push(current);
+            current = this._parents.get(current);
+        }
+
+        return path.reverse();
+    }
+
+    // True if node is a (strict) ancestor of other.
+
+    isAncestorOf(node: NodeId, other: NodeId): boolean {
+        this.rebuild();
+
+        return this.checkAncestry(node, other);
+    }
+
+    private checkAncestry(node: NodeId, other: NodeId): boolean {
+
+        let current = this._parents.get(other);
+
+        while (current !== undefined) {
+            if (current === node) {
+                return true;
+            }
+
+            current = this._parents.get(current);
+        }
+
+        return false;
+    }
+
+    size(): number {
+        this.rebuild();
+
+        let size = 0;
+
+        for (const node of this._parents.keys()) {
+            if (this.has(node)) {
+                size = size + 1;
+            }
+        }
+
+        return size;
+    }
+
+    async mutate(op: MutationOp, valid: boolean): Promise<boolean> {
+
+        let mutated = false;
+
+        if (op instanceof TreeOp) {
+
+            this._clock.update(op.getTimestamp());
+
+            if (valid) {
+                mutated = !this._validOps.has(op.getLastHash());
+                this._validOps.set(op.getLastHash(), op);
+            } else {
+                mutated = this._validOps.delete(op.getLastHash());
+            }
+
+            if (mutated) {
+
+                this._needToRebuild = true;
+
+                let action: string;
+
+                if (op instanceof CreateOp) {
+                    action = 'create';
+                } else if (op instanceof MoveOp) {
+                    action = 'move';
+                } else {
+                    action = 'delete';
+                }
+
+                this._mutationEventSource?.emit({emitter: this, action: valid? action : 'undo-' + action, data: op.getNode()});
+
+                if (op instanceof CreateOp && op.value instanceof HashedObject) {
+                    this._mutationEventSource?.emit({emitter: this, action: valid? MutableContentEvents.AddObject : MutableContentEvents.RemoveObject, data: op.value});
+                }
+            }
+        }
+
+        return mutated;
+    }
+
+    private rebuild() {
+
+        if (this._needToRebuild) {
+
+            this._parents  = new Map();
+            this._children = new MultiMap();
+            this._values   = new Map();
+            this._created  = new Map();
+            this._deleted  = new Set();
+
+            const ops = Array.from(this._validOps.values());
+
+            ops.sort(CausalTree.compareOps);
+
+            for (const op of ops) {
+
+                const node = op.getNode();
+
+                if (op instanceof CreateOp) {
+
+                    const parent = op.getParent();
+
+                    if (!this._created.has(node) && (parent === CausalTree.rootId || this._created.has(parent))) {
+                        this._created.set(node, this._created.size);
+                        this._values.set(node, op.value);
+                        this.setParent(node, parent);
+                    }
+
+                } else if (op instanceof MoveOp) {
+
+                    const newParent = op.getNewParent();
+
+                    if (this._created.has(node) && !this._deleted.has(node) &&
+                        (newParent === CausalTree.rootId || this._created.has(newParent)) &&
+                        node !== newParent && !this.checkAncestry(node, newParent)) {
+
+                        this.setParent(node, newParent);
+                    }
+
+                } else if (op instanceof DeleteOp) {
+                    this._deleted.add(node);
+                }
+            }
+
+            this._needToRebuild = false;
+        }
+    }
+
+    private setParent(node: NodeId, parent: NodeId) {
+
+        const oldParent = this._parents.get(node);
+
+        if (oldParent !== undefined) {
+            this._children.delete(oldParent, node);
+        }
+
+        this._parents.set(node, parent);
+        this._children.add(parent, node);
+    }
+
+    // The timestamps of the ops that a new op will have as prevOps (see setCurrentPrevOpsTo).
+
+    private getTerminalTimestamps(): Array<string> {
+        return Array.from(this._terminalOps.values()).filter((op: MutationOp) => op instanceof TreeOp).map((op: MutationOp) => (op as TreeOp).getTimestamp());
+    }
+
+    private async authorizeAndApply(op: TreeOp, authorizer: Authorizer, extraAuth?: Authorizer) {
+
+        const auth = Authorization.chain(authorizer, extraAuth);
+
+        this.setCurrentPrevOpsTo(op);
+
+        if (!(await auth.attempt(op))) {
+            throw new AuthError('Cannot authorize ' + op.getClassName() + ' on CausalTree ' + this.hash() + ', author is: ' + op.getAuthor()?.hash());
+        }
+
+        return this.applyNewOp(op);
+    }
+
+    getMutableContents(): MultiMap<Hash, HashedObject> {
+        const contents = new MultiMap<Hash, HashedObject>();
+
+        for (const op of this._validOps.values()) {
+            if (op instanceof CreateOp && op.value instanceof HashedObject) {
+                contents.add(op.value.hash(), op.value);
+            }
+        }
+
+        return contents;
+    }
+
+    getMutableContentByHash(hash: Hash): Set<HashedObject> {
+
+        const found = new Set<HashedObject>();
+
+        for (const op of this._validOps.values()) {
+            if (op instanceof CreateOp && op.value instanceof HashedObject && op.value.hash() === hash) {
+                found.add(op.value);
+            }
+        }
+
+        return found;
+    }
+
+    shouldAcceptMutationOp(op: MutationOp, opReferences: Map<Hash, HashedObject>): boolean {
+
+        if (!super.shouldAcceptMutationOp(op, opReferences)) {
+            return false;
+        }
+
+        if (op instanceof CreateOp && op.value !== undefined && !this.shouldAcceptElement(op.value)) {
+            return false;
+        }
+
+        if (op instanceof TreeOp) {
+
+            const author = op.getAuthor();
+
+            let auth: Authorizer;
+
+            if (op instanceof CreateOp) {
+                auth = this.createCreateAuthorizer(op.getParent(), op.value, author);
+            } else if (op instanceof MoveOp) {
+                auth = this.createMoveAuthorizer(op.getNode(), op.getNewParent(), author);
+            } else {
+                auth = this.createDeleteAuthorizer(op.getNode(), author);
+            }
+
+            const usedKeys = new Set<string>();
+
+            if (!auth.verify(op, usedKeys)) {
+                return false;
+            }
+
+            if (!Verification.checkKeys(usedKeys, op)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    protected createCreateAuthorizer(_parent?: NodeId, _value?: any, author?: Identity): Authorizer {
+        return this.createWriteAuthorizer(author);
+    }
+
+    protected createMoveAuthorizer(_node?: NodeId, _newParent?: NodeId, author?: Identity): Authorizer {
+        return this.createWriteAuthorizer(author);
+    }
+
+    protected createDeleteAuthorizer(_node?: NodeId, author?: Identity): Authorizer {
+        return this.createWriteAuthorizer(author);
+    }
+
+    // sign(op1 - op2): by timestamp, then author hash (anonymous ops go first), then op hash.
+
+    private static compareOps(op1: TreeOp, op2: TreeOp): number {
+
+        const byTimestamp = Timestamps.compare(op1.getTimestamp(), op2.getTimestamp());
+
+        if (byTimestamp !== 0) {
+            return byTimestamp;
+        }
+
+        const author1 = op1.getAuthor()?.hash() || '';
+        const author2 = op2.getAuthor()?.hash() || '';
+
+        if (author1 !== author2) {
+            return author1 < author2? -1 : 1;
+        }
+
+        const hash1 = op1.getLastHash();
+        const hash2 = op2.getLastHash();
+
+        return hash1 === hash2? 0 : (hash1 < hash2? -1 : 1);
+    }
+}
+
+ClassRegistry.register(CreateOp.className, CreateOp);
+ClassRegistry.register(MoveOp.className, MoveOp);
+ClassRegistry.register(DeleteOp.className, DeleteOp);
+ClassRegistry.register(CausalTree.className, CausalTree);
+
+export { CausalTree, CreateOp as CausalTreeCreateOp, MoveOp as CausalTreeMoveOp, DeleteOp as CausalTreeDeleteOp };
+export type { NodeId as CausalTreeNodeId };
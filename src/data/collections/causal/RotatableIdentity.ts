@@ -0,0 +1,730 @@
+import { Identity } from '../../identity';
+import { Hash, HashedObject, HashedSet, HashReference, MutableObject, MutationOp, InvalidateAfterOp, MutableContentEvents, ClassRegistry } from '../../model';
+import { Authorizer, Verification } from '../../model/causal/Authorization';
+import { MutableSetEvents } from '../mutable/MutableSet';
+import { AuthError, CausalCollection } from './CausalCollection';
+
+import { MultiMap } from 'util/multimap';
+
+/*
+ * RotatableIdentity: a self-certifying key log. Its hash (and hence the identity it represents)
+ *                    is determined by its initial key, and keys are changed by rotation ops,
+ *                    each signed by the key it replaces. Keys can also be revoked.
+ *
+ *                    It implements CausalCollection<Identity> over its current keys, so it can
+ *                    be used as the mutableWriters of any causal collection: an op signed by one
+ *                    of the keys is accepted if it attests that the key was current at the op's
+ *                    causal point.
+ *
+ *                    A revocation is an InvalidateAfterOp targeting the op that introduced the
+ *                    revoked key: anything done using that key that is not in the revocation's
+ *                    causal past (including later rotations) will be undone by the cascading
+ *                    undo mechanism. A rotation, instead, just prevents the old key from being
+ *                    used by whomever has seen it: ops using a key that have a rotation of that
+ *                    key in their causal past are rejected (see hasRotationInCausalPast below).
+ */
+
+class KeyRotationOp extends MutationOp {
+    static className = 'hhs/v0/RotatableIdentity/KeyRotationOp';
+
+    newKey?: Identity;
+
+    // Signed by the key being replaced, that is attested using the op that introduced it as a
+    // causalOp (see createKeyAuthorizer below). The initial key is introduced by a "genesis"
+    // rotation op, that has no causalOps and no prevOps (thus its hash is deterministic).
+
+    constructor(targetObject?: RotatableIdentity, newKey?: Identity, author?: Identity) {
+        super(targetObject);
+
+        if (newKey !== undefined) {
+            this.newKey = newKey;
+        }
+
+        if (author !== undefined) {
+            this.setAuthor(author);
+        }
+    }
+
+    getClassName(): string {
+        return KeyRotationOp.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>): Promise<boolean> {
+
+        if (!(await super.validate(references))) {
+            return false;
+        }
+
+        const target = this.getTargetObject();
+
+        if (!(target instanceof RotatableIdentity)) {
+            return false;
+        }
+
+        if (!(this.newKey instanceof Identity)) {
+            RotatableIdentity.validationLog.debug('The new key for KeyRotationOp ' + this.hash() + ' is not an instance of Identity');
+            return false;
+        }
+
+        const author = this.getAuthor();
+
+        if (author === undefined) {
+            RotatableIdentity.validationLog.debug('KeyRotationOp ' + this.hash() + ' has no author');
+            return false;
+        }
+
+        if (this.isGenesis()) {
+            if (!author.equals(target.getInitialKey()) || !this.newKey.equals(target.getInitialKey())) {
+                RotatableIdentity.validationLog.debug('The genesis KeyRotationOp ' + this.hash() + ' should introduce the initial key, and be signed by it');
+                return false;
+            }
+
+            if ((this.prevOps as HashedSet<HashReference<MutationOp>>).size() > 0) {
+                RotatableIdentity.validationLog.debug('The genesis KeyRotationOp ' + this.hash() + ' should have no prevOps');
+                return false;
+            }
+        } else {
+            const keyOp = this.getCausalOps().get('signing-key') as KeyRotationOp;
+
+            if (await RotatableIdentity.hasRotationInCausalPast(this, keyOp, references)) {
+                RotatableIdentity.validationLog.debug('KeyRotationOp ' + this.hash() + ' is signed by key op ' + keyOp.hash() + ', that was rotated away in its causal past');
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    isGenesis() {
+        return !this.hasCausalOps();
+    }
+
+    getNewKey() {
+        return this.newKey as Identity;
+    }
+}
+
+class KeyRevocationOp extends InvalidateAfterOp {
+    static className = 'hhs/v0/RotatableIdentity/KeyRevocationOp';
+
+    constructor(targetOp?: KeyRotationOp, author?: Identity) {
+        super(targetOp);
+
+        if (author !== undefined) {
+            this.setAuthor(author);
+        }
+    }
+
+    getClassName(): string {
+        return KeyRevocationOp.className;
+    }
+
+    async validate(references: Map<Hash, HashedObject>): Promise<boolean> {
+
+        if (!(await super.validate(references))) {
+            return false;
+        }
+
+        if (!(this.targetOp instanceof KeyRotationOp)) {
+            return false;
+        }
+
+        if (this.getAuthor() === undefined) {
+            RotatableIdentity.validationLog.debug('KeyRevocationOp ' + this.hash() + ' has no author');
+            return false;
+        }
+
+        const keyOp = this.getCausalOps().get('signing-key') as KeyRotationOp;
+
+        if (await RotatableIdentity.hasRotationInCausalPast(this, keyOp, references)) {
+            RotatableIdentity.validationLog.debug('KeyRevocationOp ' + this.hash() + ' is signed by key op ' + keyOp.hash() + ', that was rotated away in its causal past');
+            return false;
+        }
+
+        return true;
+    }
+
+    getKeyOp(): KeyRotationOp {
+        return this.getTargetOp() as KeyRotationOp;
+    }
+
+    getRevokedKey(): Identity {
+        return this.getKeyOp().getNewKey();
+    }
+}
+
+class KeyAttestationOp extends MutationOp {
+    static className = 'hhs/v0/RotatableIdentity/KeyAttestationOp';
+
+    targetOpNonCausalHash?: Hash;
+
+    constructor(keyOp?: KeyRotationOp, targetOp?: MutationOp) {
+        super(keyOp?.getTargetObject());
+
+        if (keyOp !== undefined) {
+            if (targetOp === undefined) {
+                throw new Error('Attempted to construct a RotatableIdentity KeyAttestationOp, but no targetOp was provided.');
+            }
+
+            this.addCausalOp('key-op', keyOp);
+            this.setAuthor(keyOp.getNewKey());
+
+            this.targetOpNonCausalHash = targetOp.nonCausalHash();
+        }
+    }
+
+    getClassName(): string {
+        return KeyAttestationOp.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>): Promise<boolean> {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        if (this.getCausalOps().size() !== 1) {
+            RotatableIdentity.validationLog.debug('KeyAttestationOps should have exactly one causalOp');
+            return false;
+        }
+
+        const keyOp = this.getKeyOp();
+
+        if (!(keyOp instanceof KeyRotationOp)) {
+            RotatableIdentity.validationLog.debug('keyOp is missing from KeyAttestationOp ' + this.hash());
+            return false;
+        }
+
+        if (!keyOp.getTargetObject().equals(this.getTargetObject())) {
+            RotatableIdentity.validationLog.debug('keyOp for KeyAttestationOp ' + this.hash() + ' has a different target');
+            return false;
+        }
+
+        if (!keyOp.getNewKey().equals(this.getAuthor())) {
+            RotatableIdentity.validationLog.debug('KeyAttestationOp ' + this.hash() + ' should be signed by the key it attests');
+            return false;
+        }
+
+        if (this.targetOpNonCausalHash === undefined) {
+            RotatableIdentity.validationLog.debug('targetOpNonCausalHash is missing for KeyAttestationOp ' + this.hash());
+            return false;
+        }
+
+        if (await RotatableIdentity.hasRotationInCausalPast(this, keyOp, references)) {
+            RotatableIdentity.validationLog.debug('KeyAttestationOp ' + this.hash() + ' attests key op ' + keyOp.hash() + ', that was rotated away in its causal past');
+            return false;
+        }
+
+        return true;
+    }
+
+    getKeyOp() {
+        return this.getCausalOps().get('key-op') as KeyRotationOp;
+    }
+}
+
+class RotatableIdentity extends MutableObject implements CausalCollection<Identity> {
+
+    static className = 'hhs/v0/RotatableIdentity';
+    static opClasses = [KeyRotationOp.className, KeyRevocationOp.className, KeyAttestationOp.className];
+
+    info?: any;
+    initialKey?: Identity;
+
+    // valid: all rotations and revocations that have NOT been invalidated.
+    _validKeyOps             : Map<Hash, KeyRotationOp>;
+    _validKeyOpsPerKey       : MultiMap<Hash, Hash>;
+    _validRotationsPerKeyOp  : MultiMap<Hash, Hash>;
+    _validRevocationsPerKeyOp: MultiMap<Hash, Hash>;
+
+    // current: the ops introducing keys that have not been rotated away or revoked
+    _currentKeyOpsPerKey     : MultiMap<Hash, Hash>;
+
+    _allKeys: Map<Hash, Identity>;
+
+    constructor(initialKey?: Identity, info?: any) {
+        super(RotatableIdentity.opClasses, {supportsUndo: true});
+
+        if (initialKey !== undefined) {
+            if (!(initialKey instanceof Identity)) {
+                throw new Error('RotatableIdentity: the initial key must be an instance of the Identity class');
+            }
+
+            this.initialKey = initialKey;
+        }
+
+        if (info !== undefined) {
+            this.info = info;
+        }
+
+        this._validKeyOps              = new Map();
+        this._validKeyOpsPerKey        = new MultiMap();
+        this._validRotationsPerKeyOp   = new MultiMap();
+        this._validRevocationsPerKeyOp = new MultiMap();
+
+        this._currentKeyOpsPerKey = new MultiMap();
+
+        this._allKeys = new Map();
+    }
+
+    getClassName() {
+        return RotatableIdentity.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>): Promise<boolean> {
+        references;
+
+        return this.initialKey instanceof Identity;
+    }
+
+    getInitialKey(): Identity {
+        return this.initialKey as Identity;
+    }
+
+    getCurrentKeys(): Array<Identity> {
+        return Array.from(this.values());
+    }
+
+    // Replaces currentKey (that can be omitted if there is a single current key) with newKey.
+    // The rotation op is signed by currentKey, so its key pair must be available.
+
+    async rotate(newKey: Identity, currentKey?: Identity): Promise<void> {
+
+        if (!(newKey instanceof Identity)) {
+            throw new Error('RotatableIdentity: the new key must be an instance of the Identity class');
+        }
+
+        if (currentKey === undefined) {
+            currentKey = this.getSingleCurrentKey();
+        }
+
+        if (this.has(newKey)) {
+            throw new Error('RotatableIdentity: key ' + newKey.hash() + ' is already a current key of ' + this.hash());
+        }
+
+        await this.createGenesisOpIfNecessary();
+
+        const rotationOp = new KeyRotationOp(this, newKey, currentKey);
+
+        this.setCurrentPrevOpsTo(rotationOp);
+
+        if (!(await this.createKeyAuthorizer(currentKey).attempt(rotationOp))) {
+            throw new AuthError('Cannot authorize key rotation on RotatableIdentity ' + this.hash() + ', ' + currentKey.hash() + ' is not a current key');
+        }
+
+        return this.applyNewOp(rotationOp);
+    }
+
+    // Revokes key: anything done using it that has not been seen by the revocation is undone.
+
+    async revoke(key: Identity, author?: Identity): Promise<boolean> {
+
+        if (author === undefined) {
+            author = this.getSingleCurrentKey();
+        }
+
+        await this.createGenesisOpIfNecessary();
+
+        const revocationOps: Array<KeyRevocationOp> = [];
+
+        for (const keyOpHash of this._validKeyOpsPerKey.get(key.hash())) {
+
+            if (this._validRevocationsPerKeyOp.get(keyOpHash).size > 0) {
+                continue;
+            }
+
+            const revocationOp = new KeyRevocationOp(this._validKeyOps.get(keyOpHash), author);
+
+            this.setCurrentPrevOpsTo(revocationOp);
+
+            if (!(await this.createKeyAuthorizer(author).attempt(revocationOp))) {
+                throw new AuthError('Cannot authorize key revocation on RotatableIdentity ' + this.hash() + ', ' + author.hash() + ' is not a current key');
+            }
+
+            revocationOps.push(revocationOp);
+        }
+
+        for (const revocationOp of revocationOps) {
+            await this.applyNewOp(revocationOp);
+        }
+
+        return revocationOps.length > 0;
+    }
+
+    isRevoked(key: Identity): boolean {
+
+        for (const keyOpHash of this._validKeyOpsPerKey.get(key.hash())) {
+            if (this._validRevocationsPerKeyOp.get(keyOpHash).size > 0) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    has(key: Identity): boolean {
+        return this.hasByHash(key.hash());
+    }
+
+    // The initial key is current until the genesis op is created (it is created lazily, the
+    // first time the initial key is used).
+
+    hasByHash(hash: Hash): boolean {
+        return this._currentKeyOpsPerKey.get(hash).size > 0 ||
+               (!this.hasGenesisOp() && hash === this.initialKey?.hash());
+    }
+
+    values(): IterableIterator<Identity> {
+
+        if (!this.hasGenesisOp() && this.initialKey !== undefined) {
+            return [this.initialKey].values();
+        }
+
+        return Array.from(this._currentKeyOpsPerKey.keys()).map((h: Hash) => this._allKeys.get(h) as Identity).values();
+    }
+
+    attestationKey(key: Identity) {
+        return this.attestationKeyByHash(key.hash());
+    }
+
+    attestationKeyByHash(hash: Hash) {
+        return 'RotatableIdentity/attest:' + hash + '-is-key-for-' + this.hash();
+    }
+
+    async attestMembershipForOp(key: Identity, op?: MutationOp): Promise<boolean> {
+        return this.attestMembershipForOpByHash(key.hash(), op);
+    }
+
+    async attestMembershipForOpByHash(hash: Hash, op?: MutationOp): Promise<boolean> {
+
+        if (!this.hasByHash(hash)) {
+            return false;
+        }
+
+        if (op !== undefined) {
+            await this.createGenesisOpIfNecessary();
+
+            const keyOp    = this.getCurrentKeyOp(hash) as KeyRotationOp;
+            const attestOp = new KeyAttestationOp(keyOp, op);
+
+            await this.applyNewOp(attestOp);
+            op.addCausalOp(this.attestationKeyByHash(hash), attestOp);
+        }
+
+        return true;
+    }
+
+    verifyMembershipAttestationForOp(key: Identity, op: MutationOp, usedKeys: Set<string>): boolean {
+
+        const attestKey = this.attestationKey(key);
+
+        const attestOp = op.getCausalOps().get(attestKey);
+
+        if (!(attestOp instanceof KeyAttestationOp)) {
+            return false;
+        }
+
+        if (!attestOp.getTargetObject().equals(this)) {
+            return false;
+        }
+
+        if (attestOp.targetOpNonCausalHash !== op.nonCausalHash()) {
+            return false;
+        }
+
+        if (!attestOp.getKeyOp().getNewKey().equals(key)) {
+            return false;
+        }
+
+        usedKeys.add(attestKey);
+
+        return true;
+    }
+
+    createMembershipAuthorizer(key: Identity): Authorizer {
+
+        return {
+            attempt : (op?:  MutationOp) => this.attestMembershipForOp(key, op),
+            verify  : (op: MutationOp, usedKeys: Set<string>) => this.verifyMembershipAttestationForOp(key, op, usedKeys)
+        };
+    }
+
+    shouldAcceptMutationOp(op: MutationOp, opReferences: Map<Hash, HashedObject>): boolean {
+
+        if (!super.shouldAcceptMutationOp(op, opReferences)) {
+            return false;
+        }
+
+        if ((op instanceof KeyRotationOp && !op.isGenesis()) || op instanceof KeyRevocationOp) {
+
+            const usedKeys = new Set<string>();
+
+            if (!this.createKeyAuthorizer(op.getAuthor() as Identity).verify(op, usedKeys)) {
+                return false;
+            }
+
+            if (!Verification.checkKeys(usedKeys, op)) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    // Looks for a rotation of keyOp in the full causal past of op, used when validating rotations,
+    // revocations and attestations. The prevOps that are not in references are loaded from the
+    // store in op's resources (ops pruned by Store.compact can't be inspected). Since a rotation of
+    // keyOp depends on it, the walk does not need to go past keyOp itself.
+
+    static async hasRotationInCausalPast(op: MutationOp, keyOp: KeyRotationOp, references: Map<Hash, HashedObject>): Promise<boolean> {
+
+        const keyOpHash = keyOp.hash();
+        const store     = op.getResources()?.store;
+
+        const pending = Array.from(op.getPrevOps()).map((ref: HashReference<MutationOp>) => ref.hash);
+        const visited = new Set<Hash>();
+
+        while (pending.length > 0) {
+
+            const hash = pending.pop() as Hash;
+
+            if (visited.has(hash) || hash === keyOpHash) {
+                continue;
+            }
+
+            visited.add(hash);
+
+            let prevOp = references.get(hash);
+
+            if (prevOp === undefined && store !== undefined) {
+                prevOp = await store.loadWithoutMutations(hash);
+            }
+
+            if (!(prevOp instanceof MutationOp)) {
+                continue;
+            }
+
+            if (prevOp instanceof KeyRotationOp && !prevOp.isGenesis() &&
+                prevOp.getCausalOps().get('signing-key')?.hash() === keyOpHash) {
+
+                return true;
+            }
+
+            for (const prevOpRef of prevOp.getPrevOps()) {
+                pending.push(prevOpRef.hash);
+            }
+        }
+
+        return false;
+    }
+
+    async mutate(op: MutationOp, valid: boolean, cascade: boolean): Promise<boolean> {
+        cascade;
+
+        const keyOps: Array<KeyRotationOp> = [];
+
+        if (op instanceof KeyRotationOp) {
+
+            const keyOp     = op;
+            const keyOpHash = keyOp.hash();
+            const keyHash   = keyOp.getNewKey().hash();
+
+            this._allKeys.set(keyHash, keyOp.getNewKey());
+
+            if (valid) {
+                this._validKeyOps.set(keyOpHash, keyOp);
+                this._validKeyOpsPerKey.add(keyHash, keyOpHash);
+            } else {
+                this._validKeyOps.delete(keyOpHash);
+                this._validKeyOpsPerKey.delete(keyHash, keyOpHash);
+            }
+
+            keyOps.push(keyOp);
+
+            // a rotation retires the key that signed it
+            if (!keyOp.isGenesis()) {
+                const prevKeyOp = keyOp.getCausalOps().get('signing-key') as KeyRotationOp;
+
+                if (valid) {
+                    this._validRotationsPerKeyOp.add(prevKeyOp.hash(), keyOpHash);
+                } else {
+                    this._validRotationsPerKeyOp.delete(prevKeyOp.hash(), keyOpHash);
+                }
+
+                keyOps.push(prevKeyOp);
+            }
+
+        } else if (op instanceof KeyRevocationOp) {
+
+            const keyOp = op.getKeyOp();
+
+            if (valid) {
+                this._validRevocationsPerKeyOp.add(keyOp.hash(), op.hash());
+            } else {
+                this._validRevocationsPerKeyOp.delete(keyOp.hash(), op.hash());
+            }
+
+            keyOps.push(keyOp);
+        }
+
+        let mutated = false;
+
+        for (const keyOp of keyOps) {
+            mutated = this.updateCurrentKeyOp(keyOp) || mutated;
+        }
+
+        return mutated;
+    }
+
+    getMutableContents(): MultiMap<Hash, HashedObject> {
+        const contents = new MultiMap<Hash, HashedObject>();
+
+        for (const key of this.values()) {
+            contents.add(key.hash(), key);
+        }
+
+        return contents;
+    }
+
+    getMutableContentByHash(hash: Hash): Set<HashedObject> {
+
+        const found = new Set<HashedObject>();
+
+        const key = this._allKeys.get(hash);
+
+        if (key !== undefined) {
+            found.add(key);
+        }
+
+        return found;
+    }
+
+    // Rotations and revocations are signed by a current key, and carry the op that introduced
+    // it as a causalOp (so if that op is invalidated, they will be too).
+
+    protected createKeyAuthorizer(author: Identity): Authorizer {
+
+        const causalKey = 'signing-key';
+
+        return {
+            attempt : async (op?: MutationOp) => {
+
+                const keyOp = this.getCurrentKeyOp(author.hash());
+
+                if (keyOp === undefined) {
+                    return false;
+                }
+
+                op?.addCausalOp(causalKey, keyOp);
+
+                return true;
+            },
+            verify  : (op: MutationOp, usedKeys: Set<string>) => {
+
+                const keyOp = op.getCausalOps().get(causalKey);
+
+                if (!(keyOp instanceof KeyRotationOp) || !keyOp.getTargetObject().equals(this)) {
+                    return false;
+                }
+
+                if (!keyOp.getNewKey().equals(author)) {
+                    return false;
+                }
+
+                usedKeys.add(causalKey);
+
+                return true;
+            }
+        };
+    }
+
+    private getSingleCurrentKey(): Identity {
+
+        const currentKeys = this.getCurrentKeys();
+
+        if (currentKeys.length !== 1) {
+            throw new Error('RotatableIdentity ' + this.hash() + ' has ' + currentKeys.length + ' current keys, please specify which one to use.');
+        }
+
+        return currentKeys[0];
+    }
+
+    private getCurrentKeyOp(keyHash: Hash): KeyRotationOp|undefined {
+
+        const keyOpHash = this._currentKeyOpsPerKey.get(keyHash).values().next().value as Hash|undefined;
+
+        if (keyOpHash === undefined) {
+            return undefined;
+        }
+
+        return this._validKeyOps.get(keyOpHash);
+    }
+
+    // Only the initial key can be current before the genesis op exists, so whomever is using a
+    // current key at that point can sign it.
+
+    private async createGenesisOpIfNecessary() {
+
+        if (!this.hasGenesisOp()) {
+            const genesisOp = new KeyRotationOp(this, this.initialKey, this.initialKey);
+            genesisOp.prevOps = new HashedSet<HashReference<MutationOp>>();
+
+            await this.applyNewOp(genesisOp);
+        }
+    }
+
+    private hasGenesisOp() {
+        return this._allKeys.size > 0;
+    }
+
+    private updateCurrentKeyOp(keyOp: KeyRotationOp): boolean {
+
+        const keyOpHash = keyOp.hash();
+        const key       = keyOp.getNewKey();
+        const keyHash   = key.hash();
+
+        const wasCurrentBefore = this.hasByHash(keyHash);
+
+        if (this._validKeyOps.has(keyOpHash) &&
+            this._validRotationsPerKeyOp.get(keyOpHash).size === 0 &&
+            this._validRevocationsPerKeyOp.get(keyOpHash).size === 0) {
+
+            this._currentKeyOpsPerKey.add(keyHash, keyOpHash);
+        } else {
+            this._currentKeyOpsPerKey.delete(keyHash, keyOpHash);
+        }
+
+        const isCurrentNow = this.hasByHash(keyHash);
+
+        if (wasCurrentBefore !== isCurrentNow) {
+            if (isCurrentNow) {
+                this._mutationEventSource?.emit({emitter: this, action: MutableSetEvents.Add, data: key});
+                this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.AddObject, data: key});
+            } else {
+                this._mutationEventSource?.emit({emitter: this, action: MutableSetEvents.Delete, data: key});
+                this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.RemoveObject, data: key});
+            }
+        }
+
+        return wasCurrentBefore !== isCurrentNow;
+    }
+}
+
+ClassRegistry.register(KeyRotationOp.className, KeyRotationOp);
+ClassRegistry.register(KeyRevocationOp.className, KeyRevocationOp);
+ClassRegistry.register(KeyAttestationOp.className, KeyAttestationOp);
+ClassRegistry.register(RotatableIdentity.className, RotatableIdentity);
+
+export { RotatableIdentity, KeyRotationOp, KeyRevocationOp, KeyAttestationOp };
@@ -1,7 +1,10 @@
-import { HashedObject, HashedSet } from '../../model/immutable';
+import { Store } from 'storage/store';
+import { HashedObject, HashedSet, HashReference } from '../../model/immutable';
 import { MutableObject, MutableObjectConfig, MutationOp } from '../../model/mutable';
 import { Identity } from '../../identity';
 import { Hash} from '../../model/hashing'
+import { HybridClock } from 'util/timestamps';
+import { CollectionCapacity, EvictionWindow } from './EvictionWindow';
 
 
 type CollectionConfig = {
@@ -9,7 +12,8 @@ type CollectionConfig = {
     writer?: Identity,
     writers?: IterableIterator<Identity>,
     acceptedTypes?: Array<string>,
-    acceptedElements?: Array<any>
+    acceptedElements?: Array<any>,
+    capacity?: CollectionCapacity
 };
 
 interface Collection<T> {
@@ -27,6 +31,13 @@ abstract class BaseCollection<T> extends MutableObject {
     acceptedTypes?: HashedSet<string>;
     acceptedElementHashes?: HashedSet<Hash>;
 
+    // if present, only the most recent insertions are kept (see EvictionWindow)
+    maxElements?: number;
+    maxAge?: number;
+
+    _evictionWindow?: EvictionWindow;
+    _capacityClock?: HybridClock;
+
     constructor(acceptedOpClasses : Array<string>, config?: MutableObjectConfig & CollectionConfig) {
         super(acceptedOpClasses, config);
 
@@ -76,6 +87,19 @@ abstract class BaseCollection<T> extends MutableObject {
                 this.acceptedElementHashes.add(HashedObject.hashElement(acceptedElement));
             }
         }
+
+        if (config?.capacity !== undefined) {
+            if (!this.supportsCapacity()) {
+                throw new Error('Collection ' + this.getClassName() + ' does not support capacity limits.');
+            }
+
+            if (!EvictionWindow.isValidCapacity(config.capacity)) {
+                throw new Error('Collection capacity should have a maxElements and/or maxAge, and both should be positive integers.');
+            }
+
+            this.maxElements = config.capacity.maxElements;
+            this.maxAge      = config.capacity.maxAge;
+        }
     }
 
     async validate(references: Map<Hash, HashedObject>) {
@@ -105,9 +129,160 @@ abstract class BaseCollection<T> extends MutableObject {
             return false;
         }
 
+        if (this.hasCapacity() && (!this.supportsCapacity() || !EvictionWindow.isValidCapacity(this.getCapacity() as CollectionCapacity))) {
+            return false;
+        }
+
         return true;
     }
 
+    hasCapacity() {
+        return this.maxElements !== undefined || this.maxAge !== undefined;
+    }
+
+    getCapacity(): CollectionCapacity|undefined {
+
+        if (!this.hasCapacity()) {
+            return undefined;
+        }
+
+        const capacity: CollectionCapacity = {};
+
+        if (this.maxElements !== undefined) {
+            capacity.maxElements = this.maxElements;
+        }
+
+        if (this.maxAge !== undefined) {
+            capacity.maxAge = this.maxAge;
+        }
+
+        return capacity;
+    }
+
+    // Collections that can evict old elements override this, and use getEvictionWindow() and
+    // nextCapacityTimestamp() to do so.
+
+    protected supportsCapacity() {
+        return false;
+    }
+
+    // Created lazily: when a collection is loaded from the store, its constructor runs before the
+    // capacity fields are set.
+
+    protected getEvictionWindow(): EvictionWindow|undefined {
+
+        if (this._evictionWindow === undefined && this.hasCapacity()) {
+            this._evictionWindow = new EvictionWindow(this.getCapacity() as CollectionCapacity);
+        }
+
+        return this._evictionWindow;
+    }
+
+    // A hybrid clock timestamp for a new insertion that will have the given prevOps, or undefined
+    // if the collection has no capacity. It is kept within EvictionWindow.maxAdvance of the newest
+    // timestamp in its causal past, otherwise the insertion would be rejected (see
+    // checkCapacityTimestamp).
+
+    protected async nextCapacityTimestamp(prevOps: Array<MutationOp>): Promise<string|undefined> {
+
+        if (!this.hasCapacity()) {
+            return undefined;
+        }
+
+        const known = new Map<Hash, HashedObject>();
+
+        for (const op of this._unsavedOps.concat(prevOps)) {
+            known.set(op.hash(), op);
+        }
+
+        const latest = await BaseCollection.latestCausalTimestamp(prevOps.map((op: MutationOp) => op.hash()), known, this.getResources()?.store);
+
+        return EvictionWindow.clampAdvance(this.getCapacityClock().now(), latest);
+    }
+
+    // Insertions choose their own timestamps, so they are only accepted if they are not too far
+    // ahead of the ones in their causal past: otherwise, a single insertion stamped far into the
+    // future would push every other one out of a window with a maxAge.
+
+    static async checkCapacityTimestamp(op: MutationOp, timestamp: string, references: Map<Hash, HashedObject>): Promise<boolean> {
+
+        const prevOps = Array.from(op.getPrevOps()).map((ref: HashReference<MutationOp>) => ref.hash);
+        const latest  = await BaseCollection.latestCausalTimestamp(prevOps, references, op.getResources()?.store);
+
+        return EvictionWindow.isWithinAdvance(timestamp, latest);
+    }
+
+    // The newest timestamp among the nearest insertions in the causal past of an op with the given
+    // prevOps (i.e. going back through prevOps, stopping at the first insertion on every path),
+    // undefined if there are none. Ops that are not in references are loaded from the store.
+
+    static async latestCausalTimestamp(prevOps: Array<Hash>, references: Map<Hash, HashedObject>, store?: Store): Promise<string|undefined> {
+
+        const pending = prevOps.slice();
+        const visited = new Set<Hash>();
+
+        let latest: string|undefined = undefined;
+
+        while (pending.length > 0) {
+
+            const hash = pending.pop() as Hash;
+
+            if (visited.has(hash)) {
+                continue;
+            }
+
+            visited.add(hash);
+
+            let prevOp = references.get(hash);
+
+            if (prevOp === undefined && store !== undefined) {
+                prevOp = await store.loadWithoutMutations(hash);
+            }
+
+            if (!(prevOp instanceof MutationOp)) {
+                continue;
+            }
+
+            const timestamp = (prevOp as {timestamp?: string}).timestamp;
+
+            if (HybridClock.isTimestamp(timestamp)) {
+                if (latest === undefined || latest < (timestamp as string)) {
+                    latest = timestamp;
+                }
+            } else {
+                for (const prevOpRef of prevOp.getPrevOps()) {
+                    pending.push(prevOpRef.hash);
+                }
+            }
+        }
+
+        return latest;
+    }
+
+    // Adds an insertion to the eviction window (if there is one), returns the evicted op hashes.
+
+    protected admitToEvictionWindow(timestamp: string|undefined, opHash: Hash): Array<Hash> {
+
+        const window = this.getEvictionWindow();
+
+        if (window === undefined || timestamp === undefined) {
+            return [];
+        }
+
+        this.getCapacityClock().update(timestamp);
+
+        return window.add(timestamp, opHash);
+    }
+
+    private getCapacityClock(): HybridClock {
+
+        if (this._capacityClock === undefined) {
+            this._capacityClock = new HybridClock();
+        }
+
+        return this._capacityClock;
+    }
+
     hasSingleWriter() {
         return this.writers !== undefined && this.writers.size() === 1;
     }
@@ -0,0 +1,166 @@
+import { Hash } from '../../model/hashing';
+import { HybridClock } from 'util/timestamps';
+import { OrderStatisticTree } from 'util/ordertree';
+
+// The capacity of a collection: it keeps only the maxElements most recent insertions, and / or
+// only the ones made at most maxAge milliseconds before the most recent one.
+
+type CollectionCapacity = { maxElements?: number, maxAge?: number };
+
+type WindowEntry = { timestamp: string, opHash: Hash };
+
+type EvictionWindowLiteralState = { entries: Array<WindowEntry>, latest?: string, evictedUpTo?: WindowEntry };
+
+function compareWindowEntries(e1: WindowEntry, e2: WindowEntry): number {
+    if (e1.timestamp !== e2.timestamp) {
+        return e1.timestamp < e2.timestamp? -1 : 1;
+    } else if (e1.opHash !== e2.opHash) {
+        return e1.opHash < e2.opHash? -1 : 1;
+    } else {
+        return 0;
+    }
+}
+
+// Tracks which insertion ops of a capped collection are still in its window. Ops are ordered by
+// (hybrid clock timestamp, op hash), and are only ever evicted from the old end, so once an op is
+// evicted it stays evicted, regardless of the order in which the ops are received: all replicas
+// end up evicting the same ops.
+//
+// Deleted or undone insertions still take their place in the window (this is what makes eviction
+// independent of the order of arrival), so a collection may hold fewer than maxElements elements.
+
+class EvictionWindow {
+
+    maxElements?: number;
+    maxAge?: number;
+
+    entries: OrderStatisticTree<WindowEntry>;
+
+    // the newest timestamp seen, and the newest entry that has been evicted
+    latest?: string;
+    evictedUpTo?: WindowEntry;
+
+    constructor(capacity: CollectionCapacity) {
+        this.maxElements = capacity.maxElements;
+        this.maxAge      = capacity.maxAge;
+
+        this.entries = new OrderStatisticTree(compareWindowEntries);
+    }
+
+    // Adds an insertion op to the window, and returns the hashes of the ops that fall out of it
+    // as a result (this may include the new op itself, if it is already too old).
+
+    add(timestamp: string, opHash: Hash): Array<Hash> {
+
+        const entry = { timestamp: timestamp, opHash: opHash };
+
+        if (this.isEvicted(timestamp, opHash)) {
+            return [opHash];
+        }
+
+        if (this.latest === undefined || this.latest < timestamp) {
+            this.latest = timestamp;
+        }
+
+        this.entries.add(entry);
+
+        const evicted: Array<Hash> = [];
+
+        let oldest = this.entries.at(0);
+
+        while (oldest !== undefined && this.isOutside(oldest)) {
+            this.entries.delete(oldest);
+            this.evictedUpTo = oldest;
+            evicted.push(oldest.opHash);
+
+            oldest = this.entries.at(0);
+        }
+
+        return evicted;
+    }
+
+    isEvicted(timestamp: string, opHash: Hash): boolean {
+        return this.evictedUpTo !== undefined && compareWindowEntries({timestamp: timestamp, opHash: opHash}, this.evictedUpTo) <= 0;
+    }
+
+    size(): number {
+        return this.entries.size();
+    }
+
+    exportState(): EvictionWindowLiteralState {
+
+        const state: EvictionWindowLiteralState = { entries: this.entries.slice() };
+
+        if (this.latest !== undefined) {
+            state.latest = this.latest;
+        }
+
+        if (this.evictedUpTo !== undefined) {
+            state.evictedUpTo = this.evictedUpTo;
+        }
+
+        return state;
+    }
+
+    importState(state: EvictionWindowLiteralState) {
+
+        this.entries.clear();
+
+        for (const entry of state.entries) {
+            this.entries.add(entry);
+        }
+
+        this.latest      = state.latest;
+        this.evictedUpTo = state.evictedUpTo;
+    }
+
+    private isOutside(entry: WindowEntry): boolean {
+
+        if (this.maxElements !== undefined && this.entries.size() > this.maxElements) {
+            return true;
+        }
+
+        if (this.maxAge !== undefined && this.latest !== undefined) {
+            return HybridClock.parse(entry.timestamp).physical < HybridClock.parse(this.latest).physical - this.maxAge;
+        }
+
+        return false;
+    }
+
+    // How far ahead (in ms) of the newest insertion in its causal past an insertion's timestamp may
+    // be (see BaseCollection.checkCapacityTimestamp). Since this is measured along the op history,
+    // and not against the local clock, all replicas agree on it. The catch is that, after a
+    // long pause, time in the window may take several insertions to catch up with the wall clock
+    // (until then, elements are evicted by age later than they would otherwise be). Insertions
+    // with nothing timestamped in their causal past are not bounded.
+
+    static maxAdvance = HybridClock.maxDrift;
+
+    static isWithinAdvance(timestamp: string, latestCausal?: string): boolean {
+        return latestCausal === undefined || HybridClock.parse(timestamp).physical <= HybridClock.parse(latestCausal).physical + EvictionWindow.maxAdvance;
+    }
+
+    static clampAdvance(timestamp: string, latestCausal?: string): string {
+
+        if (EvictionWindow.isWithinAdvance(timestamp, latestCausal)) {
+            return timestamp;
+        }
+
+        return HybridClock.encode(HybridClock.parse(latestCausal as string).physical + EvictionWindow.maxAdvance, 0);
+    }
+
+    static isValidCapacity(capacity: CollectionCapacity): boolean {
+
+        const isPositiveInt = (n: any) => typeof(n) === 'number' && Number.isInteger(n) && n > 0;
+
+        if (capacity.maxElements === undefined && capacity.maxAge === undefined) {
+            return false;
+        }
+
+        return (capacity.maxElements === undefined || isPositiveInt(capacity.maxElements)) &&
+               (capacity.maxAge      === undefined || isPositiveInt(capacity.maxAge));
+    }
+}
+
+export { EvictionWindow };
+export type { CollectionCapacity, EvictionWindowLiteralState };
@@ -0,0 +1,163 @@
+import { MutableObject, MutableObjectConfig } from '../../model/mutable/MutableObject';
+import { MutationOp } from '../../model/mutable/MutationOp';
+import { HashedObject } from '../../model/immutable/HashedObject';
+import { Hash } from '../../model/hashing';
+import { ClassRegistry } from '../../model';
+import { MultiMap } from 'util/multimap';
+import { Identity } from 'data/identity';
+
+// A counter that can only go up. Each author's increments are tallied separately (anonymous
+// increments are tallied under the empty string), and the value is the sum of all the tallies.
+
+class GrowOnlyCounter extends MutableObject {
+
+    static className = 'hhs/v0/GrowOnlyCounter';
+    static opClasses = ['hhs/v0/GrowOnlyCounter/IncrementOp'];
+
+    _countsPerAuthor: Map<Hash, number>;
+    _value: number;
+
+    constructor(config?: MutableObjectConfig) {
+        super(GrowOnlyCounter.opClasses, {supportsCheckpoints: true, ...config});
+
+        this.setRandomId();
+
+        this._countsPerAuthor = new Map();
+        this._value = 0;
+    }
+
+    getClassName(): string {
+        return GrowOnlyCounter.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+        references;
+        return true;
+    }
+
+    increment(amount=1, author?: Identity) {
+
+        if (!GrowOnlyCounter.isValidAmount(amount)) {
+            throw new Error('GrowOnlyCounter increments should be positive integers, got: ' + amount);
+        }
+
+        const op = new IncrementOp(this, amount, author);
+        return this.applyNewOp(op);
+    }
+
+    getValue(): number {
+        return this._value;
+    }
+
+    getValueForAuthor(author?: Identity): number {
+        return this.getValueForAuthorHash(author?.hash());
+    }
+
+    getValueForAuthorHash(authorHash?: Hash): number {
+        return this._countsPerAuthor.get(authorHash || '') || 0;
+    }
+
+    mutate(op: MutationOp): Promise<boolean> {
+
+        let mutated = false;
+
+        if (op instanceof IncrementOp) {
+            const authorHash = op.getAuthor()?.hash() || '';
+            const amount     = op.getAmount();
+
+            this._countsPerAuthor.set(authorHash, (this._countsPerAuthor.get(authorHash) || 0) + amount);
+            this._value = this._value + amount;
+
+            mutated = true;
+
+            this._mutationEventSource?.emit({emitter: this, action: 'increment', data: amount});
+        }
+
+        return Promise.resolve(mutated);
+    }
+
+    getMutableContents(): MultiMap<Hash, HashedObject> {
+        return new MultiMap();
+    }
+
+    getMutableContentByHash(_hash: Hash): Set<HashedObject> {
+        return new Set();
+    }
+
+    exportMutableState() {
+        return {
+            _countsPerAuthor: Array.from(this._countsPerAuthor.entries())
+        };
+    }
+
+    importMutableState(state: any) {
+        this._countsPerAuthor = new Map(state._countsPerAuthor);
+        this._value = 0;
+
+        for (const count of this._countsPerAuthor.values()) {
+            this._value = this._value + count;
+        }
+    }
+
+    static isValidAmount(amount: any): boolean {
+        return typeof(amount) === 'number' && Number.isSafeInteger(amount) && amount > 0;
+    }
+}
+
+class IncrementOp extends MutationOp {
+
+    static className = 'hhs/v0/GrowOnlyCounter/IncrementOp';
+
+    amount?: number;
+
+    constructor(targetObject?: GrowOnlyCounter, amount?: number, author?: Identity) {
+        super(targetObject);
+
+        if (targetObject !== undefined) {
+            this.amount = amount;
+
+            if (author !== undefined) {
+                this.setAuthor(author);
+            }
+        }
+    }
+
+    getClassName(): string {
+        return IncrementOp.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        if (!(this.getTargetObject() instanceof GrowOnlyCounter)) {
+            return false;
+        }
+
+        if (!GrowOnlyCounter.isValidAmount(this.amount)) {
+            MutableObject.validationLog.debug('The field amount should be a positive integer in class GrowOnlyCounter/IncrementOp');
+            return false;
+        }
+
+        return true;
+    }
+
+    getAmount() {
+        return this.amount as number;
+    }
+}
+
+ClassRegistry.register(GrowOnlyCounter.className, GrowOnlyCounter);
+ClassRegistry.register(IncrementOp.className, IncrementOp);
+
+export { GrowOnlyCounter, IncrementOp as GrowOnlyCounterIncrementOp };
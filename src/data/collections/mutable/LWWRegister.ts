@@ -0,0 +1,291 @@
+import { MutableContentEvents, MutableObject } from '../../model/mutable/MutableObject';
+import { MutationOp } from '../../model/mutable/MutationOp';
+import { HashedObject } from '../../model/immutable/HashedObject';
+import { HybridClock, Timestamps } from 'util/timestamps';
+import { Hash } from '../../model/hashing';
+import { ClassRegistry } from '../../model';
+import { MultiMap } from 'util/multimap';
+import { Identity } from 'data/identity';
+import { BaseCollection, CollectionConfig, CollectionOp } from './Collection';
+
+// A last-writer-wins register. Each write carries a hybrid logical clock timestamp, and the value
+// is the one from the write with the highest (timestamp, author hash, op hash), so all peers pick
+// the same value regardless of the order in which they received the writes.
+//
+// Writes that were not aware of each other (none is in the other's causal history) are conflicting:
+// one of them wins, but getConflictingValues() returns all of them, until a new write that has seen
+// them all supersedes them. A write must have a later timestamp than the writes it supersedes (so
+// validation doesn't depend on the local clock, the drift of received timestamps is bounded by the
+// register's clock instead, see HybridClock.update).
+
+class LWWRegister<T> extends BaseCollection<T> {
+
+    static className = 'hhs/v0/LWWRegister';
+
+    _clock: HybridClock;
+
+    _winner?: SetOp<T>;
+    _concurrentOps: Map<Hash, SetOp<T>>;
+
+    constructor(config?: CollectionConfig) {
+        super([SetOp.className], config);
+
+        this.setRandomId();
+
+        this._clock = new HybridClock();
+
+        this._concurrentOps = new Map();
+    }
+
+    getValue(): T | undefined {
+        return this._winner?.getValue();
+    }
+
+    getTimestamp(): string | undefined {
+        return this._winner?.getTimestamp();
+    }
+
+    setValue(value: T, author?: Identity) {
+
+        if (!(value instanceof HashedObject)) {
+            if (!HashedObject.isLiteral(value)) {
+                throw new Error('LWWRegisters can contain either a class deriving from HashedObject or a pure literal (a constant, without any HashedObjects within).');
+            }
+        }
+
+        if (!this.shouldAcceptElement(value)) {
+            throw new Error('LWWRegister has type/element contraints that reject the value that is being set:' + value);
+        }
+
+        const op = new SetOp<T>(this, value, this._clock.nowAfter(this.getTerminalTimestamps()), author);
+        return this.applyNewOp(op);
+    }
+
+    hasConflicts(): boolean {
+        return this._concurrentOps.size > 1;
+    }
+
+    // The values of all the writes that are currently in conflict (the winning one first), or
+    // just the current value if there are no conflicts. Repeated values are reported once.
+
+    getConflictingValues(): Array<T> {
+
+        const ops = Array.from(this._concurrentOps.values());
+
+        ops.sort((op1: SetOp<T>, op2: SetOp<T>) => LWWRegister.compareOps(op2, op1));
+
+        const seen   = new Set<Hash>();
+        const values = new Array<T>();
+
+        for (const op of ops) {
+            const valueHash = HashedObject.hashElement(op.getValue());
+
+            if (!seen.has(valueHash)) {
+                seen.add(valueHash);
+                values.push(op.getValue());
+            }
+        }
+
+        return values;
+    }
+
+    // The timestamps of the writes that a new write will supersede (its prevOps).
+
+    private getTerminalTimestamps(): Array<string> {
+        return Array.from(this._terminalOps.values()).filter((op: MutationOp) => op instanceof SetOp).map((op: MutationOp) => (op as SetOp<T>).getTimestamp());
+    }
+
+    mutate(op: MutationOp): Promise<boolean> {
+
+        let mutated = false;
+
+        if (op instanceof SetOp) {
+
+            const setOp = op as SetOp<T>;
+
+            this._clock.update(setOp.getTimestamp());
+
+            for (const prevOpRef of setOp.getPrevOps()) {
+                this._concurrentOps.delete(prevOpRef.hash);
+            }
+
+            this._concurrentOps.set(setOp.getLastHash(), setOp);
+
+            if (this._winner === undefined || LWWRegister.compareOps(this._winner, setOp) < 0) {
+
+                const oldVal = this._winner?.getValue();
+
+                this._winner = setOp;
+
+                mutated = true;
+
+                this._mutationEventSource?.emit({emitter: this, action: 'update', data: setOp.getValue()});
+
+                if (oldVal !== setOp.getValue()) {
+                    if (oldVal instanceof HashedObject) {
+                        this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.RemoveObject, data: oldVal});
+                    }
+                    if (setOp.getValue() instanceof HashedObject) {
+                        this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.AddObject, data: setOp.getValue()});
+                    }
+                }
+            }
+        }
+
+        return Promise.resolve(mutated);
+    }
+
+    getMutableContents(): MultiMap<Hash, HashedObject> {
+        const contents = new MultiMap<Hash, HashedObject>();
+
+        const value = this.getValue();
+
+        if (value instanceof HashedObject) {
+            contents.add(value.hash(), value);
+        }
+
+        return contents;
+    }
+
+    getMutableContentByHash(hash: Hash): Set<HashedObject> {
+
+        const found = new Set<HashedObject>();
+
+        const value = this.getValue();
+
+        if (value instanceof HashedObject && value.hash() === hash) {
+            found.add(value);
+        }
+
+        return found;
+    }
+
+    getClassName(): string {
+        return LWWRegister.className;
+    }
+
+    init(): void {
+
+    }
+
+    shouldAcceptMutationOp(op: MutationOp, opReferences: Map<Hash, HashedObject>): boolean {
+
+        if (!super.shouldAcceptMutationOp(op, opReferences)) {
+            return false;
+        }
+
+        if (op instanceof SetOp && !this.shouldAcceptElement(op.value as T)) {
+            return false;
+        }
+
+        return true;
+    }
+
+    // sign(op1 - op2): by timestamp, then author hash (anonymous writes go first), then op hash.
+
+    static compareOps(op1: SetOp<any>, op2: SetOp<any>): number {
+
+        const byTimestamp = Timestamps.compare(op1.getTimestamp(), op2.getTimestamp());
+
+        if (byTimestamp !== 0) {
+            return byTimestamp;
+        }
+
+        const author1 = op1.getAuthor()?.hash() || '';
+        const author2 = op2.getAuthor()?.hash() || '';
+
+        if (author1 !== author2) {
+            return author1 < author2? -1 : 1;
+        }
+
+        const hash1 = op1.getLastHash();
+        const hash2 = op2.getLastHash();
+
+        return hash1 === hash2? 0 : (hash1 < hash2? -1 : 1);
+    }
+}
+
+class SetOp<T> extends CollectionOp<T> {
+
+    static className = 'hhs/v0/LWWRegister/SetOp';
+
+    timestamp?: string;
+    value?: T;
+
+    constructor(targetObject?: LWWRegister<T>, value?: T, timestamp?: string, author?: Identity) {
+        super(targetObject);
+
+        if (targetObject !== undefined) {
+            this.value = value;
+            this.timestamp = timestamp;
+
+            if (author !== undefined) {
+                this.setAuthor(author);
+            }
+        }
+    }
+
+    getClassName(): string {
+        return SetOp.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        const targetObject = this.getTargetObject();
+
+        if (!(targetObject instanceof LWWRegister)) {
+            return false;
+        }
+
+        if (!HybridClock.isTimestamp(this.timestamp)) {
+            MutableObject.validationLog.debug('The field timestamp should be a hybrid clock timestamp in class LWWRegister/SetOp');
+            return false;
+        }
+
+        // writes are made using a clock that has seen the writes they supersede
+
+        for (const prevOpRef of this.getPrevOps()) {
+            const prevOp = references.get(prevOpRef.hash);
+
+            if (prevOp instanceof SetOp && !Timestamps.after(this.getTimestamp(), prevOp.getTimestamp())) {
+                MutableObject.validationLog.debug('The timestamp of LWWRegister/SetOp ' + this.hash() + ' should come after the ones of its prevOps');
+                return false;
+            }
+        }
+
+        if (this.value === undefined) {
+            MutableObject.validationLog.debug('The field value is mandatory in class LWWRegister/SetOp');
+            return false;
+        }
+
+        if (!(this.value instanceof HashedObject)) {
+            if (!HashedObject.isLiteral(this.value)) {
+                MutableObject.validationLog.debug('The field value in class LWWRegister/SetOp must either be a HashedObject instance or a pure literal (a constant, without any HashedObjects within).');
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    getTimestamp() {
+        return this.timestamp as string;
+    }
+
+    getValue() {
+        return this.value as T;
+    }
+}
+
+ClassRegistry.register(LWWRegister.className, LWWRegister);
+ClassRegistry.register(SetOp.className, SetOp);
+
+export { LWWRegister, SetOp as LWWRegisterSetOp };
@@ -0,0 +1,231 @@
+import { MutableContentEvents, MutableObject } from '../../model/mutable/MutableObject';
+import { MutationOp } from '../../model/mutable/MutationOp';
+import { HashedObject } from '../../model/immutable/HashedObject';
+import { Hash } from '../../model/hashing';
+import { ClassRegistry } from '../../model';
+import { MultiMap } from 'util/multimap';
+import { Identity } from 'data/identity';
+import { BaseCollection, CollectionConfig, CollectionOp } from './Collection';
+
+// A register that keeps all the values that were written concurrently. A write supersedes the
+// writes it has observed (the ones in its prevOps, and transitively theirs), so the values of the
+// register are the ones in the writes that have not been superseded yet (i.e. the terminal ops).
+// Once the app has merged them, writing the result supersedes them all.
+
+class MultiValueRegister<T> extends BaseCollection<T> {
+
+    static className = 'hhs/v0/MultiValueRegister';
+
+    _currentOps: Map<Hash, WriteOp<T>>;
+
+    constructor(config?: CollectionConfig) {
+        super([WriteOp.className], config);
+
+        this.setRandomId();
+
+        this._currentOps = new Map();
+    }
+
+    // The current values, sorted by the hash of the op that wrote them (so all peers see them in
+    // the same order). Repeated values are reported once.
+
+    getValues(): Array<T> {
+
+        const opHashes = Array.from(this._currentOps.keys());
+
+        opHashes.sort();
+
+        const seen   = new Set<Hash>();
+        const values = new Array<T>();
+
+        for (const opHash of opHashes) {
+            const value     = (this._currentOps.get(opHash) as WriteOp<T>).getValue();
+            const valueHash = HashedObject.hashElement(value);
+
+            if (!seen.has(valueHash)) {
+                seen.add(valueHash);
+                values.push(value);
+            }
+        }
+
+        return values;
+    }
+
+    hasConflicts(): boolean {
+        return this.getValues().length > 1;
+    }
+
+    setValue(value: T, author?: Identity) {
+
+        if (!(value instanceof HashedObject)) {
+            if (!HashedObject.isLiteral(value)) {
+                throw new Error('MultiValueRegisters can contain either a class deriving from HashedObject or a pure literal (a constant, without any HashedObjects within).');
+            }
+        }
+
+        if (!this.shouldAcceptElement(value)) {
+            throw new Error('MultiValueRegister has type/element contraints that reject the value that is being set:' + value);
+        }
+
+        const op = new WriteOp<T>(this, value, author);
+        return this.applyNewOp(op);
+    }
+
+    mutate(op: MutationOp): Promise<boolean> {
+
+        let mutated = false;
+
+        if (op instanceof WriteOp) {
+
+            const writeOp = op as WriteOp<T>;
+
+            const oldValues = this.getValuesByHash();
+
+            for (const prevOpRef of writeOp.getPrevOps()) {
+                this._currentOps.delete(prevOpRef.hash);
+            }
+
+            this._currentOps.set(writeOp.getLastHash(), writeOp);
+
+            const newValues = this.getValuesByHash();
+
+            mutated = true;
+
+            this._mutationEventSource?.emit({emitter: this, action: 'update', data: writeOp.getValue()});
+
+            for (const [valueHash, oldValue] of oldValues.entries()) {
+                if (oldValue instanceof HashedObject && !newValues.has(valueHash)) {
+                    this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.RemoveObject, data: oldValue});
+                }
+            }
+
+            for (const [valueHash, newValue] of newValues.entries()) {
+                if (newValue instanceof HashedObject && !oldValues.has(valueHash)) {
+                    this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.AddObject, data: newValue});
+                }
+            }
+        }
+
+        return Promise.resolve(mutated);
+    }
+
+    getMutableContents(): MultiMap<Hash, HashedObject> {
+        const contents = new MultiMap<Hash, HashedObject>();
+
+        for (const [valueHash, value] of this.getValuesByHash().entries()) {
+            if (value instanceof HashedObject) {
+                contents.add(valueHash, value);
+            }
+        }
+
+        return contents;
+    }
+
+    getMutableContentByHash(hash: Hash): Set<HashedObject> {
+
+        const found = new Set<HashedObject>();
+
+        const value = this.getValuesByHash().get(hash);
+
+        if (value instanceof HashedObject) {
+            found.add(value);
+        }
+
+        return found;
+    }
+
+    getClassName(): string {
+        return MultiValueRegister.className;
+    }
+
+    init(): void {
+
+    }
+
+    shouldAcceptMutationOp(op: MutationOp, opReferences: Map<Hash, HashedObject>): boolean {
+
+        if (!super.shouldAcceptMutationOp(op, opReferences)) {
+            return false;
+        }
+
+        if (op instanceof WriteOp && !this.shouldAcceptElement(op.value as T)) {
+            return false;
+        }
+
+        return true;
+    }
+
+    private getValuesByHash(): Map<Hash, T> {
+
+        const values = new Map<Hash, T>();
+
+        for (const op of this._currentOps.values()) {
+            values.set(HashedObject.hashElement(op.getValue()), op.getValue());
+        }
+
+        return values;
+    }
+}
+
+class WriteOp<T> extends CollectionOp<T> {
+
+    static className = 'hhs/v0/MultiValueRegister/WriteOp';
+
+    value?: T;
+
+    constructor(targetObject?: MultiValueRegister<T>, value?: T, author?: Identity) {
+        super(targetObject);
+
+        if (targetObject !== undefined) {
+            this.value = value;
+
+            if (author !== undefined) {
+                this.setAuthor(author);
+            }
+        }
+    }
+
+    getClassName(): string {
+        return WriteOp.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        const targetObject = this.getTargetObject();
+
+        if (!(targetObject instanceof MultiValueRegister)) {
+            return false;
+        }
+
+        if (this.value === undefined) {
+            MutableObject.validationLog.debug('The field value is mandatory in class MultiValueRegister/WriteOp');
+            return false;
+        }
+
+        if (!(this.value instanceof HashedObject)) {
+            if (!HashedObject.isLiteral(this.value)) {
+                MutableObject.validationLog.debug('The field value in class MultiValueRegister/WriteOp must either be a HashedObject instance or a pure literal (a constant, without any HashedObjects within).');
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    getValue() {
+        return this.value as T;
+    }
+}
+
+ClassRegistry.register(MultiValueRegister.className, MultiValueRegister);
+ClassRegistry.register(WriteOp.className, WriteOp);
+
+export { MultiValueRegister, WriteOp as MultiValueRegisterWriteOp };
@@ -6,6 +6,7 @@ import { Ordinal, Ordinals, DenseOrder } from 'util/ordinals';
 import { DedupMultiMap } from 'util/dedupmultimap';
 import { Logger, LogLevel } from 'util/logging';
 import { ArrayMap } from 'util/arraymap';
+import { OrderStatisticTree } from 'util/ordertree';
 
 import { location } from 'util/events';
 import { ClassRegistry, Context, LiteralContext } from 'data/model/literals';
@@ -13,6 +14,9 @@ import { MutableContentEvents } from 'data/model/mutable/MutableObject';
 import { MultiMap } from 'util/multimap';
 import { BaseCollection, Collection, CollectionConfig, CollectionOp } from './Collection';
 import { Identity } from 'data/identity';
+import { HybridClock } from 'util/timestamps';
+import { EvictionWindowLiteralState } from './EvictionWindow';
+import { ArrayCursor, ArrayEntry, compareArrayEntries } from '../ArrayCursor';
 
 // a simple mutable list with a single writer
 
@@ -24,8 +28,9 @@ class InsertOp<T> extends CollectionOp<T> {
 
     element?: T;
     ordinal?: Ordinal;
+    timestamp?: string; // only in arrays with a capacity, see EvictionWindow
 
-    constructor(target?: MutableArray<T>, element?: T, ordinal?: Ordinal, author?: Identity) {
+    constructor(target?: MutableArray<T>, element?: T, ordinal?: Ordinal, author?: Identity, timestamp?: string) {
         super(target);
 
         this.element = element;
@@ -33,6 +38,9 @@ class InsertOp<T> extends CollectionOp<T> {
         if (author !== undefined) {
             this.setAuthor(author);
         }
+        if (timestamp !== undefined) {
+            this.timestamp = timestamp;
+        }
     }
 
     getClassName(): string {
@@ -62,6 +70,16 @@ class InsertOp<T> extends CollectionOp<T> {
             return false;
         }
 
+        if (targetObject.hasCapacity()? !HybridClock.isTimestamp(this.timestamp) : this.timestamp !== undefined) {
+            MutableArray.logger.warning('The field timestamp of type MutableArray/InsertOp should be a hybrid clock timestamp if (and only if) the array has a capacity.');
+            return false;
+        }
+
+        if (this.timestamp !== undefined && !(await BaseCollection.checkCapacityTimestamp(this, this.timestamp, references))) {
+            MutableArray.logger.warning('The timestamp of MutableArray/InsertOp ' + this.hash() + ' is too far ahead of the ones in its causal past.');
+            return false;
+        }
+
         return true;
     }
 }
@@ -183,6 +201,7 @@ type MutableArrayLiteralState = {
     literalCurrentInsertOpRefs: any,
     literalCurrentInsertOpRefsContext: LiteralContext,
     _currentInsertOpOrds: any,
+    _evictionWindow?: EvictionWindowLiteralState
 }
     
 class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
@@ -200,11 +219,10 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
     _currentInsertOpRefs : DedupMultiMap<Hash, HashReference<InsertOp<T>>> = new DedupMultiMap();
     _currentInsertOpOrds : Map<Hash, Ordinal>;
 
-    _needToRebuild: boolean;
-
-    _contents : Array<T>;
-    _hashes   : Array<Hash>;
-    _ordinals : Array<Ordinal>;
+    // the entries that are currently visible (all of them with duplicates, otherwise only the one
+    // with the smallest ordinal for each element), sorted, to find positions in logarithmic time
+    _index       : OrderStatisticTree<ArrayEntry>;
+    _indexedOrds : Map<Hash, Array<Ordinal>>;
 
     constructor(config: MutableArrayConfig & CollectionConfig = {duplicates: true}) {
         super(MutableArray.opClasses, config);
@@ -220,10 +238,8 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
         this._currentInsertOpRefs = new DedupMultiMap<Hash, HashReference<InsertOp<T>>>();
         this._currentInsertOpOrds = new Map();
 
-        this._needToRebuild = false;
-        this._contents = [];
-        this._hashes   = [];
-        this._ordinals = [];
+        this._index       = new OrderStatisticTree(compareArrayEntries);
+        this._indexedOrds = new Map();
     }
     
     exportMutableState() : MutableArrayLiteralState {
@@ -243,7 +259,7 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
             '', literalCurrentInsertOpsContext
         )
 
-        return {
+        const state: MutableArrayLiteralState = {
             _elementsPerOrdinal: [...this._elementsPerOrdinal.entries()],
             _ordinalsPerElement: [...this._ordinalsPerElement.entries()],
             literalElements: literalElements,
@@ -251,7 +267,17 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
             literalCurrentInsertOpRefs,
             literalCurrentInsertOpRefsContext: literalCurrentInsertOpsContext.toLiteralContext(),
             _currentInsertOpOrds: Object.fromEntries(this._currentInsertOpOrds),
+        };
+
+        // evicted elements are already gone from the state above, but the window is needed to
+        // keep on evicting the same ops as the other replicas
+        const window = this.getEvictionWindow();
+
+        if (window !== undefined) {
+            state._evictionWindow = window.exportState();
         }
+
+        return state;
     }
     
     importMutableState(state: MutableArrayLiteralState) {
@@ -278,17 +304,19 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
         );
         
         this._currentInsertOpOrds = new Map(Object.entries(state._currentInsertOpOrds));
+
+        if (state._evictionWindow !== undefined) {
+            this.getEvictionWindow()?.importState(state._evictionWindow);
+        }
         
-        this._needToRebuild = true;
-        this.rebuild();
+        this.rebuildIndex();
     }
+
     async insertAt(element: T, idx: number, author?: Identity) {
         await this.insertManyAt([element], idx, author);
     }
 
     async insertManyAt(elements: T[], idx: number, author?: Identity) {
-        this.rebuild();
-
         // In the "no duplicates" case, any items we insert will disappear from their old positions. So
         // we need to count how many are before position idx, and add that to idx to correct.
 
@@ -299,7 +327,7 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
             for (const element of elements) {
                 const elementHash = HashedObject.hashElement(element);
 
-                const elmtIdx = this._hashes.indexOf(elementHash);
+                const elmtIdx = this.indexOfByHash(elementHash);
 
                 if (0 <= elmtIdx && elmtIdx <= idx) {
                     delta = delta + 1;
@@ -312,12 +340,12 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
         let after  : Ordinal|undefined = undefined;
         let before : Ordinal|undefined = undefined;
 
-        if (0 < idx && idx <= this._hashes.length) {
-            after = this._ordinals[idx-1];
+        if (0 < idx && idx <= this._index.size()) {
+            after = this._index.at(idx-1)?.ordinal;
         }
 
-        if (idx < this._hashes.length) {
-            before = this._ordinals[idx];
+        if (idx < this._index.size()) {
+            before = this._index.at(idx)?.ordinal;
         }
 
         for (const element of elements) {
@@ -336,7 +364,13 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
                 oldInsertionOps = this._currentInsertOpRefs.get(elementHash);
             }
 
-            const insertOp = new InsertOp(this, element, ordinal, author);
+            const prevOps = Array.from(this._terminalOps.values());
+
+            // (without a capacity, the insertion is applied before the first await, as it always was)
+            const timestamp = this.hasCapacity()? await this.nextCapacityTimestamp(prevOps) : undefined;
+
+            const insertOp = new InsertOp(this, element, ordinal, author, timestamp);
+            insertOp.setPrevOps(prevOps.values());
             await this.applyNewOp(insertOp);
 
             // Note: in the "no duplicates" case, the delete -if necessary- has to come after the 
@@ -359,19 +393,13 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
     }
 
     async deleteManyAt(idx: number, count: number, author?: Identity) {
-        this.rebuild();
-
-        while (idx < this._contents.length && count > 0) {
-            let hash = this._hashes[idx];
+        for (const entry of this._index.slice(Math.max(idx, 0), Math.max(idx + count, 0))) {
 
             if (this.duplicates) {
-                await this.delete(hash, this._ordinals[idx], author);
+                await this.delete(entry.hash, entry.ordinal, author);
             } else {
-                await this.delete(hash, undefined, author);
+                await this.delete(entry.hash, undefined, author);
             }
-
-            idx = idx + 1;
-            count = count - 1;
         }
     }
 
@@ -380,50 +408,59 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
     }
 
     async deleteElementByHash(hash: Hash, author?: Identity) {
-        this.rebuild();
         this.delete(hash, undefined, author);
     }
 
     async push(element: T, author?: Identity) {
-        await this.insertAt(element, this._contents.length, author);
+        await this.insertAt(element, this._index.size(), author);
     }
 
     async pop(author?: Identity): Promise<T> {
-        this.rebuild();
-        const lastIdx = this._contents.length - 1;
-        const last = this._contents[lastIdx];
+        const lastIdx = this._index.size() - 1;
+        const last = this.lookup(lastIdx);
         await this.deleteAt(lastIdx, author);
 
         return last;
     }
 
     async concat(elements: T[], author?: Identity) {
-        this.rebuild();
-        await this.insertManyAt(elements, this._contents.length, author);
+        await this.insertManyAt(elements, this._index.size(), author);
     }
 
     contents() {
-        this.rebuild();
-        return Array.from(this._contents);
+        return this.slice();
     }
 
     contentHashes() {
-        this.rebuild();
-        return Array.from(this._hashes);
+        return this._index.slice().map((entry: ArrayEntry) => entry.hash);
     }
 
     values(): IterableIterator<T> {
         return this.contents().values();
     }
 
+    size() {
+        return this._index.size();
+    }
+
+    // The elements in positions [start, end), as Array.slice would return them.
+
+    slice(start?: number, end?: number): Array<T> {
+        return this._index.slice(start, end).map((entry: ArrayEntry) => this._elements.get(entry.hash) as T);
+    }
+
+    // A cursor starting at position idx, see ArrayCursor.
+
+    cursor(idx=0): ArrayCursor<T> {
+        return new ArrayCursor(this._index, (entry: ArrayEntry) => this._elements.get(entry.hash) as T, idx);
+    }
+
     lookup(idx: number): T {
-        this.rebuild();
-        return this._contents[idx];
+        return this.valueAt(idx);
     }
 
     lookupHash(idx: number): Hash {
-        this.rebuild();
-        return this._hashes[idx];
+        return this._index.at(idx)?.hash as Hash;
     }
 
     indexOf(element?: T) {
@@ -434,13 +471,22 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
         if (hash === undefined) {
             return -1;
         }
-        this.rebuild();
-        return this._hashes.indexOf(hash);
+
+        const ordinals = this._indexedOrds.get(hash);
+
+        if (ordinals === undefined) {
+            return -1;
+        }
+
+        const first = ordinals.reduce((o1: Ordinal, o2: Ordinal) => o1 < o2? o1 : o2);
+
+        return this._index.rank({ordinal: first, hash: hash});
     }
     
     valueAt(idx: number) {
-        this.rebuild();
-        return this._contents[idx];
+        const entry = this._index.at(idx);
+
+        return (entry === undefined? undefined : this._elements.get(entry.hash)) as T;
     }
 
     private async delete(hash: Hash, ordinal?: Ordinal, author?: Identity) {
@@ -485,6 +531,13 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
 
             const elementHash = HashedObject.hashElement(element);
 
+            const evicted = this.admitToEvictionWindow(op.timestamp, opHash);
+
+            // the insertion is older than everything in the array's window, ignore it
+            if (evicted.indexOf(opHash) >= 0) {
+                return false;
+            }
+
             this._elementsPerOrdinal.add(ordinal, elementHash);
             this._ordinalsPerElement.add(elementHash, ordinal);
 
@@ -498,7 +551,7 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
             this._currentInsertOpRefs.add(elementHash, new HashReference(op.getLastHash(), op.getClassName()));
             this._currentInsertOpOrds.set(opHash, ordinal);
 
-            this._needToRebuild = true;
+            this.updateIndexFor(elementHash);
 
             if (wasNotBefore && element instanceof HashedObject) {
                 this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.AddObject, data: element});
@@ -510,94 +563,129 @@ class MutableArray<T> extends BaseCollection<T> implements Collection<T> {
                 this._mutationEventSource?.emit({emitter: this, action: 'move', data: element} as MoveEvent<T>);
             }
 
+            for (const evictedOpHash of evicted) {
+                this.evictInsertOp(evictedOpHash);
+            }
+
         } else if (op instanceof DeleteOp) {
 
             const elementHash = op.elementHash as Hash;
-            const deletedOps = op.deletedOps as HashedSet<HashReference<DeleteOp<T>>>;
-            
-            let wasBefore = false;
-            let element: T|undefined;
+            const deletedOps = op.deletedOps as HashedSet<HashReference<InsertOp<T>>>;
+
+            this.removeInsertOps(elementHash, deletedOps.values());
+
+        } else {
+            throw new Error('Invalid op type for MutableArray:' + op?.getClassName());
+        }
+
+        return true;
+
+    }
+
+    private removeInsertOps(elementHash: Hash, opRefs: Iterable<HashReference<InsertOp<T>>>) {
+
+        let wasBefore = false;
+        let element: T|undefined;
+
+        if (this._currentInsertOpRefs.get(elementHash).size > 0) {
+            wasBefore = true;
+            element = this._elements.get(elementHash);
+        }
+
+        let deletedOrdinal = false;
 
-            if (this._currentInsertOpRefs.get(elementHash).size > 0) {
-                wasBefore = true;
-                element = this._elements.get(elementHash);
+        for (const opRef of opRefs) {
+            if (this._currentInsertOpRefs.delete(elementHash, opRef)) {
+                const ordinal = this._currentInsertOpOrds.get(opRef.hash) as Ordinal;
+                this._currentInsertOpOrds.delete(opRef.hash);
+
+                this._elementsPerOrdinal.delete(ordinal, elementHash);
+                this._ordinalsPerElement.delete(elementHash, ordinal);
+
+                deletedOrdinal = true;
             }
+        }
 
-            let deletedOrdinal = false;
+        let current = this._currentInsertOpRefs.get(elementHash);
 
-            for (const opRef of deletedOps.values()) {
-                if (this._currentInsertOpRefs.delete(elementHash, opRef)) {
-                    const ordinal = this._currentInsertOpOrds.get(opRef.hash) as Ordinal;
-                    this._currentInsertOpOrds.delete(opRef.hash);
+        const wasDeleted = current.size === 0;
 
-                    this._elementsPerOrdinal.delete(ordinal, elementHash);
-                    this._ordinalsPerElement.delete(elementHash, ordinal);
+        this.updateIndexFor(elementHash);
 
-                    deletedOrdinal = true;
+        if (wasDeleted) {
+            if (wasBefore) {
+                const element = this._elements.get(elementHash);
+                this._elements.delete(elementHash);
+                if (element instanceof HashedObject) {
+                    this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.RemoveObject, data: element});
                 }
             }
+        }
 
-            let current = this._currentInsertOpRefs.get(elementHash);
+        if ((this.duplicates && deletedOrdinal) || (!this.duplicates && wasBefore && wasDeleted)) {
+            this._mutationEventSource?.emit({emitter: this, action: 'delete', data: elementHash} as DeleteEvent<T>);
+        } else if (!this.duplicates && wasBefore) {
+            this._mutationEventSource?.emit({emitter: this, action: 'move', data: element} as MoveEvent<T>);
+        }
+    }
 
-            const wasDeleted = current.size === 0;
+    // Removes an insertion that has fallen out of the eviction window, as if it had been deleted.
 
-            this._needToRebuild = true;
+    private evictInsertOp(opHash: Hash) {
 
-            if (wasDeleted) {
-                if (wasBefore) {
-                    const element = this._elements.get(elementHash);
-                    this._elements.delete(elementHash);
-                    if (element instanceof HashedObject) {
-                        this._mutationEventSource?.emit({emitter: this, action: MutableContentEvents.RemoveObject, data: element});
-                    }
+        const ordinal = this._currentInsertOpOrds.get(opHash);
+
+        // already deleted
+        if (ordinal === undefined) {
+            return;
+        }
+
+        for (const elementHash of this._elementsPerOrdinal.get(ordinal)) {
+            for (const opRef of this._currentInsertOpRefs.get(elementHash)) {
+                if (opRef.hash === opHash) {
+                    this.removeInsertOps(elementHash, [opRef]);
+                    return;
                 }
             }
+        }
+    }
 
-            if ((this.duplicates && deletedOrdinal) || (!this.duplicates && wasBefore && wasDeleted)) {
-                this._mutationEventSource?.emit({emitter: this, action: 'delete', data: elementHash} as DeleteEvent<T>);
-            } else if (!this.duplicates && wasBefore) {
-                this._mutationEventSource?.emit({emitter: this, action: 'move', data: element} as MoveEvent<T>);
-            }
+    protected supportsCapacity() {
+        return true;
+    }
 
-            
+    // Replaces the entries in the index for this element, after its ordinals have changed.
 
-        } else {
-            throw new Error('Invalid op type for MutableArray:' + op?.getClassName());
+    private updateIndexFor(elementHash: Hash) {
+
+        for (const ordinal of this._indexedOrds.get(elementHash) || []) {
+            this._index.delete({ordinal: ordinal, hash: elementHash});
         }
 
-        return true;
+        let ordinals = this._ordinalsPerElement.get(elementHash);
 
-    }
+        if (!this.duplicates && ordinals.length > 1) {
+            ordinals = [ordinals.reduce((o1: Ordinal, o2: Ordinal) => o1 < o2? o1 : o2)];
+        }
 
-    private rebuild() {
+        for (const ordinal of ordinals) {
+            this._index.add({ordinal: ordinal, hash: elementHash});
+        }
 
-        if (this._needToRebuild) {
-            this._contents = [];
-            this._hashes   = [];
-            this._ordinals = [];
+        if (ordinals.length > 0) {
+            this._indexedOrds.set(elementHash, ordinals);
+        } else {
+            this._indexedOrds.delete(elementHash);
+        }
+    }
 
-            const ordinals = Array.from(this._elementsPerOrdinal.keys());
-            ordinals.sort();
-    
-            const seen = new Set<Hash>();
-    
-            for (const ordinal of ordinals) {
-                const elementHashes = this._elementsPerOrdinal.get(ordinal);
-    
-                for (const elementHash of elementHashes) {
-    
-                    if (this.duplicates || !seen.has(elementHash)) {
-                        this._contents.push(this._elements.get(elementHash) as T);
-                        this._hashes.push(elementHash);
-                        this._ordinals.push(ordinal);
-                        if (!this.duplicates) {
-                            seen.add(elementHash);
-                        }
-                    }
-                }
-            }
+    private rebuildIndex() {
+
+        this._index.clear();
+        this._indexedOrds.clear();
 
-            this._needToRebuild = false;
+        for (const elementHash of this._ordinalsPerElement.keys()) {
+            this.updateIndexFor(elementHash);
         }
     }
 
@@ -0,0 +1,542 @@
+import { Hash } from '../../model/hashing';
+import { HashedObject, HashReference } from '../../model/immutable';
+import { MutationOp } from '../../model/mutable';
+
+import { Ordinal, Ordinals, DenseOrder } from 'util/ordinals';
+import { Logger, LogLevel } from 'util/logging';
+import { MultiMap } from 'util/multimap';
+
+import { location } from 'util/events';
+import { ClassRegistry } from 'data/model/literals';
+import { BaseCollection, CollectionConfig, CollectionOp } from './Collection';
+import { Identity } from 'data/identity';
+
+// A collaborative text. Instead of creating an op per character (as inserting a string into a
+// MutableArray would), each InsertOp carries a run of characters, that is anchored right after
+// a character of another run (or at the start of the text, if no anchor is given). The runs that
+// are anchored at the same character are ordered using DenseOrder ordinals (and their hashes, if
+// two concurrent insertions picked the same ordinal), so the text is the result of a depth-first
+// walk over the runs. Concurrent insertions at the same offset never interleave their characters.
+//
+// Deletions just mark characters as deleted (a DeleteOp references a range within a run), so
+// characters are never re-ordered and insertions anchored at deleted characters still work.
+
+class InsertOp extends CollectionOp<string> {
+
+    static className = 'hhs/v0/MutableText/InsertOp';
+
+    text?: string;
+    after?: HashReference<InsertOp>;
+    afterIndex?: number;
+    ordinal?: Ordinal;
+
+    constructor(target?: MutableText, text?: string, after?: HashReference<InsertOp>, afterIndex?: number, ordinal?: Ordinal, author?: Identity) {
+        super(target);
+
+        this.text = text;
+        this.after = after;
+        this.afterIndex = afterIndex;
+        this.ordinal = ordinal;
+
+        if (author !== undefined) {
+            this.setAuthor(author);
+        }
+    }
+
+    getClassName(): string {
+        return InsertOp.className;
+    }
+
+    init(): void {
+        super.init();
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        const targetObject = this.getTargetObject();
+
+        if (!(targetObject instanceof MutableText)) {
+            return false;
+        }
+
+        if (typeof(this.text) !== 'string' || this.text.length === 0) {
+            MutableText.logger.warning('The field text of type MutableText/InsertOp should be a non-empty string.');
+            return false;
+        }
+
+        if (this.ordinal === undefined || !Ordinals.isOrdinal(this.ordinal)) {
+            MutableText.logger.warning('The field ordinal of type MutableText/InsertOp is missing or invalid.');
+            return false;
+        }
+
+        if ((this.after === undefined) !== (this.afterIndex === undefined)) {
+            MutableText.logger.warning('The fields after and afterIndex of type MutableText/InsertOp should be either both present or both absent.');
+            return false;
+        }
+
+        if (this.after !== undefined) {
+
+            if (!(this.after instanceof HashReference)) {
+                MutableText.logger.warning('The field after of type MutableText/InsertOp should be a HashReference.');
+                return false;
+            }
+
+            const op = references.get(this.after.hash);
+
+            if (!(op instanceof InsertOp)) {
+                MutableText.logger.warning('The anchor of a MutableText/InsertOp is missing or has the wrong type in the references provided for validation.');
+                return false;
+            }
+
+            if (!op.getTargetObject().equals(targetObject)) {
+                MutableText.logger.warning('The anchor of a MutableText/InsertOp points to a different text.');
+                return false;
+            }
+
+            if (!MutableText.isIndexWithin(this.afterIndex, 0, (op.text as string).length - 1)) {
+                MutableText.logger.warning('The field afterIndex of type MutableText/InsertOp is out of bounds.');
+                return false;
+            }
+        }
+
+        return true;
+    }
+}
+
+class DeleteOp extends CollectionOp<string> {
+
+    static className = 'hhs/v0/MutableText/DeleteOp';
+
+    insertOp?: HashReference<InsertOp>;
+    start?: number;
+    end?: number;
+
+    constructor(target?: MutableText, insertOp?: HashReference<InsertOp>, start?: number, end?: number, author?: Identity) {
+        super(target);
+
+        this.insertOp = insertOp;
+        this.start = start;
+        this.end = end;
+
+        if (author !== undefined) {
+            this.setAuthor(author);
+        }
+    }
+
+    getClassName(): string {
+        return DeleteOp.className;
+    }
+
+    init(): void {
+        super.init();
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        const targetObject = this.getTargetObject();
+
+        if (!(targetObject instanceof MutableText)) {
+            return false;
+        }
+
+        if (this.insertOp === undefined || !(this.insertOp instanceof HashReference)) {
+            MutableText.logger.warning('The field insertOp of type MutableText/DeleteOp is mandatory and should be a HashReference.');
+            return false;
+        }
+
+        const op = references.get(this.insertOp.hash);
+
+        if (!(op instanceof InsertOp)) {
+            MutableText.logger.warning('Insertion op referenced in MutableText/DeleteOp is missing or has the wrong type in the references provided for validation.');
+            return false;
+        }
+
+        if (!op.getTargetObject().equals(targetObject)) {
+            MutableText.logger.warning('Insertion op referenced in MutableText/DeleteOp points to a different text.');
+            return false;
+        }
+
+        if (!MutableText.isIndexWithin(this.start, 0, (op.text as string).length - 1) ||
+            !MutableText.isIndexWithin(this.end, (this.start as number) + 1, (op.text as string).length)) {
+
+            MutableText.logger.warning('The range in MutableText/DeleteOp is out of bounds.');
+            return false;
+        }
+
+        return true;
+    }
+}
+
+// A character in the text, identified by the insertion op that created it and its index within
+// that op's run. Unlike offsets, positions are not affected by concurrent edits.
+
+type TextPosition = { op: Hash, index: number };
+
+type TextRun = { text: string, after?: Hash, afterIndex?: number, ordinal: Ordinal };
+
+type MutableTextLiteralState = {
+    runs: Array<[Hash, TextRun]>,
+    deleted: Array<[Hash, Array<number>]>
+};
+
+class MutableText extends BaseCollection<string> {
+
+    static className = 'hhs/v0/MutableText';
+    static opClasses = [InsertOp.className, DeleteOp.className];
+    static logger    = new Logger(MutableText.className, LogLevel.INFO);
+
+    _runs: Map<Hash, TextRun>;
+    _runsPerAnchor: MultiMap<string, Hash>;
+    _deleted: MultiMap<Hash, number>;
+
+    _needToRebuild: boolean;
+
+    _text: string;
+    _positions: Array<TextPosition>;         // the position of each visible character
+    _offsetsPerRun: Map<Hash, Array<number>>; // the offset of each character (deleted or not)
+
+    constructor(config: CollectionConfig = {}) {
+        super(MutableText.opClasses, config);
+
+        this.setRandomId();
+
+        this._runs          = new Map();
+        this._runsPerAnchor = new MultiMap();
+        this._deleted       = new MultiMap();
+
+        this._needToRebuild = false;
+
+        this._text          = '';
+        this._positions     = [];
+        this._offsetsPerRun = new Map();
+    }
+
+    getClassName(): string {
+        return MutableText.className;
+    }
+
+    init(): void {
+
+    }
+
+    async insertAt(text: string, offset: number, author?: Identity) {
+
+        if (text.length === 0) {
+            return;
+        }
+
+        this.rebuild();
+
+        if (!MutableText.isIndexWithin(offset, 0, this._text.length)) {
+            throw new Error('Trying to insert at offset ' + offset + ' in a MutableText of length ' + this._text.length);
+        }
+
+        let after      : HashReference<InsertOp>|undefined = undefined;
+        let afterIndex : number|undefined                  = undefined;
+
+        if (offset > 0) {
+            const position = this._positions[offset-1];
+
+            after      = new HashReference(position.op, InsertOp.className);
+            afterIndex = position.index;
+        }
+
+        // the new run goes right after the anchor: before any other runs anchored there
+
+        let before: Ordinal|undefined = undefined;
+
+        for (const runHash of this._runsPerAnchor.get(MutableText.anchorKey(after?.hash, afterIndex))) {
+            const ordinal = (this._runs.get(runHash) as TextRun).ordinal;
+
+            if (before === undefined || ordinal < before) {
+                before = ordinal;
+            }
+        }
+
+        const ordinal = DenseOrder.between(undefined, before);
+
+        const insertOp = new InsertOp(this, text, after, afterIndex, ordinal, author);
+
+        await this.applyNewOp(insertOp);
+    }
+
+    async deleteRange(offset: number, length: number, author?: Identity) {
+
+        this.rebuild();
+
+        const end = Math.min(offset + length, this._text.length);
+
+        if (!MutableText.isIndexWithin(offset, 0, this._text.length)) {
+            throw new Error('Trying to delete at offset ' + offset + ' in a MutableText of length ' + this._text.length);
+        }
+
+        // group consecutive characters that belong to the same run, any characters of that run in
+        // between are either within the range too, or have already been deleted
+
+        const ranges: Array<{op: Hash, start: number, end: number}> = [];
+
+        for (let i=offset; i<end; i++) {
+            const position = this._positions[i];
+            const last = ranges.length > 0? ranges[ranges.length-1] : undefined;
+
+            if (last !== undefined && last.op === position.op && last.end <= position.index) {
+                last.end = position.index + 1;
+            } else {
+                ranges.push({op: position.op, start: position.index, end: position.index + 1});
+            }
+        }
+
+        for (const range of ranges) {
+            const deleteOp = new DeleteOp(this, new HashReference(range.op, InsertOp.className), range.start, range.end, author);
+            await this.applyNewOp(deleteOp);
+        }
+    }
+
+    async append(text: string, author?: Identity) {
+        this.rebuild();
+        await this.insertAt(text, this._text.length, author);
+    }
+
+    getText(): string {
+        this.rebuild();
+        return this._text;
+    }
+
+    toString(): string {
+        return this.getText();
+    }
+
+    length(): number {
+        this.rebuild();
+        return this._text.length;
+    }
+
+    // Returns the position of the character at offset, or undefined if offset is out of bounds.
+
+    positionAt(offset: number): TextPosition|undefined {
+        this.rebuild();
+
+        const position = this._positions[offset];
+
+        return position === undefined? undefined : {op: position.op, index: position.index};
+    }
+
+    // Returns the offset of the character at the given position. If that character was deleted,
+    // it returns the offset it would have if it weren't (i.e. the offset of the next character).
+    // If the position is unknown, it returns -1.
+
+    offsetOf(position: TextPosition): number {
+        this.rebuild();
+
+        const offsets = this._offsetsPerRun.get(position.op);
+
+        if (offsets === undefined || !MutableText.isIndexWithin(position.index, 0, offsets.length-1)) {
+            return -1;
+        }
+
+        return offsets[position.index];
+    }
+
+    isDeleted(position: TextPosition): boolean {
+        return this._deleted.has(position.op, position.index);
+    }
+
+    async mutate(op: MutationOp): Promise<boolean> {
+
+        let mutated = false;
+
+        if (op instanceof InsertOp) {
+
+            const opHash = op.getLastHash();
+
+            if (!this._runs.has(opHash)) {
+                const run: TextRun = { text: op.text as string, ordinal: op.ordinal as Ordinal };
+
+                if (op.after !== undefined) {
+                    run.after      = op.after.hash;
+                    run.afterIndex = op.afterIndex;
+                }
+
+                this._runs.set(opHash, run);
+                this._runsPerAnchor.add(MutableText.anchorKey(run.after, run.afterIndex), opHash);
+
+                this._needToRebuild = true;
+                mutated = true;
+
+                this._mutationEventSource?.emit({emitter: this, action: 'insert', data: run.text} as InsertEvent);
+            }
+
+        } else if (op instanceof DeleteOp) {
+
+            const runHash = (op.insertOp as HashReference<InsertOp>).hash;
+            const run     = this._runs.get(runHash);
+
+            let deletedText = '';
+
+            for (let i=op.start as number; i<(op.end as number); i++) {
+                if (!this._deleted.has(runHash, i)) {
+                    this._deleted.add(runHash, i);
+
+                    if (run !== undefined) {
+                        deletedText = deletedText + run.text[i];
+                    }
+
+                    mutated = true;
+                }
+            }
+
+            if (mutated) {
+                this._needToRebuild = true;
+
+                this._mutationEventSource?.emit({emitter: this, action: 'delete', data: deletedText} as DeleteEvent);
+            }
+
+        } else {
+            throw new Error('Invalid op type for MutableText:' + op?.getClassName());
+        }
+
+        return mutated;
+    }
+
+    private rebuild() {
+
+        if (this._needToRebuild) {
+
+            let text = '';
+
+            this._positions     = [];
+            this._offsetsPerRun = new Map();
+
+            // A depth-first walk over the runs, using a stack to avoid deep recursion on long
+            // editing histories: after each character, we visit the runs anchored at it.
+
+            const stack: Array<TextPosition> = [];
+
+            this.pushAnchoredRuns(stack, undefined, undefined);
+
+            while (stack.length > 0) {
+
+                const position = stack.pop() as TextPosition;
+                const run      = this._runs.get(position.op) as TextRun;
+
+                if (position.index >= run.text.length) {
+                    continue;
+                }
+
+                let offsets = this._offsetsPerRun.get(position.op);
+
+                if (offsets === undefined) {
+                    offsets = [];
+                    this._offsetsPerRun.set(position.op, offsets);
+                }
+
+                offsets.push(this._positions.length);
+
+                if (!this._deleted.has(position.op, position.index)) {
+                    text = text + run.text[position.index];
+                    this._positions.push(position);
+                }
+
+                stack.push({op: position.op, index: position.index + 1});
+                this.pushAnchoredRuns(stack, position.op, position.index);
+            }
+
+            this._text = text;
+
+            this._needToRebuild = false;
+        }
+    }
+
+    // Pushes the runs anchored after the given character in reverse order, so they will be popped
+    // from the stack in the right one.
+
+    private pushAnchoredRuns(stack: Array<TextPosition>, after?: Hash, afterIndex?: number) {
+
+        const runHashes = Array.from(this._runsPerAnchor.get(MutableText.anchorKey(after, afterIndex)));
+
+        runHashes.sort((h1: Hash, h2: Hash) => {
+            const o1 = (this._runs.get(h1) as TextRun).ordinal;
+            const o2 = (this._runs.get(h2) as TextRun).ordinal;
+
+            if (o1 === o2) {
+                return h1.localeCompare(h2);
+            } else {
+                return o1 < o2? -1 : 1;
+            }
+        });
+
+        for (let i=runHashes.length-1; i>=0; i--) {
+            stack.push({op: runHashes[i], index: 0});
+        }
+    }
+
+    exportMutableState(): MutableTextLiteralState {
+
+        const deleted: Array<[Hash, Array<number>]> = [];
+
+        for (const [runHash, indexes] of this._deleted.entries()) {
+            deleted.push([runHash, Array.from(indexes)]);
+        }
+
+        return {
+            runs: Array.from(this._runs.entries()).map(([runHash, run]) => [runHash, {...run}]),
+            deleted: deleted
+        };
+    }
+
+    importMutableState(state: MutableTextLiteralState) {
+
+        this._runs          = new Map();
+        this._runsPerAnchor = new MultiMap();
+        this._deleted       = new MultiMap();
+
+        for (const [runHash, run] of state.runs) {
+            this._runs.set(runHash, {...run});
+            this._runsPerAnchor.add(MutableText.anchorKey(run.after, run.afterIndex), runHash);
+        }
+
+        for (const [runHash, indexes] of state.deleted) {
+            for (const index of indexes) {
+                this._deleted.add(runHash, index);
+            }
+        }
+
+        this._needToRebuild = true;
+        this.rebuild();
+    }
+
+    getMutableContents(): MultiMap<Hash, HashedObject> {
+        return new MultiMap();
+    }
+
+    getMutableContentByHash(_hash: Hash): Set<HashedObject> {
+        return new Set();
+    }
+
+    private static anchorKey(after?: Hash, afterIndex?: number) {
+        return after === undefined? '' : after + '/' + afterIndex;
+    }
+
+    static isIndexWithin(index: any, min: number, max: number): boolean {
+        return typeof(index) === 'number' && Number.isInteger(index) && min <= index && index <= max;
+    }
+}
+
+ClassRegistry.register(InsertOp.className, InsertOp);
+ClassRegistry.register(DeleteOp.className, DeleteOp);
+ClassRegistry.register(MutableText.className, MutableText);
+
+type InsertEvent = {emitter: MutableText, action: 'insert', path?: location<HashedObject>[], data: string};
+type DeleteEvent = {emitter: MutableText, action: 'delete', path?: location<HashedObject>[], data: string};
+
+type MutationEvent = InsertEvent | DeleteEvent;
+
+export { MutableText, InsertOp as MutableTextInsertOp, DeleteOp as MutableTextDeleteOp };
+export type { TextPosition, MutableTextLiteralState };
+export { InsertEvent as MutableTextInsertEvent, DeleteEvent as MutableTextDeleteEvent, MutationEvent as MutableTextMutationEvent };
@@ -0,0 +1,197 @@
+import { MutableObject, MutableObjectConfig } from '../../model/mutable/MutableObject';
+import { MutationOp } from '../../model/mutable/MutationOp';
+import { HashedObject } from '../../model/immutable/HashedObject';
+import { Hash } from '../../model/hashing';
+import { ClassRegistry } from '../../model';
+import { MultiMap } from 'util/multimap';
+import { Identity } from 'data/identity';
+
+import { GrowOnlyCounter } from './GrowOnlyCounter';
+
+// A counter that can go up and down: increments and decrements are tallied separately for each
+// author (as two grow-only counters would), and the value is their difference.
+
+class PNCounter extends MutableObject {
+
+    static className = 'hhs/v0/PNCounter';
+    static opClasses = ['hhs/v0/PNCounter/IncrementOp', 'hhs/v0/PNCounter/DecrementOp'];
+
+    _incrementsPerAuthor: Map<Hash, number>;
+    _decrementsPerAuthor: Map<Hash, number>;
+    _value: number;
+
+    constructor(config?: MutableObjectConfig) {
+        super(PNCounter.opClasses, {supportsCheckpoints: true, ...config});
+
+        this.setRandomId();
+
+        this._incrementsPerAuthor = new Map();
+        this._decrementsPerAuthor = new Map();
+        this._value = 0;
+    }
+
+    getClassName(): string {
+        return PNCounter.className;
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+        references;
+        return true;
+    }
+
+    increment(amount=1, author?: Identity) {
+
+        if (!GrowOnlyCounter.isValidAmount(amount)) {
+            throw new Error('PNCounter increments should be positive integers, got: ' + amount);
+        }
+
+        const op = new IncrementOp(this, amount, author);
+        return this.applyNewOp(op);
+    }
+
+    decrement(amount=1, author?: Identity) {
+
+        if (!GrowOnlyCounter.isValidAmount(amount)) {
+            throw new Error('PNCounter decrements should be positive integers, got: ' + amount);
+        }
+
+        const op = new DecrementOp(this, amount, author);
+        return this.applyNewOp(op);
+    }
+
+    getValue(): number {
+        return this._value;
+    }
+
+    getValueForAuthor(author?: Identity): number {
+        return this.getValueForAuthorHash(author?.hash());
+    }
+
+    getValueForAuthorHash(authorHash?: Hash): number {
+        return (this._incrementsPerAuthor.get(authorHash || '') || 0) - (this._decrementsPerAuthor.get(authorHash || '') || 0);
+    }
+
+    mutate(op: MutationOp): Promise<boolean> {
+
+        let mutated = false;
+
+        if (op instanceof IncrementOp || op instanceof DecrementOp) {
+            const authorHash = op.getAuthor()?.hash() || '';
+            const amount     = op.getAmount();
+
+            if (op instanceof IncrementOp) {
+                this._incrementsPerAuthor.set(authorHash, (this._incrementsPerAuthor.get(authorHash) || 0) + amount);
+                this._value = this._value + amount;
+            } else {
+                this._decrementsPerAuthor.set(authorHash, (this._decrementsPerAuthor.get(authorHash) || 0) + amount);
+                this._value = this._value - amount;
+            }
+
+            mutated = true;
+
+            this._mutationEventSource?.emit({emitter: this, action: op instanceof IncrementOp? 'increment' : 'decrement', data: amount});
+        }
+
+        return Promise.resolve(mutated);
+    }
+
+    getMutableContents(): MultiMap<Hash, HashedObject> {
+        return new MultiMap();
+    }
+
+    getMutableContentByHash(_hash: Hash): Set<HashedObject> {
+        return new Set();
+    }
+
+    exportMutableState() {
+        return {
+            _incrementsPerAuthor: Array.from(this._incrementsPerAuthor.entries()),
+            _decrementsPerAuthor: Array.from(this._decrementsPerAuthor.entries())
+        };
+    }
+
+    importMutableState(state: any) {
+        this._incrementsPerAuthor = new Map(state._incrementsPerAuthor);
+        this._decrementsPerAuthor = new Map(state._decrementsPerAuthor);
+        this._value = 0;
+
+        for (const count of this._incrementsPerAuthor.values()) {
+            this._value = this._value + count;
+        }
+
+        for (const count of this._decrementsPerAuthor.values()) {
+            this._value = this._value - count;
+        }
+    }
+}
+
+abstract class CounterOp extends MutationOp {
+
+    amount?: number;
+
+    constructor(targetObject?: PNCounter, amount?: number, author?: Identity) {
+        super(targetObject);
+
+        if (targetObject !== undefined) {
+            this.amount = amount;
+
+            if (author !== undefined) {
+                this.setAuthor(author);
+            }
+        }
+    }
+
+    init(): void {
+
+    }
+
+    async validate(references: Map<Hash, HashedObject>) {
+
+        if (!await super.validate(references)) {
+            return false;
+        }
+
+        if (!(this.getTargetObject() instanceof PNCounter)) {
+            return false;
+        }
+
+        if (!GrowOnlyCounter.isValidAmount(this.amount)) {
+            MutableObject.validationLog.debug('The field amount should be a positive integer in class ' + this.getClassName());
+            return false;
+        }
+
+        return true;
+    }
+
+    getAmount() {
+        return this.amount as number;
+    }
+}
+
+class IncrementOp extends CounterOp {
+
+    static className = 'hhs/v0/PNCounter/IncrementOp';
+
+    getClassName(): string {
+        return IncrementOp.className;
+    }
+}
+
+class DecrementOp extends CounterOp {
+
+    static className = 'hhs/v0/PNCounter/DecrementOp';
+
+    getClassName(): string {
+        return DecrementOp.className;
+    }
+}
+
+ClassRegistry.register(PNCounter.className, PNCounter);
+ClassRegistry.register(IncrementOp.className, IncrementOp);
+ClassRegistry.register(DecrementOp.className, DecrementOp);
+
+export { PNCounter, IncrementOp as PNCounterIncrementOp, DecrementOp as PNCounterDecrementOp };
@@ -1,3 +1,14 @@
 export { Identity } from './identity/Identity';
+export type { SigningKeyPair, SigningPublicKey } from './identity/Identity';
 export { RSAKeyPair } from './identity/RSAKeyPair';
-export { RSAPublicKey } from './identity/RSAPublicKey';
\ No newline at end of file
+export { RSAPublicKey } from './identity/RSAPublicKey';
+export { Ed25519KeyPair } from './identity/Ed25519KeyPair';
+export { Ed25519PublicKey } from './identity/Ed25519PublicKey';
+export { X25519KeyPair } from './identity/X25519KeyPair';
+export { X25519PublicKey } from './identity/X25519PublicKey';
+export type { IdentityProvider } from './identity/IdentityProvider';
+export { SignerHost } from './identity/SignerHost';
+export type { SignerChannel, SignTextRequest, SignTextReply } from './identity/SignerHost';
+export { RemoteIdentityProvider } from './identity/RemoteIdentityProvider';
+export { ThresholdIdentity } from './identity/ThresholdIdentity';
+export type { ThresholdSignature } from './identity/ThresholdIdentity';
@@ -0,0 +1,112 @@
+import { WebCryptoEd25519SigKP } from 'crypto/sign';
+import { HashedObject } from '../model/immutable/HashedObject';
+import { Ed25519PublicKey } from './Ed25519PublicKey';
+import { Hashing } from 'data/model/hashing/Hashing';
+
+// Note: like RSAKeyPair, this class uses a custom hash function that omits the
+//       private key, so an Ed25519PublicKey can generate the hash of its key pair.
+//       The private key is self-signed, and the signature is checked on validation.
+
+class Ed25519KeyPair extends HashedObject {
+
+    static className = 'hhs/v0/Ed25519KeyPair';
+
+    static async generate() {
+        let ed25519 = new WebCryptoEd25519SigKP();
+        await ed25519.generateKey();
+
+        return Ed25519KeyPair.fromKeys(ed25519.getPublicKey(), ed25519.getPrivateKey());
+    }
+
+    static async fromKeys(publicKey: string, privateKey?: string) {
+        let keyPair = new Ed25519KeyPair();
+        keyPair.publicKey = publicKey;
+        keyPair.privateKey = privateKey;
+        keyPair.init();
+        await keyPair.selfSign();
+        return keyPair;
+    }
+
+    publicKey?: string;
+    privateKey?: string;
+    privateKeySignature?: string;
+
+    _ed25519Promise?: Promise<WebCryptoEd25519SigKP>;
+
+    constructor() {
+        super();
+    }
+
+    init() {
+        this._ed25519Promise = this.initEd25519();
+    }
+
+    async validate() {
+        return this.checkSelfSignature();
+    }
+
+    private async initEd25519(): Promise<WebCryptoEd25519SigKP> {
+        const _ed25519 = new WebCryptoEd25519SigKP();
+        await _ed25519.loadKeyPair(this.getPublicKey(), this.getPrivateKey());
+        return _ed25519;
+    }
+
+    private async selfSign() {
+
+        if (this._ed25519Promise === undefined) {
+            throw new Error('Attempting to self sign keypair, but Ed25519 has not been initialized.');
+        }
+
+        this.privateKeySignature = await (await this._ed25519Promise).sign(this.privateKey as string);
+    }
+
+    private checkSelfSignature() {
+        return this.makePublicKey().verifySignature(this.privateKey as string, this.privateKeySignature as string);
+    }
+
+    getClassName() {
+        return Ed25519KeyPair.className;
+    }
+
+    customHash(seed?: string) {
+        return Ed25519KeyPair.hashPublicKeyPart(this.publicKey as string, seed);
+    }
+
+    getPublicKey() {
+        return this.publicKey as string;
+    }
+
+    getPrivateKey() {
+        return this.privateKey as string;
+    }
+
+    makePublicKey() {
+        return Ed25519PublicKey.fromKeys(this.getPublicKey());
+    }
+
+    async sign(text: string) {
+
+        if (this._ed25519Promise === undefined) {
+            throw new Error('Attempting to create signature, but Ed25519 has not been initialized.');
+        }
+
+        return (await this._ed25519Promise).sign(text);
+    }
+
+    async verifySignature(text: string, signature: string) {
+
+        if (this._ed25519Promise === undefined) {
+            throw new Error('Attempting to verify signature, but Ed25519 has not been initialized.');
+        }
+
+        return (await this._ed25519Promise).verify(text, signature);
+    }
+
+    static hashPublicKeyPart(publicKey: string, seed?: string) {
+        return Hashing.forValue({'_type': 'custom_hashed_object', '_class': Ed25519KeyPair.className, '_contents': {'publicKey': publicKey}}, seed);
+    }
+}
+
+HashedObject.registerClass(Ed25519KeyPair.className, Ed25519KeyPair);
+
+export { Ed25519KeyPair };
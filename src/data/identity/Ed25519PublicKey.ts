@@ -0,0 +1,74 @@
+import { WebCryptoEd25519SigKP } from 'crypto/sign';
+import { Ed25519KeyPair } from './Ed25519KeyPair';
+
+import { HashedObject } from '../model/immutable/HashedObject';
+
+class Ed25519PublicKey extends HashedObject {
+
+    static className = 'hhs/v0/Ed25519PublicKey';
+
+    static fromKeys(publicKey: string) : Ed25519PublicKey {
+
+        let pk = new Ed25519PublicKey();
+
+        pk.publicKey = publicKey;
+
+        pk.init();
+
+        return pk;
+    }
+
+    publicKey?: string;
+
+    _ed25519Promise?: Promise<WebCryptoEd25519SigKP>;
+
+    constructor() {
+        super();
+    }
+
+    init() {
+        this._ed25519Promise = this.initEd25519();
+    }
+
+    private async initEd25519(): Promise<WebCryptoEd25519SigKP> {
+        const _ed25519 = new WebCryptoEd25519SigKP();
+        await _ed25519.loadKeyPair(this.getPublicKey());
+        return _ed25519;
+    }
+
+    async validate() {
+        try {
+            const _ed25519 = new WebCryptoEd25519SigKP();
+            await _ed25519.loadKeyPair(this.getPublicKey());
+            return true;
+        } catch (e: any) {
+            return false;
+        }
+    }
+
+    getClassName() {
+        return Ed25519PublicKey.className;
+    }
+
+    getPublicKey() {
+        return this.publicKey as string;
+    }
+
+    getKeyPairHash() {
+        return Ed25519KeyPair.hashPublicKeyPart(this.publicKey as string);
+    }
+
+    async verifySignature(text: string, signature: string) {
+
+        if (this._ed25519Promise === undefined) {
+            throw new Error('Ed25519 public key is empty, cannot verify signature');
+        }
+
+        return (await this._ed25519Promise).verify(text, signature);
+    }
+
+}
+
+HashedObject.registerClass(Ed25519PublicKey.className, Ed25519PublicKey);
+
+export { Ed25519PublicKey };
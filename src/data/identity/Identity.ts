@@ -1,33 +1,59 @@
 import { HashedObject } from '../model/immutable/HashedObject';
+import { Hash } from '../model/hashing/Hashing';
 
 import { RSAKeyPair } from './RSAKeyPair';
 import { RSAPublicKey } from './RSAPublicKey';
+import { Ed25519KeyPair } from './Ed25519KeyPair';
+import { Ed25519PublicKey } from './Ed25519PublicKey';
+import { X25519KeyPair } from './X25519KeyPair';
+import { X25519PublicKey } from './X25519PublicKey';
 
+// An identity's public key is used to verify its signatures, and can be either RSA or
+// Ed25519. Optionally, an identity may also carry an X25519 key for key agreement.
 
+type SigningKeyPair   = RSAKeyPair | Ed25519KeyPair;
+type SigningPublicKey = RSAPublicKey | Ed25519PublicKey;
 
 class Identity extends HashedObject {
 
     static className = 'hhs/v0/Identity';
 
-    static fromKeyPair(info: any, keyPair: RSAKeyPair) : Identity {
-        let id = Identity.fromPublicKey(info, keyPair.makePublicKey());
+    static keyPairClassNames = [RSAKeyPair.className, Ed25519KeyPair.className, X25519KeyPair.className];
+
+    static fromKeyPair(info: any, keyPair: SigningKeyPair, agreementKeyPair?: X25519KeyPair) : Identity {
+        let id = Identity.fromPublicKey(info, keyPair.makePublicKey(), agreementKeyPair?.makePublicKey());
         id.addKeyPair(keyPair);
+
+        if (agreementKeyPair !== undefined) {
+            id.addAgreementKeyPair(agreementKeyPair);
+        }
+
         return id;
     }
 
-    static fromPublicKey(info: any, publicKey: RSAPublicKey) {
+    static fromPublicKey(info: any, publicKey: SigningPublicKey, agreementKey?: X25519PublicKey) {
         let id = new Identity();
 
         id.info = info;
         id.publicKey = publicKey;
+
+        if (agreementKey !== undefined) {
+            id.agreementKey = agreementKey;
+        }
         
         return id;
     }
 
+    static isKeyPair(obj: any): obj is SigningKeyPair|X25519KeyPair {
+        return obj instanceof RSAKeyPair || obj instanceof Ed25519KeyPair || obj instanceof X25519KeyPair;
+    }
+
     info?: any;
-    publicKey?: RSAPublicKey;
+    publicKey?: SigningPublicKey;
+    agreementKey?: X25519PublicKey;
 
-    _keyPair?: RSAKeyPair;
+    _keyPair?: SigningKeyPair;
+    _agreementKeyPair?: X25519KeyPair;
 
     constructor() {
         super();
@@ -38,6 +64,15 @@ class Identity extends HashedObject {
     }
 
     async validate() {
+
+        if (this.publicKey !== undefined && !(this.publicKey instanceof RSAPublicKey || this.publicKey instanceof Ed25519PublicKey)) {
+            return false;
+        }
+
+        if (this.agreementKey !== undefined && !(this.agreementKey instanceof X25519PublicKey)) {
+            return false;
+        }
+
         return true;
     }
 
@@ -51,7 +86,13 @@ class Identity extends HashedObject {
             throw new Error('Cannot verify signature, Identity is uninitialized')
         }
 
-        return this.publicKey.verifySignature(text, signature);
+        if (this.publicKey instanceof RSAPublicKey) {
+            return this.publicKey.verifySignature(text, signature);
+        } else if (this.publicKey instanceof Ed25519PublicKey) {
+            return this.publicKey.verifySignature(text, signature);
+        } else {
+            throw new Error('Cannot verify signature, the public key of Identity ' + this.hash() + ' is of an unknown type');
+        }
     }
 
     encrypt(text: string) {
@@ -60,19 +101,27 @@ class Identity extends HashedObject {
             throw new Error('Cannot ecnrypt, Identity is uninitialized')
         }
 
+        if (!(this.publicKey instanceof RSAPublicKey)) {
+            throw new Error('Cannot encrypt, the public key of Identity ' + this.hash() + ' is of type ' + this.publicKey.getClassName() + ', only RSA keys support encryption');
+        }
+
         return this.publicKey.encrypt(text);
     }
 
+    hasPublicKey() {
+        return this.publicKey !== undefined;
+    }
+
     getPublicKey() {
-        return this.publicKey as RSAPublicKey;
+        return this.publicKey as SigningPublicKey;
     }
 
     getKeyPairHash() {
         return this.getPublicKey().getKeyPairHash();
     }
 
-    addKeyPair(keyPair: RSAKeyPair) {
-        if (keyPair.hash() !== this.getKeyPairHash()) {
+    addKeyPair(keyPair: SigningKeyPair) {
+        if (keyPair.hash() !== this.getKeyPairHash()) {
             throw new Error('Trying to add key pair to identity, but it does not match identity public key');
         }
 
@@ -83,16 +132,16 @@ class Identity extends HashedObject {
         return this._keyPair !== undefined;
     }
 
-    getKeyPair(): RSAKeyPair {
+    getKeyPair(): SigningKeyPair {
 
         if (!this.hasKeyPair()) {
             throw new Error('Trying to get key pair, but it is missing from Identity ' + this.hash() + ' (info=' + JSON.stringify(this.info) + ').');
         }
 
-        return this._keyPair as RSAKeyPair;
+        return this._keyPair as SigningKeyPair;
     }
 
-    getKeyPairIfExists(): RSAKeyPair|undefined {
+    getKeyPairIfExists(): SigningKeyPair|undefined {
 
         try {
             return this.getKeyPair()
@@ -111,12 +160,76 @@ class Identity extends HashedObject {
             throw new Error('Trying to decrypt using Identity object, but no keyPair has been loaded');
         }
 
+        if (!(this._keyPair instanceof RSAKeyPair)) {
+            throw new Error('Trying to decrypt using Identity object, but its key pair is of type ' + this._keyPair.getClassName() + ', only RSA keys support encryption');
+        }
+
         return this._keyPair.decrypt(text);
     }
 
+    hasAgreementKey() {
+        return this.agreementKey !== undefined;
+    }
+
+    getAgreementKey() {
+        return this.agreementKey as X25519PublicKey;
+    }
+
+    getAgreementKeyPairHash() {
+        return this.getAgreementKey().getKeyPairHash();
+    }
+
+    addAgreementKeyPair(keyPair: X25519KeyPair) {
+        if (!this.hasAgreementKey() || keyPair.hash() !== this.getAgreementKeyPairHash()) {
+            throw new Error('Trying to add key agreement key pair to identity, but it does not match identity agreement key');
+        }
+
+        this._agreementKeyPair = keyPair;
+    }
+
+    hasAgreementKeyPair() {
+        return this._agreementKeyPair !== undefined;
+    }
+
+    getAgreementKeyPair(): X25519KeyPair {
+
+        if (!this.hasAgreementKeyPair()) {
+            throw new Error('Trying to get key agreement key pair, but it is missing from Identity ' + this.hash() + ' (info=' + JSON.stringify(this.info) + ').');
+        }
+
+        return this._agreementKeyPair as X25519KeyPair;
+    }
+
+    // Forgets the key pairs (signing and / or key agreement) with the given hash, if this
+    // identity is holding them.
+
+    removeKeyPairs(hash: Hash) {
+
+        if (this._keyPair !== undefined && this._keyPair.hash() === hash) {
+            this._keyPair = undefined;
+        }
+
+        if (this._agreementKeyPair !== undefined && this._agreementKeyPair.hash() === hash) {
+            this._agreementKeyPair = undefined;
+        }
+    }
+
+    // Derives a secret shared with another identity, using this identity's X25519 key pair
+    // and the other identity's X25519 public key.
+
+    async deriveSharedSecret(other: Identity) {
+
+        if (!other.hasAgreementKey()) {
+            throw new Error('Cannot derive shared secret, Identity ' + other.hash() + ' has no key agreement key');
+        }
+
+        return this.getAgreementKeyPair().deriveSharedSecret(other.getAgreementKey());
+    }
+
     clone(): this {
         const clone = super.clone();
         clone._keyPair = this._keyPair;
+        clone._agreementKeyPair = this._agreementKeyPair;
 
         return clone;
     }
@@ -125,4 +238,5 @@ class Identity extends HashedObject {
 
 HashedObject.registerClass(Identity.className, Identity);
 
-export { Identity };
\ No newline at end of file
+export { Identity };
+export type { SigningKeyPair, SigningPublicKey };
@@ -0,0 +1,126 @@
+import { RNGImpl } from 'crypto/random';
+
+import { Hash } from '../model/hashing/Hashing';
+import { Literal } from '../model/literals/LiteralUtils';
+import { LiteralContext, Context } from '../model/literals/Context';
+
+import { Identity } from './Identity';
+import { IdentityProvider } from './IdentityProvider';
+import { SignerChannel, SignerHost, SignTextReply, SignTextRequest } from './SignerHost';
+
+// An IdentityProvider that delegates signing to a SignerHost on the other end of a message
+// channel. Set it as the identityProvider in a Resources object to have its store sign
+// through it (see Store.addToBatch).
+
+type PendingRequest = {
+    resolve: (signature: string) => void,
+    reject: (reason: any) => void,
+    timer?: any
+};
+
+class RemoteIdentityProvider implements IdentityProvider {
+
+    static defaultTimeout = 30000;
+
+    channel: SignerChannel;
+    timeout: number;
+
+    pending: Map<string, PendingRequest>;
+
+    constructor(channel: SignerChannel, timeout?: number) {
+
+        this.channel = channel;
+        this.timeout = timeout || RemoteIdentityProvider.defaultTimeout;
+        this.pending = new Map();
+
+        this.channel.onmessage = (ev: { data: any }) => {
+
+            const reply = ev?.data;
+
+            if (SignerHost.isReply(reply)) {
+                this.ingestReply(reply);
+            }
+        };
+    }
+
+    signText(text: string, id: Identity): Promise<string> {
+        return this.signTextForAuthor(text, id.hash());
+    }
+
+    async signLiteral(literal: Literal): Promise<void> {
+        if (literal.author !== undefined && literal.signature === undefined) {
+            literal.signature = await this.signTextForAuthor(literal.hash, literal.author);
+        }
+    }
+
+    async signLiteralContext(literalContext: LiteralContext): Promise<void> {
+        for (const hash of literalContext.rootHashes) {
+            await this.signLiteral(literalContext.literals[hash] as Literal);
+        }
+    }
+
+    async signContext(context: Context): Promise<void> {
+        for (const hash of context.rootHashes) {
+            await this.signLiteral(context.literals.get(hash) as Literal);
+        }
+    }
+
+    close() {
+
+        for (const [requestId, pending] of this.pending.entries()) {
+            clearTimeout(pending.timer);
+            pending.reject(new Error('Signing request ' + requestId + ' was cancelled: the identity provider was closed.'));
+        }
+
+        this.pending.clear();
+        this.channel.onmessage = null;
+    }
+
+    private signTextForAuthor(text: string, author: Hash): Promise<string> {
+
+        const req: SignTextRequest = {
+            type: 'sign-text-request',
+            requestId: new RNGImpl().randomHexString(128),
+            author: author,
+            text: text
+        };
+
+        return new Promise<string>((resolve: (signature: string) => void, reject: (reason: any) => void) => {
+
+            const timer = setTimeout(() => {
+                this.pending.delete(req.requestId);
+                reject(new Error('Timeout while waiting for a signature for identity ' + author + ' from the remote signer.'));
+            }, this.timeout);
+
+            this.pending.set(req.requestId, { resolve: resolve, reject: reject, timer: timer });
+
+            try {
+                this.channel.postMessage(req);
+            } catch (e) {
+                clearTimeout(timer);
+                this.pending.delete(req.requestId);
+                reject(e);
+            }
+        });
+    }
+
+    private ingestReply(reply: SignTextReply) {
+
+        const pending = this.pending.get(reply.requestId);
+
+        if (pending === undefined) {
+            return;
+        }
+
+        this.pending.delete(reply.requestId);
+        clearTimeout(pending.timer);
+
+        if (reply.signature !== undefined) {
+            pending.resolve(reply.signature);
+        } else {
+            pending.reject(new Error(reply.error || 'The remote signer did not return a signature.'));
+        }
+    }
+}
+
+export { RemoteIdentityProvider };
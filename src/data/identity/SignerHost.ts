@@ -0,0 +1,110 @@
+import { Hash } from '../model/hashing/Hashing';
+import { Identity, SigningKeyPair } from './Identity';
+import { Logger, LogLevel } from 'util/logging';
+
+// A SignerHost keeps the key pairs of some identities, and signs on their behalf when asked
+// to over a message channel (e.g. a MessagePort, or a DedicatedWorkerGlobalScope when running
+// inside a WebWorker). Its counterpart is the RemoteIdentityProvider: that way, the private keys
+// never need to enter the heap of the process that is creating and saving objects.
+
+type SignerChannel = {
+    postMessage(msg: any): void;
+    onmessage: ((ev: { data: any }) => any) | null;
+};
+
+type SignTextRequest = {
+    type: 'sign-text-request',
+    requestId: string,
+    author: Hash,
+    text: string
+};
+
+type SignTextReply = {
+    type: 'sign-text-reply',
+    requestId: string,
+    signature?: string,
+    error?: string
+};
+
+class SignerHost {
+
+    static log = new Logger(SignerHost.name, LogLevel.INFO);
+
+    static isRequest(msg: any): msg is SignTextRequest {
+        return msg?.type === 'sign-text-request';
+    }
+
+    static isReply(msg: any): msg is SignTextReply {
+        return msg?.type === 'sign-text-reply';
+    }
+
+    keyPairs: Map<Hash, SigningKeyPair>;
+    channel?: SignerChannel;
+
+    constructor() {
+        this.keyPairs = new Map();
+    }
+
+    addIdentity(id: Identity) {
+
+        if (!id.hasKeyPair()) {
+            throw new Error('Cannot sign on behalf of identity ' + id.hash() + ': its key pair is missing.');
+        }
+
+        this.keyPairs.set(id.hash(), id.getKeyPair());
+    }
+
+    removeIdentity(idHash: Hash) {
+        this.keyPairs.delete(idHash);
+    }
+
+    hasIdentity(idHash: Hash) {
+        return this.keyPairs.has(idHash);
+    }
+
+    serve(channel: SignerChannel) {
+
+        this.channel = channel;
+
+        this.channel.onmessage = (ev: { data: any }) => {
+
+            const req = ev?.data;
+
+            if (SignerHost.isRequest(req)) {
+                this.execute(req)
+                    .then((reply: SignTextReply) => channel.postMessage(reply))
+                    .catch((e: any) => {
+
+                        // the requester is waiting for a reply: make sure it gets one (otherwise
+                        // it'll only find out when its request times out)
+
+                        const reply: SignTextReply = { type: 'sign-text-reply', requestId: req.requestId, error: 'Signing for identity ' + req.author + ' failed: ' + e?.message };
+
+                        try {
+                            channel.postMessage(reply);
+                        } catch (e2: any) {
+                            SignerHost.log.warning('Could not send the reply to signing request ' + req.requestId + ': ' + e2?.message);
+                        }
+                    });
+            }
+        };
+    }
+
+    async execute(req: SignTextRequest): Promise<SignTextReply> {
+
+        const kp = this.keyPairs.get(req.author);
+
+        if (kp === undefined) {
+            return { type: 'sign-text-reply', requestId: req.requestId, error: 'No key pair is available for identity ' + req.author + '.' };
+        }
+
+        try {
+            return { type: 'sign-text-reply', requestId: req.requestId, signature: await kp.sign(req.text) };
+        } catch (e: any) {
+            return { type: 'sign-text-reply', requestId: req.requestId, error: 'Signing for identity ' + req.author + ' failed: ' + e?.message };
+        }
+    }
+}
+
+export { SignerHost };
+export type { SignerChannel, SignTextRequest, SignTextReply };
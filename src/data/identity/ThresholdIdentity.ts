@@ -0,0 +1,285 @@
+import { Store } from 'storage/store';
+
+import { HashedObject } from '../model/immutable/HashedObject';
+import { HashedSet } from '../model/immutable/HashedSet';
+import { Hash } from '../model/hashing/Hashing';
+import { Context, LiteralContext } from '../model/literals/Context';
+
+import { Identity } from './Identity';
+
+// A ThresholdIdentity has no keys of its own: it is a set of member identities, and a threshold k.
+// Its signatures are aggregates of the signatures of its members (a JSON object, from member
+// hash to that member's signature), and a signature is valid once k of them verify. Members may
+// not be threshold identities themselves.
+//
+// Objects authored by a ThresholdIdentity are signed in rounds: each member adds its partial
+// signature using addPartialSignature(), and the partially signed object is passed around using
+// exportPartiallySigned() / importPartiallySigned(). Once the threshold is met, it can be saved
+// (and will pass validation when it is received by other peers) like any other signed object.
+
+type ThresholdSignature = { [member: string]: string };
+
+class ThresholdIdentity extends Identity {
+
+    static className = 'hhs/v0/ThresholdIdentity';
+
+    static fromMembers(info: any, members: Array<Identity>, threshold: number): ThresholdIdentity {
+
+        const id = new ThresholdIdentity();
+
+        id.info = info;
+        id.members = new HashedSet<Identity>(members.values());
+        id.threshold = threshold;
+
+        return id;
+    }
+
+    static parseSignature(signature?: string): ThresholdSignature|undefined {
+
+        if (signature === undefined) {
+            return undefined;
+        }
+
+        try {
+            const parsed = JSON.parse(signature);
+
+            if (typeof(parsed) !== 'object' || parsed === null || Array.isArray(parsed)) {
+                return undefined;
+            }
+
+            for (const partial of Object.values(parsed)) {
+                if (typeof(partial) !== 'string') {
+                    return undefined;
+                }
+            }
+
+            return parsed as ThresholdSignature;
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    // Member signatures are sorted by hash, so all the peers that merge the same partial
+    // signatures end up with the same aggregate.
+
+    static aggregateSignature(partials: ThresholdSignature): string {
+
+        const sorted: ThresholdSignature = {};
+
+        for (const member of Object.keys(partials).sort()) {
+            sorted[member] = partials[member];
+        }
+
+        return JSON.stringify(sorted);
+    }
+
+    static exportPartiallySigned(obj: HashedObject): LiteralContext {
+
+        if (!(obj.getAuthor() instanceof ThresholdIdentity)) {
+            throw new Error('Cannot export ' + obj.hash() + ' as partially signed: its author is not a ThresholdIdentity.');
+        }
+
+        return obj.toLiteralContext();
+    }
+
+    // Validates a partially signed object like HashedObject.fromContextWithValidation does,
+    // except that the partial signatures it carries (if any) need not meet the threshold yet.
+    // Objects it depends on that are not in the literal context (e.g. its prevOps) may be
+    // loaded from a store.
+
+    static async importPartiallySigned(literalContext: LiteralContext, store?: Store): Promise<HashedObject> {
+
+        const context = new Context();
+        context.fromLiteralContext(literalContext);
+
+        if (context.rootHashes.length !== 1) {
+            throw new Error('Cannot import partially signed object: expected exactly one root hash, found ' + context.rootHashes.length + '.');
+        }
+
+        const hash = context.rootHashes[0];
+        const literal = context.literals.get(hash);
+
+        if (literal === undefined) {
+            throw new Error('Cannot import partially signed object: literal for ' + hash + ' is missing from context.');
+        }
+
+        for (const missing of context.findMissingDeps(hash).keys()) {
+
+            const dep = await store?.load(missing);
+
+            if (dep === undefined) {
+                throw new Error('Cannot import partially signed object ' + hash + ': dependency ' + missing + ' is missing.');
+            }
+
+            context.objects.set(missing, dep);
+        }
+
+        for (const dep of literal.dependencies) {
+            if (!context.objects.has(dep.hash)) {
+                await HashedObject.fromContextWithValidation(context, dep.hash);
+            }
+        }
+
+        const obj = HashedObject.fromContext(context, hash, true);
+
+        if (obj.hash() !== hash) {
+            throw new Error('Cannot import partially signed object: wrong hash for ' + hash + ' of type ' + obj.getClassName() + ', hashed to ' + obj.getLastHash() + ' instead.');
+        }
+
+        const author = obj.getAuthor();
+
+        if (!(author instanceof ThresholdIdentity)) {
+            throw new Error('Cannot import partially signed object ' + hash + ': its author is not a ThresholdIdentity.');
+        }
+
+        if (literal.signature !== undefined && !await author.verifyPartialSignatures(hash, literal.signature)) {
+            throw new Error('Cannot import partially signed object ' + hash + ': it carries invalid partial signatures.');
+        }
+
+        if (!await obj.validate(context.objects)) {
+            throw new Error('Cannot import partially signed object: validation failed for ' + hash + ' of type ' + obj.getClassName() + '.');
+        }
+
+        return obj;
+    }
+
+    members?: HashedSet<Identity>;
+    threshold?: number;
+
+    constructor() {
+        super();
+    }
+
+    async validate() {
+
+        if (!await super.validate()) {
+            return false;
+        }
+
+        if (this.publicKey !== undefined || this.agreementKey !== undefined) {
+            return false;
+        }
+
+        if (!(this.members instanceof HashedSet)) {
+            return false;
+        }
+
+        for (const member of this.members.values()) {
+            if (!(member instanceof Identity) || member instanceof ThresholdIdentity) {
+                return false;
+            }
+        }
+
+        if (typeof(this.threshold) !== 'number' || !Number.isInteger(this.threshold)) {
+            return false;
+        }
+
+        return this.threshold >= 1 && this.threshold <= this.members.size();
+    }
+
+    getClassName() {
+        return ThresholdIdentity.className;
+    }
+
+    getMembers(): HashedSet<Identity> {
+        return this.members as HashedSet<Identity>;
+    }
+
+    getThreshold(): number {
+        return this.threshold as number;
+    }
+
+    isMember(id: Identity) {
+        return this.getMembers().has(id);
+    }
+
+    async verifySignature(text: string, signature: string) {
+        return (await this.countValidSignatures(text, signature)) >= this.getThreshold();
+    }
+
+    // true if all the partial signatures are from members, and valid
+
+    async verifyPartialSignatures(text: string, signature: string) {
+
+        const partials = ThresholdIdentity.parseSignature(signature);
+
+        if (partials === undefined) {
+            return false;
+        }
+
+        return (await this.countValidSignatures(text, signature)) === Object.keys(partials).length;
+    }
+
+    async countValidSignatures(text: string, signature: string): Promise<number> {
+
+        const partials = ThresholdIdentity.parseSignature(signature);
+
+        if (partials === undefined) {
+            return 0;
+        }
+
+        let valid = 0;
+
+        for (const [memberHash, partial] of Object.entries(partials)) {
+
+            const member = this.getMembers().get(memberHash);
+
+            if (member !== undefined && await member.verifySignature(text, partial)) {
+                valid = valid + 1;
+            }
+        }
+
+        return valid;
+    }
+
+    getSigners(signature: string): Array<Hash> {
+        return Object.keys(ThresholdIdentity.parseSignature(signature) || {});
+    }
+
+    // Adds the signature of member (who must have its key pair) to an aggregate signature.
+
+    async signPartially(text: string, member: Identity, signature?: string): Promise<string> {
+
+        if (!this.isMember(member)) {
+            throw new Error('Cannot sign for threshold identity ' + this.hash() + ': identity ' + member.hash() + ' is not one of its members.');
+        }
+
+        const partials = signature === undefined? {} : ThresholdIdentity.parseSignature(signature);
+
+        if (partials === undefined) {
+            throw new Error('Cannot sign for threshold identity ' + this.hash() + ': the received signature is not a threshold signature.');
+        }
+
+        partials[member.hash()] = await member.sign(text);
+
+        return ThresholdIdentity.aggregateSignature(partials);
+    }
+
+    async addPartialSignature(obj: HashedObject, member: Identity): Promise<void> {
+
+        if (!this.equals(obj.getAuthor())) {
+            throw new Error('Cannot sign ' + obj.hash() + ' for threshold identity ' + this.hash() + ': it is not its author.');
+        }
+
+        const current = obj.hasLastSignature()? obj.getLastSignature() : undefined;
+
+        obj.setLastSignature(await this.signPartially(obj.hash(), member, current));
+    }
+
+    async isThresholdMet(obj: HashedObject): Promise<boolean> {
+        return obj.hasLastSignature() && this.verifySignature(obj.hash(), obj.getLastSignature());
+    }
+
+    getKeyPairHash(): Hash {
+        throw new Error('Threshold identity ' + this.hash() + ' has no key pair: its members sign on its behalf.');
+    }
+
+    async sign(_text: string): Promise<string> {
+        throw new Error('Threshold identity ' + this.hash() + ' cannot sign by itself: use addPartialSignature with at least ' + this.threshold + ' of its members.');
+    }
+}
+
+HashedObject.registerClass(ThresholdIdentity.className, ThresholdIdentity);
+
+export { ThresholdIdentity };
+export type { ThresholdSignature };
@@ -0,0 +1,105 @@
+import { WebCryptoX25519KP } from 'crypto/agreement';
+import { HashedObject } from '../model/immutable/HashedObject';
+import { X25519PublicKey } from './X25519PublicKey';
+import { Hashing } from 'data/model/hashing/Hashing';
+
+// Note: like RSAKeyPair, this class uses a custom hash function that omits the
+//       private key. An X25519 key can't sign, so instead of a self-signature
+//       validation checks that the private key agrees with the public one on a
+//       shared secret with a throwaway key pair.
+
+class X25519KeyPair extends HashedObject {
+
+    static className = 'hhs/v0/X25519KeyPair';
+
+    static async generate() {
+        let x25519 = new WebCryptoX25519KP();
+        await x25519.generateKey();
+
+        return X25519KeyPair.fromKeys(x25519.getPublicKey(), x25519.getPrivateKey());
+    }
+
+    static fromKeys(publicKey: string, privateKey?: string) {
+        let keyPair = new X25519KeyPair();
+        keyPair.publicKey = publicKey;
+        keyPair.privateKey = privateKey;
+        keyPair.init();
+        return keyPair;
+    }
+
+    publicKey?: string;
+    privateKey?: string;
+
+    _x25519Promise?: Promise<WebCryptoX25519KP>;
+
+    constructor() {
+        super();
+    }
+
+    init() {
+        this._x25519Promise = this.initX25519();
+    }
+
+    async validate() {
+
+        if (this.privateKey === undefined) {
+            return false;
+        }
+
+        try {
+            const _x25519 = await this.initX25519();
+
+            const ephemeral = new WebCryptoX25519KP();
+            await ephemeral.generateKey();
+
+            const secret = await _x25519.deriveSharedSecret(ephemeral.getPublicKey());
+
+            return secret === await ephemeral.deriveSharedSecret(this.getPublicKey());
+        } catch (e: any) {
+            return false;
+        }
+    }
+
+    private async initX25519(): Promise<WebCryptoX25519KP> {
+        const _x25519 = new WebCryptoX25519KP();
+        await _x25519.loadKeyPair(this.getPublicKey(), this.getPrivateKey());
+        return _x25519;
+    }
+
+    getClassName() {
+        return X25519KeyPair.className;
+    }
+
+    customHash(seed?: string) {
+        return X25519KeyPair.hashPublicKeyPart(this.publicKey as string, seed);
+    }
+
+    getPublicKey() {
+        return this.publicKey as string;
+    }
+
+    getPrivateKey() {
+        return this.privateKey as string;
+    }
+
+    makePublicKey() {
+        return X25519PublicKey.fromKeys(this.getPublicKey());
+    }
+
+    async deriveSharedSecret(publicKey: X25519PublicKey) {
+
+        if (this._x25519Promise === undefined) {
+            throw new Error('Attempting to derive a shared secret, but X25519 has not been initialized.');
+        }
+
+        return (await this._x25519Promise).deriveSharedSecret(publicKey.getPublicKey());
+    }
+
+    static hashPublicKeyPart(publicKey: string, seed?: string) {
+        return Hashing.forValue({'_type': 'custom_hashed_object', '_class': X25519KeyPair.className, '_contents': {'publicKey': publicKey}}, seed);
+    }
+}
+
+HashedObject.registerClass(X25519KeyPair.className, X25519KeyPair);
+
+export { X25519KeyPair };
@@ -0,0 +1,55 @@
+import { WebCryptoX25519KP } from 'crypto/agreement';
+import { X25519KeyPair } from './X25519KeyPair';
+
+import { HashedObject } from '../model/immutable/HashedObject';
+
+class X25519PublicKey extends HashedObject {
+
+    static className = 'hhs/v0/X25519PublicKey';
+
+    static fromKeys(publicKey: string) : X25519PublicKey {
+
+        let pk = new X25519PublicKey();
+
+        pk.publicKey = publicKey;
+
+        return pk;
+    }
+
+    publicKey?: string;
+
+    constructor() {
+        super();
+    }
+
+    init() {
+
+    }
+
+    async validate() {
+        try {
+            const _x25519 = new WebCryptoX25519KP();
+            await _x25519.loadKeyPair(this.getPublicKey());
+            return true;
+        } catch (e: any) {
+            return false;
+        }
+    }
+
+    getClassName() {
+        return X25519PublicKey.className;
+    }
+
+    getPublicKey() {
+        return this.publicKey as string;
+    }
+
+    getKeyPairHash() {
+        return X25519KeyPair.hashPublicKeyPart(this.publicKey as string);
+    }
+
+}
+
+HashedObject.registerClass(X25519PublicKey.className, X25519PublicKey);
+
+export { X25519PublicKey };
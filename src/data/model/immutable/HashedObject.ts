@@ -18,6 +18,7 @@ import { Resources } from 'spaces/spaces';
 import { Literal, Dependency } from '../literals/LiteralUtils';
 import { Logger, LogLevel } from 'util/logging';
 import { ClassRegistry } from '../literals/ClassRegistry';
+import { MigrationRegistry } from '../literals/MigrationRegistry';
 import { EventRelay } from 'util/events';
 
 import { MutationObserver } from '../mutable';
@@ -49,6 +50,10 @@ abstract class HashedObject {
     private _lastHash?       : Hash;
     private _lastSignature?  : string;
 
+    // set if the object was re-created from a literal upgraded by a migration (see MigrationRegistry):
+    // it keeps the hash (and the literal) it was saved with, so it can still be referenced.
+    private _migratedLiteral?: Literal;
+
     private _resources? : Resources;
 
     // while this object is immutable, its fields may be mutable, hence:
@@ -211,6 +216,10 @@ abstract class HashedObject {
 
         let hash = this.customHash(seed);
 
+        if (hash === undefined && this._migratedLiteral !== undefined) {
+            hash = seed === undefined? this._migratedLiteral.hash : Hashing.forValue(this._migratedLiteral.value, seed);
+        }
+
         if (hash === undefined) {
             let context = this.toContext();
             if (seed === undefined) {
@@ -250,6 +259,9 @@ abstract class HashedObject {
 
         c.objects = new Map<Hash, HashedObject>();
 
+        // migrated objects are literalized as they were saved, so they need to be upgraded again
+        c.applyMigrations = true;
+
         let clone = HashedObject.fromContext(c) as this;
 
         for (const [hash, obj] of current.entries()) {
@@ -591,6 +603,13 @@ abstract class HashedObject {
             literal.signature = this.getLastSignature();
         }
 
+        // a migrated object is saved (and sent) as it was before being upgraded, the literals of its
+        // dependencies have been added to the context above (migrations don't change them)
+        if (this._migratedLiteral !== undefined) {
+            literal = this._migratedLiteral;
+            hash    = literal.hash;
+        }
+
         if (context.resources?.aliasing?.get(hash) !== undefined) {
             context.objects.set(hash, context.resources.aliasing.get(hash) as HashedObject);
         } else {
@@ -835,7 +854,9 @@ abstract class HashedObject {
             throw new Error("Can't deliteralize object with hash " + hash + " because its literal is missing from the received context");
         }
 
-        const value = literal.value;
+        // an upgraded object would not hash to the literal's hash, so migrations are not applied
+        // when validating
+        const value = context.applyMigrations && !validate? MigrationRegistry.upgrade(literal.value) : literal.value;
 
         // all the dependencies have been delieralized in the context
 
@@ -860,6 +881,10 @@ abstract class HashedObject {
         if (context.resources !== undefined) {
             hashedObject.setResources(context.resources);
         }
+
+        if (value !== literal.value) {
+            hashedObject._migratedLiteral = literal;
+        }
         
         hashedObject.setLastHash(hash);
 
@@ -1,3 +1,4 @@
 export { ClassRegistry } from './literals/ClassRegistry';
+export { MigrationRegistry, Migration } from './literals/MigrationRegistry';
 export { Literal, Dependency, LiteralUtils } from './literals/LiteralUtils';
 export { Context, LiteralContext } from './literals/Context';
\ No newline at end of file
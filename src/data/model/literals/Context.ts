@@ -14,6 +14,10 @@ class Context {
     //aliased?: Map<Hash, HashedObject>;
     resources?: Resources;
 
+    // if set, objects are re-created from their literals after running the registered migrations
+    // (see MigrationRegistry), unless they're being validated.
+    applyMigrations?: boolean;
+
     constructor() {
         this.rootHashes = [];
         this.objects    = new Map();
@@ -0,0 +1,87 @@
+// Migrations upgrade the stored representation of objects whose class has changed shape (or name)
+// since they were saved. A migration receives a copy of the value of a literal (its _type, _class,
+// _fields and _flags) and returns the upgraded value, that is then used to re-create the object.
+// The literal itself is left untouched, so its hash still verifies.
+//
+// Several migrations can be registered for the same class name, and they will be applied in the
+// order they were registered: each one should check whether the value it gets is in the version
+// it knows how to upgrade, and return it as-is otherwise. If a migration changes _class, the ones
+// registered for the new class name are applied next.
+//
+// Migrations should not add or remove references to other objects: the dependencies of the
+// upgraded object are still the ones in the original literal.
+
+type Migration = (value: any) => any;
+
+class MigrationRegistry {
+    static migrations = new Map<string, Array<Migration>>();
+
+    static register(className: string, migration: Migration) {
+
+        let migrations = MigrationRegistry.migrations.get(className);
+
+        if (migrations === undefined) {
+            migrations = [];
+            MigrationRegistry.migrations.set(className, migrations);
+        }
+
+        migrations.push(migration);
+    }
+
+    // Removes the given migration for className, or all of them if none is given.
+
+    static unregister(className: string, migration?: Migration) {
+
+        const migrations = MigrationRegistry.migrations.get(className);
+
+        if (migrations === undefined) {
+            return;
+        }
+
+        const remaining = migration === undefined? [] : migrations.filter((m: Migration) => m !== migration);
+
+        if (remaining.length === 0) {
+            MigrationRegistry.migrations.delete(className);
+        } else {
+            MigrationRegistry.migrations.set(className, remaining);
+        }
+    }
+
+    static lookup(className: string): Array<Migration> {
+        return MigrationRegistry.migrations.get(className) || [];
+    }
+
+    // Returns the value itself if there are no migrations for its class.
+
+    static upgrade(value: any): any {
+
+        let className: string = value['_class'];
+
+        if (!MigrationRegistry.migrations.has(className)) {
+            return value;
+        }
+
+        let upgraded = JSON.parse(JSON.stringify(value));
+
+        const visited = new Set<string>();
+
+        while (MigrationRegistry.migrations.has(className) && !visited.has(className)) {
+
+            visited.add(className);
+
+            for (const migration of MigrationRegistry.lookup(className)) {
+                upgraded = migration(upgraded);
+            }
+
+            if (upgraded['_class'] === className) {
+                break;
+            }
+
+            className = upgraded['_class'];
+        }
+
+        return upgraded;
+    }
+}
+
+export { MigrationRegistry, Migration };
@@ -251,7 +251,7 @@ abstract class MutableObject extends HashedObject {
                 const checkpoint = await this.getStore().loadLastCheckpoint(this.getLastHash());
 
                 if (checkpoint !== undefined) {
-                    this.restoreCheckpoint(checkpoint);
+                    await this.restoreCheckpoint(checkpoint);
     
                     // TODO: find a way to get the correct "start" parameter for loadByReference below
                     //       to make it ignore all the ops in the checkpoint
@@ -387,34 +387,42 @@ abstract class MutableObject extends HashedObject {
 
     applyNewOp(op: MutationOp) : Promise<void> {
 
+        this.prepareNewOp(op);
+
+        const done = this.apply(op, true);
+            
+        return done;                
+    }
+
+    // Sets the target object and the prevOps (the current terminal ops, unless they were set
+    // already) of a new op, without applying it. Ops that need to be signed elsewhere before
+    // they can be saved (e.g. by the members of a ThresholdIdentity) are created this way.
+
+    prepareNewOp(op: MutationOp) : void {
+
         if (!this.isAcceptedMutationOpClass(op)) {
             throw new Error ('Invalid op ' + op.hash() + ' attempted for ' + this.hash());
-        } else {
+        }
 
-            op.setTargetObject(this);
-            if (this.hasResources() && ! op.hasResources()) {
-                op.setResources(this.getResources() as Resources);
-            }
+        op.setTargetObject(this);
+        if (this.hasResources() && ! op.hasResources()) {
+            op.setResources(this.getResources() as Resources);
+        }
 
-            let prevOps = op.getPrevOpsIfPresent();
+        let prevOps = op.getPrevOpsIfPresent();
 
-            if (prevOps === undefined) {
-                op.prevOps = new HashedSet<HashReference<MutationOp>>();
+        if (prevOps === undefined) {
+            op.prevOps = new HashedSet<HashReference<MutationOp>>();
 
-                for (const termOp of this._terminalOps.values()) {
-                    op.prevOps.add(termOp.createReference());
-                }
-            } else {
-                for (const prevOpRef of op.getPrevOps()) {
-                    if (!this._allAppliedOps.has(prevOpRef.hash)) {
-                        throw new Error('Cannot apply new op ' + op.hash() + ': it has prevOp ' + prevOpRef.hash + ' that has not been applied yet.');
-                    }
+            for (const termOp of this._terminalOps.values()) {
+                op.prevOps.add(termOp.createReference());
+            }
+        } else {
+            for (const prevOpRef of op.getPrevOps()) {
+                if (!this._allAppliedOps.has(prevOpRef.hash)) {
+                    throw new Error('Cannot apply new op ' + op.hash() + ': it has prevOp ' + prevOpRef.hash + ' that has not been applied yet.');
                 }
             }
-
-            const done = this.apply(op, true);
-            
-            return done;                
         }
     }
 
@@ -16,6 +16,10 @@ class ObjectPacker {
 
     allowedOmissions: Map<Hash, Hash[]>;
 
+    // literals that could not be packed because they're not in the store (e.g. ops pruned
+    // by Store.compact)
+    missingLiterals: Set<Hash>;
+
     maxLiterals: number;
     
     filterPrevOpsFromDeps: (lit: Literal) => Dependency[];
@@ -31,6 +35,8 @@ class ObjectPacker {
 
         this.allowedOmissions = new Map();
 
+        this.missingLiterals = new Set();
+
         this.maxLiterals = maxLiterals;
 
         this.filterPrevOpsFromDeps = (lit: Literal) => {
@@ -93,6 +99,9 @@ class ObjectPacker {
 
     }
 
+    // Returns false if the object (and its dependencies) doesn't fit, or if any of them is
+    // missing from the store (see missingLiterals).
+
     async addObject(hash: Hash): Promise<boolean> {
 
         if (this.contentHashes.has(hash)) {
@@ -185,7 +194,12 @@ class ObjectPacker {
                         omitted.set(nextHash, currentReferenceChain.slice());
                     } else {
 
-                        const literal = await this.store.loadLiteral(nextHash) as Literal;
+                        const literal = await this.store.loadLiteral(nextHash);
+
+                        if (literal === undefined) {
+                            this.missingLiterals.add(nextHash);
+                            return undefined;
+                        }
 
                         packed.push(literal);
                         packedHashes.add(literal.hash);
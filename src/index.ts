@@ -24,7 +24,9 @@ export * from './crypto/random';
 export * from './crypto/hmac';
 export * from './crypto/wordcoding';
 export * from './crypto/sign';
+export * from './crypto/agreement';
 export * from './crypto/keygen';
+export * from './crypto/secretbox';
 
 export * from './net/linkup';
 export * from './net/transport';
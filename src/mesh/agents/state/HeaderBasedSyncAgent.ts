@@ -3,7 +3,7 @@ import { AgentEvent, AgentPod } from 'mesh/service/AgentPod';
 import { Store } from 'storage/store';
 import { Logger, LogLevel } from 'util/logging';
 import { Endpoint } from '../network/NetworkAgent';
-import { LostPeerEvent, NewPeerEvent, PeerGroupAgent, PeerMeshEventType } from '../peer/PeerGroupAgent';
+import { LostPeerEvent, NewPeerEvent, PeerGroupAgent, PeerInfo, PeerMeshEventType } from '../peer/PeerGroupAgent';
 import { PeeringAgentBase } from '../peer/PeeringAgentBase';
 import { HeaderBasedState } from './history/HeaderBasedState';
 import { AgentStateUpdateEvent, GossipEventTypes, StateGossipAgent } from './StateGossipAgent';
@@ -27,6 +27,12 @@ import { SyncObserverEventTypes, SyncState, SyncStateUpdateEvent } from './SyncO
 
 type StateFilter = (state: HeaderBasedState, store: Store, isLocal: boolean, localState?: HeaderBasedState) => Promise<HeaderBasedState>;
 
+// The state in a checkpoint can't be validated (the ops it summarizes may have been pruned by
+// Store.compact), so bootstrapping from a remote's checkpoint is opt-in: it's only requested from
+// the peers accepted by the filter set using acceptCheckpointsFrom().
+
+type CheckpointSourceFilter = (peer: PeerInfo) => boolean;
+
 class HeaderBasedSyncAgent extends PeeringAgentBase implements StateSyncAgent {
 
     static controlLog = new Logger(HeaderBasedSyncAgent.name, LogLevel.INFO);
@@ -42,6 +48,7 @@ class HeaderBasedSyncAgent extends PeeringAgentBase implements StateSyncAgent {
     mutableObjHash: Hash;
     acceptedMutationOpClasses: string[];
     stateOpFilter?: StateFilter;
+    checkpointSourceFilter?: CheckpointSourceFilter;
 
     resources: Resources;
     store: Store;
@@ -87,6 +94,21 @@ class HeaderBasedSyncAgent extends PeeringAgentBase implements StateSyncAgent {
         this.messageLog = HeaderBasedSyncAgent.messageLog;
     }
 
+    acceptCheckpointsFrom(filter?: CheckpointSourceFilter) {
+        this.checkpointSourceFilter = filter;
+    }
+
+    canBootstrapFrom(remote: Endpoint): boolean {
+
+        if (this.checkpointSourceFilter === undefined) {
+            return false;
+        }
+
+        const peer = this.peerGroupAgent.getPeers().find((peer: PeerInfo) => peer.endpoint === remote);
+
+        return peer !== undefined && this.checkpointSourceFilter(peer);
+    }
+
     getAgentId(): string {
         return HeaderBasedSyncAgent.syncAgentIdFor(this.mutableObjHash, this.peerGroupAgent.peerGroupId);
     }
@@ -194,6 +216,10 @@ class HeaderBasedSyncAgent extends PeeringAgentBase implements StateSyncAgent {
             this.synchronizer.onReceivingRequestRejection(source, msg);
         } else if (msg.type === MessageType.CancelRequest) {
              this.provider.onReceivingRequestCancellation(source, msg);
+        } else if (msg.type === MessageType.RequestCheckpoint) {
+            this.provider.onReceivingCheckpointRequest(source, msg);
+        } else if (msg.type === MessageType.SendCheckpoint) {
+            this.synchronizer.onReceivingCheckpoint(source, msg);
         }
 
     }
@@ -422,4 +448,4 @@ class HeaderBasedSyncAgent extends PeeringAgentBase implements StateSyncAgent {
     }
 }
 
-export { SyncMsg as HistoryMsg, HeaderBasedSyncAgent, StateFilter }
\ No newline at end of file
+export { SyncMsg as HistoryMsg, HeaderBasedSyncAgent, StateFilter, CheckpointSourceFilter }
\ No newline at end of file
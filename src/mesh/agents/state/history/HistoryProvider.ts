@@ -4,6 +4,7 @@ import { OpHeader, OpHeaderLiteral } from 'data/history/OpHeader';
 import { Hash, HashedObject, Literal } from 'data/model';
 import { ObjectPacker } from 'data/packing/ObjectPacker';
 import { Endpoint } from 'mesh/agents/network/NetworkAgent';
+import { CheckpointBootstrap } from 'storage/store';
 import { Logger, LogLevel } from 'util/logging';
 import { HeaderBasedSyncAgent } from '../HeaderBasedSyncAgent';
 
@@ -13,7 +14,9 @@ enum MessageType {
     Response       = 'response',
     RejectRequest  = 'reject-request',
     SendLiteral    = 'send-literal',
-    CancelRequest  = 'cancel-request'
+    CancelRequest  = 'cancel-request',
+    RequestCheckpoint = 'request-checkpoint',
+    SendCheckpoint    = 'send-checkpoint'
 };
 
 type RequestId = string;
@@ -62,7 +65,7 @@ type RejectRequestMsg = {
 
     requestId: RequestId,
 
-    reason: 'too-busy'|'invalid-request',
+    reason: 'too-busy'|'invalid-request'|'compacted',
     detail: string
 };
 
@@ -83,7 +86,27 @@ type CancelRequestMsg = {
     detail: string
 };
 
-type SyncMsg = RequestMsg | ResponseMsg | RejectRequestMsg | SendLiteralMsg | CancelRequestMsg;
+// A peer whose request was rejected because the ops it needs were compacted away asks for a
+// checkpoint bootstrap instead (see Store.exportCheckpointBootstrap). If there is no checkpoint
+// to send, the request is rejected with a RejectRequestMsg.
+
+type RequestCheckpointMsg = {
+    type: MessageType.RequestCheckpoint,
+
+    requestId: RequestId,
+
+    mutableObj: Hash
+};
+
+type SendCheckpointMsg = {
+    type: MessageType.SendCheckpoint,
+
+    requestId: RequestId,
+
+    bootstrap: CheckpointBootstrap
+};
+
+type SyncMsg = RequestMsg | ResponseMsg | RejectRequestMsg | SendLiteralMsg | CancelRequestMsg | RequestCheckpointMsg | SendCheckpointMsg;
 
 const ProviderLimits = {
     MaxOpsToRequest: 512,
@@ -220,6 +243,46 @@ class HistoryProvider {
         }
     }
 
+    async onReceivingCheckpointRequest(remote: Endpoint, msg: RequestCheckpointMsg) {
+
+        if (this.terminated) {
+            return;
+        }
+
+        let bootstrap: CheckpointBootstrap | undefined = undefined;
+
+        if (msg.mutableObj === this.syncAgent.mutableObjHash) {
+            try {
+                bootstrap = await this.syncAgent.store.exportCheckpointBootstrap(msg.mutableObj);
+            } catch (e: any) {
+                this.controlLog.warning('Error while exporting checkpoint bootstrap for ' + msg.mutableObj + ': ' + e?.message);
+            }
+        }
+
+        if (bootstrap === undefined) {
+
+            const reply: RejectRequestMsg = {
+                type: MessageType.RejectRequest,
+                requestId: msg.requestId,
+                reason: 'invalid-request',
+                detail: 'Rejecting checkpoint request ' + msg.requestId + ', there is no checkpoint to send for ' + msg.mutableObj
+            };
+
+            HeaderBasedSyncAgent.controlLog.warning(reply.detail);
+            this.syncAgent.sendMessageToPeer(remote, this.syncAgent.getAgentId(), reply);
+        } else {
+
+            const reply: SendCheckpointMsg = {
+                type: MessageType.SendCheckpoint,
+                requestId: msg.requestId,
+                bootstrap: bootstrap
+            };
+
+            this.controlLog.debug('Sending checkpoint bootstrap for ' + msg.mutableObj + ' (' + bootstrap.records.length + ' records) to ' + remote);
+            this.syncAgent.sendMessageToPeer(remote, this.syncAgent.getAgentId(), reply);
+        }
+    }
+
     shutdown() {
         this.terminated = true;
     }
@@ -256,6 +319,11 @@ class HistoryProvider {
                 if (opHistory !== undefined) {
                     const literal = await this.syncAgent.store.loadLiteral(opHistory.opHash);
 
+                    if (literal === undefined) {
+                        this.rejectCompactedRequest(respInfo, opHistory.opHash);
+                        return false;
+                    }
+
                     if (!this.syncAgent.literalIsValidOp(literal, true)) {
                         const detail = 'Invalid requestedTerminalOpHistory/requestedStartingOpHistory for request ' + respInfo.request.requestId + ', rejecting';
                         this.rejectRequest(respInfo, 'invalid-request', detail);
@@ -270,6 +338,11 @@ class HistoryProvider {
 
             for (const opHash of respInfo.request.requestedOps) {
                 const literal = await this.syncAgent.store.loadLiteral(opHash);
+
+                if (literal === undefined && (await this.syncAgent.store.loadOpHeader(opHash)) !== undefined) {
+                    this.rejectCompactedRequest(respInfo, opHash);
+                    return false;
+                }
                 
                 if (!this.syncAgent.literalIsValidOp(literal)) {
                     const detail = 'Invalid requestedOps for request ' + respInfo.request.requestId + ', rejecting';
@@ -289,6 +362,11 @@ class HistoryProvider {
                 if (opHistory !== undefined) {
                     const literal = await this.syncAgent.store.loadLiteral(opHistory.opHash);
 
+                    if (literal === undefined) {
+                        this.rejectCompactedRequest(respInfo, opHistory.opHash);
+                        return false;
+                    }
+
                     if (!this.syncAgent.literalIsValidOp(literal)) {
                         const detail = 'Invalid currentState for request ' + respInfo.request.requestId + ', rejecting';
                         this.rejectRequest(respInfo, 'invalid-request', detail);
@@ -408,6 +486,14 @@ class HistoryProvider {
             }
         }
 
+        // If the ops we were going to send (or their dependencies) were pruned by Store.compact(),
+        // the peer must bootstrap from our last checkpoint instead.
+
+        if (packer.missingLiterals.size > 0) {
+            this.rejectCompactedRequest(respInfo, packer.missingLiterals.values().next().value as Hash);
+            return false;
+        }
+
         // All set: send response
 
         if (packer.content.length > 0) {
@@ -501,7 +587,7 @@ class HistoryProvider {
 
     }
 
-    private rejectRequest(respInfo: ResponseInfo, reason: 'too-busy'|'invalid-request', detail: string) {
+    private rejectRequest(respInfo: ResponseInfo, reason: 'too-busy'|'invalid-request'|'compacted', detail: string) {
 
         HeaderBasedSyncAgent.controlLog.warning(detail);
 
@@ -517,6 +603,14 @@ class HistoryProvider {
         this.syncAgent.sendMessageToPeer(respInfo.remote, this.syncAgent.getAgentId(), msg);
     }
 
+    // If we have the header for an op but not its literal, the op was pruned by Store.compact():
+    // the requesting peer is behind our last checkpoint, and must bootstrap from it.
+
+    private rejectCompactedRequest(respInfo: ResponseInfo, opHash: Hash) {
+        const detail = 'Cannot respond to request ' + respInfo.request.requestId + ', op ' + opHash + ' for ' + this.syncAgent.mutableObjHash + ' was compacted away, the peer must bootstrap from a checkpoint';
+        this.rejectRequest(respInfo, 'compacted', detail);
+    }
+
     private async sendResponse(respInfo: ResponseInfo) {
         const reqId = respInfo.request.requestId;
         this.controlLog.debug('\nSending response for ' + reqId);
@@ -653,4 +747,4 @@ class HistoryProvider {
     }
 }
 
-export { HistoryProvider, ProviderLimits, RequestId, MessageType, SyncMsg, RequestMsg, ResponseMsg, RejectRequestMsg, SendLiteralMsg, CancelRequestMsg };
\ No newline at end of file
+export { HistoryProvider, ProviderLimits, RequestId, MessageType, SyncMsg, RequestMsg, ResponseMsg, RejectRequestMsg, SendLiteralMsg, CancelRequestMsg, RequestCheckpointMsg, SendCheckpointMsg };
\ No newline at end of file
@@ -13,7 +13,7 @@ import { Lock } from 'util/concurrency';
 import { HeaderBasedSyncAgent } from '../HeaderBasedSyncAgent';
 
 import { ProviderLimits, RequestId, MessageType, SendLiteralMsg, RejectRequestMsg } from './HistoryProvider';
-import { RequestMsg, ResponseMsg, CancelRequestMsg } from './HistoryProvider';
+import { RequestMsg, ResponseMsg, CancelRequestMsg, RequestCheckpointMsg, SendCheckpointMsg } from './HistoryProvider';
 
 const MaxRequestsPerRemote = 2;
 const MaxPendingOps = 1024;
@@ -92,6 +92,9 @@ class HistorySynchronizer {
 
     lastCancelledRequests: Array<RequestId>;
 
+    // While bootstrapping from a remote's checkpoint, no new requests are sent.
+    checkpointRequest?: { requestId: RequestId, remote: Endpoint, timestamp: number };
+
     terminated = false;
 
     readonly logPrefix: Hash;
@@ -165,6 +168,12 @@ class HistorySynchronizer {
 
         let cancelledSome = false;
 
+        if (this.checkpointRequest !== undefined && Date.now() > this.checkpointRequest.timestamp + RequestTimeout * 1000) {
+            HistorySynchronizer.controlLog.debug('Dropped checkpoint request ' + this.checkpointRequest.requestId + ' in timeout loop');
+            this.checkpointRequest = undefined;
+            cancelledSome = true;
+        }
+
         for (const reqInfo of this.requests.values()) {
 
             const cancelled = this.checkRequestRemoval(reqInfo);
@@ -236,6 +245,11 @@ class HistorySynchronizer {
             return;
         }
 
+        if (this.checkpointRequest !== undefined) {
+            this.controlLog.debug('\n'+this.logPrefix+'\nDelaying request, waiting for checkpoint ' + this.checkpointRequest.requestId + '.');
+            return;
+        }
+
         if (this.stateLog.level <= LogLevel.DEBUG) {
 
             let debugInfo = '\n'+this.logPrefix+'\nState info before attempt:\n';
@@ -511,8 +525,24 @@ class HistorySynchronizer {
         return sent;
     }
 
+    private requestCheckpoint(remote: Endpoint) {
+
+        const msg: RequestCheckpointMsg = {
+            type: MessageType.RequestCheckpoint,
+            requestId: new RNGImpl().randomHexString(128),
+            mutableObj: this.syncAgent.mutableObjHash
+        };
+
+        this.controlLog.debug('\n'+this.logPrefix+'\nRequesting checkpoint from remote ' + remote + ' with requestId ' + msg.requestId);
+
+        if (this.syncAgent.sendMessageToPeer(remote, this.syncAgent.getAgentId(), msg)) {
+            this.checkpointRequest = { requestId: msg.requestId, remote: remote, timestamp: Date.now() };
+            this.checkRequestTimeoutsTimer();
+        }
+    }
+
     private checkRequestTimeoutsTimer() {
-        if (this.requests.size > 0) {
+        if (this.requests.size > 0 || this.checkpointRequest !== undefined) {
             if (this.checkRequestTimeoutsInterval === undefined) {
                 this.checkRequestTimeoutsInterval = setInterval(this.checkRequestTimeouts, 5000);
             }
@@ -805,10 +835,81 @@ class HistorySynchronizer {
 
     }
 
-    // We're not rejecting anything for now, will implement when the retry logic is done.
+    // A request is rejected as 'compacted' when the remote has pruned the ops we need (see
+    // Store.compact), so we ask it for a checkpoint bootstrap instead, if we trust it to send
+    // one (see HeaderBasedSyncAgent.acceptCheckpointsFrom). Other rejections are not handled
+    // for now, will implement when the retry logic is done.
+
     onReceivingRequestRejection(remote: Endpoint, msg: RejectRequestMsg) {
 
-        remote; msg;
+        if (this.terminated) {
+            return;
+        }
+
+        if (this.checkpointRequest !== undefined && this.checkpointRequest.requestId === msg.requestId && this.checkpointRequest.remote === remote) {
+            this.controlLog.warning('\n'+this.logPrefix+'\nCheckpoint request ' + msg.requestId + ' was rejected by ' + remote + ': ' + msg.detail);
+            this.checkpointRequest = undefined;
+            this.checkRequestTimeoutsTimer();
+            return;
+        }
+
+        const reqInfo = this.requests.get(msg.requestId);
+
+        if (reqInfo !== undefined && reqInfo.remote === remote && msg.reason === 'compacted') {
+
+            this.cleanupRequest(reqInfo);
+
+            if (!this.syncAgent.canBootstrapFrom(remote)) {
+                this.controlLog.warning('\n'+this.logPrefix+'\nRequest ' + msg.requestId + ' needs ops that were compacted by ' + remote + ', but checkpoints from it are not accepted.');
+            } else if (this.checkpointRequest === undefined) {
+                this.requestCheckpoint(remote);
+            }
+        }
+    }
+
+    async onReceivingCheckpoint(remote: Endpoint, msg: SendCheckpointMsg) {
+
+        if (this.terminated) {
+            return;
+        }
+
+        if (this.checkpointRequest === undefined || this.checkpointRequest.requestId !== msg.requestId || this.checkpointRequest.remote !== remote || !this.syncAgent.canBootstrapFrom(remote)) {
+            this.controlLog.warning('\n'+this.logPrefix+'\nIgnoring unexpected checkpoint ' + msg.requestId + ' from ' + remote);
+            return;
+        }
+
+        let imported = false;
+
+        try {
+
+            if (msg.bootstrap?.mutableObject !== this.syncAgent.mutableObjHash) {
+                throw new Error('the checkpoint is for ' + msg.bootstrap?.mutableObject + ', but it should be for ' + this.syncAgent.mutableObjHash);
+            }
+
+            await this.syncAgent.store.importCheckpointBootstrap(msg.bootstrap);
+
+            // Forget about the ops that are now covered by the checkpoint, or were imported.
+
+            const checkpoint = await this.syncAgent.store.loadLastCheckpoint(this.syncAgent.mutableObjHash);
+            const covered    = new Set<Hash>(checkpoint?.allAppliedOps);
+
+            for (const opHeader of Array.from(this.discoveredHistory.contents.values())) {
+                if (covered.has(opHeader.opHash) || !await this.opHistoryIsMissingFromStore(opHeader.headerHash)) {
+                    this.markOpAsFetched(opHeader);
+                }
+            }
+
+            imported = true;
+        } catch (e: any) {
+            this.controlLog.warning('\n'+this.logPrefix+'\nError while importing checkpoint ' + msg.requestId + ' from ' + remote + ': ' + e?.message);
+        }
+
+        this.checkpointRequest = undefined;
+        this.checkRequestTimeoutsTimer();
+
+        if (imported) {
+            this.attemptNewRequests();
+        }
     }
 
     private async attemptToProcessResponse(reqInfo: RequestInfo) {
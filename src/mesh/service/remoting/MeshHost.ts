@@ -1,4 +1,4 @@
-import { Identity, RSAKeyPair } from 'data/identity';
+import { Identity, SigningKeyPair } from 'data/identity';
 import { Context, HashedObject, LiteralContext, MutableObject } from 'data/model';
 import { Hash } from 'data/model';
 
@@ -348,7 +348,7 @@ class MeshHost {
             const identity = (join.localPeerIdentity === undefined? undefined : HashedObject.fromLiteralContext(join.localPeerIdentity) as Identity);
 
             if (identity !== undefined && join.localPeerIdentityKeyPair !== undefined) {
-                identity._keyPair = HashedObject.fromLiteralContext(join.localPeerIdentityKeyPair) as RSAKeyPair;
+                identity._keyPair = HashedObject.fromLiteralContext(join.localPeerIdentityKeyPair) as SigningKeyPair;
             }
 
             let localPeer: PeerInfo = {
@@ -654,7 +654,7 @@ class MeshHost {
 
             const receiver = HashedObject.fromLiteralContext(command.receiver) as Identity;
 
-            receiver.addKeyPair(HashedObject.fromLiteralContext(command.receiverKeyPair) as RSAKeyPair);
+            receiver.addKeyPair(HashedObject.fromLiteralContext(command.receiverKeyPair) as SigningKeyPair);
             
             this.mesh.addObjectSpawnCallback(cb, receiver, command.linkupServers, command.spawnId);
 
@@ -664,7 +664,7 @@ class MeshHost {
             const receiver = HashedObject.fromLiteralContext(command.receiver) as Identity;
             const sender   = HashedObject.fromLiteralContext(command.sender) as Identity;
 
-            sender.addKeyPair(HashedObject.fromLiteralContext(command.senderKeyPair) as RSAKeyPair);
+            sender.addKeyPair(HashedObject.fromLiteralContext(command.senderKeyPair) as SigningKeyPair);
             
             this.mesh.sendObjectSpawnRequest(object, sender, receiver, command.senderEndpoint, command.receiverLinkupServers, command.spawnId);
 
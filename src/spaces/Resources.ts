@@ -8,7 +8,7 @@ import { Endpoint } from 'mesh/agents/network';
 import { LinkupManager } from 'net/linkup';
 import { MemoryBackend } from 'storage/backends';
 import { RNGImpl } from 'crypto/random';
-import { RSAKeyPair } from 'data/identity';
+import { RSAKeyPair, IdentityProvider } from 'data/identity';
 
 
 type Config = {
@@ -19,7 +19,10 @@ type Config = {
 };
 
 
-type ResourceInit = { store?: Store, mesh?: Mesh, config: Partial<Config>, aliasing?: Map<Hash, HashedObject> };
+// If an identityProvider is present, the store will use it to sign objects whose author's key pair
+// it does not have in memory (e.g. a RemoteIdentityProvider, to delegate signing to a WebWorker).
+
+type ResourceInit = { store?: Store, mesh?: Mesh, config: Partial<Config>, aliasing?: Map<Hash, HashedObject>, identityProvider?: IdentityProvider };
 type ResourceInitWithId = ResourceInit & { config: {id: Identity}};
 
 class Resources {
@@ -28,6 +31,7 @@ class Resources {
     mesh: Mesh;
     config: Config; 
     aliasing: Map<Hash, HashedObject>;
+    identityProvider?: IdentityProvider;
 
     constructor(init: ResourceInitWithId) {
 
@@ -68,6 +72,8 @@ class Resources {
 
         this.aliasing = new Map();
 
+        this.identityProvider = init.identityProvider;
+
     }
 
     getId(): Identity {
@@ -114,7 +120,7 @@ class Resources {
             endpointParserForDiscovery: init?.config?.endpointParserForDiscovery
         }
 
-        const resources = new Resources({store: init?.store, mesh: init?.mesh, config: config, aliasing: init?.aliasing});
+        const resources = new Resources({store: init?.store, mesh: init?.mesh, config: config, aliasing: init?.aliasing, identityProvider: init?.identityProvider});
 
         init?.store?.setResources(resources);
 
@@ -0,0 +1,8 @@
+// Entry point for the SQLite backend, published as '@hyper-hyper-space/core/sqlite'.
+//
+// It is kept out of the main entry point because it depends on the native sqlite3 module, that
+// is an optional peer dependency: only Node peers that import from here need to install it.
+// Importing it also registers the backend with the Store under SQLiteBackend.backendName
+// ('sqlite'), as the other backends do when the main entry point is imported.
+
+export { SQLiteBackend } from './storage/backends/SQLiteBackend';
@@ -2,3 +2,9 @@ export { Backend, BackendSearchParams, BackendSearchResults } from './backends/
 export { IdbBackend } from './backends/IdbBackend';
 export { MemoryBackend } from './backends/MemoryBackend';
 export { WorkerSafeIdbBackend } from './backends/WorkerSafeIdbBackend';
+export { EncryptedBackend, EncryptedBackendParams } from './backends/EncryptedBackend';
+export { FieldIndex, FieldValue, FieldQuery } from './backends/FieldIndex';
+export { BackendStats } from './backends/BackendStats';
+
+// SQLiteBackend is not exported here, since it depends on the native sqlite3 module (an optional
+// peer dependency). Node peers can import it from '@hyper-hyper-space/core/sqlite' (see src/sqlite.ts).
@@ -2,6 +2,8 @@ import { Literal } from 'data/model/literals/LiteralUtils';
 import { Hash } from 'data/model/hashing/Hashing';
 import { StoredOpHeader } from '../store/Store';
 import { StateCheckpoint } from 'data/model';
+import { FieldQuery } from './FieldIndex';
+import { BackendStats } from './BackendStats';
 
 type BackendSearchParams = {order?: 'asc'|'desc'|undefined, start?: string, limit?: number};
 type BackendSearchResults = {items : Array<Literal>, start?: string, end?: string };
@@ -11,6 +13,10 @@ type BackendSearchResults = {items : Array<Literal>, start?: string, end?: strin
 // since a < b in the prevOps partial order, then seq(a) < seq(b).
 type Storable = { literal: Literal, sequence: number };
 
+// An entry in a batch of literals to be stored atomically (see storeBatch below). Ops must
+// carry their op header, as in store().
+type BackendBatchEntry = { literal: Literal, opHeader?: StoredOpHeader };
+
 //type MutableObjectInfo = { hash: Hash, nextOpSeqNumber: number, terminalOps: Array<Hash> };
 
 //type StoredLiteral = { literal: Literal, extra: {opHeight?: number, prevOpCount?: number, causalHistoryHash?: Hash}};
@@ -22,11 +28,23 @@ interface Backend {
     getName() : string;
 
     store(literal : Literal, history?: StoredOpHeader) : Promise<void>;
+
+    // storeBatch stores all the literals in the batch atomically: if storing any of them fails,
+    // none is persisted. The stored object callback is invoked for each literal only after the
+    // whole batch has been committed.
+
+    storeBatch(batch: Array<BackendBatchEntry>) : Promise<void>;
+
     load(hash: Hash) : Promise<Storable | undefined>;
 
     storeCheckpoint(checkpoint: StateCheckpoint): Promise<void>;
     loadLastCheckpoint(mutableObject: Hash): Promise<StateCheckpoint|undefined>;
 
+    // deleteCheckpoint removes the checkpoint of a mutable object (if there is one), it's used
+    // when the mutable object itself is garbage collected.
+
+    deleteCheckpoint(mutableObject: Hash): Promise<void>;
+
     loadOpHeader(opHash: Hash) : Promise<StoredOpHeader | undefined>;
     loadOpHeaderByHeaderHash(causalHistoryHash: Hash) : Promise<StoredOpHeader | undefined>;
 
@@ -44,6 +62,28 @@ interface Backend {
     searchByReference(referringPath: string, referencedHash: Hash, params? : BackendSearchParams) : Promise<BackendSearchResults>;
     searchByReferencingClass(referringClassName: string, referringPath: string, referencedHash: Hash, params? : BackendSearchParams) : Promise<BackendSearchResults>;
 
+    // searchAll goes over every literal in the backend, in no particular order (but the order must be
+    // stable, so the results can be fetched in batches as explained above).
+
+    searchAll(params? : BackendSearchParams) : Promise<BackendSearchResults>;
+
+    // Secondary indexes: declareFieldIndex makes the backend index the objects of a class by the
+    // value found at fieldPath in their literals (see FieldIndex for details). Declaring an index
+    // that already exists does nothing, while declaring a new one also indexes the objects that are
+    // already stored.
+    //
+    // searchByField returns the objects whose value for the field matches the query (either an
+    // exact value or a range), ordered by that value and then by the order in which they were
+    // stored. Results are paginated as in the searches above.
+    //
+    // Backends that can't see the values may support less: an EncryptedBackend only indexes the
+    // objects stored after the declaration, it forgets its declarations when it is re-opened (so
+    // they need to be declared again every time), and it can only search by exact value. It will
+    // throw if asked for a range, or for an index that has not been declared on that instance.
+
+    declareFieldIndex(className: string, fieldPath: string) : Promise<void>;
+    searchByField(className: string, fieldPath: string, query: FieldQuery, params? : BackendSearchParams) : Promise<BackendSearchResults>;
+
     // the fowllowing 3 return the "start" parameter for the search functions above (the one that goes into params.start) so that
     // the results will fast forward to startObject, skipping all the previous entries
 
@@ -51,6 +91,22 @@ interface Backend {
     skipToObjectByReference(referringPath: string, referencedHash: Hash, startObject: Hash) : Promise<string|undefined>;
     skipToObjectByReferencingClass(referringClassName: string, referringPath: string, referencedHash: Hash, startObject: Hash) : Promise<string|undefined>;
 
+    // The following two are used when compacting a store: delete removes a literal and all its index
+    // entries (if it's an op, it is also removed from its mutable object's terminal ops), while
+    // deleteOpHeader removes the header of an op (that may or may not still be in the store).
+
+    delete(hash: Hash): Promise<void>;
+    deleteOpHeader(opHash: Hash): Promise<void>;
+
+    // storeOpHeader stores the header of an op whose literal is not in the backend. It's used when
+    // bootstrapping from a checkpoint, for the pruned prevOps of the ops that are imported.
+
+    storeOpHeader(opHeader: StoredOpHeader): Promise<void>;
+
+    // Counts (and approximate sizes) of everything in the backend, see BackendStats.
+
+    getStats(): Promise<BackendStats>;
+
     close(): void;
 
     setStoredObjectCallback(objectStoreCallback: (literal: Literal) => Promise<void>): void;
@@ -61,4 +117,4 @@ interface Backend {
 }
 
 export { Backend, BackendSearchParams, BackendSearchResults };
-export type { Storable };
\ No newline at end of file
+export type { Storable, BackendBatchEntry };
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { Hash, Literal, LiteralUtils } from 'data/model';
+
+// What a backend is holding, as returned by Backend.getStats. Sizes are approximate: they are the
+// length of the JSON representation of what was stored, not the space it actually takes on disk.
+
+type BackendStats = {
+    objects          : number,
+    objectsByClass   : { [className: string]: number },
+    opsByMutable     : { [mutableHash: string]: number },
+    opHeaders        : number,
+    checkpoints      : number,
+    checkpointSizes  : { [mutableHash: string]: number },
+    approxSizes      : { objects: number, opHeaders: number, checkpoints: number, total: number }
+};
+
+// Helper for the backends: feed it what is stored, and it will add it all up.
+
+class BackendStatsCollector {
+
+    private stats: BackendStats;
+
+    constructor() {
+        this.stats = {
+            objects: 0,
+            objectsByClass: {},
+            opsByMutable: {},
+            opHeaders: 0,
+            checkpoints: 0,
+            checkpointSizes: {},
+            approxSizes: { objects: 0, opHeaders: 0, checkpoints: 0, total: 0 }
+        };
+    }
+
+    addObject(literal: Literal, size?: number) {
+
+        const className = LiteralUtils.getClassName(literal);
+
+        this.stats.objects = this.stats.objects + 1;
+        this.stats.objectsByClass[className] = (this.stats.objectsByClass[className] || 0) + 1;
+
+        if (LiteralUtils.getFlags(literal).indexOf('op') >= 0) {
+            const mutableHash: Hash = LiteralUtils.getFields(literal)['targetObject']['_hash'];
+            this.stats.opsByMutable[mutableHash] = (this.stats.opsByMutable[mutableHash] || 0) + 1;
+        }
+
+        this.stats.approxSizes.objects = this.stats.approxSizes.objects + (size === undefined? JSON.stringify(literal).length : size);
+    }
+
+    addOpHeader(size: number) {
+        this.addOpHeaders(1, size);
+    }
+
+    // For when the headers were already counted elsewhere (e.g. by a wrapped backend).
+    addOpHeaders(count: number, size: number) {
+        this.stats.opHeaders = this.stats.opHeaders + count;
+        this.stats.approxSizes.opHeaders = this.stats.approxSizes.opHeaders + size;
+    }
+
+    addCheckpoint(mutableHash: Hash, size: number) {
+        this.stats.checkpoints = this.stats.checkpoints + 1;
+        this.stats.checkpointSizes[mutableHash] = size;
+        this.stats.approxSizes.checkpoints = this.stats.approxSizes.checkpoints + size;
+    }
+
+    getStats(): BackendStats {
+
+        const sizes = this.stats.approxSizes;
+
+        sizes.total = sizes.objects + sizes.opHeaders + sizes.checkpoints;
+
+        return this.stats;
+    }
+}
+
+export { BackendStats, BackendStatsCollector };
@@ -0,0 +1,418 @@
+import { HMACImpl } from 'crypto/hmac';
+import { SecretBox, SealedPayload } from 'crypto/secretbox';
+
+import { Literal, Hash, HashedSet, HashReference, LiteralUtils, StateCheckpoint } from 'data/model';
+import { OpHeaderLiteral } from 'data/history/OpHeader';
+import { Logger, LogLevel } from 'util/logging';
+import { MultiMap } from 'util/multimap';
+
+import { Backend, BackendBatchEntry, BackendSearchParams, BackendSearchResults, Storable } from './Backend';
+import { StoredOpHeader } from 'storage/store/Store';
+import { FieldIndex, FieldQuery } from './FieldIndex';
+import { BackendStats, BackendStatsCollector } from './BackendStats';
+
+// A decorator that encrypts everything before it reaches another backend (e.g. an IdbBackend),
+// using a SecretBox with a key derived from a passphrase.
+//
+// The wrapped backend never sees a hash, a class name or a field path in the clear: they are
+// replaced by keyed HMAC tokens, that it can still index and search for. Every literal is stored
+// as an envelope holding:
+//
+//  - its hash, class and dependencies, tokenized (so searchByClass & friends keep working),
+//  - for ops, the tokenized targetObject and prevOps fields (for terminal op tracking),
+//  - its flags, in the clear,
+//  - the encrypted literal, with a MAC over the ciphertext.
+//
+// Op headers and checkpoints are wrapped the same way. Since the key is needed to open it, an
+// EncryptedBackend is not registered with the Store, and can't be re-opened just by name.
+//
+// Field indexes are limited:
+//
+//  - They only support equality queries (query.equals): the envelope gets a tokenized copy of each
+//    indexed value (under _idx), and the wrapped backend indexes that, so there is no ordering
+//    to search ranges on.
+//  - Declarations are not persisted: they are lost when the backend is closed, and searchByField
+//    fails until declareFieldIndex is called again on the re-opened backend.
+//  - Only the objects stored after the declaration are indexed: envelopes are never rewritten,
+//    so objects stored earlier (or by an instance that didn't declare the index) won't be found
+//    by searchByField.
+
+// the fields of a literal's envelope (all of them are tokenized, except for the payload)
+type EnvelopeFields = {
+    targetObject?: { _hash: string },
+    prevOps?: { _elements: Array<{ _hash: string }> },
+    _idx?: { [fieldPathToken: string]: string },
+    payload?: SealedPayload
+};
+
+// an op header as seen by the wrapped backend: just the tokenized hashes it needs to find it, the
+// rest of the header goes in the payload
+type EncryptedOpHeaderLiteral = OpHeaderLiteral & { payload: SealedPayload };
+
+// The salt is hex-encoded (e.g. as returned by RNG.randomHexString), rounds are KeyGen rounds.
+type EncryptedBackendParams = { salt?: string, rounds?: number };
+
+class EncryptedBackend implements Backend {
+
+    static log = new Logger(EncryptedBackend.name, LogLevel.INFO);
+
+    static backendName = 'encrypted';
+
+    static defaultRounds = 4096;
+
+    static statsBatchSize = 256;
+
+    inner: Backend;
+
+    fieldIndexes: MultiMap<string, string>;
+
+    private box: SecretBox;
+    private indexKey: string;
+
+    objectStoreCallback?: (literal: Literal) => Promise<void>;
+
+    // If no salt is provided, one is derived from the name of the wrapped backend (its hex-encoded
+    // utf8 bytes).
+    constructor(inner: Backend, passphrase: string, params?: EncryptedBackendParams) {
+
+        this.inner = inner;
+
+        this.fieldIndexes = new MultiMap();
+
+        const salt   = params?.salt || Buffer.from(inner.getName(), 'utf8').toString('hex');
+        const rounds = params?.rounds || EncryptedBackend.defaultRounds;
+
+        const masterKey = SecretBox.deriveKey(passphrase, salt, rounds);
+
+        this.box      = new SecretBox(masterKey);
+        this.indexKey = SecretBox.subkey(masterKey, 'indexing');
+    }
+
+    getBackendName(): string {
+        return EncryptedBackend.backendName;
+    }
+
+    getName(): string {
+        return this.inner.getName();
+    }
+
+    async store(literal: Literal, history?: StoredOpHeader): Promise<void> {
+        await this.storeBatch([{literal: literal, opHeader: history}]);
+    }
+
+    async storeBatch(batch: Array<BackendBatchEntry>): Promise<void> {
+
+        const encrypted = batch.map((entry: BackendBatchEntry) => {
+            return {
+                literal: this.encryptLiteral(entry.literal),
+                opHeader: entry.opHeader === undefined? undefined : this.encryptOpHeader(entry.opHeader)
+            };
+        });
+
+        await this.inner.storeBatch(encrypted);
+    }
+
+    async load(hash: Hash): Promise<Storable | undefined> {
+
+        const loaded = await this.inner.load(this.token(hash));
+
+        if (loaded === undefined) {
+            return undefined;
+        } else {
+            return { literal: this.decryptLiteral(loaded.literal), sequence: loaded.sequence };
+        }
+    }
+
+    async storeCheckpoint(checkpoint: StateCheckpoint): Promise<void> {
+
+        const envelope: StateCheckpoint = {
+            mutableObject: this.token(checkpoint.mutableObject),
+            terminalOpHashes: [],
+            allAppliedOps: [],
+            activeCascInvsPerOp: [],
+            exportedState: this.encrypt(JSON.stringify(checkpoint))
+        };
+
+        await this.inner.storeCheckpoint(envelope);
+    }
+
+    async loadLastCheckpoint(mutableObject: Hash): Promise<StateCheckpoint | undefined> {
+
+        const envelope = await this.inner.loadLastCheckpoint(this.token(mutableObject));
+
+        if (envelope === undefined) {
+            return undefined;
+        } else {
+            return JSON.parse(this.decrypt(envelope.exportedState as SealedPayload)) as StateCheckpoint;
+        }
+    }
+
+    deleteCheckpoint(mutableObject: Hash): Promise<void> {
+        return this.inner.deleteCheckpoint(this.token(mutableObject));
+    }
+
+    async loadOpHeader(opHash: Hash): Promise<StoredOpHeader | undefined> {
+
+        const envelope = await this.inner.loadOpHeader(this.token(opHash));
+
+        return envelope === undefined? undefined : this.decryptOpHeader(envelope);
+    }
+
+    async loadOpHeaderByHeaderHash(causalHistoryHash: Hash): Promise<StoredOpHeader | undefined> {
+
+        const envelope = await this.inner.loadOpHeaderByHeaderHash(this.token(causalHistoryHash));
+
+        return envelope === undefined? undefined : this.decryptOpHeader(envelope);
+    }
+
+    // The wrapped backend only knows the tokens for the terminal ops, we need to load them to
+    // find out their actual hashes.
+
+    async loadTerminalOpsForMutable(hash: Hash): Promise<{ lastOp: Hash; terminalOps: Hash[]; } | undefined> {
+
+        const info = await this.inner.loadTerminalOpsForMutable(this.token(hash));
+
+        if (info === undefined) {
+            return undefined;
+        }
+
+        const terminalOps = new Array<Hash>();
+
+        for (const opToken of info.terminalOps) {
+            terminalOps.push(await this.hashForToken(opToken));
+        }
+
+        return { lastOp: await this.hashForToken(info.lastOp), terminalOps: terminalOps };
+    }
+
+    async searchByClass(className: string, params?: BackendSearchParams): Promise<BackendSearchResults> {
+        return this.decryptSearchResults(await this.inner.searchByClass(this.token(className), params));
+    }
+
+    async searchByReference(referringPath: string, referencedHash: Hash, params?: BackendSearchParams): Promise<BackendSearchResults> {
+        return this.decryptSearchResults(await this.inner.searchByReference(this.token(referringPath), this.token(referencedHash), params));
+    }
+
+    async searchByReferencingClass(referringClassName: string, referringPath: string, referencedHash: Hash, params?: BackendSearchParams): Promise<BackendSearchResults> {
+        return this.decryptSearchResults(await this.inner.searchByReferencingClass(this.token(referringClassName), this.token(referringPath), this.token(referencedHash), params));
+    }
+
+    async searchAll(params?: BackendSearchParams): Promise<BackendSearchResults> {
+        return this.decryptSearchResults(await this.inner.searchAll(params));
+    }
+
+    async declareFieldIndex(className: string, fieldPath: string): Promise<void> {
+        this.fieldIndexes.add(className, fieldPath);
+        await this.inner.declareFieldIndex(this.token(className), '_idx.' + this.token(fieldPath));
+    }
+
+    async searchByField(className: string, fieldPath: string, query: FieldQuery, params?: BackendSearchParams): Promise<BackendSearchResults> {
+
+        FieldIndex.checkQuery(query);
+
+        if (query.equals === undefined) {
+            throw new Error('Encrypted backend ' + this.getName() + ' can only search field indexes by exact value: values are tokenized, so range queries (from / to) are not supported.');
+        }
+
+        if (!this.fieldIndexes.has(className, fieldPath)) {
+            throw new Error('Field ' + fieldPath + ' of class ' + className + ' has not been indexed by encrypted backend ' + this.getName() + ', use declareFieldIndex first (declarations are not persisted, they must be repeated every time the backend is opened).');
+        }
+
+        const tokenized = { equals: this.token(JSON.stringify(query.equals)) };
+
+        return this.decryptSearchResults(await this.inner.searchByField(this.token(className), '_idx.' + this.token(fieldPath), tokenized, params));
+    }
+
+    skipToObjectByClass(className: string, startObject: Hash): Promise<string | undefined> {
+        return this.inner.skipToObjectByClass(this.token(className), this.token(startObject));
+    }
+
+    skipToObjectByReference(referringPath: string, referencedHash: Hash, startObject: Hash): Promise<string | undefined> {
+        return this.inner.skipToObjectByReference(this.token(referringPath), this.token(referencedHash), this.token(startObject));
+    }
+
+    skipToObjectByReferencingClass(referringClassName: string, referringPath: string, referencedHash: Hash, startObject: Hash): Promise<string | undefined> {
+        return this.inner.skipToObjectByReferencingClass(this.token(referringClassName), this.token(referringPath), this.token(referencedHash), this.token(startObject));
+    }
+
+    delete(hash: Hash): Promise<void> {
+        return this.inner.delete(this.token(hash));
+    }
+
+    deleteOpHeader(opHash: Hash): Promise<void> {
+        return this.inner.deleteOpHeader(this.token(opHash));
+    }
+
+    storeOpHeader(opHeader: StoredOpHeader): Promise<void> {
+        return this.inner.storeOpHeader(this.encryptOpHeader(opHeader));
+    }
+
+    // The wrapped backend only knows about tokens, so objects are counted by going over all of them
+    // and decrypting. Sizes are those of the (encrypted) envelopes in the wrapped backend.
+
+    async getStats(): Promise<BackendStats> {
+
+        const collector = new BackendStatsCollector();
+
+        let start: string | undefined = undefined;
+
+        do {
+            const results: BackendSearchResults = await this.inner.searchAll({start: start, limit: EncryptedBackend.statsBatchSize});
+
+            for (const envelope of results.items) {
+                collector.addObject(this.decryptLiteral(envelope), JSON.stringify(envelope).length);
+            }
+
+            start = results.items.length < EncryptedBackend.statsBatchSize? undefined : results.end;
+        } while (start !== undefined);
+
+        const innerStats = await this.inner.getStats();
+
+        collector.addOpHeaders(innerStats.opHeaders, innerStats.approxSizes.opHeaders);
+
+        for (const [mutableToken, size] of Object.entries(innerStats.checkpointSizes)) {
+            const envelope = await this.inner.loadLastCheckpoint(mutableToken) as StateCheckpoint;
+            const checkpoint = JSON.parse(this.decrypt(envelope.exportedState as SealedPayload)) as StateCheckpoint;
+            collector.addCheckpoint(checkpoint.mutableObject, size);
+        }
+
+        return collector.getStats();
+    }
+
+    close(): void {
+        this.inner.close();
+    }
+
+    setStoredObjectCallback(objectStoreCallback: (literal: Literal) => Promise<void>): void {
+        this.objectStoreCallback = objectStoreCallback;
+
+        this.inner.setStoredObjectCallback(async (envelope: Literal) => {
+            if (this.objectStoreCallback !== undefined) {
+                await this.objectStoreCallback(this.decryptLiteral(envelope));
+            }
+        });
+    }
+
+    ready(): Promise<void> {
+        return this.inner.ready();
+    }
+
+    private token(value: string): string {
+        return new HMACImpl().hmacSHA256hex(value, this.indexKey);
+    }
+
+    private async hashForToken(token: string): Promise<Hash> {
+        const loaded = await this.inner.load(token);
+
+        if (loaded === undefined) {
+            throw new Error('Encrypted backend ' + this.getName() + ' is missing the envelope for token ' + token + '.');
+        }
+
+        return this.decryptLiteral(loaded.literal).hash;
+    }
+
+    private encryptLiteral(literal: Literal): Literal {
+
+        const flags  = LiteralUtils.getFlags(literal);
+        const fields: EnvelopeFields = {};
+
+        if (flags.indexOf('op') >= 0) {
+            const opFields = LiteralUtils.getFields(literal);
+
+            fields['targetObject'] = { _hash: this.token(opFields['targetObject']['_hash']) };
+
+            const prevOps = opFields['prevOps'] === undefined? [] : HashedSet.elementsFromLiteral(opFields['prevOps']).map(HashReference.hashFromLiteral);
+            fields['prevOps'] = { _elements: prevOps.map((prevOp: Hash) => ({ _hash: this.token(prevOp) })) };
+        }
+
+        const indexedFields = this.fieldIndexes.get(LiteralUtils.getClassName(literal));
+
+        if (indexedFields.size > 0) {
+            const idx: { [fieldPathToken: string]: string } = {};
+
+            for (const fieldPath of indexedFields) {
+                const value = FieldIndex.valueFor(literal, fieldPath);
+
+                // the value is JSON-encoded before tokenizing, to tell 1 apart from '1'
+                if (value !== undefined) {
+                    idx[this.token(fieldPath)] = this.token(JSON.stringify(value));
+                }
+            }
+
+            fields['_idx'] = idx;
+        }
+
+        fields['payload'] = this.encrypt(JSON.stringify(literal));
+
+        return {
+            hash: this.token(literal.hash),
+            value: {
+                _type: 'hashed_object',
+                _class: this.token(LiteralUtils.getClassName(literal)),
+                _fields: fields,
+                _flags: flags
+            },
+            dependencies: literal.dependencies.map(dep => ({
+                path: this.token(dep.path),
+                hash: this.token(dep.hash),
+                className: this.token(dep.className),
+                type: dep.type,
+                direct: dep.direct
+            }))
+        };
+    }
+
+    private decryptLiteral(envelope: Literal): Literal {
+
+        const literal = JSON.parse(this.decrypt(LiteralUtils.getFields(envelope)['payload'])) as Literal;
+
+        if (this.token(literal.hash) !== envelope.hash) {
+            throw new Error('Encrypted literal ' + literal.hash + ' was found under the wrong token in ' + this.getName() + '.');
+        }
+
+        return literal;
+    }
+
+    private decryptSearchResults(results: BackendSearchResults): BackendSearchResults {
+        return {
+            items: results.items.map((envelope: Literal) => this.decryptLiteral(envelope)),
+            start: results.start,
+            end: results.end
+        };
+    }
+
+    private encryptOpHeader(opHeader: StoredOpHeader): StoredOpHeader {
+
+        const envelope: EncryptedOpHeaderLiteral = {
+            opHash: this.token(opHeader.literal.opHash),
+            headerHash: this.token(opHeader.literal.headerHash),
+            prevOpHeaders: [],
+            computedHeight: 0,
+            computedSize: 0,
+            payload: this.encrypt(JSON.stringify(opHeader))
+        };
+
+        return { literal: envelope };
+    }
+
+    private decryptOpHeader(envelope: StoredOpHeader): StoredOpHeader {
+        return JSON.parse(this.decrypt((envelope.literal as EncryptedOpHeaderLiteral).payload)) as StoredOpHeader;
+    }
+
+    private encrypt(plaintext: string): SealedPayload {
+        return this.box.seal(plaintext);
+    }
+
+    private decrypt(payload: SealedPayload): string {
+
+        const plaintext = this.box.open(payload);
+
+        if (plaintext === undefined) {
+            throw new Error('Cannot decrypt data in ' + this.getName() + ': wrong passphrase, or the data has been tampered with.');
+        }
+
+        return plaintext;
+    }
+}
+
+export { EncryptedBackend, EncryptedBackendParams };
@@ -0,0 +1,72 @@
+import { Literal, LiteralUtils } from 'data/model/literals/LiteralUtils';
+
+// Helpers for the secondary (field) indexes declared through Backend.declareFieldIndex.
+//
+// A field path is a dot-separated path into the fields of a literal, e.g. 'info.name'. It can go
+// through plain objects, but not through other HashedObjects (those are just references in the
+// literal). Only string and number values are indexed, and values are ordered as in IndexedDB:
+// numbers first (in numeric order), then strings (in lexicographic order).
+
+type FieldValue = string | number;
+
+// Both bounds of a range are inclusive, and either can be omitted.
+type FieldQuery = { equals?: FieldValue, from?: FieldValue, to?: FieldValue };
+
+class FieldIndex {
+
+    static indexName(className: string, fieldPath: string): string {
+        return className + '#' + fieldPath;
+    }
+
+    static valueFor(literal: Literal, fieldPath: string): FieldValue | undefined {
+
+        let value: any = LiteralUtils.getFields(literal);
+
+        for (const fieldName of fieldPath.split('.')) {
+            if (value === undefined || value === null || typeof(value) !== 'object') {
+                return undefined;
+            }
+
+            value = value[fieldName];
+        }
+
+        if (typeof(value) === 'string' || (typeof(value) === 'number' && !Number.isNaN(value))) {
+            return value;
+        } else {
+            return undefined;
+        }
+    }
+
+    static compare(a: FieldValue, b: FieldValue): number {
+
+        if (typeof(a) !== typeof(b)) {
+            return typeof(a) === 'number'? -1 : 1;
+        }
+
+        if (a < b) {
+            return -1;
+        } else if (a > b) {
+            return 1;
+        } else {
+            return 0;
+        }
+    }
+
+    static matches(value: FieldValue, query: FieldQuery): boolean {
+
+        if (query.equals !== undefined) {
+            return FieldIndex.compare(value, query.equals) === 0;
+        }
+
+        return (query.from === undefined || FieldIndex.compare(query.from, value) <= 0) &&
+               (query.to   === undefined || FieldIndex.compare(value, query.to)   <= 0);
+    }
+
+    static checkQuery(query: FieldQuery) {
+        if (query.equals !== undefined && (query.from !== undefined || query.to !== undefined)) {
+            throw new Error('A field query can either look for an exact value (equals) or a range (from / to), but not both.');
+        }
+    }
+}
+
+export { FieldIndex, FieldValue, FieldQuery };
@@ -1,11 +1,13 @@
 
-import { openDB, IDBPDatabase } from 'idb';
+import { openDB, IDBPDatabase, IDBPTransaction } from 'idb';
 
 import { Logger, LogLevel } from 'util/logging';
 
 import { Literal, Hash, HashedSet, HashReference, StateCheckpoint } from 'data/model';
 
-import { Backend, BackendSearchParams, BackendSearchResults, Storable } from './Backend'; 
+import { Backend, BackendBatchEntry, BackendSearchParams, BackendSearchResults, Storable } from './Backend'; 
+import { FieldIndex, FieldQuery, FieldValue } from './FieldIndex';
+import { BackendStats, BackendStatsCollector } from './BackendStats';
 import { Store, StoredOpHeader } from 'storage/store/Store';
 import { MultiMap } from 'util/multimap';
 import { LiteralUtils } from 'data/model/literals/LiteralUtils';
@@ -17,6 +19,13 @@ type IdbStorageFormat = {
     sequence  : number,
 }
 
+type IdbFieldIndexFormat = {
+    index    : string,
+    value    : FieldValue,
+    sequence : number,
+    hash     : Hash
+};
+
 type IdbTerminalOpsFormat = {
     mutableHash : Hash,
     terminalOps : Array<Hash>
@@ -56,12 +65,19 @@ class IdbBackend implements Backend {
     static readonly OBJ_STORE  = 'object_store';
     static readonly TERMINAL_OPS_STORE = 'terminal_ops_store';
     static readonly OP_HEADERS_STORE = 'op_headers_store';
+    static readonly FIELD_INDEX_STORE = 'field_index_store';
+    static readonly CHECKPOINTS_STORE = 'checkpoints_store';
+
+    static readonly DB_VERSION = 3;
+
+    static readonly FIELD_INDEXES_META_KEY = 'field_indexes';
 
     static readonly CLASS_SEQUENCE_IDX_KEY = 'class_sequence';
     static readonly REFERENCES_SEQUENCE_IDX_KEY = 'references_sequence';
     static readonly REFERENCING_CLASS_SEQUENCE_IDX_KEY = 'referencing_class_sequence';
 
     static readonly OP_HEADER_HASH_IDX_KEY = 'op_header_hash';
+    static readonly FIELD_INDEX_HASH_IDX_KEY = 'field_index_hash';
 
     name: string;
     idbPromise: Promise<IDBPDatabase>;
@@ -73,19 +89,23 @@ class IdbBackend implements Backend {
         this.name = name;
         this.closed = false;
 
-        this.idbPromise = openDB(name, 1, {
-            upgrade(db, _oldVersion, _newVersion, _transaction) {
+        this.idbPromise = openDB(name, IdbBackend.DB_VERSION, {
+            upgrade(db, oldVersion, _newVersion, _transaction) {
 
-                let objectStore = db.createObjectStore(IdbBackend.OBJ_STORE, {keyPath: 'literal.hash'});
+                if (oldVersion < 1) {
+                    IdbBackend.createInitialStores(db);
+                }
 
-                objectStore.createIndex(IdbBackend.CLASS_SEQUENCE_IDX_KEY + '_idx', 'indexes.' + IdbBackend.CLASS_SEQUENCE_IDX_KEY);
-                objectStore.createIndex(IdbBackend.REFERENCES_SEQUENCE_IDX_KEY + '_idx', 'indexes.' + IdbBackend.REFERENCES_SEQUENCE_IDX_KEY, {multiEntry: true});
-                objectStore.createIndex(IdbBackend.REFERENCING_CLASS_SEQUENCE_IDX_KEY + '_idx', 'indexes.' + IdbBackend.REFERENCING_CLASS_SEQUENCE_IDX_KEY, {multiEntry: true});
+                // version 2: secondary (field) indexes
+                if (oldVersion < 2) {
+                    let fieldIndexStore = db.createObjectStore(IdbBackend.FIELD_INDEX_STORE, {keyPath: ['index', 'value', 'sequence']});
+                    fieldIndexStore.createIndex(IdbBackend.FIELD_INDEX_HASH_IDX_KEY + '_idx', 'hash');
+                }
 
-                db.createObjectStore(IdbBackend.TERMINAL_OPS_STORE, {keyPath: 'mutableHash'});
-                let opHeadersStore = db.createObjectStore(IdbBackend.OP_HEADERS_STORE, {keyPath: 'literal.opHash'});
-                opHeadersStore.createIndex(IdbBackend.OP_HEADER_HASH_IDX_KEY + '_idx', 'literal.headerHash' );
-                db.createObjectStore(IdbBackend.META_STORE, { keyPath: 'name'});
+                // version 3: checkpoints
+                if (oldVersion < 3) {
+                    db.createObjectStore(IdbBackend.CHECKPOINTS_STORE, {keyPath: 'mutableObject'});
+                }
             },
             blocked() {
               // …
@@ -102,6 +122,20 @@ class IdbBackend implements Backend {
 
     }
 
+    private static createInitialStores(db: IDBPDatabase) {
+
+        let objectStore = db.createObjectStore(IdbBackend.OBJ_STORE, {keyPath: 'literal.hash'});
+
+        objectStore.createIndex(IdbBackend.CLASS_SEQUENCE_IDX_KEY + '_idx', 'indexes.' + IdbBackend.CLASS_SEQUENCE_IDX_KEY);
+        objectStore.createIndex(IdbBackend.REFERENCES_SEQUENCE_IDX_KEY + '_idx', 'indexes.' + IdbBackend.REFERENCES_SEQUENCE_IDX_KEY, {multiEntry: true});
+        objectStore.createIndex(IdbBackend.REFERENCING_CLASS_SEQUENCE_IDX_KEY + '_idx', 'indexes.' + IdbBackend.REFERENCING_CLASS_SEQUENCE_IDX_KEY, {multiEntry: true});
+
+        db.createObjectStore(IdbBackend.TERMINAL_OPS_STORE, {keyPath: 'mutableHash'});
+        let opHeadersStore = db.createObjectStore(IdbBackend.OP_HEADERS_STORE, {keyPath: 'literal.opHash'});
+        opHeadersStore.createIndex(IdbBackend.OP_HEADER_HASH_IDX_KEY + '_idx', 'literal.headerHash' );
+        db.createObjectStore(IdbBackend.META_STORE, { keyPath: 'name'});
+    }
+
     async processExternalStore(literal: Literal): Promise<void> {
         literal;
     }
@@ -115,39 +149,76 @@ class IdbBackend implements Backend {
     }
 
     async store(literal: Literal, opHeader?: StoredOpHeader): Promise<void> {
+        await this.storeBatch([{literal: literal, opHeader: opHeader}]);
+    }
+
+    async storeBatch(batch: Array<BackendBatchEntry>): Promise<void> {
 
         if (this.closed) {
             throw new Error('Attempted to store a literal on a closed IndexedDB backend.')
         }
 
+        for (const entry of batch) {
+            if (entry.literal.value['_flags'].indexOf('op') >= 0 && entry.opHeader === undefined) {
+                throw new Error('Missing causal history received by backend while trying to store op ' + entry.literal.hash);
+            }
+        }
+
         let idb = await this.idbPromise;
 
-        let storable = {} as IdbStorageFormat;
+        let stores = [IdbBackend.OBJ_STORE, IdbBackend.META_STORE, IdbBackend.FIELD_INDEX_STORE];
 
-        storable.literal = literal;
-                
-        storable.indexes = {} as any;
+        if (batch.some((entry: BackendBatchEntry) => entry.literal.value['_flags'].indexOf('op') >= 0)) {
+            stores.push(IdbBackend.TERMINAL_OPS_STORE);
+            stores.push(IdbBackend.OP_HEADERS_STORE);
+        }
 
-        storable.timestamp = new Date().getTime().toString();
+        // all the literals in the batch go in the same transaction: if anything fails, it is
+        // aborted and nothing is persisted.
 
-        let stores = [IdbBackend.OBJ_STORE, IdbBackend.META_STORE];
+        let tx = idb.transaction(stores, 'readwrite');
 
-        const isOp = literal.value['_flags'].indexOf('op') >= 0;
+        try {
+            let seqInfo = await tx.objectStore(IdbBackend.META_STORE).get('current_object_sequence');
+            if (seqInfo === undefined) {
+                seqInfo = { name: 'current_object_sequence', value: 0 };
+            }
 
-        if (isOp) {
-            stores.push(IdbBackend.TERMINAL_OPS_STORE);
-            stores.push(IdbBackend.OP_HEADERS_STORE);
+            const fieldIndexes = await IdbBackend.loadFieldIndexes(tx);
+
+            for (const entry of batch) {
+                await IdbBackend.storeInTransaction(tx, entry.literal, seqInfo.value, fieldIndexes, entry.opHeader);
+                seqInfo.value = seqInfo.value + 1;
+            }
+
+            await tx.objectStore(IdbBackend.META_STORE).put(seqInfo);
+        } catch (e) {
+            // if the failure came from IndexedDB itself, the transaction is already aborted
+            try { tx.abort(); } catch (_abortError) { }
+            await tx.done.catch(() => undefined);
+            throw e;
         }
 
-        let tx = idb.transaction(stores, 'readwrite');
+        await tx.done;
 
-        let seqInfo = await tx.objectStore(IdbBackend.META_STORE).get('current_object_sequence');
-        if (seqInfo === undefined) {
-            seqInfo = { name: 'current_object_sequence', value: 0 };
+        for (const entry of batch) {
+            await IdbBackend.fireCallbacks(this.name, entry.literal);
         }
+    }
+
+    private static async storeInTransaction(tx: IDBPTransaction<unknown, string[], 'readwrite'>, literal: Literal, sequence: number, fieldIndexes: Array<[string, string]>, opHeader?: StoredOpHeader): Promise<void> {
+
+        let storable = {} as IdbStorageFormat;
+
+        storable.literal = literal;
+                
+        storable.indexes = {} as any;
+
+        storable.timestamp = new Date().getTime().toString();
 
-        storable.sequence = seqInfo.value;
-        seqInfo.value = seqInfo.value + 1;
+        storable.sequence = sequence;
+
+        const isOp = literal.value['_flags'].indexOf('op') >= 0;
 
         IdbBackend.assignIdxValue(storable, IdbBackend.CLASS_SEQUENCE_IDX_KEY, storable.literal.value._class, {sequence: true});
 
@@ -160,11 +231,7 @@ class IdbBackend implements Backend {
 
         if (isOp) {
 
-            if (opHeader === undefined) {
-                throw new Error('Missing causal history received by backend while trying to store op ' + literal.hash);
-            }
-
-            await tx.objectStore(IdbBackend.OP_HEADERS_STORE).put(opHeader);
+            await tx.objectStore(IdbBackend.OP_HEADERS_STORE).put(opHeader as StoredOpHeader);
             
             const mutableHash = LiteralUtils.getFields(storable.literal)['targetObject']['_hash'];
 
@@ -206,12 +273,48 @@ class IdbBackend implements Backend {
             await tx.objectStore(IdbBackend.TERMINAL_OPS_STORE).put(terminalOpsInfo);
         }
 
-        await tx.objectStore(IdbBackend.META_STORE).put(seqInfo);
+        await IdbBackend.removeFromFieldIndexes(tx, literal.hash);
+
+        for (const [className, fieldPath] of fieldIndexes) {
+            if (className === storable.literal.value._class) {
+                await IdbBackend.addToFieldIndex(tx, storable, fieldPath);
+            }
+        }
+
         await tx.objectStore(IdbBackend.OBJ_STORE).put(storable);
+    }
 
-        await tx.done;
-        
-        await IdbBackend.fireCallbacks(this.name, literal);
+    private static async loadFieldIndexes(tx: IDBPTransaction<unknown, string[], 'readwrite'>): Promise<Array<[string, string]>> {
+        const meta = await tx.objectStore(IdbBackend.META_STORE).get(IdbBackend.FIELD_INDEXES_META_KEY);
+
+        return meta === undefined? [] : meta.value;
+    }
+
+    private static async addToFieldIndex(tx: IDBPTransaction<unknown, string[], 'readwrite'>, storable: IdbStorageFormat, fieldPath: string): Promise<void> {
+
+        const value = FieldIndex.valueFor(storable.literal, fieldPath);
+
+        if (value !== undefined) {
+            const entry: IdbFieldIndexFormat = {
+                index    : FieldIndex.indexName(storable.literal.value._class, fieldPath),
+                value    : value,
+                sequence : storable.sequence,
+                hash     : storable.literal.hash
+            };
+
+            await tx.objectStore(IdbBackend.FIELD_INDEX_STORE).put(entry);
+        }
+    }
+
+    private static async removeFromFieldIndexes(tx: IDBPTransaction<unknown, string[], 'readwrite'>, hash: Hash): Promise<void> {
+
+        const fieldIndexStore = tx.objectStore(IdbBackend.FIELD_INDEX_STORE);
+
+        const keys = await fieldIndexStore.index(IdbBackend.FIELD_INDEX_HASH_IDX_KEY + '_idx').getAllKeys(hash);
+
+        for (const key of keys) {
+            await fieldIndexStore.delete(key);
+        }
     }
     
     async load(hash: Hash): Promise<Storable | undefined> {
@@ -250,6 +353,169 @@ class IdbBackend implements Backend {
         return this.searchByIndex(IdbBackend.REFERENCING_CLASS_SEQUENCE_IDX_KEY + '_idx', 
                                   referringClassName + '.' + referringPath + '#' + referencedHash, params);
     }
+
+    // Objects that were already stored when the index is declared are indexed right away.
+
+    async declareFieldIndex(className: string, fieldPath: string): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to declare a field index on a closed IndexedDB backend.')
+        }
+
+        let idb = await this.idbPromise;
+
+        let tx = idb.transaction([IdbBackend.META_STORE, IdbBackend.OBJ_STORE, IdbBackend.FIELD_INDEX_STORE], 'readwrite');
+
+        const fieldIndexes = await IdbBackend.loadFieldIndexes(tx);
+
+        if (fieldIndexes.some(([c, f]: [string, string]) => c === className && f === fieldPath)) {
+            await tx.done;
+            return;
+        }
+
+        fieldIndexes.push([className, fieldPath]);
+
+        await tx.objectStore(IdbBackend.META_STORE).put({ name: IdbBackend.FIELD_INDEXES_META_KEY, value: fieldIndexes });
+
+        const range = IDBKeyRange.bound(className + '_', className + '_Z', true, true);
+
+        let cursor = await tx.objectStore(IdbBackend.OBJ_STORE).index(IdbBackend.CLASS_SEQUENCE_IDX_KEY + '_idx').openCursor(range);
+
+        while (cursor) {
+            await IdbBackend.addToFieldIndex(tx, cursor.value as IdbStorageFormat, fieldPath);
+            cursor = await cursor.continue();
+        }
+
+        await tx.done;
+    }
+
+    // Pagination uses the primary key of the field index entries, ([index, value, sequence]),
+    // serialized as JSON. As in searchByIndex, start is exclusive.
+
+    async searchByField(className: string, fieldPath: string, query: FieldQuery, params?: BackendSearchParams): Promise<BackendSearchResults> {
+
+        FieldIndex.checkQuery(query);
+
+        if (this.closed) {
+            throw new Error('Attempted to load literals from a closed IndexedDB backend.')
+        }
+
+        let idb = await this.idbPromise;
+
+        let tx = idb.transaction([IdbBackend.META_STORE, IdbBackend.OBJ_STORE, IdbBackend.FIELD_INDEX_STORE], 'readonly');
+
+        const meta = await tx.objectStore(IdbBackend.META_STORE).get(IdbBackend.FIELD_INDEXES_META_KEY);
+        const fieldIndexes: Array<[string, string]> = meta === undefined? [] : meta.value;
+
+        if (!fieldIndexes.some(([c, f]: [string, string]) => c === className && f === fieldPath)) {
+            throw new Error('Field ' + fieldPath + ' of class ' + className + ' has not been indexed, use declareFieldIndex first.');
+        }
+
+        const index = FieldIndex.indexName(className, fieldPath);
+
+        const from = query.equals !== undefined? query.equals : query.from;
+        const to   = query.equals !== undefined? query.equals : query.to;
+
+        // an empty array sorts after any number or string in IndexedDB
+
+        let lower: any[] = from === undefined? [index] : [index, from];
+        let upper: any[] = to   === undefined? [index, []] : [index, to, []];
+        let lowerOpen = false;
+        let upperOpen = false;
+
+        let order = (params === undefined || params.order === undefined) ? 'asc' : params.order.toLowerCase();
+
+        if (params !== undefined && params.start !== undefined) {
+            if (order === 'desc') {
+                upper = JSON.parse(params.start);
+                upperOpen = true;
+            } else {
+                lower = JSON.parse(params.start);
+                lowerOpen = true;
+            }
+        }
+
+        let searchResults = {} as BackendSearchResults;
+
+        searchResults.items = [] as Array<Literal>;
+        searchResults.start = undefined;
+        searchResults.end   = undefined;
+
+        if (indexedDB.cmp(lower, upper) > 0) {
+            return searchResults;
+        }
+
+        const range = IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen);
+        const direction = order === 'desc' ? 'prev' : 'next';
+
+        let cursor = await tx.objectStore(IdbBackend.FIELD_INDEX_STORE).openCursor(range, direction);
+
+        const limit = params?.limit;
+
+        while ((limit === undefined || searchResults.items.length < limit) && cursor) {
+
+            const entry = cursor.value as IdbFieldIndexFormat;
+            const stored = await tx.objectStore(IdbBackend.OBJ_STORE).get(entry.hash) as IdbStorageFormat | undefined;
+
+            if (stored !== undefined) {
+                searchResults.items.push(stored.literal);
+                if (searchResults.start === undefined) {
+                    searchResults.start = JSON.stringify(cursor.key);
+                }
+                searchResults.end = JSON.stringify(cursor.key);
+            }
+
+            cursor = await cursor.continue();
+        }
+
+        return searchResults;
+    }
+
+    async searchAll(params?: BackendSearchParams): Promise<BackendSearchResults> {
+
+        if (this.closed) {
+            throw new Error('Attempted to load literals from a closed IndexedDB backend.')
+        }
+
+        let idb = await this.idbPromise;
+
+        let order = (params === undefined || params.order === undefined) ? 'asc' : params.order.toLowerCase();
+
+        // objects are keyed by hash, and start is exclusive (as in searchByIndex)
+
+        let range: IDBKeyRange | undefined = undefined;
+
+        if (params !== undefined && params.start !== undefined) {
+            range = order === 'desc' ? IDBKeyRange.upperBound(params.start, true) : IDBKeyRange.lowerBound(params.start, true);
+        }
+
+        const direction = order === 'desc' ? 'prev' : 'next';
+
+        let searchResults = {} as BackendSearchResults;
+
+        searchResults.items = [] as Array<Literal>;
+        searchResults.start = undefined;
+        searchResults.end   = undefined;
+
+        var cursor = await idb.transaction([IdbBackend.OBJ_STORE], 'readonly').objectStore(IdbBackend.OBJ_STORE).openCursor(range, direction);
+
+        const limit = params?.limit;
+
+        while ((limit === undefined || searchResults.items.length < limit) && cursor) {
+
+            let storable = cursor.value as IdbStorageFormat;
+
+            searchResults.items.push(storable.literal);
+            if (searchResults.start === undefined) {
+                searchResults.start = cursor.key.toString();
+            }
+            searchResults.end = cursor.key.toString();
+
+            cursor = await cursor.continue();
+        }
+
+        return searchResults;
+    }
     
     async loadOpHeader(opHash: string): Promise<StoredOpHeader | undefined> {
 
@@ -280,6 +546,110 @@ class IdbBackend implements Backend {
     }
 
 
+    async delete(hash: Hash): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to delete a literal from a closed IndexedDB backend.')
+        }
+
+        let idb = await this.idbPromise;
+
+        let tx = idb.transaction([IdbBackend.OBJ_STORE, IdbBackend.TERMINAL_OPS_STORE, IdbBackend.FIELD_INDEX_STORE], 'readwrite');
+
+        const stored = await tx.objectStore(IdbBackend.OBJ_STORE).get(hash) as IdbStorageFormat | undefined;
+
+        if (stored !== undefined) {
+
+            const isOp = stored.literal.value['_flags'].indexOf('op') >= 0;
+
+            if (isOp) {
+                const mutableHash = LiteralUtils.getFields(stored.literal)['targetObject']['_hash'];
+
+                const terminalOpsInfo = (await tx.objectStore(IdbBackend.TERMINAL_OPS_STORE)
+                                                 .get(mutableHash)) as IdbTerminalOpsFormat | undefined;
+
+                if (terminalOpsInfo !== undefined) {
+                    const idx = terminalOpsInfo.terminalOps.indexOf(hash);
+
+                    if (idx >= 0) {
+                        terminalOpsInfo.terminalOps.splice(idx, 1);
+
+                        if (terminalOpsInfo.terminalOps.length === 0) {
+                            await tx.objectStore(IdbBackend.TERMINAL_OPS_STORE).delete(mutableHash);
+                        } else {
+                            await tx.objectStore(IdbBackend.TERMINAL_OPS_STORE).put(terminalOpsInfo);
+                        }
+                    }
+                }
+            }
+
+            await IdbBackend.removeFromFieldIndexes(tx, hash);
+            await tx.objectStore(IdbBackend.OBJ_STORE).delete(hash);
+        }
+
+        await tx.done;
+    }
+
+    async deleteOpHeader(opHash: Hash): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to delete an op header from a closed IndexedDB backend.')
+        }
+
+        let idb = await this.idbPromise;
+
+        await idb.delete(IdbBackend.OP_HEADERS_STORE, opHash);
+    }
+
+    async storeOpHeader(opHeader: StoredOpHeader): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to store an op header on a closed IndexedDB backend.')
+        }
+
+        let idb = await this.idbPromise;
+
+        await idb.put(IdbBackend.OP_HEADERS_STORE, opHeader);
+    }
+
+    async getStats(): Promise<BackendStats> {
+
+        if (this.closed) {
+            throw new Error('Attempted to get stats from a closed IndexedDB backend.')
+        }
+
+        let idb = await this.idbPromise;
+
+        const collector = new BackendStatsCollector();
+
+        let tx = idb.transaction([IdbBackend.OBJ_STORE, IdbBackend.OP_HEADERS_STORE, IdbBackend.CHECKPOINTS_STORE], 'readonly');
+
+        let objCursor = await tx.objectStore(IdbBackend.OBJ_STORE).openCursor();
+
+        while (objCursor) {
+            const literal = (objCursor.value as IdbStorageFormat).literal;
+            collector.addObject(literal);
+            objCursor = await objCursor.continue();
+        }
+
+        let headerCursor = await tx.objectStore(IdbBackend.OP_HEADERS_STORE).openCursor();
+
+        while (headerCursor) {
+            collector.addOpHeader(JSON.stringify(headerCursor.value).length);
+            headerCursor = await headerCursor.continue();
+        }
+
+        let checkpointCursor = await tx.objectStore(IdbBackend.CHECKPOINTS_STORE).openCursor();
+
+        while (checkpointCursor) {
+            const checkpoint = checkpointCursor.value as StateCheckpoint;
+            collector.addCheckpoint(checkpoint.mutableObject, JSON.stringify(checkpoint).length);
+            checkpointCursor = await checkpointCursor.continue();
+        }
+
+        return collector.getStats();
+    }
+
     setStoredObjectCallback(objectStoreCallback: (literal: Literal) => Promise<void>): void {
         this.objectStoreCallback = objectStoreCallback;
     }
@@ -373,7 +743,8 @@ class IdbBackend implements Backend {
         if (window.indexedDB.databases === undefined) {
 
             try {
-                const db = await openDB(name, 1);
+                // open at whatever version the database is in: asking for an older one would fail
+                const db = await openDB(name);
 
                 const exists = db.objectStoreNames.contains(IdbBackend.OBJ_STORE);
 
@@ -404,15 +775,40 @@ class IdbBackend implements Backend {
         }
     }
 
-    // TODO: add a STORE for the checkpoints, for now limited to max idb value size
+    // There's one checkpoint per mutable object, stored as a single value (so its size is limited
+    // to the max idb value size).
 
     async storeCheckpoint(checkpoint: StateCheckpoint): Promise<void> {
-        checkpoint;
-        throw new Error('Method not implemented.');
+
+        if (this.closed) {
+            throw new Error('Attempted to store a checkpoint on a closed IndexedDB backend.')
+        }
+
+        let idb = await this.idbPromise;
+
+        await idb.put(IdbBackend.CHECKPOINTS_STORE, checkpoint);
     }
 
-    async loadLastCheckpoint(): Promise<StateCheckpoint|undefined> {
-        throw new Error('Method not implemented.');
+    async loadLastCheckpoint(mutableObject: Hash): Promise<StateCheckpoint|undefined> {
+
+        if (this.closed) {
+            throw new Error('Attempted to load a checkpoint from a closed IndexedDB backend.')
+        }
+
+        let idb = await this.idbPromise;
+
+        return await idb.get(IdbBackend.CHECKPOINTS_STORE, mutableObject) as StateCheckpoint|undefined;
+    }
+
+    async deleteCheckpoint(mutableObject: Hash): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to delete a checkpoint from a closed IndexedDB backend.')
+        }
+
+        let idb = await this.idbPromise;
+
+        await idb.delete(IdbBackend.CHECKPOINTS_STORE, mutableObject);
     }
 
     skipToObjectByClass(className: string, startObject: Hash): Promise<string | undefined> {
@@ -1,9 +1,11 @@
-import { Backend, BackendSearchParams, BackendSearchResults, Storable } from './Backend';
+import { Backend, BackendBatchEntry, BackendSearchParams, BackendSearchResults, Storable } from './Backend';
 import { Literal, Hash, HashReference, HashedSet, StateCheckpoint } from 'data/model';
 import { MultiMap } from 'util/multimap';
 import { Store, StoredOpHeader } from 'storage/store/Store';
 import { LiteralUtils } from 'data/model/literals/LiteralUtils';
 import { Logger, LogLevel } from 'util/logging';
+import { FieldIndex, FieldQuery, FieldValue } from './FieldIndex';
+import { BackendStats, BackendStatsCollector } from './BackendStats';
 
 type MemStorageFormat = {
     literal: Literal,
@@ -13,6 +15,12 @@ type MemStorageFormat = {
 
 type MemOpCausalHistoryFormat = StoredOpHeader;
 
+type MemFieldIndexEntry = {
+    value: FieldValue,
+    sequence: number,
+    hash: Hash
+}
+
 type MemoryRepr = {
     objects: Map<Hash, MemStorageFormat>,
     classIndex: MultiMap<string, Hash>,
@@ -25,7 +33,10 @@ type MemoryRepr = {
     lastOps: Map<Hash, Hash>,
     opCausalHistories: Map<Hash, MemOpCausalHistoryFormat>,
     opCausalHistoriesByHash: Map<Hash, MemOpCausalHistoryFormat>,
-    checkpoints: Map<Hash, StateCheckpoint>
+    checkpoints: Map<Hash, StateCheckpoint>,
+    fieldIndexes: Map<string, MemFieldIndexEntry[]>, // sorted by value, then by sequence
+    fieldIndexesByClass: MultiMap<string, string>,
+    nextSequence: number
 }
 
 class MemoryBackend implements Backend {
@@ -77,7 +88,10 @@ class MemoryBackend implements Backend {
                 lastOps: new Map(),
                 opCausalHistories: new Map(),
                 opCausalHistoriesByHash: new Map(),
-                checkpoints: new Map()
+                checkpoints: new Map(),
+                fieldIndexes: new Map(),
+                fieldIndexesByClass: new MultiMap(),
+                nextSequence: 0
             }
         }
 
@@ -102,44 +116,67 @@ class MemoryBackend implements Backend {
     }
 
     async store(literal: Literal, history?: StoredOpHeader): Promise<void> {
+        await this.storeBatch([{literal: literal, opHeader: history}]);
+    }
+
+    async storeBatch(batch: Array<BackendBatchEntry>): Promise<void> {
+
+        // every change made to the repr is recorded in the undo log, so if storing any of the
+        // items fails, the ones before it are rolled back and the batch leaves no trace
+        const undo: Array<() => void> = [];
+
+        try {
+            for (const entry of batch) {
+                this.storeInRepr(entry.literal, entry.opHeader, undo);
+            }
+        } catch (e) {
+            for (const step of undo.reverse()) {
+                step();
+            }
+            throw e;
+        }
+
+        for (const entry of batch) {
+            for (const backend of MemoryBackend.getRegisteredInstances(this.name)) {
+                if (backend.objectStoreCallback !== undefined) {
+                    await backend.objectStoreCallback(entry.literal);
+                }
+            }
+        }
+    }
+
+    private storeInRepr(literal: Literal, history: StoredOpHeader|undefined, undo: Array<() => void>) {
         
         // store object
         let storable = {} as MemStorageFormat;
 
         storable.literal   = literal;
         storable.timestamp = new Date().getTime().toString();
-        storable.sequence  = this.repr.objects.size;
+        storable.sequence  = this.repr.nextSequence;
+
+        const prevSequence = this.repr.nextSequence;
+        undo.push(() => { this.repr.nextSequence = prevSequence; });
+
+        this.repr.nextSequence = this.repr.nextSequence + 1;
         
+        const prevStorable = this.repr.objects.get(literal.hash);
+        undo.push(() => MemoryBackend.restore(this.repr.objects, literal.hash, prevStorable));
+
         this.repr.objects.set(literal.hash, storable);
 
         // update indexes 
-        if (!this.repr.classIndex.has(storable.literal.value._class, literal.hash)) {
-            this.repr.classIndex.add(storable.literal.value._class, literal.hash);
-            let sorted = this.repr.sortedClassIndex.get(storable.literal.value._class);
-            if (sorted === undefined) { sorted = []; this.repr.sortedClassIndex.set(storable.literal.value._class, sorted); }
-            sorted.push(literal.hash);
-        }
-        
+        this.addToIndex(storable.literal.value._class, literal.hash, this.repr.classIndex, this.repr.sortedClassIndex, undo);
         
         for (const dep of literal.dependencies) {
             let reference = dep.path + '#' + dep.hash;
-            if (!this.repr.referenceIndex.has(reference, literal.hash)) {
-                this.repr.referenceIndex.add(reference, literal.hash);
-                let sorted = this.repr.sortedReferenceIndex.get(reference);
-                if (sorted === undefined) { sorted = []; this.repr.sortedReferenceIndex.set(reference, sorted); }
-                sorted.push(literal.hash);
-            }
+            this.addToIndex(reference, literal.hash, this.repr.referenceIndex, this.repr.sortedReferenceIndex, undo);
             
             let referencingClass = dep.className + '.' + dep.path + '#' + dep.hash;
-            if (!this.repr.referencingClassIndex.has(referencingClass, literal.hash)) {
-                this.repr.referencingClassIndex.add(referencingClass, literal.hash);
-                let sorted = this.repr.sortedReferencingClassIndex.get(referencingClass);
-                if (sorted === undefined) { sorted = []; this.repr.sortedReferencingClassIndex.set(referencingClass, sorted); }
-                sorted.push(literal.hash);
-            }
-            
+            this.addToIndex(referencingClass, literal.hash, this.repr.referencingClassIndex, this.repr.sortedReferencingClassIndex, undo);
         }
 
+        this.addToFieldIndexes(literal, storable.sequence, undo);
+
         // if necessary, update last ops
         const isOp = literal.value['_flags'].indexOf('op') >= 0;
 
@@ -150,27 +187,53 @@ class MemoryBackend implements Backend {
             }
 
             const historyCopy = Object.assign({}, history);
+
+            const prevHistory       = this.repr.opCausalHistories.get(literal.hash);
+            const prevHistoryByHash = this.repr.opCausalHistoriesByHash.get(historyCopy.literal.headerHash);
+            undo.push(() => MemoryBackend.restore(this.repr.opCausalHistories, literal.hash, prevHistory));
+            undo.push(() => MemoryBackend.restore(this.repr.opCausalHistoriesByHash, historyCopy.literal.headerHash, prevHistoryByHash));
+
             this.repr.opCausalHistories.set(literal.hash, historyCopy);
-            this.repr.opCausalHistoriesByHash.set(history.literal.headerHash, historyCopy);
+            this.repr.opCausalHistoriesByHash.set(historyCopy.literal.headerHash, historyCopy);
 
             const mutableHash = LiteralUtils.getFields(storable.literal)['targetObject']['_hash'];
 
             const prevOpHashes = HashedSet.elementsFromLiteral(LiteralUtils.getFields(storable.literal)['prevOps']).map(HashReference.hashFromLiteral);
 
             for (const prevOpHash of prevOpHashes) {
-                this.repr.terminalOps.delete(mutableHash, prevOpHash);
+                if (this.repr.terminalOps.delete(mutableHash, prevOpHash)) {
+                    undo.push(() => this.repr.terminalOps.add(mutableHash, prevOpHash));
+                }
             }
 
             if (!this.repr.terminalOps.has(mutableHash, literal.hash)) {
+                const prevLastOp = this.repr.lastOps.get(mutableHash);
+                undo.push(() => { this.repr.terminalOps.delete(mutableHash, literal.hash); });
+                undo.push(() => MemoryBackend.restore(this.repr.lastOps, mutableHash, prevLastOp));
+
                 this.repr.terminalOps.add(mutableHash, literal.hash);
                 this.repr.lastOps.set(mutableHash, literal.hash);
             }
         }
+    }
 
-        for (const backend of MemoryBackend.getRegisteredInstances(this.name)) {
-            if (backend.objectStoreCallback !== undefined) {
-                await backend.objectStoreCallback(literal);
-            }
+    private addToIndex(key: string, hash: Hash, index: MultiMap<string, Hash>, sortedIndex: Map<string, Hash[]>, undo: Array<() => void>) {
+
+        if (!index.has(key, hash)) {
+            index.add(key, hash);
+            let sorted = sortedIndex.get(key);
+            if (sorted === undefined) { sorted = []; sortedIndex.set(key, sorted); }
+            sorted.push(hash);
+
+            undo.push(() => MemoryBackend.removeFromIndex(key, hash, index, sortedIndex));
+        }
+    }
+
+    private static restore<K, V>(map: Map<K, V>, key: K, prev: V|undefined) {
+        if (prev === undefined) {
+            map.delete(key);
+        } else {
+            map.set(key, prev);
         }
     }
 
@@ -212,6 +275,42 @@ class MemoryBackend implements Backend {
         return this.searchByIndex(key, this.repr.sortedReferencingClassIndex, params);
     }
 
+    searchAll(params?: BackendSearchParams | undefined): Promise<BackendSearchResults> {
+        const allHashes = new Map<string, Hash[]>([['', Array.from(this.repr.objects.keys())]]);
+        return this.searchByIndex('', allHashes, params);
+    }
+
+    async declareFieldIndex(className: string, fieldPath: string): Promise<void> {
+
+        if (this.repr.fieldIndexesByClass.has(className, fieldPath)) {
+            return;
+        }
+
+        this.repr.fieldIndexesByClass.add(className, fieldPath);
+        this.repr.fieldIndexes.set(FieldIndex.indexName(className, fieldPath), []);
+
+        for (const hash of this.repr.sortedClassIndex.get(className) || []) {
+            const stored = this.repr.objects.get(hash) as MemStorageFormat;
+            this.addToFieldIndex(FieldIndex.indexName(className, fieldPath), stored.literal, fieldPath, stored.sequence, []);
+        }
+    }
+
+    searchByField(className: string, fieldPath: string, query: FieldQuery, params?: BackendSearchParams | undefined): Promise<BackendSearchResults> {
+
+        FieldIndex.checkQuery(query);
+
+        const entries = this.repr.fieldIndexes.get(FieldIndex.indexName(className, fieldPath));
+
+        if (entries === undefined) {
+            throw new Error('Cannot search ' + className + ' objects by ' + fieldPath + ': no such field index has been declared.');
+        }
+
+        const matches = entries.filter((entry: MemFieldIndexEntry) => FieldIndex.matches(entry.value, query))
+                               .map((entry: MemFieldIndexEntry) => entry.hash);
+
+        return this.searchByIndex('', new Map([['', matches]]), params);
+    }
+
     skipToObjectByClass(className: string, startObject: Hash): Promise<string|undefined> {
         return this.skipToObjectByIndex(className, this.repr.sortedClassIndex, startObject);
     }
@@ -227,6 +326,66 @@ class MemoryBackend implements Backend {
 
     }
 
+    async delete(hash: Hash): Promise<void> {
+
+        const stored = this.repr.objects.get(hash);
+
+        if (stored === undefined) {
+            return;
+        }
+
+        const literal = stored.literal;
+
+        this.repr.objects.delete(hash);
+
+        MemoryBackend.removeFromIndex(literal.value._class, hash, this.repr.classIndex, this.repr.sortedClassIndex);
+
+        for (const dep of literal.dependencies) {
+            let reference = dep.path + '#' + dep.hash;
+            MemoryBackend.removeFromIndex(reference, hash, this.repr.referenceIndex, this.repr.sortedReferenceIndex);
+            let referencingClass = dep.className + '.' + dep.path + '#' + dep.hash;
+            MemoryBackend.removeFromIndex(referencingClass, hash, this.repr.referencingClassIndex, this.repr.sortedReferencingClassIndex);
+        }
+
+        for (const fieldPath of this.repr.fieldIndexesByClass.get(literal.value._class)) {
+            const entries = this.repr.fieldIndexes.get(FieldIndex.indexName(literal.value._class, fieldPath)) as MemFieldIndexEntry[];
+            const idx = entries.findIndex((entry: MemFieldIndexEntry) => entry.hash === hash);
+
+            if (idx >= 0) {
+                entries.splice(idx, 1);
+            }
+        }
+
+        const isOp = literal.value['_flags'].indexOf('op') >= 0;
+
+        if (isOp) {
+            const mutableHash = LiteralUtils.getFields(literal)['targetObject']['_hash'];
+
+            this.repr.terminalOps.delete(mutableHash, hash);
+
+            if (this.repr.terminalOps.get(mutableHash).size === 0) {
+                this.repr.lastOps.delete(mutableHash);
+            }
+        }
+    }
+
+    async deleteOpHeader(opHash: Hash): Promise<void> {
+
+        const header = this.repr.opCausalHistories.get(opHash);
+
+        if (header !== undefined) {
+            this.repr.opCausalHistories.delete(opHash);
+            this.repr.opCausalHistoriesByHash.delete(header.literal.headerHash);
+        }
+    }
+
+    async storeOpHeader(opHeader: StoredOpHeader): Promise<void> {
+
+        const headerCopy = Object.assign({}, opHeader);
+        this.repr.opCausalHistories.set(headerCopy.literal.opHash, headerCopy);
+        this.repr.opCausalHistoriesByHash.set(headerCopy.literal.headerHash, headerCopy);
+    }
+
     async loadOpHeader(opHash: string): Promise<StoredOpHeader | undefined> {
         return this.repr.opCausalHistories.get(opHash);
     }
@@ -290,6 +449,72 @@ class MemoryBackend implements Backend {
 
     }
 
+    private addToFieldIndexes(literal: Literal, sequence: number, undo: Array<() => void>) {
+        for (const fieldPath of this.repr.fieldIndexesByClass.get(literal.value._class)) {
+            this.addToFieldIndex(FieldIndex.indexName(literal.value._class, fieldPath), literal, fieldPath, sequence, undo);
+        }
+    }
+
+    private addToFieldIndex(indexName: string, literal: Literal, fieldPath: string, sequence: number, undo: Array<() => void>) {
+
+        const value = FieldIndex.valueFor(literal, fieldPath);
+
+        if (value === undefined) {
+            return;
+        }
+
+        const entries = this.repr.fieldIndexes.get(indexName) as MemFieldIndexEntry[];
+
+        // find the first entry that should go after the new one (binary search)
+
+        let low  = 0;
+        let high = entries.length;
+
+        while (low < high) {
+            const mid = Math.floor((low + high) / 2);
+            const cmp = FieldIndex.compare(entries[mid].value, value);
+
+            if (cmp < 0 || (cmp === 0 && entries[mid].sequence <= sequence)) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        // objects that are stored again keep their original entry
+
+        for (let i=low-1; i>=0 && FieldIndex.compare(entries[i].value, value) === 0; i--) {
+            if (entries[i].hash === literal.hash) {
+                return;
+            }
+        }
+
+        const entry = { value: value, sequence: sequence, hash: literal.hash };
+
+        entries.splice(low, 0, entry);
+
+        undo.push(() => { entries.splice(entries.indexOf(entry), 1); });
+    }
+
+    private static removeFromIndex(key: string, hash: Hash, index: MultiMap<string, Hash>, sortedIndex: Map<string, Hash[]>) {
+
+        if (index.delete(key, hash)) {
+            const sorted = sortedIndex.get(key);
+
+            if (sorted !== undefined) {
+                const idx = sorted.indexOf(hash);
+
+                if (idx >= 0) {
+                    sorted.splice(idx, 1);
+                }
+
+                if (sorted.length === 0) {
+                    sortedIndex.delete(key);
+                }
+            }
+        }
+    }
+
     private static toStringIndex(idx: number): string {
         return idx.toString(16).padStart(16, '0');
     }
@@ -302,10 +527,33 @@ class MemoryBackend implements Backend {
         this.repr.checkpoints.set(checkpoint.mutableObject, checkpoint);
     }
     
+    async getStats(): Promise<BackendStats> {
+
+        const collector = new BackendStatsCollector();
+
+        for (const stored of this.repr.objects.values()) {
+            collector.addObject(stored.literal);
+        }
+
+        for (const header of this.repr.opCausalHistories.values()) {
+            collector.addOpHeader(JSON.stringify(header).length);
+        }
+
+        for (const checkpoint of this.repr.checkpoints.values()) {
+            collector.addCheckpoint(checkpoint.mutableObject, JSON.stringify(checkpoint).length);
+        }
+
+        return collector.getStats();
+    }
+
     async loadLastCheckpoint(mutableObject: Hash): Promise<StateCheckpoint|undefined> {
         return this.repr.checkpoints.get(mutableObject);
     }
 
+    async deleteCheckpoint(mutableObject: Hash): Promise<void> {
+        this.repr.checkpoints.delete(mutableObject);
+    }
+
     async ready(): Promise<void> {
         
     }
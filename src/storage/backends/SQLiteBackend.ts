@@ -0,0 +1,760 @@
+import { Database, RunResult } from 'sqlite3';
+
+import { Logger, LogLevel } from 'util/logging';
+import { MultiMap } from 'util/multimap';
+
+import { Literal, Hash, HashedSet, HashReference, LiteralUtils, StateCheckpoint } from 'data/model';
+
+import { Backend, BackendBatchEntry, BackendSearchParams, BackendSearchResults, Storable } from './Backend';
+import { Store, StoredOpHeader } from 'storage/store/Store';
+import { FieldIndex, FieldQuery, FieldValue } from './FieldIndex';
+import { BackendStats } from './BackendStats';
+
+// A Backend for long-lived Node peers, backed by a SQLite database file (use ':memory:' for
+// a transient, in-process database).
+//
+// All the indexes used by the searchBy___ functions (class, reference and referencing class)
+// share a single table, keyed by index name and value. Each index entry carries the sequence
+// number of the object it points to, and the sequence (hex-encoded and zero-padded, so it can
+// be compared lexicographically) is what goes into the start / end fields of the search results.
+//
+// Sequence numbers start at 1, and start is exclusive: searching with params.start = s returns
+// the objects that come after s in the requested order.
+//
+// Field indexes (see declareFieldIndex) have a table of their own, where values are stored
+// without type affinity: SQLite then orders numbers before strings, as FieldIndex does. Their
+// start / end fields are the JSON-encoded [value, sequence] pair of the first / last entry.
+
+type SQLiteObjectRow = {
+    hash: Hash,
+    literal: string,
+    sequence: number
+};
+
+type SQLiteSearchRow = {
+    literal: string,
+    sequence: number
+};
+
+type SQLiteFieldSearchRow = {
+    literal: string,
+    value: FieldValue,
+    sequence: number
+};
+
+type SQLiteTerminalOpsRow = {
+    mutable_hash: Hash,
+    terminal_ops: string,
+    last_op: Hash
+};
+
+type SQLiteOpHeaderRow = {
+    literal: string
+};
+
+type SQLiteCheckpointRow = {
+    checkpoint: string
+};
+
+class SQLiteBackend implements Backend {
+
+    static log = new Logger(SQLiteBackend.name, LogLevel.INFO);
+    static terminalOpsStorageLog = new Logger(SQLiteBackend.name, LogLevel.INFO);
+    static backendName = 'sqlite';
+
+    static readonly IN_MEMORY_DB = ':memory:';
+
+    static readonly CLASS_IDX = 'class';
+    static readonly REFERENCES_IDX = 'references';
+    static readonly REFERENCING_CLASS_IDX = 'referencing_class';
+
+    static readonly SCHEMA = [
+        'CREATE TABLE IF NOT EXISTS objects (sequence INTEGER PRIMARY KEY AUTOINCREMENT, hash TEXT NOT NULL UNIQUE, literal TEXT NOT NULL, timestamp TEXT NOT NULL)',
+        'CREATE TABLE IF NOT EXISTS index_entries (idx TEXT NOT NULL, key TEXT NOT NULL, sequence INTEGER NOT NULL, hash TEXT NOT NULL, PRIMARY KEY (idx, key, hash))',
+        'CREATE INDEX IF NOT EXISTS index_entries_sequence_idx ON index_entries (idx, key, sequence)',
+        'CREATE INDEX IF NOT EXISTS index_entries_hash_idx ON index_entries (hash)',
+        'CREATE TABLE IF NOT EXISTS terminal_ops (mutable_hash TEXT PRIMARY KEY, terminal_ops TEXT NOT NULL, last_op TEXT NOT NULL)',
+        'CREATE TABLE IF NOT EXISTS op_headers (op_hash TEXT PRIMARY KEY, header_hash TEXT NOT NULL, literal TEXT NOT NULL)',
+        'CREATE INDEX IF NOT EXISTS op_headers_header_hash_idx ON op_headers (header_hash)',
+        'CREATE TABLE IF NOT EXISTS checkpoints (mutable_object TEXT PRIMARY KEY, checkpoint TEXT NOT NULL)',
+        'CREATE TABLE IF NOT EXISTS field_indexes (class_name TEXT NOT NULL, field_path TEXT NOT NULL, PRIMARY KEY (class_name, field_path))',
+        'CREATE TABLE IF NOT EXISTS field_index_entries (idx TEXT NOT NULL, value NOT NULL, sequence INTEGER NOT NULL, hash TEXT NOT NULL, PRIMARY KEY (idx, hash))',
+        'CREATE INDEX IF NOT EXISTS field_index_entries_value_idx ON field_index_entries (idx, value, sequence)',
+        'CREATE INDEX IF NOT EXISTS field_index_entries_hash_idx ON field_index_entries (hash)'
+    ];
+
+    // Instances opened on the same database file share their stored object callbacks, as
+    // IdbBackend does (in-memory databases are never shared, so they are not registered).
+
+    static registered: MultiMap<string, SQLiteBackend> = new MultiMap();
+
+    static register(backend: SQLiteBackend) {
+        if (backend.name !== SQLiteBackend.IN_MEMORY_DB) {
+            SQLiteBackend.registered.add(backend.name, backend);
+        }
+    }
+
+    static deregister(backend: SQLiteBackend) {
+        SQLiteBackend.registered.delete(backend.name, backend);
+    }
+
+    static getRegisteredInstances(name: string): Set<SQLiteBackend> {
+        return SQLiteBackend.registered.get(name);
+    }
+
+    name: string;
+    db: Database;
+    dbPromise: Promise<void>;
+    closed: boolean;
+
+    // Writes are serialized: each store() or storeBatch() runs as a single SQLite transaction, and
+    // transactions can't be interleaved on the same connection.
+    writeQueue: Promise<void>;
+
+    objectStoreCallback?: (literal: Literal) => Promise<void>;
+
+    constructor(name: string) {
+        this.name = name;
+        this.closed = false;
+
+        let openCallback = (err: Error | null) => { err; };
+
+        const opened = new Promise<void>((resolve: () => void, reject: (reason: any) => void) => {
+            openCallback = (err: Error | null) => { if (err === null) { resolve(); } else { reject(err); } };
+        });
+
+        this.db = new Database(name, (err: Error | null) => openCallback(err));
+
+        this.dbPromise = opened.then(async () => {
+            for (const stmt of SQLiteBackend.SCHEMA) {
+                await this.run(stmt);
+            }
+        });
+
+        this.writeQueue = Promise.resolve();
+
+        SQLiteBackend.register(this);
+    }
+
+    getBackendName() {
+        return SQLiteBackend.backendName;
+    }
+
+    getName() {
+        return this.name;
+    }
+
+    async store(literal: Literal, opHeader?: StoredOpHeader): Promise<void> {
+        await this.storeBatch([{literal: literal, opHeader: opHeader}]);
+    }
+
+    async storeBatch(batch: Array<BackendBatchEntry>): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to store a literal on a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        await this.enqueueWrite(async () => {
+            await this.run('BEGIN');
+            try {
+                for (const entry of batch) {
+                    await this.storeInTransaction(entry.literal, entry.opHeader);
+                }
+                await this.run('COMMIT');
+            } catch (e) {
+                await this.run('ROLLBACK');
+                throw e;
+            }
+        });
+
+        for (const entry of batch) {
+            await this.fireCallbacks(entry.literal);
+        }
+    }
+
+    private async storeInTransaction(literal: Literal, opHeader?: StoredOpHeader): Promise<void> {
+
+        const existing = await this.get<{sequence: number}>('SELECT sequence FROM objects WHERE hash = ?', [literal.hash]);
+
+        if (existing !== undefined) {
+            return;
+        }
+
+        const isOp = literal.value['_flags'].indexOf('op') >= 0;
+
+        if (isOp && opHeader === undefined) {
+            throw new Error('Missing causal history received by backend while trying to store op ' + literal.hash);
+        }
+
+        const result = await this.run('INSERT INTO objects (hash, literal, timestamp) VALUES (?, ?, ?)',
+                                      [literal.hash, JSON.stringify(literal), new Date().getTime().toString()]);
+
+        const sequence = result.lastID;
+
+        await this.addIndexEntry(SQLiteBackend.CLASS_IDX, LiteralUtils.getClassName(literal), sequence, literal.hash);
+
+        for (const dep of literal.dependencies) {
+            let reference = dep.path + '#' + dep.hash;
+            await this.addIndexEntry(SQLiteBackend.REFERENCES_IDX, reference, sequence, literal.hash);
+            let referencingClass = dep.className + '.' + dep.path + '#' + dep.hash;
+            await this.addIndexEntry(SQLiteBackend.REFERENCING_CLASS_IDX, referencingClass, sequence, literal.hash);
+        }
+
+        const fieldPaths = await this.all<{field_path: string}>('SELECT field_path FROM field_indexes WHERE class_name = ?', [LiteralUtils.getClassName(literal)]);
+
+        for (const row of fieldPaths) {
+            await this.addFieldIndexEntry(literal, row.field_path, sequence);
+        }
+
+        if (isOp) {
+
+            const header = opHeader as StoredOpHeader;
+
+            await this.run('INSERT OR REPLACE INTO op_headers (op_hash, header_hash, literal) VALUES (?, ?, ?)',
+                           [header.literal.opHash, header.literal.headerHash, JSON.stringify(header.literal)]);
+
+            const mutableHash = LiteralUtils.getFields(literal)['targetObject']['_hash'];
+
+            const prevOpHashes = HashedSet.elementsFromLiteral(LiteralUtils.getFields(literal)['prevOps']).map(HashReference.hashFromLiteral);
+
+            SQLiteBackend.terminalOpsStorageLog.debug('updating stored last ops for ' + mutableHash +
+                                                      ' on arrival of ' + literal.hash +
+                                                      ' with prevOps ' + prevOpHashes);
+
+            const stored = await this.get<SQLiteTerminalOpsRow>('SELECT * FROM terminal_ops WHERE mutable_hash = ?', [mutableHash]);
+
+            let terminalOps: Array<Hash> = stored === undefined ? [] : JSON.parse(stored.terminal_ops);
+
+            terminalOps = terminalOps.filter((hash: Hash) => prevOpHashes.indexOf(hash) < 0);
+
+            if (terminalOps.indexOf(literal.hash) < 0) {
+                terminalOps.push(literal.hash);
+            }
+
+            SQLiteBackend.terminalOpsStorageLog.debug('final last ops after added new op if necessary:' + terminalOps);
+
+            await this.run('INSERT OR REPLACE INTO terminal_ops (mutable_hash, terminal_ops, last_op) VALUES (?, ?, ?)',
+                           [mutableHash, JSON.stringify(terminalOps), literal.hash]);
+        }
+    }
+
+    async load(hash: Hash): Promise<Storable | undefined> {
+
+        if (this.closed) {
+            throw new Error('Attempted to load a literal from a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        const row = await this.get<SQLiteObjectRow>('SELECT hash, literal, sequence FROM objects WHERE hash = ?', [hash]);
+
+        if (row === undefined) {
+            return undefined;
+        } else {
+            return { literal: JSON.parse(row.literal), sequence: row.sequence };
+        }
+    }
+
+    async loadTerminalOpsForMutable(hash: Hash): Promise<{lastOp: Hash, terminalOps: Array<Hash>} | undefined> {
+
+        await this.dbPromise;
+
+        const row = await this.get<SQLiteTerminalOpsRow>('SELECT * FROM terminal_ops WHERE mutable_hash = ?', [hash]);
+
+        if (row === undefined) {
+            return undefined;
+        } else {
+            return { lastOp: row.last_op, terminalOps: JSON.parse(row.terminal_ops) };
+        }
+    }
+
+    async loadOpHeader(opHash: Hash): Promise<StoredOpHeader | undefined> {
+
+        if (this.closed) {
+            throw new Error('Attempted to load an op header from a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        const row = await this.get<SQLiteOpHeaderRow>('SELECT literal FROM op_headers WHERE op_hash = ?', [opHash]);
+
+        return row === undefined ? undefined : { literal: JSON.parse(row.literal) };
+    }
+
+    async loadOpHeaderByHeaderHash(headerHash: Hash): Promise<StoredOpHeader | undefined> {
+
+        if (this.closed) {
+            throw new Error('Attempted to load an op header by hash from a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        const row = await this.get<SQLiteOpHeaderRow>('SELECT literal FROM op_headers WHERE header_hash = ?', [headerHash]);
+
+        return row === undefined ? undefined : { literal: JSON.parse(row.literal) };
+    }
+
+    searchByClass(className: string, params?: BackendSearchParams): Promise<BackendSearchResults> {
+        return this.searchByIndex(SQLiteBackend.CLASS_IDX, className, params);
+    }
+
+    searchByReference(referringPath: string, referencedHash: Hash, params?: BackendSearchParams): Promise<BackendSearchResults> {
+        return this.searchByIndex(SQLiteBackend.REFERENCES_IDX, referringPath + '#' + referencedHash, params);
+    }
+
+    searchByReferencingClass(referringClassName: string, referringPath: string, referencedHash: Hash, params?: BackendSearchParams): Promise<BackendSearchResults> {
+        return this.searchByIndex(SQLiteBackend.REFERENCING_CLASS_IDX, referringClassName + '.' + referringPath + '#' + referencedHash, params);
+    }
+
+    async searchAll(params?: BackendSearchParams): Promise<BackendSearchResults> {
+
+        if (this.closed) {
+            throw new Error('Attempted to load literals from a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        const order = (params === undefined || params.order === undefined) ? 'asc' : params.order.toLowerCase();
+
+        let sql = 'SELECT literal, sequence FROM objects';
+        const args: Array<any> = [];
+
+        if (params !== undefined && params.start !== undefined) {
+            sql = sql + (order === 'desc' ? ' WHERE sequence < ?' : ' WHERE sequence > ?');
+            args.push(SQLiteBackend.fromStringIndex(params.start));
+        }
+
+        sql = sql + (order === 'desc' ? ' ORDER BY sequence DESC' : ' ORDER BY sequence ASC');
+
+        return this.runSearch(sql, args, params?.limit);
+    }
+
+    // Objects that were already stored when the index is declared are indexed right away.
+
+    async declareFieldIndex(className: string, fieldPath: string): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to declare a field index on a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        await this.enqueueWrite(async () => {
+            await this.run('BEGIN');
+            try {
+                const result = await this.run('INSERT OR IGNORE INTO field_indexes (class_name, field_path) VALUES (?, ?)', [className, fieldPath]);
+
+                if (result.changes > 0) {
+                    const rows = await this.all<SQLiteObjectRow>('SELECT o.hash AS hash, o.literal AS literal, o.sequence AS sequence FROM index_entries e JOIN objects o ON o.hash = e.hash WHERE e.idx = ? AND e.key = ?', [SQLiteBackend.CLASS_IDX, className]);
+
+                    for (const row of rows) {
+                        await this.addFieldIndexEntry(JSON.parse(row.literal), fieldPath, row.sequence);
+                    }
+                }
+
+                await this.run('COMMIT');
+            } catch (e) {
+                await this.run('ROLLBACK');
+                throw e;
+            }
+        });
+    }
+
+    async searchByField(className: string, fieldPath: string, query: FieldQuery, params?: BackendSearchParams): Promise<BackendSearchResults> {
+
+        FieldIndex.checkQuery(query);
+
+        if (this.closed) {
+            throw new Error('Attempted to load literals from a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        const declared = await this.get<{field_path: string}>('SELECT field_path FROM field_indexes WHERE class_name = ? AND field_path = ?', [className, fieldPath]);
+
+        if (declared === undefined) {
+            throw new Error('Field ' + fieldPath + ' of class ' + className + ' has not been indexed, use declareFieldIndex first.');
+        }
+
+        const order = (params === undefined || params.order === undefined) ? 'asc' : params.order.toLowerCase();
+
+        let sql = 'SELECT o.literal AS literal, e.value AS value, e.sequence AS sequence FROM field_index_entries e JOIN objects o ON o.hash = e.hash WHERE e.idx = ?';
+        const args: Array<any> = [FieldIndex.indexName(className, fieldPath)];
+
+        if (query.equals !== undefined) {
+            sql = sql + ' AND e.value = ?';
+            args.push(query.equals);
+        }
+
+        if (query.from !== undefined) {
+            sql = sql + ' AND e.value >= ?';
+            args.push(query.from);
+        }
+
+        if (query.to !== undefined) {
+            sql = sql + ' AND e.value <= ?';
+            args.push(query.to);
+        }
+
+        if (params !== undefined && params.start !== undefined) {
+            const [value, sequence] = JSON.parse(params.start) as [FieldValue, number];
+            const cmp = order === 'desc' ? '<' : '>';
+            sql = sql + ' AND (e.value ' + cmp + ' ? OR (e.value = ? AND e.sequence ' + cmp + ' ?))';
+            args.push(value, value, sequence);
+        }
+
+        sql = sql + (order === 'desc' ? ' ORDER BY e.value DESC, e.sequence DESC' : ' ORDER BY e.value ASC, e.sequence ASC');
+
+        if (params?.limit !== undefined) {
+            sql = sql + ' LIMIT ?';
+            args.push(params.limit);
+        }
+
+        const rows = await this.all<SQLiteFieldSearchRow>(sql, args);
+
+        const searchResults = {} as BackendSearchResults;
+
+        searchResults.items = rows.map((row: SQLiteFieldSearchRow) => JSON.parse(row.literal) as Literal);
+
+        if (rows.length > 0) {
+            searchResults.start = JSON.stringify([rows[0].value, rows[0].sequence]);
+            searchResults.end   = JSON.stringify([rows[rows.length-1].value, rows[rows.length-1].sequence]);
+        }
+
+        return searchResults;
+    }
+
+    skipToObjectByClass(className: string, startObject: Hash): Promise<string|undefined> {
+        return this.skipToObjectByIndex(SQLiteBackend.CLASS_IDX, className, startObject);
+    }
+
+    skipToObjectByReference(referringPath: string, referencedHash: Hash, startObject: Hash): Promise<string|undefined> {
+        return this.skipToObjectByIndex(SQLiteBackend.REFERENCES_IDX, referringPath + '#' + referencedHash, startObject);
+    }
+
+    skipToObjectByReferencingClass(referringClassName: string, referringPath: string, referencedHash: Hash, startObject: Hash): Promise<string|undefined> {
+        return this.skipToObjectByIndex(SQLiteBackend.REFERENCING_CLASS_IDX, referringClassName + '.' + referringPath + '#' + referencedHash, startObject);
+    }
+
+    async delete(hash: Hash): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to delete a literal from a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        await this.enqueueWrite(async () => {
+            await this.run('BEGIN');
+            try {
+                await this.deleteInTransaction(hash);
+                await this.run('COMMIT');
+            } catch (e) {
+                await this.run('ROLLBACK');
+                throw e;
+            }
+        });
+    }
+
+    private async deleteInTransaction(hash: Hash): Promise<void> {
+
+        const row = await this.get<SQLiteObjectRow>('SELECT hash, literal, sequence FROM objects WHERE hash = ?', [hash]);
+
+        if (row === undefined) {
+            return;
+        }
+
+        const literal = JSON.parse(row.literal) as Literal;
+
+        const isOp = literal.value['_flags'].indexOf('op') >= 0;
+
+        if (isOp) {
+            const mutableHash = LiteralUtils.getFields(literal)['targetObject']['_hash'];
+
+            const stored = await this.get<SQLiteTerminalOpsRow>('SELECT * FROM terminal_ops WHERE mutable_hash = ?', [mutableHash]);
+
+            if (stored !== undefined) {
+                const terminalOps = (JSON.parse(stored.terminal_ops) as Array<Hash>).filter((opHash: Hash) => opHash !== hash);
+
+                if (terminalOps.length === 0) {
+                    await this.run('DELETE FROM terminal_ops WHERE mutable_hash = ?', [mutableHash]);
+                } else {
+                    await this.run('UPDATE terminal_ops SET terminal_ops = ? WHERE mutable_hash = ?', [JSON.stringify(terminalOps), mutableHash]);
+                }
+            }
+        }
+
+        await this.run('DELETE FROM index_entries WHERE hash = ?', [hash]);
+        await this.run('DELETE FROM field_index_entries WHERE hash = ?', [hash]);
+        await this.run('DELETE FROM objects WHERE hash = ?', [hash]);
+    }
+
+    async deleteOpHeader(opHash: Hash): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to delete an op header from a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        await this.enqueueWrite(async () => {
+            await this.run('DELETE FROM op_headers WHERE op_hash = ?', [opHash]);
+        });
+    }
+
+    async storeOpHeader(opHeader: StoredOpHeader): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to store an op header on a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        await this.enqueueWrite(async () => {
+            await this.run('INSERT OR REPLACE INTO op_headers (op_hash, header_hash, literal) VALUES (?, ?, ?)',
+                           [opHeader.literal.opHash, opHeader.literal.headerHash, JSON.stringify(opHeader.literal)]);
+        });
+    }
+
+    async storeCheckpoint(checkpoint: StateCheckpoint): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to store a checkpoint on a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        await this.enqueueWrite(async () => {
+            await this.run('INSERT OR REPLACE INTO checkpoints (mutable_object, checkpoint) VALUES (?, ?)',
+                           [checkpoint.mutableObject, JSON.stringify(checkpoint)]);
+        });
+    }
+
+    // Everything is added up by SQLite: the class of each object is in the class index, and the
+    // mutable object for each op is extracted from its literal using the JSON1 functions.
+
+    async getStats(): Promise<BackendStats> {
+
+        if (this.closed) {
+            throw new Error('Attempted to get stats from a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        const stats: BackendStats = {
+            objects: 0,
+            objectsByClass: {},
+            opsByMutable: {},
+            opHeaders: 0,
+            checkpoints: 0,
+            checkpointSizes: {},
+            approxSizes: { objects: 0, opHeaders: 0, checkpoints: 0, total: 0 }
+        };
+
+        const classRows = await this.all<{class_name: string, objects: number, size: number}>(
+                            'SELECT e.key AS class_name, COUNT(*) AS objects, SUM(LENGTH(o.literal)) AS size FROM index_entries e JOIN objects o ON o.hash = e.hash WHERE e.idx = ? GROUP BY e.key',
+                            [SQLiteBackend.CLASS_IDX]);
+
+        for (const row of classRows) {
+            stats.objects = stats.objects + row.objects;
+            stats.objectsByClass[row.class_name] = row.objects;
+            stats.approxSizes.objects = stats.approxSizes.objects + row.size;
+        }
+
+        const opRows = await this.all<{mutable_hash: Hash, ops: number}>(
+                            "SELECT json_extract(literal, '$.value._fields.targetObject._hash') AS mutable_hash, COUNT(*) AS ops FROM objects " +
+                            "WHERE EXISTS (SELECT 1 FROM json_each(json_extract(literal, '$.value._flags')) WHERE value = 'op') GROUP BY mutable_hash");
+
+        for (const row of opRows) {
+            stats.opsByMutable[row.mutable_hash] = row.ops;
+        }
+
+        const headers = await this.get<{headers: number, size: number|null}>('SELECT COUNT(*) AS headers, SUM(LENGTH(literal)) AS size FROM op_headers');
+
+        stats.opHeaders = headers?.headers || 0;
+        stats.approxSizes.opHeaders = headers?.size || 0;
+
+        const checkpointRows = await this.all<{mutable_object: Hash, size: number}>('SELECT mutable_object, LENGTH(checkpoint) AS size FROM checkpoints');
+
+        for (const row of checkpointRows) {
+            stats.checkpoints = stats.checkpoints + 1;
+            stats.checkpointSizes[row.mutable_object] = row.size;
+            stats.approxSizes.checkpoints = stats.approxSizes.checkpoints + row.size;
+        }
+
+        stats.approxSizes.total = stats.approxSizes.objects + stats.approxSizes.opHeaders + stats.approxSizes.checkpoints;
+
+        return stats;
+    }
+
+    async loadLastCheckpoint(mutableObject: Hash): Promise<StateCheckpoint|undefined> {
+
+        await this.dbPromise;
+
+        const row = await this.get<SQLiteCheckpointRow>('SELECT checkpoint FROM checkpoints WHERE mutable_object = ?', [mutableObject]);
+
+        return row === undefined ? undefined : JSON.parse(row.checkpoint);
+    }
+
+    async deleteCheckpoint(mutableObject: Hash): Promise<void> {
+
+        if (this.closed) {
+            throw new Error('Attempted to delete a checkpoint from a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        await this.enqueueWrite(async () => {
+            await this.run('DELETE FROM checkpoints WHERE mutable_object = ?', [mutableObject]);
+        });
+    }
+
+    setStoredObjectCallback(objectStoreCallback: (literal: Literal) => Promise<void>): void {
+        this.objectStoreCallback = objectStoreCallback;
+    }
+
+    close() {
+        this.closed = true;
+        SQLiteBackend.deregister(this);
+        return this.dbPromise.then(() => this.writeQueue).then(() => {
+            this.db.close();
+        });
+    }
+
+    async ready(): Promise<void> {
+        await this.dbPromise;
+    }
+
+    private async searchByIndex(idx: string, key: string, params?: BackendSearchParams): Promise<BackendSearchResults> {
+
+        if (this.closed) {
+            throw new Error('Attempted to load literals from a closed SQLite backend.');
+        }
+
+        await this.dbPromise;
+
+        const order = (params === undefined || params.order === undefined) ? 'asc' : params.order.toLowerCase();
+
+        let sql = 'SELECT o.literal AS literal, e.sequence AS sequence FROM index_entries e JOIN objects o ON o.hash = e.hash WHERE e.idx = ? AND e.key = ?';
+        const args: Array<any> = [idx, key];
+
+        if (params !== undefined && params.start !== undefined) {
+            sql = sql + (order === 'desc' ? ' AND e.sequence < ?' : ' AND e.sequence > ?');
+            args.push(SQLiteBackend.fromStringIndex(params.start));
+        }
+
+        sql = sql + (order === 'desc' ? ' ORDER BY e.sequence DESC' : ' ORDER BY e.sequence ASC');
+
+        return this.runSearch(sql, args, params?.limit);
+    }
+
+    private async runSearch(sql: string, args: Array<any>, limit?: number): Promise<BackendSearchResults> {
+
+        if (limit !== undefined) {
+            sql = sql + ' LIMIT ?';
+            args.push(limit);
+        }
+
+        const rows = await this.all<SQLiteSearchRow>(sql, args);
+
+        const searchResults = {} as BackendSearchResults;
+
+        searchResults.items = rows.map((row: SQLiteSearchRow) => JSON.parse(row.literal) as Literal);
+
+        if (rows.length > 0) {
+            searchResults.start = SQLiteBackend.toStringIndex(rows[0].sequence);
+            searchResults.end   = SQLiteBackend.toStringIndex(rows[rows.length-1].sequence);
+        }
+
+        return searchResults;
+    }
+
+    // Since start is exclusive, to fast forward to startObject we return the sequence number
+    // right before it (this assumes ascending order, the default).
+
+    private async skipToObjectByIndex(idx: string, key: string, startObject: Hash): Promise<string|undefined> {
+
+        await this.dbPromise;
+
+        const row = await this.get<{sequence: number}>('SELECT sequence FROM index_entries WHERE idx = ? AND key = ? AND hash = ?', [idx, key, startObject]);
+
+        if (row === undefined) {
+            return undefined;
+        } else {
+            return SQLiteBackend.toStringIndex(row.sequence - 1);
+        }
+    }
+
+    private async addIndexEntry(idx: string, key: string, sequence: number, hash: Hash): Promise<void> {
+        await this.run('INSERT OR IGNORE INTO index_entries (idx, key, sequence, hash) VALUES (?, ?, ?, ?)', [idx, key, sequence, hash]);
+    }
+
+    private async addFieldIndexEntry(literal: Literal, fieldPath: string, sequence: number): Promise<void> {
+
+        const value = FieldIndex.valueFor(literal, fieldPath);
+
+        if (value !== undefined) {
+            await this.run('INSERT OR IGNORE INTO field_index_entries (idx, value, sequence, hash) VALUES (?, ?, ?, ?)',
+                           [FieldIndex.indexName(LiteralUtils.getClassName(literal), fieldPath), value, sequence, literal.hash]);
+        }
+    }
+
+    private async fireCallbacks(literal: Literal): Promise<void> {
+
+        const instances = this.name === SQLiteBackend.IN_MEMORY_DB?
+                                new Set([this])
+                          :
+                                SQLiteBackend.getRegisteredInstances(this.name);
+
+        for (const backend of instances) {
+            if (backend.objectStoreCallback !== undefined) {
+                await backend.objectStoreCallback(literal);
+            }
+        }
+    }
+
+    private enqueueWrite(write: () => Promise<void>): Promise<void> {
+        const result = this.writeQueue.then(write);
+        this.writeQueue = result.catch(() => {});
+        return result;
+    }
+
+    private run(sql: string, params: Array<any> = []): Promise<RunResult> {
+        return new Promise((resolve: (result: RunResult) => void, reject: (reason: any) => void) => {
+            this.db.run(sql, params, function (this: RunResult, err: Error | null) {
+                if (err === null) { resolve(this); } else { reject(err); }
+            });
+        });
+    }
+
+    private get<T>(sql: string, params: Array<any> = []): Promise<T | undefined> {
+        return new Promise((resolve: (row: T | undefined) => void, reject: (reason: any) => void) => {
+            this.db.get(sql, params, (err: Error | null, row: T) => {
+                if (err === null) { resolve(row); } else { reject(err); }
+            });
+        });
+    }
+
+    private all<T>(sql: string, params: Array<any> = []): Promise<Array<T>> {
+        return new Promise((resolve: (rows: Array<T>) => void, reject: (reason: any) => void) => {
+            this.db.all(sql, params, (err: Error | null, rows: Array<T>) => {
+                if (err === null) { resolve(rows); } else { reject(err); }
+            });
+        });
+    }
+
+    private static toStringIndex(idx: number): string {
+        return idx.toString(16).padStart(16, '0');
+    }
+
+    private static fromStringIndex(idxString: string): number {
+        return Number.parseInt(idxString, 16);
+    }
+
+}
+
+Store.registerBackend(SQLiteBackend.backendName, (dbName: string) => new SQLiteBackend(dbName));
+
+export { SQLiteBackend };
@@ -1,7 +1,6 @@
 import { RNGImpl } from 'crypto/random';
-import { Literal } from 'data/model';
-import { Store, StoredOpHeader } from 'storage/store/Store';
-import { Backend } from './Backend';
+import { Store } from 'storage/store/Store';
+import { Backend, BackendBatchEntry } from './Backend';
 import { IdbBackend } from './IdbBackend';
 import { SafeBroadcastChannel } from 'util/broadcastchannel';
 
@@ -40,14 +39,18 @@ class WorkerSafeIdbBackend extends IdbBackend implements Backend {
         return WorkerSafeIdbBackend.backendName;
     }
 
-    async store(literal: Literal, history?: StoredOpHeader): Promise<void> {
-        await super.store(literal, history);
+    // (IdbBackend.store also goes through storeBatch)
 
-        WorkerSafeIdbBackend.broadcastChannel.postMessage({
-            broadcastId: WorkerSafeIdbBackend.broadcastId,
-            dbName: this.name,
-            literal: literal
-        });
+    async storeBatch(batch: Array<BackendBatchEntry>): Promise<void> {
+        await super.storeBatch(batch);
+
+        for (const entry of batch) {
+            WorkerSafeIdbBackend.broadcastChannel.postMessage({
+                broadcastId: WorkerSafeIdbBackend.broadcastId,
+                dbName: this.name,
+                literal: entry.literal
+            });
+        }
     }
     
 }
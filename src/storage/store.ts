@@ -1 +1,3 @@
-export { Store, LoadResults, StoredOpHeader } from './store/Store';
\ No newline at end of file
+export { Store, LoadResults, StoredOpHeader, StoreQuery, StoreQueryParams, CompactionParams, CompactionReport, GarbageCollectionParams, GarbageCollectionReport, ArchiveRecord, ArchiveExportParams, ArchiveExportReport, ArchiveImportReport, CheckpointBootstrap } from './store/Store';
+export { KeyStore } from './store/KeyStore';
+export type { ExportedIdentity, KeyStoreParams } from './store/KeyStore';
\ No newline at end of file
@@ -0,0 +1,137 @@
+import { RNGImpl } from 'crypto/random';
+import { SecretBox, SealedPayload } from 'crypto/secretbox';
+
+import { Identity, SigningKeyPair, X25519KeyPair } from 'data/identity';
+import { HashedObject, LiteralContext } from 'data/model';
+
+import { Store } from './Store';
+
+// An encrypted keystore: an identity, exported together with its key pairs. The identity itself
+// is in the clear, while the key pairs (that include the private keys) are encrypted using
+// a SecretBox, with a key derived from a passphrase.
+//
+// An exported identity can be imported back (yielding an Identity with its key pairs attached),
+// or unlocked into a Store: the identity is saved, but its key pairs are only kept in memory
+// by the store, for signing, until they are locked again (or the store is closed).
+
+type ExportedIdentity = {
+    format: string,
+    identity: LiteralContext,
+    salt: string,
+    rounds: number,
+    keyPairs: SealedPayload
+};
+
+type KeyStoreParams = { rounds?: number };
+
+class KeyStore {
+
+    static format = 'hhs/v0/EncryptedKeyStore';
+
+    static defaultRounds = 4096;
+
+    static exportIdentity(id: Identity, passphrase: string, params?: KeyStoreParams): ExportedIdentity {
+
+        if (!id.hasKeyPair()) {
+            throw new Error('Cannot export identity ' + id.hash() + ' to a keystore: its key pair is missing.');
+        }
+
+        const keyPairs: Array<LiteralContext> = [id.getKeyPair().toLiteralContext()];
+
+        if (id.hasAgreementKeyPair()) {
+            keyPairs.push(id.getAgreementKeyPair().toLiteralContext());
+        }
+
+        const salt   = new RNGImpl().randomHexString(128);
+        const rounds = params?.rounds || KeyStore.defaultRounds;
+
+        return {
+            format: KeyStore.format,
+            identity: id.toLiteralContext(),
+            salt: salt,
+            rounds: rounds,
+            keyPairs: KeyStore.encrypt(JSON.stringify(keyPairs), passphrase, salt, rounds)
+        };
+    }
+
+    static async importIdentity(exported: ExportedIdentity, passphrase: string): Promise<Identity> {
+
+        if (exported?.format !== KeyStore.format) {
+            throw new Error('Cannot import identity: unknown keystore format ' + exported?.format + '.');
+        }
+
+        const id = await HashedObject.fromLiteralContextWithValidation(exported.identity);
+
+        if (!(id instanceof Identity)) {
+            throw new Error('Cannot import identity: the keystore contains a ' + id.getClassName() + ' instead.');
+        }
+
+        const keyPairs = JSON.parse(KeyStore.decrypt(exported.keyPairs, passphrase, exported.salt, exported.rounds)) as Array<LiteralContext>;
+
+        for (const literalContext of keyPairs) {
+
+            const keyPair = await HashedObject.fromLiteralContextWithValidation(literalContext);
+
+            if (keyPair instanceof X25519KeyPair) {
+                id.addAgreementKeyPair(keyPair);
+            } else if (Identity.isKeyPair(keyPair)) {
+                id.addKeyPair(keyPair as SigningKeyPair);
+            } else {
+                throw new Error('Cannot import identity ' + id.hash() + ': the keystore contains a ' + keyPair.getClassName() + ', that is not a key pair.');
+            }
+        }
+
+        if (!id.hasKeyPair()) {
+            throw new Error('Cannot import identity ' + id.hash() + ': its key pair is missing from the keystore.');
+        }
+
+        return id;
+    }
+
+    static async unlock(store: Store, exported: ExportedIdentity, passphrase: string): Promise<Identity> {
+
+        const id = await KeyStore.importIdentity(exported, passphrase);
+
+        await store.save(id);
+
+        await store.addSessionKeyPair(id.getKeyPair());
+
+        if (id.hasAgreementKeyPair()) {
+            await store.addSessionKeyPair(id.getAgreementKeyPair());
+        }
+
+        return id;
+    }
+
+    // The key pairs are also removed from id, and from the identity objects the store attached
+    // them to while they were unlocked.
+
+    static lock(store: Store, id: Identity) {
+
+        store.removeSessionKeyPair(id.getKeyPairHash());
+        id.removeKeyPairs(id.getKeyPairHash());
+
+        if (id.hasAgreementKey()) {
+            store.removeSessionKeyPair(id.getAgreementKeyPairHash());
+            id.removeKeyPairs(id.getAgreementKeyPairHash());
+        }
+    }
+
+    private static encrypt(plaintext: string, passphrase: string, salt: string, rounds: number): SealedPayload {
+        return new SecretBox(SecretBox.deriveKey(passphrase, salt, rounds)).seal(plaintext);
+    }
+
+    private static decrypt(payload: SealedPayload, passphrase: string, salt: string, rounds: number): string {
+
+        const plaintext = new SecretBox(SecretBox.deriveKey(passphrase, salt, rounds)).open(payload);
+
+        if (plaintext === undefined) {
+            throw new Error('Cannot decrypt keystore: wrong passphrase, or the data has been tampered with.');
+        }
+
+        return plaintext;
+    }
+}
+
+export { KeyStore };
+export type { ExportedIdentity, KeyStoreParams };
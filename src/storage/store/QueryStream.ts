@@ -0,0 +1,43 @@
+import { HashedObject } from 'data/model';
+import { BufferedAsyncStream, BufferingAsyncStreamSource } from 'util/streams';
+
+// The AsyncStream returned by Store.query. The store pushes the matching objects into it, and
+// closing it runs the cancel callback (that removes the store watch backing the query).
+
+class QueryStream extends BufferedAsyncStream<HashedObject> {
+
+    source: BufferingAsyncStreamSource<HashedObject>;
+    cancel: () => void;
+
+    constructor(cancel: () => void) {
+
+        // the stream is subscribed to its source from the start, so the source only needs
+        // to keep the last item around
+
+        const source = new BufferingAsyncStreamSource<HashedObject>(1);
+
+        super(source);
+
+        this.source = source;
+        this.cancel = cancel;
+    }
+
+    ingest(obj: HashedObject) {
+        if (!this.isClosed) {
+            this.source.ingest(obj);
+        }
+    }
+
+    end() {
+        this.source.end();
+    }
+
+    close() {
+        if (!this.isClosed) {
+            super.close();
+            this.cancel();
+        }
+    }
+}
+
+export { QueryStream };
@@ -1,16 +1,21 @@
-import { Backend, BackendSearchParams, BackendSearchResults, Storable } from '../backends/Backend'; 
-import { HashedObject, MutableObject, Literal, Context, HashReference, MutationOp, HashedSet, LiteralUtils, StateCheckpoint } from 'data/model';
+import { Backend, BackendBatchEntry, BackendSearchParams, BackendSearchResults, Storable } from '../backends/Backend'; 
+import { FieldQuery } from '../backends/FieldIndex';
+import { BackendStats } from '../backends/BackendStats';
+import { QueryStream } from './QueryStream';
+import { StoreIdentityProvider } from './StoreIdentityProvider';
+import { HashedObject, MutableObject, Literal, Context, HashReference, MutationOp, HashedSet, LiteralUtils, StateCheckpoint, MigrationRegistry } from 'data/model';
 import { Hash } from 'data/model/hashing/Hashing';
 
 import { MultiMap } from 'util/multimap';
 import { Logger, LogLevel } from 'util/logging';
 import { LRUCache } from 'util/caching';
+import { AsyncStream } from 'util/streams';
 
 import { Resources } from 'spaces/spaces';
 import { OpHeader, OpHeaderLiteral } from 'data/history/OpHeader';
 import { InvalidateAfterOp } from 'data/model/causal/InvalidateAfterOp';
 import { CascadedInvalidateOp } from 'data/model/causal/CascadedInvalidateOp';
-import { Identity, RSAKeyPair } from 'data/identity';
+import { Identity, IdentityProvider, SigningKeyPair, ThresholdIdentity, X25519KeyPair } from 'data/identity';
 
 //type PackedFlag   = 'mutable'|'op'|'reversible'|'undo';
 //type PackedLiteral = { hash : Hash, value: any, author?: Hash, signature?: string,
@@ -21,9 +26,79 @@ type LoadParams = BackendSearchParams;
 
 type LoadResults = { objects: Array<HashedObject>, start?: string, end?: string };
 
+// The literals (and op headers) that a call to saveWithContext needs to store, in the order they
+// will be stored (dependencies come before the objects that depend on them).
+type SaveBatch = Map<Hash, BackendBatchEntry>;
+
+type CompactionParams = { pruneOpHeaders?: boolean };
+
+type CompactionReport = {
+    mutableObject: Hash,
+    checkpointTerminalOps: Array<Hash>,
+    prunedOps: Array<Hash>,
+    prunedOpHeaders: Array<Hash>,
+    retainedOps: Array<Hash>,
+    requiresCheckpointBootstrap: boolean
+};
+
+// Archives: a Store (or a subgraph of it) can be exported as NDJSON, one ArchiveRecord per line.
+// The first line is always the archive header, followed by the literals in dependency order (each
+// op is followed by its header) and finally the checkpoints of the archived mutable objects.
+
+const ARCHIVE_FORMAT  = 'hhs/v0/archive';
+const ARCHIVE_VERSION = 1;
+
+type ArchiveRecord = { type: 'header', format: string, version: number, roots: Array<Hash> } |
+                     { type: 'literal', literal: Literal } |
+                     { type: 'op-header', opHeader: StoredOpHeader } |
+                     { type: 'checkpoint', checkpoint: StateCheckpoint };
+
+// A checkpoint bootstrap is an archive of a compacted mutable object, see exportCheckpointBootstrap.
+
+type CheckpointBootstrap = { mutableObject: Hash, records: Array<ArchiveRecord> };
+
+type ArchiveExportParams = { includeKeyPairs?: boolean, batchSize?: number };
+
+type ArchiveExportReport = {
+    roots: Array<Hash>,
+    literals: number,
+    opHeaders: number,
+    checkpoints: number,
+    missing: Array<Hash>
+};
+
+type ArchiveImportReport = {
+    roots: Array<Hash>,
+    literals: Array<Hash>,
+    checkpoints: Array<Hash>
+};
+
+type GarbageCollectionParams = { dryRun?: boolean, batchSize?: number };
+
+type GarbageCollectionReport = {
+    roots: Array<Hash>,
+    reachable: number,
+    missing: Array<Hash>,
+    unreachable: Array<Hash>,
+    deleted: Array<Hash>,
+    dryRun: boolean
+};
+
+// A live query: either by class, or by reference (referringPath + referencedHash).
+
+type StoreQuery = { className?: string, referringPath?: string, referencedHash?: Hash };
+
+// batchSize is the page size used to load the objects already in the store.
+
+type StoreQueryParams = { batchSize?: number };
+
 class Store {
 
     static operationLog = new Logger(MutableObject.name, LogLevel.INFO);
+    static queryLog = new Logger(Store.name, LogLevel.INFO);
+
+    static defaultQueryBatchSize = 64;
+    static defaultHashIterationBatchSize = 256;
 
     static backendLoaders: Map<string, (dbName: string) => Backend> = new Map();
 
@@ -53,9 +128,13 @@ class Store {
 
     private resources?: Resources;
 
-    private keyPairs: Map<Hash, RSAKeyPair>;
+    private keyPairs: Map<Hash, SigningKeyPair|X25519KeyPair>;
+    private sessionKeyPairs: Set<Hash>; // unlocked key pairs, that are never saved (see KeyStore)
+    private sessionKeyPairHolders: MultiMap<Hash, WeakRef<Identity>>; // identities they were attached to
 
     private initKeyPairs: Promise<void>;
+    private identityProvider: IdentityProvider; // used to sign when no provider is set in the resources
+
     private cache: LRUCache<Hash, Literal>;
 
     constructor(backend : Backend) {
@@ -64,9 +143,9 @@ class Store {
 
         this.backend.setStoredObjectCallback(async (literal: Literal) => {
 
-            if (LiteralUtils.getClassName(literal) === RSAKeyPair.className) {
+            if (Identity.keyPairClassNames.indexOf(LiteralUtils.getClassName(literal)) >= 0) {
                 let kp = HashedObject.fromLiteral(literal);
-                this.keyPairs.set(literal.hash, kp as RSAKeyPair);
+                this.keyPairs.set(literal.hash, kp as SigningKeyPair|X25519KeyPair);
             }
 
             await this.fireCallbacks(literal);
@@ -77,8 +156,11 @@ class Store {
         this.classReferencesCallbacks = new MultiMap();
 
         this.keyPairs = new Map();
+        this.sessionKeyPairs = new Set();
+        this.sessionKeyPairHolders = new MultiMap();
 
         this.initKeyPairs = this.doInitKeypairs();
+        this.identityProvider = new StoreIdentityProvider(this);
         this.cache = new LRUCache(1024);
 
         this.cache.evict('a');
@@ -86,10 +168,91 @@ class Store {
 
     private async doInitKeypairs() {
 
-        const results = await this.loadByClass(RSAKeyPair.className);
+        for (const className of Identity.keyPairClassNames) {
+            const results = await this.loadByClass(className);
+
+            for (const kp of results.objects as Array<SigningKeyPair|X25519KeyPair>) {
+                this.keyPairs.set(kp.getLastHash(), kp);
+            }
+        }
+    }
+
+    // Makes a key pair available to sign (and to be attached to identities when they are loaded)
+    // until removeSessionKeyPair is called, without saving it to the backend.
+
+    async addSessionKeyPair(keyPair: SigningKeyPair|X25519KeyPair) {
+
+        await this.initKeyPairs;
+
+        const hash = keyPair.hash();
+
+        if (!this.keyPairs.has(hash)) {
+            this.keyPairs.set(hash, keyPair);
+            this.sessionKeyPairs.add(hash);
+        }
+    }
+
+    // The key pair is also removed from any identities it was attached to by this store, so they
+    // can't be used to sign anymore.
+
+    removeSessionKeyPair(hash: Hash): boolean {
+
+        if (!this.sessionKeyPairs.has(hash)) {
+            return false;
+        }
+
+        this.sessionKeyPairs.delete(hash);
+        this.keyPairs.delete(hash);
+
+        for (const holder of this.sessionKeyPairHolders.get(hash)) {
+            holder.deref()?.removeKeyPairs(hash);
+        }
+
+        this.sessionKeyPairHolders.deleteKey(hash);
+
+        return true;
+    }
+
+    hasSessionKeyPair(hash: Hash): boolean {
+        return this.sessionKeyPairs.has(hash);
+    }
+
+    async getKeyPair(hash: Hash): Promise<SigningKeyPair|X25519KeyPair|undefined> {
+
+        await this.initKeyPairs;
+
+        return this.keyPairs.get(hash);
+    }
+
+    // attaches the key pairs for an identity that are present in this store, if any
+
+    private addKnownKeyPairs(id: Identity) {
+
+        if (id.hasPublicKey() && !id.hasKeyPair()) {
+            const kp = this.keyPairs.get(id.getKeyPairHash());
+
+            if (kp !== undefined && !(kp instanceof X25519KeyPair)) {
+                id.addKeyPair(kp);
+                this.trackSessionKeyPairHolder(kp, id);
+            }
+        }
+
+        if (id.hasAgreementKey() && !id.hasAgreementKeyPair()) {
+            const kp = this.keyPairs.get(id.getAgreementKeyPairHash());
+
+            if (kp instanceof X25519KeyPair) {
+                id.addAgreementKeyPair(kp);
+                this.trackSessionKeyPairHolder(kp, id);
+            }
+        }
+    }
+
+    private trackSessionKeyPairHolder(kp: SigningKeyPair|X25519KeyPair, id: Identity) {
+
+        const hash = kp.hash();
 
-        for (const kp of results.objects as Array<RSAKeyPair>) {
-            this.keyPairs.set(kp.getLastHash(), kp);
+        if (this.sessionKeyPairs.has(hash)) {
+            this.sessionKeyPairHolders.add(hash, new WeakRef(id));
         }
     }
 
@@ -101,6 +264,10 @@ class Store {
         return this.resources;
     }
 
+    getIdentityProvider(): IdentityProvider {
+        return this.resources?.identityProvider || this.identityProvider;
+    }
+
     // save: The saving of operations is not recursive.
     //
     //                         If an operation is itself mutable, you need to call save() again
@@ -140,12 +307,8 @@ class Store {
                 ctxObject.setResources(this.resources);
             }
 
-            if (ctxObject instanceof Identity && !ctxObject.hasKeyPair()) {
-                const kp = this.keyPairs.get(ctxObject.getKeyPairHash());
-
-                if (kp !== undefined) {
-                    ctxObject.addKeyPair(kp);
-                }
+            if (ctxObject instanceof Identity) {
+                this.addKnownKeyPairs(ctxObject);
             }
         }
 
@@ -186,7 +349,9 @@ class Store {
             return new Set([hash]);
         }
 
-        if (expectedClassName !== undefined && literal.value['_class'] !== expectedClassName) {
+        // a dependency saved by an older version of its class is declared using its current class
+        if (expectedClassName !== undefined && literal.value['_class'] !== expectedClassName &&
+            MigrationRegistry.upgrade(literal.value)['_class'] !== expectedClassName) {
             throw new Error('Referenced dependency ' + hash + ' was found in the store with type ' + literal.value['_class'] + ' but was declared as being ' + expectedClassName + '.')
         }
 
@@ -222,9 +387,34 @@ class Store {
     }
 
     // low level save: no mutation flush, no hash/store setting in objects
-    async saveWithContext(hash: Hash, context: Context, saved=new Set<Hash>()) : Promise<void> {
+    //
+    // Everything that needs saving (the object, its missing dependencies and any cascaded
+    // invalidations) is collected first, and then stored in a single backend batch: either
+    // all of it is persisted or none of it is. Watch callbacks fire after the batch is committed.
+    async saveWithContext(hash: Hash, context: Context) : Promise<void> {
+
+        const batch: SaveBatch = new Map();
 
-        if (saved.has(hash)) {
+        await this.addToBatch(hash, context, batch);
+
+        if (batch.size === 0) {
+            return;
+        }
+
+        await this.backend.storeBatch(Array.from(batch.values()));
+
+        for (const batchHash of batch.keys()) {
+            const object = context.objects.get(batchHash);
+            if (object !== undefined && Identity.isKeyPair(object)) {
+                this.keyPairs.set(batchHash, object);
+                this.sessionKeyPairs.delete(batchHash);
+            }
+        }
+    }
+
+    private async addToBatch(hash: Hash, context: Context, batch: SaveBatch) : Promise<void> {
+
+        if (batch.has(hash)) {
             return;
         }
 
@@ -257,22 +447,33 @@ class Store {
 
             if (author !== undefined) {
 
-                if (object.shouldSignOnSave() && !object.hasLastSignature()) {
+                // Threshold identities are signed by their members beforehand (see ThresholdIdentity).
+
+                if (object.shouldSignOnSave() && !object.hasLastSignature() && !(author instanceof ThresholdIdentity)) {
 
                     if (!author.hasKeyPair()) {
-                        const kp = await this.load(author.getKeyPairHash(), false);
-                        if (kp instanceof RSAKeyPair) {
-                            author.addKeyPair(kp);
-                        }
+                        this.addKnownKeyPairs(author);
                     }
-    
-                    object.setLastSignature(await author.sign(hash));
+
+                    // If the key pair is not in memory, signing is delegated to the identity provider
+                    // (by default, a StoreIdentityProvider that will look for it in the backend).
+
+                    if (author.hasKeyPair()) {
+                        object.setLastSignature(await author.sign(hash));
+                    } else {
+                        object.setLastSignature(await this.getIdentityProvider().signText(hash, author));
+                    }
+
                     (context.literals.get(hash) as Literal).signature = object.getLastSignature();
                 }
     
                 if (!object.hasLastSignature()) {
                     throw new Error('Cannot save ' + hash + ', its signature is missing');
                 }
+
+                if (author instanceof ThresholdIdentity && !await author.verifySignature(hash, object.getLastSignature())) {
+                    throw new Error('Cannot save ' + hash + ', it has not been signed by ' + author.getThreshold() + ' of the members of its author ' + author.hash());
+                }
     
             }
 
@@ -285,7 +486,7 @@ class Store {
             if (literal !== undefined) {
                 for (let dependency of literal.dependencies) {
                     if (dependency.type === 'literal') {
-                        await this.saveWithContext(dependency.hash, context, saved);
+                        await this.addToBatch(dependency.hash, context, batch);
                     }
                 }    
             }
@@ -299,7 +500,12 @@ class Store {
                 if (object.prevOps !== undefined) {
                     for (const hashRef of object.prevOps.values()) {
 
-                        const prevOpHistory = await this.loadOpHeader(hashRef.hash);
+                        const pendingHistory = batch.get(hashRef.hash)?.opHeader;
+
+                        const prevOpHistory = pendingHistory !== undefined?
+                                                    new OpHeader(pendingHistory.literal)
+                                              :
+                                                    await this.loadOpHeader(hashRef.hash);
                         
                         if (prevOpHistory === undefined) {
                             throw new Error('Header of prevOp ' + hashRef.hash + ' of op ' + hash + ' is missing from store, cannot save');
@@ -316,12 +522,7 @@ class Store {
                 };
             }
 
-            if (object.getClassName() === RSAKeyPair.className) {
-                this.keyPairs.set(object.getLastHash(), object as RSAKeyPair);
-            }
-
-            await this.backend.store(literal, history);
-            saved.add(hash);
+            batch.set(hash, { literal: literal, opHeader: history });
 
             if (object instanceof MutationOp) {
 
@@ -332,7 +533,9 @@ class Store {
                     //console.log('checking invalidations for ' + object.hash())
                     for (const causalOp of object.causalOps.values()) {
                         //console.log('found causal op ' + causalOp.hash())
-                        const invalidations = await this.loadAllInvalidations(causalOp.getLastHash());
+                        const invalidations = (await this.loadAllInvalidations(causalOp.getLastHash()))
+                                                    .concat(Store.findInBatch(batch, context, 'targetOp', causalOp.getLastHash())
+                                                            .filter((obj: HashedObject) => obj instanceof InvalidateAfterOp || obj instanceof CascadedInvalidateOp) as Array<InvalidateAfterOp|CascadedInvalidateOp>);
                         
                         for (const inv of invalidations) {
                             //console.log('found ' + inv.hash())
@@ -346,7 +549,7 @@ class Store {
                                 //console.log('WILL CASCADE')
                                 const casc = CascadedInvalidateOp.create(object, inv);
                                 casc.toContext(context);
-                                await this.saveWithContext(casc.getLastHash(), context, saved);
+                                await this.addToBatch(casc.getLastHash(), context, batch);
                             }  else {
                                 //console.log('WILL NOT CASCADE')
                             }
@@ -359,7 +562,9 @@ class Store {
             
             if (object instanceof InvalidateAfterOp || object instanceof CascadedInvalidateOp) {
 
-                const consequences = await this.loadAllConsequences(object.getTargetOp().hash());
+                const consequences = (await this.loadAllConsequences(object.getTargetOp().hash()))
+                                        .concat(Store.findInBatch(batch, context, 'causalOps', object.getTargetOp().hash())
+                                                .filter((obj: HashedObject) => obj instanceof MutationOp) as Array<MutationOp>);
                 
                 if (consequences.length > 0) { // if there are no consequences, optimize away the following
 
@@ -375,7 +580,7 @@ class Store {
                                 }
                                 const casc = CascadedInvalidateOp.create(conseqOp, object);
                                 casc.toContext(context);
-                                await this.saveWithContext(casc.getLastHash(), context, saved);
+                                await this.addToBatch(casc.getLastHash(), context, batch);
                             }
                         }
                     
@@ -387,7 +592,7 @@ class Store {
                             //console.log('found a dep: ' + conseqOp.getClassName());    
                             const casc = CascadedInvalidateOp.create(conseqOp, object);
                             casc.toContext(context);
-                            await this.saveWithContext(casc.getLastHash(), context, saved);
+                            await this.addToBatch(casc.getLastHash(), context, batch);
                         }
 
                     }
@@ -399,6 +604,26 @@ class Store {
     }
     
 
+    // Objects in a save batch (not yet in the backend) that reference the given hash through path.
+    private static findInBatch(batch: SaveBatch, context: Context, path: string, hash: Hash): Array<HashedObject> {
+
+        const found = new Array<HashedObject>();
+
+        for (const entry of batch.values()) {
+            for (const dep of entry.literal.dependencies) {
+                if (dep.path === path && dep.hash === hash) {
+                    const obj = context.objects.get(entry.literal.hash);
+                    if (obj !== undefined) {
+                        found.push(obj);
+                    }
+                    break;
+                }
+            }
+        }
+
+        return found;
+    }
+
     private async fireCallbacks(literal: Literal) : Promise<void> {
 
         // fire watched classes callbacks
@@ -558,9 +783,20 @@ class Store {
                 }
             }
 
-            // use the context to create the object from all the loaded literals
+            // use the context to create the object from all the loaded literals, upgrading
+            // the ones saved by older versions of their classes (the stored literals are
+            // not modified). The context may be the caller's, so the flag is only set while
+            // the object is being created.
+
+            const applyMigrations = context.applyMigrations;
+
+            context.applyMigrations = true;
 
-            obj = HashedObject.fromContext(context, literal.hash);
+            try {
+                obj = HashedObject.fromContext(context, literal.hash);
+            } finally {
+                context.applyMigrations = applyMigrations;
+            }
 
             for (const ctxObj of context.objects.values()) {
 
@@ -571,13 +807,7 @@ class Store {
                 }
 
                 if (ctxObj instanceof Identity) {
-                    const id = ctxObj as Identity;
-                    if (!id.hasKeyPair()) {
-                        let kp = this.keyPairs.get(id.getKeyPairHash());
-                        if (kp !== undefined && kp instanceof RSAKeyPair) {
-                            id.addKeyPair(kp);
-                        }
-                    }
+                    this.addKnownKeyPairs(ctxObj as Identity);
                 }
                 
             }
@@ -610,6 +840,22 @@ class Store {
         return this.loadSearchResults(searchResults, context);
     }
 
+    // Field indexes are kept by the backend, so they need to be declared just once for
+    // persistent backends (it's harmless to declare them again every time the store is opened).
+    // Over an EncryptedBackend they must be declared every time, before saving the objects to
+    // index, and only support search by exact value (see Backend.declareFieldIndex).
+
+    async declareFieldIndex(className: string, fieldPath: string): Promise<void> {
+        await this.backend.declareFieldIndex(className, fieldPath);
+    }
+
+    async loadByField(className: string, fieldPath: string, query: FieldQuery, params?: LoadParams, context = new Context()) : Promise<LoadResults> {
+
+        let searchResults = await this.backend.searchByField(className, fieldPath, query, params);
+
+        return this.loadSearchResults(searchResults, context);
+    }
+
     async skipToObjectByClass(className: string, object: Hash): Promise<string|undefined> {
         return this.backend.skipToObjectByClass(className, object);
     }
@@ -708,9 +954,11 @@ class Store {
             pending.delete(value);
 
             if (!closure.has(value)) {
-                let storable = await this.backend.load(value) as Storable;
+                let storable = await this.backend.load(value) as Storable|undefined;
 
-                if (lowerBoundSeq === undefined || storable.sequence >= lowerBoundSeq) {
+                // ops that were pruned by compact() are treated as being below the lower bound
+
+                if (storable !== undefined && (lowerBoundSeq === undefined || storable.sequence >= lowerBoundSeq)) {
                     closure.add(value);
 
                     const prevOps = HashedSet.deliteralize(LiteralUtils.getFields(storable.literal)['prevOps'], new Context()) as HashedSet<HashReference<MutationOp>>;
@@ -788,6 +1036,109 @@ class Store {
         return this.classReferencesCallbacks.delete(key, callback);
     }
 
+    // Returns a stream with the objects matching the query: first the ones already in the store (as
+    // loadByClass or loadByReference would return them), then the ones that are saved afterwards,
+    // as they arrive. Closing the stream cancels the query.
+
+    query(query: StoreQuery, params?: StoreQueryParams): AsyncStream<HashedObject> {
+
+        if ((query.referringPath === undefined) !== (query.referencedHash === undefined)) {
+            throw new Error('A store query by reference needs both referringPath and referencedHash.');
+        }
+
+        if ((query.className === undefined) === (query.referringPath === undefined)) {
+            throw new Error('A store query needs either a className or a reference (referringPath and referencedHash).');
+        }
+
+        const batchSize = params?.batchSize || Store.defaultQueryBatchSize;
+
+        const seen = new Set<Hash>();
+
+        // matches that are saved while the existing ones are being loaded are held back
+        let arrivedDuringLoad: Array<Hash> | undefined = [];
+
+        const deliver = async (hash: Hash) => {
+            if (!seen.has(hash)) {
+                seen.add(hash);
+
+                const obj = await this.load(hash, false);
+
+                if (obj !== undefined) {
+                    stream.ingest(obj);
+                }
+            }
+        };
+
+        const callback = async (match: Hash) => {
+            if (stream.atEnd()) {
+                return;
+            } else if (arrivedDuringLoad !== undefined) {
+                arrivedDuringLoad.push(match);
+            } else {
+                await deliver(match);
+            }
+        };
+
+        const referringPath  = query.referringPath as string;
+        const referencedHash = query.referencedHash as Hash;
+        const className      = query.className as string;
+
+        let loadPage: (loadParams: LoadParams) => Promise<LoadResults>;
+
+        if (query.className === undefined) {
+            this.watchReferences(referringPath, referencedHash, callback);
+            loadPage = (loadParams: LoadParams) => this.loadByReference(referringPath, referencedHash, loadParams);
+        } else {
+            this.watchClass(className, callback);
+            loadPage = (loadParams: LoadParams) => this.loadByClass(className, loadParams);
+        }
+
+        const stream = new QueryStream(() => {
+            if (query.className === undefined) {
+                this.removeReferencesWatch(referringPath, referencedHash, callback);
+            } else {
+                this.removeClassWatch(className, callback);
+            }
+        });
+
+        const loadExisting = async () => {
+
+            let start: string | undefined = undefined;
+
+            while (!stream.atEnd()) {
+                const results: LoadResults = await loadPage({start: start, limit: batchSize});
+
+                for (const obj of results.objects) {
+                    const hash = obj.getLastHash();
+                    if (!seen.has(hash)) {
+                        seen.add(hash);
+                        stream.ingest(obj);
+                    }
+                }
+
+                if (results.objects.length < batchSize || results.end === undefined) {
+                    break;
+                }
+
+                start = results.end;
+            }
+
+            while (arrivedDuringLoad !== undefined && arrivedDuringLoad.length > 0 && !stream.atEnd()) {
+                await deliver(arrivedDuringLoad.shift() as Hash);
+            }
+
+            arrivedDuringLoad = undefined;
+        };
+
+        loadExisting().catch((reason: any) => {
+            Store.queryLog.warning('Error while loading the existing matches for a store query: ' + reason);
+            stream.end();
+            stream.cancel();
+        });
+
+        return stream;
+    }
+
     getName() {
         return this.backend.getName();
     }
@@ -930,8 +1281,36 @@ class Store {
     }
 
     close() {
+
+        for (const hash of Array.from(this.sessionKeyPairs)) {
+            this.removeSessionKeyPair(hash);
+        }
+
         this.backend.close();
     }
+
+    // Introspection, mostly for debugging tools: what is in the store, and how much space it takes.
+
+    async getStats(): Promise<BackendStats> {
+        return this.backend.getStats();
+    }
+
+    // Goes over the hashes of all the stored objects (fetching them from the backend in batches).
+    // Objects saved while iterating may or may not be included.
+
+    async *allHashes(batchSize=Store.defaultHashIterationBatchSize): AsyncGenerator<Hash> {
+
+        let results = await this.backend.searchAll({ order: 'asc', limit: batchSize });
+
+        while (results.items.length > 0) {
+
+            for (const literal of results.items) {
+                yield literal.hash;
+            }
+
+            results = await this.backend.searchAll({ order: 'asc', limit: batchSize, start: results.end });
+        }
+    }
     
     async saveCheckpoint(checkpoint: StateCheckpoint) {
         await this.backend.storeCheckpoint(checkpoint);
@@ -940,6 +1319,653 @@ class Store {
     async loadLastCheckpoint(mutableObject: Hash) {
         return this.backend.loadLastCheckpoint(mutableObject);
     }
+
+    // compact: Once a checkpoint has been saved for a mutable object, the ops it covers are no
+    //          longer necessary to reconstruct its state. This deletes them from the backend,
+    //          except for:
+    //
+    //           - the checkpoint's terminal ops (restoreCheckpoint needs them),
+    //           - ops involved in an undo / redo (they appear in activeCascInvsPerOp),
+    //           - ops that are literal dependencies of an op that is kept (e.g. through causalOps
+    //             or targetOp), including ops from other mutable objects.
+    //
+    //          Op headers are kept unless params.pruneOpHeaders is set, so the HistoryProvider can
+    //          still compute history deltas and ops concurrent to the pruned ones can still be saved.
+    //          Even when pruning headers, the ones for prevOps of kept ops are not removed.
+    //
+    //          Pruned ops can't be sent to peers anymore: if the report has requiresCheckpointBootstrap
+    //          set, any peer whose state is behind the checkpoint will have its sync requests rejected
+    //          (with reason 'compacted'), and must be bootstrapped from the checkpoint instead (see
+    //          exportCheckpointBootstrap below).
+
+    async compact(mutableObject: Hash, params?: CompactionParams): Promise<CompactionReport> {
+
+        const checkpoint = await this.loadLastCheckpoint(mutableObject);
+
+        const report: CompactionReport = {
+            mutableObject: mutableObject,
+            checkpointTerminalOps: checkpoint === undefined? [] : checkpoint.terminalOpHashes.slice(),
+            prunedOps: [],
+            prunedOpHeaders: [],
+            retainedOps: [],
+            requiresCheckpointBootstrap: false
+        };
+
+        if (checkpoint === undefined) {
+            return report;
+        }
+
+        const ops = await this.loadAllOpLiterals(mutableObject);
+
+        const covered  = new Set<Hash>(checkpoint.allAppliedOps);
+        const required = new Set<Hash>(checkpoint.terminalOpHashes);
+
+        for (const [opHash, invHashes] of checkpoint.activeCascInvsPerOp) {
+            required.add(opHash);
+            for (const invHash of invHashes) {
+                required.add(invHash);
+            }
+        }
+
+        const candidates = new Set<Hash>();
+        const pending    = new Array<Literal>();
+
+        for (const literal of ops.values()) {
+            if (covered.has(literal.hash) && !required.has(literal.hash)) {
+                candidates.add(literal.hash);
+            } else {
+                pending.push(literal);
+            }
+        }
+
+        const retained = new Set<Hash>();
+
+        const retain = (hash: Hash) => {
+            if (candidates.has(hash) && !retained.has(hash)) {
+                retained.add(hash);
+                pending.push(ops.get(hash) as Literal);
+            }
+        };
+
+        // Candidates referenced from outside the candidate set (if the referrer is itself
+        // a candidate, it will be taken care of below if it ends up being retained).
+
+        for (const hash of candidates) {
+            for (const path of ['causalOps', 'targetOp']) {
+                const referrers = await this.backend.searchByReference(path, hash);
+
+                for (const referrer of referrers.items) {
+                    if (!candidates.has(referrer.hash)) {
+                        retain(hash);
+                    }
+                }
+            }
+        }
+
+        const frontier = new Set<Hash>();
+
+        while (pending.length > 0) {
+            const literal = pending.pop() as Literal;
+
+            for (const dep of literal.dependencies) {
+                if (dep.type === 'literal') {
+                    retain(dep.hash);
+                }
+            }
+
+            for (const prevOpHash of HashedSet.elementsFromLiteral(LiteralUtils.getFields(literal)['prevOps']).map(HashReference.hashFromLiteral)) {
+                frontier.add(prevOpHash);
+            }
+        }
+
+        for (const hash of candidates) {
+            if (!retained.has(hash)) {
+                await this.backend.delete(hash);
+                this.cache.evict(hash);
+                report.prunedOps.push(hash);
+
+                if (params?.pruneOpHeaders && !frontier.has(hash)) {
+                    await this.backend.deleteOpHeader(hash);
+                    report.prunedOpHeaders.push(hash);
+                }
+            }
+        }
+
+        report.retainedOps = Array.from(retained);
+        report.requiresCheckpointBootstrap = report.prunedOps.length > 0;
+
+        Store.operationLog.debug(() => 'Compacted ' + mutableObject + ': pruned ' + report.prunedOps.length + ' ops and ' + report.prunedOpHeaders.length + ' op headers, retained ' + report.retainedOps.length + ' ops covered by the last checkpoint.');
+
+        return report;
+    }
+
+    // collectGarbage: Deletes every literal in the backend that can't be reached from the given
+    //                 roots. Reachability is computed by following all the dependencies of a
+    //                 literal (including the prevOps of ops), plus:
+    //
+    //                  - all the ops targeting a reachable mutable object,
+    //                  - the key pair of a reachable identity (if it's in the store).
+    //
+    //                 The checkpoints of unreachable mutable objects are deleted with them.
+    //
+    //                 If params.dryRun is set, nothing is deleted: the report just lists what
+    //                 would have been. Dependencies that are not present in the store (e.g. ops
+    //                 pruned by compact) are listed as missing.
+    //
+    //                 Saving objects while the collection is running is not safe: anything stored
+    //                 after the mark phase is over would be swept.
+
+    async collectGarbage(roots: Iterable<Hash>, params?: GarbageCollectionParams): Promise<GarbageCollectionReport> {
+
+        const batchSize = params?.batchSize || 128;
+
+        const report: GarbageCollectionReport = {
+            roots: Array.from(roots),
+            reachable: 0,
+            missing: [],
+            unreachable: [],
+            deleted: [],
+            dryRun: params?.dryRun || false
+        };
+
+        // mark
+
+        const reachable = new Set<Hash>();
+        const pending   = report.roots.slice();
+
+        while (pending.length > 0) {
+            const hash = pending.pop() as Hash;
+
+            if (reachable.has(hash)) {
+                continue;
+            }
+
+            reachable.add(hash);
+
+            const literal = await this.loadLiteral(hash);
+
+            if (literal === undefined) {
+                report.missing.push(hash);
+                continue;
+            }
+
+            for (const dep of literal.dependencies) {
+                pending.push(dep.hash);
+            }
+
+            if (LiteralUtils.getFlags(literal).indexOf('mutable') >= 0) {
+                for (const opHash of (await this.loadAllOpLiterals(hash, batchSize)).keys()) {
+                    pending.push(opHash);
+                }
+            }
+
+            if (LiteralUtils.getClassName(literal) === Identity.className) {
+                const id = await this.loadWithoutMutations(hash) as Identity;
+                pending.push(id.getKeyPairHash());
+
+                if (id.hasAgreementKey()) {
+                    pending.push(id.getAgreementKeyPairHash());
+                }
+            }
+        }
+
+        report.reachable = reachable.size - report.missing.length;
+
+        // sweep (deletions are done after the search is over, since they'd mess up the pagination)
+
+        const unreachable = new Array<Literal>();
+
+        let results = await this.backend.searchAll({ order: 'asc', limit: batchSize });
+
+        while (results.items.length > 0) {
+
+            for (const literal of results.items) {
+                if (!reachable.has(literal.hash)) {
+                    unreachable.push(literal);
+                }
+            }
+
+            results = await this.backend.searchAll({ order: 'asc', limit: batchSize, start: results.end });
+        }
+
+        report.unreachable = unreachable.map((literal: Literal) => literal.hash);
+
+        if (!report.dryRun) {
+            for (const literal of unreachable) {
+                await this.backend.delete(literal.hash);
+
+                if (LiteralUtils.getFlags(literal).indexOf('op') >= 0) {
+                    await this.backend.deleteOpHeader(literal.hash);
+                }
+
+                if (LiteralUtils.getFlags(literal).indexOf('mutable') >= 0) {
+                    await this.backend.deleteCheckpoint(literal.hash);
+                }
+
+                this.cache.evict(literal.hash);
+                this.keyPairs.delete(literal.hash);
+
+                report.deleted.push(literal.hash);
+            }
+        }
+
+        Store.operationLog.debug(() => 'Garbage collection' + (report.dryRun? ' (dry run)' : '') + ': ' + report.reachable + ' reachable literals, ' + report.unreachable.length + ' unreachable, ' + report.deleted.length + ' deleted.');
+
+        return report;
+    }
+
+    // exportArchive: Writes the closure of the given roots as an archive (see ArchiveRecord above),
+    //                calling write once per line. The closure is computed as in collectGarbage,
+    //                except that key pairs are only included if params.includeKeyPairs is set.
+    //
+    //                Dependencies that are not in the store (e.g. ops pruned by compact) are listed
+    //                as missing in the report: the resulting archive can't be imported on its own.
+
+    async exportArchive(roots: Iterable<Hash>, write: (line: string) => (Promise<void> | void), params?: ArchiveExportParams): Promise<ArchiveExportReport> {
+        return this.exportArchiveRecords(roots, async (record: ArchiveRecord) => { await write(JSON.stringify(record)); }, params);
+    }
+
+    private async exportArchiveRecords(roots: Iterable<Hash>, emit: (record: ArchiveRecord) => (Promise<void> | void), params?: ArchiveExportParams): Promise<ArchiveExportReport> {
+
+        const batchSize = params?.batchSize || 128;
+
+        const report: ArchiveExportReport = {
+            roots: Array.from(roots),
+            literals: 0,
+            opHeaders: 0,
+            checkpoints: 0,
+            missing: []
+        };
+
+        await emit({ type: 'header', format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, roots: report.roots });
+
+        // Literals are written in post-order, so dependencies always come first. The ops of a
+        // mutable object depend on it (and not the other way around), so they are queued as new
+        // roots instead of being visited as its children.
+
+        const visited   = new Set<Hash>();
+        const mutables  = new Array<Hash>();
+        const queue     = report.roots.slice();
+
+        while (queue.length > 0) {
+
+            const stack: Array<[Hash, boolean]> = [[queue.shift() as Hash, false]];
+
+            while (stack.length > 0) {
+                const [hash, expanded] = stack.pop() as [Hash, boolean];
+
+                if (expanded) {
+                    const literal = await this.loadLiteral(hash) as Literal;
+
+                    await emit({ type: 'literal', literal: literal });
+                    report.literals = report.literals + 1;
+
+                    if (LiteralUtils.getFlags(literal).indexOf('op') >= 0) {
+                        const opHeader = await this.backend.loadOpHeader(hash);
+
+                        if (opHeader !== undefined) {
+                            await emit({ type: 'op-header', opHeader: opHeader });
+                            report.opHeaders = report.opHeaders + 1;
+                        }
+                    }
+
+                    continue;
+                }
+
+                if (visited.has(hash)) {
+                    continue;
+                }
+
+                visited.add(hash);
+
+                const literal = await this.loadLiteral(hash);
+
+                if (literal === undefined) {
+                    report.missing.push(hash);
+                    continue;
+                }
+
+                stack.push([hash, true]);
+
+                for (const dep of literal.dependencies) {
+                    if (!visited.has(dep.hash)) {
+                        stack.push([dep.hash, false]);
+                    }
+                }
+
+                if (LiteralUtils.getFlags(literal).indexOf('mutable') >= 0) {
+                    mutables.push(hash);
+                    for (const opHash of (await this.loadAllOpLiterals(hash, batchSize)).keys()) {
+                        queue.push(opHash);
+                    }
+                }
+
+                if (params?.includeKeyPairs && LiteralUtils.getClassName(literal) === Identity.className) {
+                    const id = await this.loadWithoutMutations(hash) as Identity;
+                    if (!visited.has(id.getKeyPairHash())) {
+                        stack.push([id.getKeyPairHash(), false]);
+                    }
+
+                    if (id.hasAgreementKey() && !visited.has(id.getAgreementKeyPairHash())) {
+                        stack.push([id.getAgreementKeyPairHash(), false]);
+                    }
+                }
+            }
+        }
+
+        for (const mutable of mutables) {
+            const checkpoint = await this.loadLastCheckpoint(mutable);
+
+            if (checkpoint !== undefined) {
+                await emit({ type: 'checkpoint', checkpoint: checkpoint });
+                report.checkpoints = report.checkpoints + 1;
+            }
+        }
+
+        return report;
+    }
+
+    // importArchive: Reads an archive created by exportArchive, validating every object before
+    //                saving it (the same way fromLiteralContextWithValidation does, but sharing a
+    //                single context for the whole archive, so each dependency is validated once).
+    //                Dependencies that are not in the archive must already be in the store.
+    //
+    //                Op headers in the archive are checked against the ones computed by the store
+    //                when the ops are saved. Checkpoints are saved last, once all the ops they refer
+    //                to are in the store.
+
+    async importArchive(lines: Iterable<string> | AsyncIterable<string>): Promise<ArchiveImportReport> {
+        return this.importArchiveRecords(Store.parseArchiveLines(lines));
+    }
+
+    // exportCheckpointBootstrap: Once a mutable object has been compacted, peers that are behind its
+    //                            last checkpoint can't fetch the pruned ops anymore. Instead, they get
+    //                            an archive of the mutable object (the checkpoint, and all the ops that
+    //                            are still in the store) plus the headers of the pruned ops that the
+    //                            archived ones have as prevOps. Returns undefined if there is no
+    //                            checkpoint for the object.
+
+    async exportCheckpointBootstrap(mutableObject: Hash): Promise<CheckpointBootstrap|undefined> {
+
+        if (await this.loadLastCheckpoint(mutableObject) === undefined) {
+            return undefined;
+        }
+
+        const records = new Array<ArchiveRecord>();
+
+        const report = await this.exportArchiveRecords([mutableObject], (record: ArchiveRecord) => { records.push(record); });
+
+        for (const hash of report.missing) {
+            const opHeader = await this.backend.loadOpHeader(hash);
+
+            if (opHeader === undefined) {
+                throw new Error('Cannot export checkpoint bootstrap for ' + mutableObject + ': ' + hash + ' is missing from the store.');
+            }
+
+            records.push({ type: 'op-header', opHeader: opHeader });
+        }
+
+        return { mutableObject: mutableObject, records: records };
+    }
+
+    // importCheckpointBootstrap: Imports a bootstrap created by exportCheckpointBootstrap, like
+    //                            importArchive does. The only difference is that ops whose prevOps
+    //                            were pruned can't be fully validated (MutationOp.validate needs their
+    //                            prevOps): for those, only their hash and signature are checked.
+    //
+    //                            Before anything is saved, the bootstrap is checked for consistency (see
+    //                            checkCheckpointBootstrap below). However, the checkpoint's exported state
+    //                            can't be checked against the pruned ops it summarizes, so bootstraps
+    //                            should only be imported from trusted peers (see
+    //                            HeaderBasedSyncAgent.acceptCheckpointsFrom).
+
+    async importCheckpointBootstrap(bootstrap: CheckpointBootstrap): Promise<ArchiveImportReport> {
+
+        await this.checkCheckpointBootstrap(bootstrap);
+
+        return this.importArchiveRecords(bootstrap.records, true);
+    }
+
+    // A bootstrap must have a single checkpoint, for its mutable object. The headers of pruned ops
+    // must hash correctly, and every pruned op (whether it has its header in the bootstrap, or it is
+    // the prevOp of an op in it) must be covered by the checkpoint.
+
+    private async checkCheckpointBootstrap(bootstrap: CheckpointBootstrap): Promise<void> {
+
+        const error = 'Cannot import checkpoint bootstrap for ' + bootstrap?.mutableObject + ': ';
+
+        if (!Array.isArray(bootstrap?.records)) {
+            throw new Error(error + 'it has no records.');
+        }
+
+        const checkpoints = bootstrap.records.filter((record: ArchiveRecord) => record?.type === 'checkpoint');
+
+        if (checkpoints.length !== 1) {
+            throw new Error(error + 'expected exactly one checkpoint, found ' + checkpoints.length + '.');
+        }
+
+        const checkpoint = (checkpoints[0] as { type: 'checkpoint', checkpoint: StateCheckpoint }).checkpoint;
+
+        if (checkpoint?.mutableObject !== bootstrap.mutableObject) {
+            throw new Error(error + 'its checkpoint is for ' + checkpoint?.mutableObject + '.');
+        }
+
+        if (!Array.isArray(checkpoint.allAppliedOps) || !Array.isArray(checkpoint.terminalOpHashes)) {
+            throw new Error(error + 'its checkpoint is malformed.');
+        }
+
+        const covered = new Set<Hash>(checkpoint.allAppliedOps);
+
+        for (const opHash of checkpoint.terminalOpHashes) {
+            if (!covered.has(opHash)) {
+                throw new Error(error + 'terminal op ' + opHash + ' is not among the ops applied in its checkpoint.');
+            }
+        }
+
+        const literals = new Map<Hash, Literal>();
+
+        for (const record of bootstrap.records) {
+            if (record?.type === 'literal') {
+                literals.set(record.literal.hash, record.literal);
+            }
+        }
+
+        for (const record of bootstrap.records) {
+            if (record?.type === 'op-header') {
+
+                try {
+                    new OpHeader(record.opHeader.literal);
+                } catch (e: any) {
+                    throw new Error(error + 'invalid op header: ' + e?.message);
+                }
+
+                const opHash = record.opHeader.literal.opHash;
+
+                if (!literals.has(opHash) && !covered.has(opHash)) {
+                    throw new Error(error + 'pruned op ' + opHash + ' is not covered by its checkpoint.');
+                }
+            }
+        }
+
+        for (const literal of literals.values()) {
+            for (const dep of literal.dependencies) {
+                if (dep.type === 'reference' && !literals.has(dep.hash) && !covered.has(dep.hash) && await this.loadLiteral(dep.hash) === undefined) {
+                    throw new Error(error + 'the prevOp ' + dep.hash + ' of ' + literal.hash + ' is missing, and it is not covered by its checkpoint.');
+                }
+            }
+        }
+    }
+
+    private static async *parseArchiveLines(lines: Iterable<string> | AsyncIterable<string>): AsyncIterable<ArchiveRecord> {
+        for await (const line of lines) {
+            if (line.trim().length > 0) {
+                yield JSON.parse(line) as ArchiveRecord;
+            }
+        }
+    }
+
+    private async importArchiveRecords(records: Iterable<ArchiveRecord> | AsyncIterable<ArchiveRecord>, allowPrunedPrevOps=false): Promise<ArchiveImportReport> {
+
+        const context = new Context();
+
+        if (this.resources !== undefined) {
+            context.resources = this.resources;
+        }
+
+        const order       = new Array<Hash>();
+        const opHeaders   = new Map<Hash, StoredOpHeader>();
+        const checkpoints = new Array<StateCheckpoint>();
+
+        let roots: Array<Hash> | undefined = undefined;
+
+        for await (const record of records) {
+
+            if (roots === undefined) {
+                if (record.type !== 'header' || record.format !== ARCHIVE_FORMAT) {
+                    throw new Error('Cannot import archive: it does not start with a valid archive header.');
+                }
+
+                if (record.version !== ARCHIVE_VERSION) {
+                    throw new Error('Cannot import archive: unsupported archive version ' + record.version + '.');
+                }
+
+                roots = record.roots;
+            } else if (record.type === 'literal') {
+                context.literals.set(record.literal.hash, record.literal);
+                order.push(record.literal.hash);
+            } else if (record.type === 'op-header') {
+                opHeaders.set(record.opHeader.literal.opHash, record.opHeader);
+            } else if (record.type === 'checkpoint') {
+                checkpoints.push(record.checkpoint);
+            } else {
+                throw new Error('Cannot import archive: unexpected record of type ' + record.type + '.');
+            }
+        }
+
+        if (roots === undefined) {
+            throw new Error('Cannot import archive: it is empty.');
+        }
+
+        const report: ArchiveImportReport = { roots: roots, literals: [], checkpoints: [] };
+
+        // The headers of ops that are not in the archive are those of pruned prevOps (see
+        // exportCheckpointBootstrap), they are needed to compute the headers of the imported ops.
+
+        if (allowPrunedPrevOps) {
+            for (const [opHash, opHeader] of opHeaders.entries()) {
+                if (!context.literals.has(opHash) && await this.backend.loadOpHeader(opHash) === undefined) {
+                    await this.backend.storeOpHeader(opHeader);
+                }
+            }
+        }
+
+        for (const hash of order) {
+
+            const literal = context.literals.get(hash) as Literal;
+
+            let prunedPrevOps = false;
+
+            for (const dep of literal.dependencies) {
+                if (!context.literals.has(dep.hash) && !context.objects.has(dep.hash)) {
+                    const stored = await this.load(dep.hash, false);
+
+                    if (stored !== undefined) {
+                        context.objects.set(dep.hash, stored);
+                    } else if (allowPrunedPrevOps && dep.type === 'reference' && await this.backend.loadOpHeader(dep.hash) !== undefined) {
+                        prunedPrevOps = true;
+                    } else {
+                        throw new Error('Cannot import ' + hash + ': its dependency ' + dep.hash + ' is missing from both the archive and the store.');
+                    }
+                }
+            }
+
+            // throws if validation fails
+            if (prunedPrevOps) {
+                await Store.validateWithPrunedPrevOps(context, hash);
+            } else {
+                await HashedObject.fromContextWithValidation(context, hash);
+            }
+
+            await this.saveWithContext(hash, context);
+
+            const archivedHeader = opHeaders.get(hash);
+
+            if (archivedHeader !== undefined) {
+                const storedHeader = await this.backend.loadOpHeader(hash);
+
+                if (storedHeader === undefined || storedHeader.literal.headerHash !== archivedHeader.literal.headerHash) {
+                    throw new Error('Op header for ' + hash + ' in the archive does not match the one computed when importing it.');
+                }
+            }
+
+            report.literals.push(hash);
+        }
+
+        for (const checkpoint of checkpoints) {
+
+            for (const hash of [checkpoint.mutableObject].concat(checkpoint.terminalOpHashes)) {
+                if (await this.loadLiteral(hash) === undefined) {
+                    throw new Error('Cannot import checkpoint for ' + checkpoint.mutableObject + ': ' + hash + ' is missing from the store.');
+                }
+            }
+
+            await this.saveCheckpoint(checkpoint);
+            report.checkpoints.push(checkpoint.mutableObject);
+        }
+
+        return report;
+    }
+
+    // Like HashedObject.fromContextWithValidation, for an op whose prevOps are not available: its
+    // dependencies are validated, and its hash and signature are checked, but since validate()
+    // would look for the missing prevOps, it is not called.
+
+    private static async validateWithPrunedPrevOps(context: Context, hash: Hash): Promise<HashedObject> {
+
+        const literal = context.literals.get(hash) as Literal;
+
+        for (const dep of literal.dependencies) {
+            if (!context.objects.has(dep.hash) && context.literals.has(dep.hash)) {
+                await HashedObject.fromContextWithValidation(context, dep.hash);
+            }
+        }
+
+        const obj = HashedObject.fromContext(context, hash, true);
+
+        if (!(obj instanceof MutationOp) || obj.hash() !== hash) {
+            context.objects.delete(hash);
+            throw new Error('Cannot import ' + hash + ': it is not an op, or its hash is wrong, and some of its dependencies are missing.');
+        }
+
+        const author = obj.getAuthor();
+
+        if (author !== undefined && (literal.signature === undefined || !await author.verifySignature(hash, literal.signature))) {
+            context.objects.delete(hash);
+            throw new Error('Cannot import ' + hash + ': its signature is missing or invalid.');
+        }
+
+        return obj;
+    }
+
+    private async loadAllOpLiterals(targetObject: Hash, batchSize=128): Promise<Map<Hash, Literal>> {
+
+        const ops = new Map<Hash, Literal>();
+
+        let results = await this.backend.searchByReference('targetObject', targetObject, { order: 'asc', limit: batchSize });
+
+        while (results.items.length > 0) {
+
+            for (const literal of results.items) {
+                if (LiteralUtils.getFlags(literal).indexOf('op') >= 0) {
+                    ops.set(literal.hash, literal);
+                }
+            }
+
+            results = await this.backend.searchByReference('targetObject', targetObject, { order: 'asc', limit: batchSize, start: results.end });
+        }
+
+        return ops;
+    }
 }
 
-export { Store, StoredOpHeader, LoadResults };
\ No newline at end of file
+export { Store, StoredOpHeader, LoadResults, StoreQuery, StoreQueryParams, CompactionParams, CompactionReport, GarbageCollectionParams, GarbageCollectionReport, ArchiveRecord, ArchiveExportParams, ArchiveExportReport, ArchiveImportReport, CheckpointBootstrap };
\ No newline at end of file
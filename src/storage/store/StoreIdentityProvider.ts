@@ -1,7 +1,7 @@
 import { Literal, HashedObject, LiteralContext, Context } from 'data/model';
 
 import { IdentityProvider } from 'data/identity/IdentityProvider';
-import { Identity, RSAKeyPair } from 'data/identity';
+import { Identity, RSAKeyPair, Ed25519KeyPair } from 'data/identity';
 
 import { Store } from './Store';
 
@@ -17,15 +17,18 @@ class StoreIdentityProvider implements IdentityProvider {
 
     async signText(text: string, id: Identity): Promise<string> {
         
-        let obj = await this.store.load(id.getKeyPairHash());
+        let obj: HashedObject|undefined = await this.store.getKeyPair(id.getKeyPairHash());
+
+        if (obj === undefined) {
+            obj = await this.store.load(id.getKeyPairHash());
+        }
 
         if (obj === undefined) {
             throw new Error('Trying to sign for identity ' + id.hash() + ' but could not find associated key pair in store: ' + id.getKeyPairHash() + '.');
-        } else if (obj instanceof RSAKeyPair) {
-            const kp = obj as RSAKeyPair;
-            return kp.sign(text);
+        } else if (obj instanceof RSAKeyPair || obj instanceof Ed25519KeyPair) {
+            return obj.sign(text);
         } else {
-            throw new Error('Trying to sign for identity ' + id.hash() + ' but associated key pair ' + id.getKeyPairHash() + ' is not an instance of RSAKeyPair.');
+            throw new Error('Trying to sign for identity ' + id.hash() + ' but associated key pair ' + id.getKeyPairHash() + ' is not an instance of RSAKeyPair or Ed25519KeyPair.');
         }
 
     }
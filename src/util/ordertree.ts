@@ -0,0 +1,256 @@
+// An order-statistic tree: a sorted multiset that can also find the i-th key, or the position of
+// a key, in logarithmic time. It is a treap, where each node keeps the size of its subtree.
+
+type OrderTreeNode<K> = {
+    key      : K,
+    count    : number,
+    size     : number,
+    priority : number,
+    left?    : OrderTreeNode<K>,
+    right?   : OrderTreeNode<K>
+};
+
+class OrderStatisticTree<K> {
+
+    compare : (a: K, b: K) => number;
+    root?   : OrderTreeNode<K>;
+
+    constructor(compare: (a: K, b: K) => number) {
+        this.compare = compare;
+    }
+
+    size(): number {
+        return OrderStatisticTree.sizeOf(this.root);
+    }
+
+    add(key: K): void {
+        this.root = this.insertAt(this.root, key);
+    }
+
+    // Removes one copy of key, returns false if there was none.
+
+    delete(key: K): boolean {
+        if (this.count(key) === 0) {
+            return false;
+        }
+
+        this.root = this.removeAt(this.root, key) as OrderTreeNode<K>|undefined;
+
+        return true;
+    }
+
+    clear(): void {
+        this.root = undefined;
+    }
+
+    count(key: K): number {
+        let node = this.root;
+
+        while (node !== undefined) {
+            const c = this.compare(key, node.key);
+
+            if (c === 0) {
+                return node.count;
+            }
+
+            node = c < 0? node.left : node.right;
+        }
+
+        return 0;
+    }
+
+    // How many keys are smaller than key (whether key is in the tree or not).
+
+    rank(key: K): number {
+        let node = this.root;
+        let rank = 0;
+
+        while (node !== undefined) {
+            const c = this.compare(key, node.key);
+
+            if (c <= 0) {
+                if (c === 0) {
+                    return rank + OrderStatisticTree.sizeOf(node.left);
+                }
+                node = node.left;
+            } else {
+                rank = rank + OrderStatisticTree.sizeOf(node.left) + node.count;
+                node = node.right;
+            }
+        }
+
+        return rank;
+    }
+
+    // The key at position idx, counting repeated keys as many times as they were added.
+
+    at(idx: number): K|undefined {
+        let node = this.root;
+
+        while (node !== undefined) {
+            const leftSize = OrderStatisticTree.sizeOf(node.left);
+
+            if (idx < leftSize) {
+                node = node.left;
+            } else if (idx < leftSize + node.count) {
+                return node.key;
+            } else {
+                idx  = idx - leftSize - node.count;
+                node = node.right;
+            }
+        }
+
+        return undefined;
+    }
+
+    // The keys in positions [start, end), as Array.slice would return them.
+
+    slice(start=0, end?: number): Array<K> {
+
+        const size = this.size();
+
+        start = OrderStatisticTree.normalizeIdx(start, size);
+        end   = end === undefined? size : OrderStatisticTree.normalizeIdx(end, size);
+
+        const result: Array<K> = [];
+
+        if (start < end) {
+            this.collect(this.root, 0, start, end, result);
+        }
+
+        return result;
+    }
+
+    keys(): IterableIterator<K> {
+        return this.slice().values();
+    }
+
+    private collect(node: OrderTreeNode<K>|undefined, base: number, start: number, end: number, result: Array<K>) {
+
+        if (node === undefined || end <= base || base + node.size <= start) {
+            return;
+        }
+
+        this.collect(node.left, base, start, end, result);
+
+        const nodeStart = base + OrderStatisticTree.sizeOf(node.left);
+
+        for (let i=Math.max(nodeStart, start); i<Math.min(nodeStart + node.count, end); i++) {
+            result.push(node.key);
+        }
+
+        this.collect(node.right, nodeStart + node.count, start, end, result);
+    }
+
+    private insertAt(node: OrderTreeNode<K>|undefined, key: K): OrderTreeNode<K> {
+
+        if (node === undefined) {
+            return { key: key, count: 1, size: 1, priority: Math.random() };
+        }
+
+        const c = this.compare(key, node.key);
+
+        if (c === 0) {
+            node.count = node.count + 1;
+        } else if (c < 0) {
+            node.left = this.insertAt(node.left, key);
+
+            if (node.left.priority > node.priority) {
+                node = OrderStatisticTree.rotateRight(node);
+            }
+        } else {
+            node.right = this.insertAt(node.right, key);
+
+            if (node.right.priority > node.priority) {
+                node = OrderStatisticTree.rotateLeft(node);
+            }
+        }
+
+        OrderStatisticTree.update(node);
+
+        return node;
+    }
+
+    private removeAt(node: OrderTreeNode<K>|undefined, key: K): OrderTreeNode<K>|undefined {
+
+        if (node === undefined) {
+            return undefined;
+        }
+
+        const c = this.compare(key, node.key);
+
+        if (c < 0) {
+            node.left = this.removeAt(node.left, key);
+        } else if (c > 0) {
+            node.right = this.removeAt(node.right, key);
+        } else if (node.count > 1) {
+            node.count = node.count - 1;
+        } else {
+            return OrderStatisticTree.merge(node.left, node.right);
+        }
+
+        OrderStatisticTree.update(node);
+
+        return node;
+    }
+
+    // all the keys in a should be smaller than those in b
+    private static merge<K>(a?: OrderTreeNode<K>, b?: OrderTreeNode<K>): OrderTreeNode<K>|undefined {
+
+        if (a === undefined) {
+            return b;
+        } else if (b === undefined) {
+            return a;
+        } else if (a.priority > b.priority) {
+            a.right = OrderStatisticTree.merge(a.right, b);
+            OrderStatisticTree.update(a);
+            return a;
+        } else {
+            b.left = OrderStatisticTree.merge(a, b.left);
+            OrderStatisticTree.update(b);
+            return b;
+        }
+    }
+
+    private static rotateRight<K>(node: OrderTreeNode<K>): OrderTreeNode<K> {
+        const left = node.left as OrderTreeNode<K>;
+
+        node.left  = left.right;
+        left.right = node;
+
+        OrderStatisticTree.update(node);
+        OrderStatisticTree.update(left);
+
+        return left;
+    }
+
+    private static rotateLeft<K>(node: OrderTreeNode<K>): OrderTreeNode<K> {
+        const right = node.right as OrderTreeNode<K>;
+
+        node.right = right.left;
+        right.left = node;
+
+        OrderStatisticTree.update(node);
+        OrderStatisticTree.update(right);
+
+        return right;
+    }
+
+    private static update<K>(node: OrderTreeNode<K>) {
+        node.size = OrderStatisticTree.sizeOf(node.left) + node.count + OrderStatisticTree.sizeOf(node.right);
+    }
+
+    private static sizeOf<K>(node?: OrderTreeNode<K>): number {
+        return node === undefined? 0 : node.size;
+    }
+
+    private static normalizeIdx(idx: number, size: number): number {
+        if (idx < 0) {
+            idx = size + idx;
+        }
+
+        return Math.min(Math.max(idx, 0), size);
+    }
+}
+
+export { OrderStatisticTree };
@@ -37,4 +37,84 @@ class Timestamps {
 
 }
 
-export { Timestamps };
\ No newline at end of file
+// A hybrid logical clock: its timestamps combine physical time (in ms) with a logical counter, so
+// they follow the wall clock when it moves forward, but never go backwards and always come after
+// any timestamp the clock has seen through update() (unless it was too far ahead, see below). They
+// compare lexicographically, like the ones above.
+
+class HybridClock {
+
+  // how far ahead of the local wall clock (in ms) update() may drag the clock
+  static maxDrift = 10 * 60 * 1000;
+
+  physical: number;
+  counter: number;
+
+  constructor() {
+    this.physical = 0;
+    this.counter  = 0;
+  }
+
+  now(): string {
+    const wall = Date.now();
+
+    if (wall > this.physical) {
+      this.physical = wall;
+      this.counter  = 0;
+    } else {
+      this.counter = this.counter + 1;
+    }
+
+    return HybridClock.encode(this.physical, this.counter);
+  }
+
+  // Like now(), but the result also comes after all the given timestamps (e.g. those of the ops
+  // that a new op supersedes), even if they are beyond the drift bound: the clock is not moved.
+
+  nowAfter(timestamps: Iterable<string>): string {
+    let next = this.now();
+
+    for (const timestamp of timestamps) {
+      if (!Timestamps.after(next, timestamp)) {
+        const parsed = HybridClock.parse(timestamp);
+        next = HybridClock.encode(parsed.physical, parsed.counter + 1);
+      }
+    }
+
+    return next;
+  }
+
+  // A timestamp from the far future would otherwise be inherited by every timestamp the clock
+  // produces afterwards, so the clock only follows received ones up to maxDrift ahead of the wall
+  // clock.
+
+  update(received: string) {
+    const parsed = HybridClock.parse(received);
+    const bound  = Date.now() + HybridClock.maxDrift;
+
+    if (parsed.physical > bound) {
+      parsed.physical = bound;
+      parsed.counter  = 0;
+    }
+
+    if (parsed.physical > this.physical || (parsed.physical === this.physical && parsed.counter > this.counter)) {
+      this.physical = parsed.physical;
+      this.counter  = parsed.counter;
+    }
+  }
+
+  static encode(physical: number, counter: number): string {
+    return 'H' + physical.toString(16).padStart(11, '0') + counter.toString(16).padStart(8, '0');
+  }
+
+  static parse(timestamp: string): {physical: number, counter: number} {
+    return { physical: parseInt(timestamp.substring(1, 12), 16), counter: parseInt(timestamp.substring(12, 20), 16) };
+  }
+
+  static isTimestamp(timestamp: any): boolean {
+    return typeof(timestamp) === 'string' && /^H[0-9a-f]{19}$/.test(timestamp);
+  }
+
+}
+
+export { Timestamps, HybridClock };
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { RSA } from 'crypto/ciphers';
 import { ChaCha20, ChaCha20Impl } from 'crypto/ciphers';
 import { describeProxy } from 'config';
+import { SecretBox } from 'crypto/secretbox';
 import { RSADefaults } from 'crypto/ciphers/RSA';
 import { WebCryptoRSA } from 'crypto/ciphers/WebCryptoRSA';
 //import { NodeRSA } from 'crypto/ciphers/NodeRSA';
@@ -165,5 +166,26 @@ describeProxy('[ENC] Ciphers', () => {
         expect(await rsaPublic2.verify(message, signature2)).toEqual(true);
 
     });*/
+
+    test('[ENC07] secret box seal & open', () => {
+
+        let key = SecretBox.deriveKey('a passphrase', 'a1b2c3d4', 16);
+        let box = new SecretBox(key);
+
+        let message = '₿₿₿ this is a small text message 😱';
+
+        let sealed = box.seal(message);
+
+        expect(box.open(sealed)).toEqual(message);
+        expect(box.seal(message).nonce).not.toEqual(sealed.nonce);
+
+        expect(new SecretBox(SecretBox.deriveKey('another passphrase', 'a1b2c3d4', 16)).open(sealed)).toBeUndefined();
+        expect(new SecretBox(SecretBox.deriveKey('a passphrase', 'a1b2c3d5', 16)).open(sealed)).toBeUndefined();
+
+        let tampered = Object.assign({}, sealed);
+        tampered.ciphertext = (tampered.ciphertext[0] === '0'? '1' : '0') + tampered.ciphertext.substring(1);
+
+        expect(box.open(tampered)).toBeUndefined();
+    });
 });
 
@@ -182,4 +182,117 @@ describe('[CHK] Checkpoints', () => {
         // check equality of inner values
         expect([...[...set.values()].map(x => x.getValue())]).toStrictEqual([innerRef.getValue()]);
     });
+
+    it('[CHK09] Compacting a MutableReference after a checkpoint', async () => {
+        const store = new Store(new MemoryBackend('test-' + new RNGImpl().randomHexString(128)));
+        const ref = new MutableReference<number>();
+        ref.setStore(store);
+        await ref.setValue(1);
+        await ref.setValue(2);
+        await ref.setValue(3);
+        await ref.save();
+        const checkpoint = await ref.saveCheckpoint();
+        await ref.setValue(4);
+        await ref.save();
+
+        const report = await store.compact(ref.hash());
+
+        expect(report.prunedOps.length).toEqual(checkpoint.allAppliedOps.length - checkpoint.terminalOpHashes.length);
+        expect(report.prunedOpHeaders.length).toEqual(0);
+        expect(report.requiresCheckpointBootstrap).toBeTruthy();
+
+        for (const opHash of report.prunedOps) {
+            expect(await store.loadLiteral(opHash)).toBeUndefined();
+            expect(await store.loadOpHeader(opHash)).toBeDefined();
+        }
+
+        for (const opHash of checkpoint.terminalOpHashes) {
+            expect(await store.loadLiteral(opHash)).toBeDefined();
+        }
+
+        const reloaded = await store.load(ref.hash()) as MutableReference<number>;
+        expect(reloaded.getValue()).toEqual(4);
+
+        await reloaded.setValue(5);
+        await reloaded.save();
+        expect(reloaded.getValue()).toEqual(5);
+    });
+
+    it('[CHK10] Compacting without a checkpoint prunes nothing', async () => {
+        const store = new Store(new MemoryBackend('test-' + new RNGImpl().randomHexString(128)));
+        const ref = new MutableReference<number>();
+        ref.setStore(store);
+        await ref.setValue(1);
+        await ref.setValue(2);
+        await ref.save();
+
+        const report = await store.compact(ref.hash(), {pruneOpHeaders: true});
+
+        expect(report.prunedOps.length).toEqual(0);
+        expect(report.requiresCheckpointBootstrap).toBeFalsy();
+    });
+
+    it('[CHK11] Bootstrapping from the checkpoint of a compacted MutableReference, rejecting tampered ones', async () => {
+        const source = new Store(new MemoryBackend('test-' + new RNGImpl().randomHexString(128)));
+        const target = new Store(new MemoryBackend('test-' + new RNGImpl().randomHexString(128)));
+        const ref = new MutableReference<number>();
+        ref.setStore(source);
+        await ref.setValue(1);
+        await ref.setValue(2);
+        await ref.setValue(3);
+        await ref.save();
+        await ref.saveCheckpoint();
+        await ref.setValue(4);
+        await ref.save();
+
+        const report = await source.compact(ref.hash());
+        const bootstrap = await source.exportCheckpointBootstrap(ref.hash());
+
+        expect(bootstrap).toBeDefined();
+
+        // a pruned op that is not covered by the checkpoint
+
+        const uncovered = JSON.parse(JSON.stringify(bootstrap));
+        for (const record of uncovered.records) {
+            if (record.type === 'checkpoint') {
+                record.checkpoint.allAppliedOps = record.checkpoint.allAppliedOps.filter((opHash: string) => report.prunedOps.indexOf(opHash) < 0);
+            }
+        }
+
+        await expect(target.importCheckpointBootstrap(uncovered)).rejects.toThrow();
+
+        // a pruned op header that does not match its hash
+
+        const wrongHeader = JSON.parse(JSON.stringify(bootstrap));
+        for (const record of wrongHeader.records) {
+            if (record.type === 'op-header' && report.prunedOps.indexOf(record.opHeader.literal.opHash) >= 0) {
+                record.opHeader.literal.computedHeight = record.opHeader.literal.computedHeight + 1;
+            }
+        }
+
+        await expect(target.importCheckpointBootstrap(wrongHeader)).rejects.toThrow();
+
+        // a second checkpoint
+
+        const twoCheckpoints = JSON.parse(JSON.stringify(bootstrap));
+        twoCheckpoints.records.push(twoCheckpoints.records.find((record: any) => record.type === 'checkpoint'));
+
+        await expect(target.importCheckpointBootstrap(twoCheckpoints)).rejects.toThrow();
+
+        expect(await target.loadLiteral(ref.hash())).toBeUndefined();
+        expect(await target.loadLastCheckpoint(ref.hash())).toBeUndefined();
+
+        for (const opHash of report.prunedOps) {
+            expect(await target.loadOpHeader(opHash)).toBeUndefined();
+        }
+
+        await target.importCheckpointBootstrap(bootstrap!);
+
+        const imported = await target.load(ref.hash()) as MutableReference<number>;
+        expect(imported.getValue()).toEqual(4);
+
+        for (const opHash of report.prunedOps) {
+            expect(await target.loadLiteral(opHash)).toBeUndefined();
+        }
+    });
 })
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { CausalArray } from 'data/collections';
+import { HashedObject } from 'data/model';
+
+import { Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
+
+describeProxy('[CAR] Causal arrays', () => {
+
+    test('[CAR01] Slicing and paging through a causal array', async (done) => {
+
+        let a = new CausalArray<number>({duplicates: true, acceptedTypes: ['number']});
+
+        let elements: Array<number> = [];
+
+        for (let i=0; i<1000; i++) {
+            elements.push(i);
+        }
+
+        await a.concat(elements);
+
+        expect (a.size()).toEqual(1000);
+        expect (a.lookup(999)).toEqual(999);
+        expect (a.indexOf(500)).toEqual(500);
+        expect (a.slice(10, 13)).toEqual([10, 11, 12]);
+
+        await a.deleteManyAt(10, 3);
+        await a.insertAt(-1, 10);
+
+        expect (a.slice(9, 12)).toEqual([9, -1, 13]);
+        expect (a.indexOf(13)).toEqual(11);
+        expect (a.has(11)).toBeFalsy();
+
+        let c = a.cursor();
+        let paged: Array<number> = [];
+
+        while (c.hasNext()) {
+            paged = paged.concat(c.next(100));
+        }
+
+        expect (paged).toEqual(a.contents());
+
+        done();
+    });
+
+    test('[CAR02] Cursor is stable while concurrent inserts arrive', async (done) => {
+
+        let store = new Store(new MemoryBackend('CAR02 - ' + new RNGImpl().randomHexString(128)));
+
+        let a = new CausalArray<string>();
+
+        await store.save(a);
+
+        let a1 = await store.load(a.hash()) as CausalArray<string>;
+        let a2 = await store.load(a.hash()) as CausalArray<string>;
+
+        await a1.concat(['a', 'b', 'c']);
+        await a1.save();
+
+        await a2.loadAllChanges();
+
+        let c = a1.cursor(1);
+
+        await a2.insertAt('x', 0);
+        await a2.insertAt('y', 2);
+        await a2.save();
+
+        await a1.insertAt('w', 3);
+
+        await a1.loadAllChanges();
+
+        expect (a1.contents()).toEqual(['x', 'a', 'y', 'b', 'c', 'w']);
+        expect (c.getIndex()).toEqual(2);
+        expect (c.next(2)).toEqual(['y', 'b']);
+
+        c.seek(-1);
+
+        expect (c.peek()).toEqual('w');
+
+        done();
+    });
+
+    test('[CAR03] Moving elements, concurrently', async (done) => {
+
+        let store = new Store(new MemoryBackend('CAR03 - ' + new RNGImpl().randomHexString(128)));
+
+        let a = new CausalArray<string>({duplicates: false});
+
+        await store.save(a);
+
+        let a1 = await store.load(a.hash()) as CausalArray<string>;
+        let a2 = await store.load(a.hash()) as CausalArray<string>;
+
+        await a1.concat(['a', 'b', 'c', 'd']);
+        await a1.save();
+
+        await a2.loadAllChanges();
+
+        const insertOps = Array.from(a1._currentInsertOps.get(HashedObject.hashElement('b'))).map(op => op.getLastHash());
+
+        await a1.moveAt(1, 3);
+
+        expect (a1.contents()).toEqual(['a', 'c', 'd', 'b']);
+        expect (Array.from(a1._currentInsertOps.get(HashedObject.hashElement('b'))).map(op => op.getLastHash())).toEqual(insertOps);
+
+        await a1.moveElement('b', 0);
+
+        expect (a1.contents()).toEqual(['b', 'a', 'c', 'd']);
+        await expect (a1.moveAt(0, 4)).rejects.toThrow();
+
+        // concurrent moves of the same element end up in the same place on both replicas
+
+        await a2.moveAt(1, 2);
+
+        expect (a2.contents()).toEqual(['a', 'c', 'b', 'd']);
+
+        await a1.save();
+        await a2.save();
+
+        await a1.loadAllChanges();
+        await a2.loadAllChanges();
+
+        // a1's second move has seen the first one, so it has a higher sequence number and wins
+
+        expect (a1.contents()).toEqual(['b', 'a', 'c', 'd']);
+        expect (a2.contents()).toEqual(['b', 'a', 'c', 'd']);
+        expect (a1.contents().filter((e: string) => e === 'b').length).toEqual(1);
+
+        done();
+    });
+});
@@ -0,0 +1,252 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { CausalSet, KeyAttestationOp, KeyRotationOp, RotatableIdentity } from 'data/collections';
+import { Ed25519KeyPair, Identity } from 'data/identity';
+import { Context, HashedObject, MutationOp } from 'data/model';
+
+import { Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
+import { Resources } from 'spaces/spaces';
+
+describeProxy('[RID] Rotatable identities', () => {
+
+    test('[RID01] Key rotation and revocation', async (done) => {
+
+        let store = new Store(new MemoryBackend('RID01 - ' + new RNGImpl().randomHexString(128)));
+
+        let keys: Array<Identity> = [];
+
+        for (let i=0; i<3; i++) {
+            let kp = await Ed25519KeyPair.generate();
+            let id = Identity.fromKeyPair({key: i}, kp);
+
+            await store.save(kp);
+            await store.save(id);
+
+            keys.push(id);
+        }
+
+        let rid = new RotatableIdentity(keys[0], {name: 'shared account'});
+        let s   = new CausalSet<string>({mutableWriters: rid, acceptedTypes: ['string']});
+
+        await store.save(rid);
+        await store.save(s);
+
+        await s.add('a', keys[0]);
+        await s.save();
+
+        let sOld = await store.load(s.hash()) as CausalSet<string>;
+        await (sOld.getMutableWriters() as RotatableIdentity).loadAllChanges();
+
+        await rid.rotate(keys[1]);
+
+        expect (rid.has(keys[0])).toBeFalsy();
+        expect (rid.getCurrentKeys()).toEqual([keys[1]]);
+
+        await expect (s.add('b', keys[0])).rejects.toThrow();
+        await s.add('b', keys[1]);
+        await rid.save();
+        await s.save();
+
+        // the old key was still valid at the point where this is added
+
+        await sOld.add('c', keys[0]);
+        await sOld.save();
+
+        let sCopy = await store.load(s.hash()) as CausalSet<string>;
+
+        expect (Array.from(sCopy.values()).sort()).toEqual(['a', 'b', 'c']);
+
+        // keys[1] is compromised: it is used concurrently with it being rotated away and revoked
+
+        let sStolen = await store.load(s.hash()) as CausalSet<string>;
+        await (sStolen.getMutableWriters() as RotatableIdentity).loadAllChanges();
+
+        await sStolen.add('evil', keys[1]);
+        await sStolen.save();
+
+        expect ((await store.load(s.hash()) as CausalSet<string>).has('evil')).toBeTruthy();
+
+        await rid.rotate(keys[2], keys[1]);
+        await rid.revoke(keys[1], keys[2]);
+        await rid.save();
+
+        let ridCopy = await store.load(rid.hash()) as RotatableIdentity;
+
+        expect (ridCopy.getCurrentKeys()).toEqual([keys[2]]);
+        expect (ridCopy.isRevoked(keys[1])).toBeTruthy();
+        expect (ridCopy.isRevoked(keys[0])).toBeFalsy();
+
+        // the key log is validated like any other mutable object when it is received
+
+        const context = new Context();
+
+        for (const op of await store.loadAllOps(rid.hash())) {
+            for (const [hash, literal] of op.toContext().literals.entries()) {
+                context.literals.set(hash, literal);
+            }
+
+            const received = await HashedObject.fromContextWithValidation(context, op.hash());
+
+            expect (ridCopy.shouldAcceptMutationOp(received as any, new Map())).toBeTruthy();
+        }
+
+        sCopy = await store.load(s.hash()) as CausalSet<string>;
+
+        // the op using the revoked key has been undone, the ones in the revocation's past remain
+
+        expect (Array.from(sCopy.values()).sort()).toEqual(['a', 'b', 'c']);
+
+        done();
+    });
+
+    test('[RID02] Ops using a key that was rotated away in their causal past are rejected', async (done) => {
+
+        let store = new Store(new MemoryBackend('RID02 - ' + new RNGImpl().randomHexString(128)));
+
+        let keys: Array<Identity> = [];
+
+        for (let i=0; i<2; i++) {
+            let kp = await Ed25519KeyPair.generate();
+            let id = Identity.fromKeyPair({key: i}, kp);
+
+            await store.save(kp);
+            await store.save(id);
+
+            keys.push(id);
+        }
+
+        let rid = new RotatableIdentity(keys[0], {name: 'shared account'});
+        let s   = new CausalSet<string>({mutableWriters: rid, acceptedTypes: ['string']});
+
+        await store.save(rid);
+        await store.save(s);
+
+        await rid.rotate(keys[1]);
+        await rid.save();
+
+        const ops = await store.loadAllOps(rid.hash()) as Array<KeyRotationOp>;
+
+        const genesisOp  = ops.find((op: KeyRotationOp) => op.isGenesis()) as KeyRotationOp;
+        const rotationOp = ops.find((op: KeyRotationOp) => !op.isGenesis()) as KeyRotationOp;
+
+        // whomever kept the old key attests it for an op, on top of the rotation
+
+        const receive = async (op: MutationOp) => {
+
+            const context = new Context();
+
+            for (const op of ops) {
+                for (const [hash, literal] of op.toContext().literals.entries()) {
+                    context.literals.set(hash, literal);
+                }
+            }
+
+            for (const [hash, literal] of op.toContext().literals.entries()) {
+                context.literals.set(hash, literal);
+            }
+
+            return HashedObject.fromContextWithValidation(context, op.hash());
+        };
+
+        const craft = async (prevOps: Array<MutationOp>) => {
+
+            const attestOp = new KeyAttestationOp(genesisOp, rotationOp);
+            attestOp.setPrevOps(prevOps.values());
+            attestOp.setLastSignature(await keys[0].sign(attestOp.hash()));
+
+            return receive(attestOp);
+        };
+
+        await expect(craft([rotationOp])).rejects.toThrow();
+
+        // the same attestation, concurrent to the rotation, is fine
+
+        expect(await craft([genesisOp])).toBeInstanceOf(KeyAttestationOp);
+
+        // the old key cannot rotate itself again after the rotation either
+
+        const forkOp = new KeyRotationOp(rid, keys[1], keys[0]);
+        forkOp.addCausalOp('signing-key', genesisOp);
+        forkOp.setPrevOps([rotationOp].values());
+        forkOp.setLastSignature(await keys[0].sign(forkOp.hash()));
+
+        await expect(receive(forkOp)).rejects.toThrow();
+
+        done();
+    });
+
+    test('[RID03] Ops using a key that was rotated away several ops back in their causal past are rejected', async (done) => {
+
+        let store = new Store(new MemoryBackend('RID03 - ' + new RNGImpl().randomHexString(128)));
+
+        let keys: Array<Identity> = [];
+
+        for (let i=0; i<2; i++) {
+            let kp = await Ed25519KeyPair.generate();
+            let id = Identity.fromKeyPair({key: i}, kp);
+
+            await store.save(kp);
+            await store.save(id);
+
+            keys.push(id);
+        }
+
+        let rid = new RotatableIdentity(keys[0], {name: 'shared account'});
+        let s   = new CausalSet<string>({mutableWriters: rid, acceptedTypes: ['string']});
+
+        await store.save(rid);
+        await store.save(s);
+
+        await rid.rotate(keys[1]);
+
+        // the new key is used a few times, each use adds an attestation on top of the rotation
+
+        for (const elmt of ['a', 'b', 'c']) {
+            await s.add(elmt, keys[1]);
+        }
+
+        await rid.save();
+        await s.save();
+
+        const ops = await store.loadAllOps(rid.hash());
+
+        const genesisOp  = ops.find((op: MutationOp) => op instanceof KeyRotationOp && op.isGenesis()) as KeyRotationOp;
+        const rotationOp = ops.find((op: MutationOp) => op instanceof KeyRotationOp && !op.isGenesis()) as KeyRotationOp;
+
+        const lastOps = Array.from(rid._terminalOps.values());
+
+        expect(lastOps.length).toEqual(1);
+        expect(lastOps[0]).toBeInstanceOf(KeyAttestationOp);
+        expect(lastOps[0].getPrevOps().next().value.hash).not.toEqual(rotationOp.hash());
+
+        // whomever kept the old key attests it on top of the last op, the way it would be received
+        // when syncing: the op's literals, plus its prevOps from the store
+
+        const receive = async (prevOps: Array<MutationOp>) => {
+
+            const attestOp = new KeyAttestationOp(genesisOp, rotationOp);
+            attestOp.setPrevOps(prevOps.values());
+            attestOp.setLastSignature(await keys[0].sign(attestOp.hash()));
+
+            const context = attestOp.toContext();
+
+            context.objects.clear();
+            context.resources = await Resources.create({store: store});
+
+            for (const prevOp of prevOps) {
+                context.objects.set(prevOp.hash(), await store.loadWithoutMutations(prevOp.hash()) as MutationOp);
+            }
+
+            return HashedObject.fromContextWithValidation(context, attestOp.hash());
+        };
+
+        await expect(receive(lastOps)).rejects.toThrow();
+
+        // the same attestation, concurrent to the rotation, is fine
+
+        expect(await receive([genesisOp])).toBeInstanceOf(KeyAttestationOp);
+
+        done();
+    });
+});
@@ -0,0 +1,187 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { Identity, RSAKeyPair } from 'data/identity';
+import { CausalMap, CausalSet } from 'data/collections';
+
+import { Store } from 'storage/store';
+import { IdbBackend, MemoryBackend } from 'storage/backends';
+
+describeProxy('[CMP] Causal maps', () => {
+
+    test('[CMP01] Causal map set and delete', async (done) => {
+
+        let m = new CausalMap<string, number>({acceptedTypes: ['number']});
+
+        expect (m.get('a')).toBeUndefined();
+        expect (m.size()).toEqual(0);
+
+        await m.set('a', 1);
+        await m.set('b', 2);
+
+        expect (m.get('a')).toEqual(1);
+        expect (m.get('b')).toEqual(2);
+        expect (m.size()).toEqual(2);
+
+        await m.set('a', 3);
+
+        expect (m.get('a')).toEqual(3);
+        expect (m.size()).toEqual(2);
+
+        expect (await m.delete('a')).toBeTruthy();
+
+        expect (m.has('a')).toBeFalsy();
+        expect (m.get('a')).toBeUndefined();
+        expect (Array.from(m.keys())).toEqual(['b']);
+
+        expect (await m.delete('a')).toBeFalsy();
+
+        await m.set('a', 4);
+
+        expect (m.get('a')).toEqual(4);
+        expect (Array.from(m.entries()).sort()).toEqual([['a', 4], ['b', 2]]);
+
+        await expect(m.set('c', 'not a number' as any)).rejects.toThrow();
+
+        done();
+    });
+
+    test('[CMP02] Causal map concurrent writes', async (done) => {
+
+        let store = new Store(new MemoryBackend('CMP02 - ' + new RNGImpl().randomHexString(128)));
+
+        let m = new CausalMap<string, string>();
+
+        await store.save(m);
+
+        let m1 = await store.load(m.hash()) as CausalMap<string, string>;
+        let m2 = await store.load(m.hash()) as CausalMap<string, string>;
+
+        await m1.set('k', 'one');
+        await m2.set('k', 'two');
+
+        await m1.save();
+        await m2.save();
+
+        let r1 = await store.load(m.hash()) as CausalMap<string, string>;
+        let r2 = await store.load(m.hash()) as CausalMap<string, string>;
+
+        expect (['one', 'two'].indexOf(r1.get('k') as string) >= 0).toBeTruthy();
+        expect (r1.get('k')).toEqual(r2.get('k'));
+
+        // a delete based on both concurrent sets removes the key
+        await r1.delete('k');
+        await r1.save();
+
+        let r3 = await store.load(m.hash()) as CausalMap<string, string>;
+
+        expect (r3.has('k')).toBeFalsy();
+
+        done();
+    });
+
+    test('[CMP03] Causal map undo', async (done) => {
+
+        let store = new Store(new IdbBackend('CMP03 - ' + new RNGImpl().randomHexString(128)));
+
+        let kp0 = await RSAKeyPair.generate(2048);
+        let i0  = Identity.fromKeyPair({}, kp0);
+
+        await store.save(kp0);
+        await store.save(i0);
+
+        let kp1 = await RSAKeyPair.generate(2048);
+        let i1  = Identity.fromKeyPair({}, kp1);
+
+        await store.save(kp1);
+        await store.save(i1);
+
+        let mutWriters = new CausalSet<Identity>({writer: i0, acceptedTypes: [Identity.className]});
+        let map        = new CausalMap<string, string>({mutableWriters: mutWriters});
+
+        await store.save(mutWriters);
+        await store.save(map);
+
+        expect (await map.canSet('k', 'v', i1)).toBeFalsy();
+
+        await mutWriters.add(i1, i0);
+        await mutWriters.save();
+
+        expect (await map.canSet('k', 'v', i1)).toBeTruthy();
+        expect (await map.canDelete('k', i1)).toBeTruthy();
+
+        await map.set('k', '1', i1);
+        await map.save();
+
+        let mutWritersClone = await store.load(mutWriters.hash()) as CausalSet<Identity>;
+
+        await map.set('k', '2', i1);
+        await map.set('j', '3', i1);
+        await map.save();
+
+        expect (map.get('k')).toEqual('2');
+        expect (map.get('j')).toEqual('3');
+
+        await mutWritersClone.delete(i1, i0);
+        await mutWritersClone.save();
+
+        let mapClone = await store.load(map.hash()) as CausalMap<string, string>;
+
+        expect (mapClone.get('k')).toEqual('1');
+        expect (mapClone.has('j')).toBeFalsy();
+
+        done();
+    });
+
+    test('[CMP04] Causal map membership attestation', async (done) => {
+
+        let store = new Store(new IdbBackend('CMP04 - ' + new RNGImpl().randomHexString(128)));
+
+        let kp0 = await RSAKeyPair.generate(2048);
+        let i0  = Identity.fromKeyPair({}, kp0);
+
+        await store.save(kp0);
+        await store.save(i0);
+
+        let kp1 = await RSAKeyPair.generate(2048);
+        let i1  = Identity.fromKeyPair({}, kp1);
+
+        await store.save(kp1);
+        await store.save(i1);
+
+        // the keys of the map are the writers of the set
+
+        let roles = new CausalMap<Identity, string>({writer: i0, acceptedTypes: ['string']});
+        let s     = new CausalSet<string>({mutableWriters: roles, acceptedTypes: ['string']});
+
+        await store.save(roles);
+        await store.save(s);
+
+        await roles.set(i1, 'editor', i0);
+        await roles.save();
+
+        let rolesClone = await store.load(roles.hash()) as CausalMap<Identity, string>;
+
+        expect (await roles.createMembershipAuthorizer(i0).attempt()).toBeFalsy();
+        await expect (s.add('hi', i0)).rejects.toThrow();
+
+        await s.add('hi', i1);
+        await roles.save();
+        await s.save();
+
+        let sClone = await store.load(s.hash()) as CausalSet<string>;
+
+        expect (sClone.has('hi')).toBeTruthy();
+
+        // deleting the key without having seen the attestation undoes the addition
+
+        await rolesClone.delete(i1, i0);
+        await rolesClone.save();
+
+        sClone = await store.load(s.hash()) as CausalSet<string>;
+
+        expect (sClone.has('hi')).toBeFalsy();
+
+        done();
+    });
+
+});
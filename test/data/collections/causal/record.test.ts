@@ -0,0 +1,127 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { Identity, RSAKeyPair } from 'data/identity';
+import { CausalRecord, CausalSet, MutableSet, RecordSchema } from 'data/collections';
+import { Authorization, ClassRegistry, MutationEvent } from 'data/model';
+
+import { Store } from 'storage/store';
+import { IdbBackend } from 'storage/backends';
+
+class Profile extends CausalRecord {
+
+    static className = 'test/CausalRecord/Profile';
+
+    static schema: RecordSchema = {
+        name : { types: ['string'] },
+        age  : { types: ['number'] },
+        bio  : { types: ['string'], authorizer: (record: CausalRecord, _value?: any, author?: Identity) =>
+                        (author !== undefined && author.equals(record.getAuthor())) ? Authorization.always : Authorization.never },
+        tags : { types: [MutableSet.className] }
+    };
+
+    constructor(config?: any) {
+        super(Profile.schema, config);
+    }
+
+    getClassName() {
+        return Profile.className;
+    }
+}
+
+ClassRegistry.register(Profile.className, Profile);
+
+describeProxy('[CRC] Causal records', () => {
+
+    test('[CRC01] Causal record fields and events', async (done) => {
+
+        let p = new Profile();
+
+        expect (p.getField('name')).toBeUndefined();
+
+        await p.setField('name', 'alice');
+        await p.setField('age', 30);
+        await p.setField('name', 'alicia');
+
+        expect (p.getFields()).toEqual({name: 'alicia', age: 30});
+
+        await expect (p.setField('age', 'thirty')).rejects.toThrow();
+        await expect (p.setField('nickname', 'al')).rejects.toThrow();
+
+        const events: Array<MutationEvent> = [];
+
+        p.cascadeMutableContentEvents();
+        p.addObserver((ev: MutationEvent) => { events.push(ev); });
+
+        const tags = new MutableSet<string>();
+
+        await p.setField('tags', tags);
+
+        expect (events.length).toEqual(2);
+        expect (events[0].action).toEqual('update');
+        expect (events[0].data.field).toEqual('tags');
+
+        await tags.add('friendly');
+
+        expect (events.length).toEqual(3);
+        expect (events[2].emitter).toBe(tags);
+        expect (events[2].data).toEqual('friendly');
+
+        done();
+    });
+
+    test('[CRC02] Causal record per-field authorization and undo', async (done) => {
+
+        let store = new Store(new IdbBackend('CRC02 - ' + new RNGImpl().randomHexString(128)));
+
+        let kp0 = await RSAKeyPair.generate(2048);
+        let i0  = Identity.fromKeyPair({}, kp0);
+
+        await store.save(kp0);
+        await store.save(i0);
+
+        let kp1 = await RSAKeyPair.generate(2048);
+        let i1  = Identity.fromKeyPair({}, kp1);
+
+        await store.save(kp1);
+        await store.save(i1);
+
+        let mutWriters = new CausalSet<Identity>({writer: i0, acceptedTypes: [Identity.className]});
+        let profile    = new Profile({mutableWriters: mutWriters});
+
+        profile.setAuthor(i0);
+
+        await store.save(mutWriters);
+        await store.save(profile);
+
+        await mutWriters.add(i1, i0);
+        await mutWriters.save();
+
+        expect (await profile.canSetField('name', 'bob', i1)).toBeTruthy();
+        expect (await profile.canSetField('bio', 'hi', i1)).toBeFalsy();
+        expect (await profile.canSetField('bio', 'hi', i0)).toBeTruthy();
+
+        await expect (profile.setField('bio', 'hi', i1)).rejects.toThrow();
+
+        await profile.setField('bio', 'hi', i0);
+        await profile.setField('name', 'bob', i1);
+        await profile.save();
+
+        let mutWritersClone = await store.load(mutWriters.hash()) as CausalSet<Identity>;
+
+        await profile.setField('name', 'robert', i1);
+        await profile.save();
+
+        expect (profile.getField('name')).toEqual('robert');
+
+        await mutWritersClone.delete(i1, i0);
+        await mutWritersClone.save();
+
+        let profileClone = await store.load(profile.hash()) as Profile;
+
+        expect (profileClone.getField('name')).toEqual('bob');
+        expect (profileClone.getField('bio')).toEqual('hi');
+
+        done();
+    });
+
+});
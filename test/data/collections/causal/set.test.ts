@@ -1,9 +1,14 @@
 import { describeProxy } from 'config';
 import { RNGImpl } from 'crypto/random';
-import { CausalSet } from 'data/collections';
+import { CausalSet, CausalSetAddOp, CausalSetMembershipAttestationOp } from 'data/collections';
+import { BaseCollection } from 'data/collections/mutable/Collection';
 import { Identity, RSAKeyPair } from 'data/identity';
-import { IdbBackend } from 'storage/backends';
+import { HashedObject, MutationOp } from 'data/model';
+import { EvictionWindow } from 'data/collections/mutable/EvictionWindow';
+import { IdbBackend, MemoryBackend } from 'storage/backends';
 import { Store } from 'storage/store';
+import { Resources } from 'spaces/spaces';
+import { HybridClock } from 'util/timestamps';
 
 describeProxy('[CST] Causal sets', () => {
     
@@ -240,4 +245,152 @@ describeProxy('[CST] Causal sets', () => {
 
     }, 20000);
 
-});
\ No newline at end of file
+    test('[CST04] Causal set with a capacity', async (done) => {
+        let store = new Store(new IdbBackend('CST04 - ' + new RNGImpl().randomHexString(128)));
+
+        let s = new CausalSet<string>({capacity: {maxElements: 3}});
+
+        await store.save(s);
+
+        let s1 = await store.load(s.hash()) as CausalSet<string>;
+        let s2 = await store.load(s.hash()) as CausalSet<string>;
+
+        await s1.add('a');
+        await s1.add('b');
+        await s1.add('c');
+        await s1.delete('b');
+        await s1.add('d');
+
+        // the deleted addition of 'b' still takes its place in the window
+        expect (s1.has('a')).toBeFalsy();
+        expect (new Set(s1.values())).toEqual(new Set(['c', 'd']));
+
+        await s2.add('e');
+        await s2.add('f');
+
+        await s1.save();
+        await s2.save();
+
+        await s1.loadAllChanges();
+        await s2.loadAllChanges();
+
+        expect (new Set(s1.values())).toEqual(new Set(s2.values()));
+        expect (s1.size()).toBeLessThanOrEqual(3);
+
+        expect (() => new CausalSet<string>({capacity: {maxElements: 0}})).toThrow();
+
+        done();
+    });
+
+    test('[CST05] Causal sets with a capacity cannot attest membership', async (done) => {
+        let store = new Store(new IdbBackend('CST05 - ' + new RNGImpl().randomHexString(128)));
+
+        let kp0 = await RSAKeyPair.generate(2048);
+        let i0  = Identity.fromKeyPair({}, kp0);
+
+        await store.save(kp0);
+        await store.save(i0);
+
+        // an addition to a set with a capacity may be evicted at any time, and since evictions are
+        // not ops, nothing would invalidate the ops it had attested for
+
+        let capped   = new CausalSet<Identity>({writer: i0, acceptedTypes: [Identity.className], capacity: {maxElements: 1}});
+        let uncapped = new CausalSet<Identity>({writer: i0, acceptedTypes: [Identity.className]});
+
+        for (const writers of [capped, uncapped]) {
+            await store.save(writers);
+            await writers.add(i0, i0);
+            await writers.save();
+        }
+
+        let s = new CausalSet<string>({mutableWriters: capped, acceptedTypes: ['string']});
+        await store.save(s);
+
+        expect (capped.has(i0)).toBeTruthy();
+        await expect (s.add('hi', i0)).rejects.toThrow();
+        expect (s.has('hi')).toBeFalsy();
+
+        // a crafted attestation is not accepted either (but the same one is, for a set without capacity)
+
+        const craft = async (writers: CausalSet<Identity>) => {
+            const addOp = (await store.loadAllOps(writers.hash())).find((op: MutationOp) => op instanceof CausalSetAddOp) as CausalSetAddOp<Identity>;
+
+            const op = new CausalSetAddOp(s, 'hi', i0);
+            op.setPrevOps(new Array<MutationOp>().values());
+
+            const attestOp = new CausalSetMembershipAttestationOp(addOp, op);
+            attestOp.setPrevOps([addOp].values());
+            op.addCausalOp(writers.attestationKeyByHash(i0.hash()), attestOp);
+
+            return [op, attestOp];
+        };
+
+        for (const [writers, accepted] of [[capped, false], [uncapped, true]] as Array<[CausalSet<Identity>, boolean]>) {
+            const [op, attestOp] = await craft(writers);
+
+            expect (writers.verifyMembershipAttestationForOp(i0, op, new Set())).toEqual(accepted);
+            expect (writers.shouldAcceptMutationOp(attestOp, new Map())).toEqual(accepted);
+        }
+
+        done();
+    }, 20000);
+
+    test('[CST06] Insertions into a set with a capacity cannot be stamped far ahead of their causal past', async (done) => {
+        let store = new Store(new MemoryBackend('CST06 - ' + new RNGImpl().randomHexString(128)));
+
+        let s = new CausalSet<string>({capacity: {maxAge: 60 * 60 * 1000}});
+        await store.save(s);
+
+        await s.add('a');
+        await s.add('b');
+        await s.delete('b');
+        await s.save();
+
+        // the last op is a deletion: the bound comes from the addition of 'b', before it
+        const lastOps = Array.from(s._terminalOps.values());
+        const addB    = (await store.loadAllOps(s.hash())).find((op: MutationOp) => op instanceof CausalSetAddOp && op.getElement() === 'b') as CausalSetAddOp<string>;
+        const latest  = HybridClock.parse(addB.timestamp as string).physical;
+
+        // received the way it would be when syncing: the op's literals, plus its prevOps from the store
+        const receive = async (element: string, timestamp: string) => {
+
+            const op = new CausalSetAddOp(s, element, undefined, timestamp);
+            op.setPrevOps(lastOps.values());
+
+            const context = op.toContext();
+
+            context.objects.clear();
+            context.resources = await Resources.create({store: store});
+
+            for (const prevOp of lastOps) {
+                context.objects.set(prevOp.hash(), await store.loadWithoutMutations(prevOp.hash()) as MutationOp);
+            }
+
+            return HashedObject.fromContextWithValidation(context, op.hash());
+        };
+
+        // a year ahead: it would evict everything else, it's rejected
+        await expect(receive('from the future', HybridClock.encode(latest + 365 * 24 * 60 * 60 * 1000, 0))).rejects.toThrow();
+
+        // within the bound it's fine
+        const accepted = await receive('a bit ahead', HybridClock.encode(latest + EvictionWindow.maxAdvance, 0)) as CausalSetAddOp<string>;
+        expect(accepted).toBeInstanceOf(CausalSetAddOp);
+
+        await store.save(accepted);
+        await s.loadAllChanges();
+
+        expect (new Set(s.values())).toEqual(new Set(['a', 'a bit ahead']));
+
+        // new additions are stamped within the bound too, even if they follow one that is ahead
+        await s.add('c');
+        await s.save();
+
+        const addC = (await store.loadAllOps(s.hash())).find((op: MutationOp) => op instanceof CausalSetAddOp && op.getElement() === 'c') as CausalSetAddOp<string>;
+
+        expect(await BaseCollection.checkCapacityTimestamp(addC, addC.timestamp as string, new Map())).toBeTruthy();
+        expect(EvictionWindow.clampAdvance(HybridClock.encode(latest + 2 * EvictionWindow.maxAdvance + 1, 0), accepted.timestamp)).toEqual(HybridClock.encode(latest + 2 * EvictionWindow.maxAdvance, 0));
+
+        done();
+    }, 20000);
+
+});
@@ -0,0 +1,214 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { Identity, RSAKeyPair } from 'data/identity';
+import { CausalTree, CausalTreeCreateOp, CausalTreeNodeId } from 'data/collections';
+import { Authorization, Authorizer, ClassRegistry, Context, HashedObject, MutationOp } from 'data/model';
+import { HybridClock } from 'util/timestamps';
+
+import { Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
+
+// only the owner of the tree can delete nodes
+class OwnedTree extends CausalTree {
+
+    static className = 'test/CausalTree/OwnedTree';
+
+    getClassName() {
+        return OwnedTree.className;
+    }
+
+    protected createDeleteAuthorizer(_node?: CausalTreeNodeId, author?: Identity): Authorizer {
+        return (author !== undefined && author.equals(this.getAuthor()))? Authorization.always : Authorization.never;
+    }
+}
+
+ClassRegistry.register(OwnedTree.className, OwnedTree);
+
+describeProxy('[CTR] Causal trees', () => {
+
+    test('[CTR01] Causal tree create, move and delete', async (done) => {
+
+        let t = new CausalTree();
+
+        const docs  = await t.create(CausalTree.rootId, 'docs');
+        const pics  = await t.create(CausalTree.rootId, 'pics');
+        const notes = await t.create(docs, 'notes.txt');
+        const cat   = await t.create(pics, 'cat.png');
+
+        expect (t.getChildren()).toEqual([docs, pics]);
+        expect (t.getChildren(docs)).toEqual([notes]);
+        expect (t.getValue(cat)).toEqual('cat.png');
+        expect (t.size()).toEqual(4);
+
+        await t.move(pics, docs);
+
+        expect (t.getChildren()).toEqual([docs]);
+        expect (t.getChildren(docs)).toEqual([pics, notes]);
+        expect (t.getPath(cat)).toEqual([CausalTree.rootId, docs, pics, cat]);
+
+        await expect (t.move(docs, pics)).rejects.toThrow();
+        await expect (t.move(docs, docs)).rejects.toThrow();
+
+        expect (await t.delete(pics)).toBeTruthy();
+
+        expect (t.has(pics)).toBeFalsy();
+        expect (t.has(cat)).toBeFalsy();
+        expect (t.getChildren(docs)).toEqual([notes]);
+        expect (t.size()).toEqual(2);
+
+        expect (await t.delete(cat)).toBeFalsy();
+
+        done();
+    });
+
+    test('[CTR02] Causal tree concurrent moves', async (done) => {
+
+        let store = new Store(new MemoryBackend('CTR02 - ' + new RNGImpl().randomHexString(128)));
+
+        let t = new CausalTree();
+
+        await store.save(t);
+
+        const a = await t.create(CausalTree.rootId, 'a');
+        const b = await t.create(CausalTree.rootId, 'b');
+        const c = await t.create(a, 'c');
+
+        await t.save();
+
+        let t1 = await store.load(t.hash()) as CausalTree;
+        let t2 = await store.load(t.hash()) as CausalTree;
+
+        // each move is fine on its own, but together they would make a cycle
+
+        await t1.move(a, b);
+        await t2.move(b, c);
+
+        await t1.save();
+        await t2.save();
+
+        await t1.loadAllChanges();
+        await t2.loadAllChanges();
+
+        for (const r of [t1, t2]) {
+            expect (r.size()).toEqual(3);
+
+            for (const node of [a, b, c]) {
+                expect (r.has(node)).toBeTruthy();
+                expect (r.getPath(node)[0]).toEqual(CausalTree.rootId);
+            }
+        }
+
+        for (const node of [a, b, c]) {
+            expect (t1.getParent(node)).toEqual(t2.getParent(node));
+        }
+
+        // exactly one of the moves made it
+
+        expect ((t1.getParent(a) === b) !== (t1.getParent(b) === c)).toBeTruthy();
+
+        done();
+    });
+
+    test('[CTR03] Causal tree per-node authorization', async (done) => {
+
+        let store = new Store(new MemoryBackend('CTR03 - ' + new RNGImpl().randomHexString(128)));
+
+        let kp0 = await RSAKeyPair.generate(2048);
+        let i0  = Identity.fromKeyPair({}, kp0);
+
+        await store.save(kp0);
+        await store.save(i0);
+
+        let kp1 = await RSAKeyPair.generate(2048);
+        let i1  = Identity.fromKeyPair({}, kp1);
+
+        await store.save(kp1);
+        await store.save(i1);
+
+        let t = new OwnedTree({writers: [i0, i1].values()});
+
+        t.setAuthor(i0);
+
+        await store.save(t);
+
+        const n = await t.create(CausalTree.rootId, 'n', i1);
+
+        expect (await t.canCreate(n, undefined, i1)).toBeTruthy();
+        expect (await t.canDelete(n, i1)).toBeFalsy();
+        expect (await t.canDelete(n, i0)).toBeTruthy();
+
+        await expect (t.delete(n, i1)).rejects.toThrow();
+
+        expect (t.has(n)).toBeTruthy();
+
+        await t.delete(n, i0);
+        await t.save();
+
+        let clone = await store.load(t.hash()) as OwnedTree;
+
+        expect (clone.has(n)).toBeFalsy();
+
+        done();
+    });
+
+    test('[CTR04] Causal tree op timestamps are validated', async (done) => {
+
+        let store = new Store(new MemoryBackend('CTR04 - ' + new RNGImpl().randomHexString(128)));
+
+        let t = new CausalTree();
+
+        await store.save(t);
+
+        const docs = await t.create(CausalTree.rootId, 'docs');
+        await t.save();
+
+        const first  = (await store.loadAllOps(t.hash()))[0] as CausalTreeCreateOp;
+        const parsed = HybridClock.parse(first.getTimestamp());
+
+        const received = (timestamp: string) => {
+
+            const op = new CausalTreeCreateOp(t, new RNGImpl().randomHexString(128), docs, 'notes.txt', timestamp);
+            op.setPrevOps([first as MutationOp].values());
+
+            const context = new Context();
+
+            for (const obj of [first, op]) {
+                for (const [hash, literal] of obj.toContext().literals.entries()) {
+                    context.literals.set(hash, literal);
+                }
+            }
+
+            return HashedObject.fromContextWithValidation(context, op.hash());
+        };
+
+        expect (await received(HybridClock.encode(parsed.physical, parsed.counter + 1))).toBeInstanceOf(CausalTreeCreateOp);
+
+        // the child would be ordered before the creation of its parent
+        await expect (received(HybridClock.encode(parsed.physical - 1000, 0))).rejects.toThrow();
+        await expect (received(first.getTimestamp())).rejects.toThrow();
+
+        // a far future op is valid regardless of the local clock, but the tree's clock won't follow
+        // it past the drift bound: only the ops that have seen it come after it
+
+        const farAhead = await received(HybridClock.encode(Date.now() + HybridClock.maxDrift + 60 * 1000, 0)) as CausalTreeCreateOp;
+
+        await store.save(farAhead);
+        await t.loadAllChanges();
+
+        expect (t.has(farAhead.getNode())).toBeTruthy();
+        expect (t._clock.physical).toBeLessThanOrEqual(Date.now() + HybridClock.maxDrift);
+
+        await t.move(farAhead.getNode(), CausalTree.rootId);
+        await t.save();
+
+        expect (t.getParent(farAhead.getNode())).toEqual(CausalTree.rootId);
+        expect (t._clock.physical).toBeLessThanOrEqual(Date.now() + HybridClock.maxDrift);
+
+        const reloaded = await store.load(t.hash()) as CausalTree;
+
+        expect (reloaded.getParent(farAhead.getNode())).toEqual(CausalTree.rootId);
+
+        done();
+    });
+
+});
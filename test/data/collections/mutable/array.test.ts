@@ -0,0 +1,173 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { MutableArray } from 'data/collections';
+
+import { Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
+
+describeProxy('[ARR] Mutable arrays', () => {
+
+    test('[ARR01] Indexed lookup, slicing and random inserts / deletes', async (done) => {
+
+        let a = new MutableArray<number>();
+        let expected: Array<number> = [];
+
+        let elements: Array<number> = [];
+
+        for (let i=0; i<2000; i++) {
+            elements.push(i);
+        }
+
+        await a.concat(elements);
+        expected = expected.concat(elements);
+
+        expect (a.size()).toEqual(2000);
+        expect (a.lookup(0)).toEqual(0);
+        expect (a.lookup(1234)).toEqual(1234);
+        expect (a.lookup(2000)).toBeUndefined();
+        expect (a.indexOf(1999)).toEqual(1999);
+        expect (a.indexOf(-1)).toEqual(-1);
+        expect (a.slice(100, 105)).toEqual([100, 101, 102, 103, 104]);
+        expect (a.slice(-3)).toEqual([1997, 1998, 1999]);
+
+        const rng = new RNGImpl();
+
+        for (let i=0; i<200; i++) {
+            const idx = parseInt(rng.randomHexString(32), 16) % (expected.length + 1);
+
+            if (i % 3 === 2) {
+                const delIdx = Math.min(idx, expected.length - 1);
+                await a.deleteAt(delIdx);
+                expected.splice(delIdx, 1);
+            } else {
+                await a.insertAt(2000 + i, idx);
+                expected.splice(idx, 0, 2000 + i);
+            }
+        }
+
+        expect (a.contents()).toEqual(expected);
+        expect (a.slice(500, 600)).toEqual(expected.slice(500, 600));
+
+        for (const idx of [0, 17, 333, expected.length - 1]) {
+            expect (a.lookup(idx)).toEqual(expected[idx]);
+            expect (a.indexOf(expected[idx])).toEqual(idx);
+        }
+
+        let c = a.cursor(1000);
+        let paged: Array<number> = [];
+
+        while (c.hasNext()) {
+            paged = paged.concat(c.next(64));
+        }
+
+        expect (paged).toEqual(expected.slice(1000));
+
+        done();
+    });
+
+    test('[ARR02] Cursor is stable while concurrent inserts arrive', async (done) => {
+
+        let store = new Store(new MemoryBackend('ARR02 - ' + new RNGImpl().randomHexString(128)));
+
+        let a = new MutableArray<string>();
+
+        await store.save(a);
+
+        let a1 = await store.load(a.hash()) as MutableArray<string>;
+        let a2 = await store.load(a.hash()) as MutableArray<string>;
+
+        await a1.concat(['a', 'b', 'c', 'd', 'e']);
+        await a1.save();
+
+        await a2.loadAllChanges();
+
+        let c = a1.cursor(2);
+
+        expect (c.next()).toEqual(['c']);
+        expect (c.getIndex()).toEqual(3);
+
+        // another replica inserts before and after the cursor, and deletes the element just before it
+
+        await a2.insertAt('x', 0);
+        await a2.insertAt('y', 1);
+        await a2.deleteAt(4);
+        await a2.push('z');
+        await a2.save();
+
+        await a1.loadAllChanges();
+
+        expect (a1.contents()).toEqual(['x', 'y', 'a', 'b', 'd', 'e', 'z']);
+        expect (c.getIndex()).toEqual(4);
+        expect (c.peek()).toEqual('d');
+        expect (c.next(10)).toEqual(['d', 'e', 'z']);
+        expect (c.hasNext()).toBeFalsy();
+
+        done();
+    });
+
+    test('[ARR03] Positions without duplicates', async (done) => {
+
+        let a = new MutableArray<string>({duplicates: false});
+
+        await a.concat(['a', 'b', 'c']);
+        await a.insertAt('a', 2);
+
+        expect (a.contents()).toEqual(['b', 'c', 'a']);
+        expect (a.size()).toEqual(3);
+        expect (a.indexOf('a')).toEqual(2);
+        expect (a.lookup(0)).toEqual('b');
+
+        await a.insertAt('c', 0);
+
+        expect (a.contents()).toEqual(['c', 'b', 'a']);
+        expect (a.slice(1)).toEqual(['b', 'a']);
+
+        done();
+    });
+
+    test('[ARR04] Arrays with a capacity', async (done) => {
+
+        let store = new Store(new MemoryBackend('ARR04 - ' + new RNGImpl().randomHexString(128)));
+
+        let a = new MutableArray<number>({duplicates: true, capacity: {maxElements: 3}});
+
+        await store.save(a);
+
+        let a1 = await store.load(a.hash()) as MutableArray<number>;
+        let a2 = await store.load(a.hash()) as MutableArray<number>;
+
+        await a1.concat([1, 2, 3, 4, 5]);
+
+        expect (a1.contents()).toEqual([3, 4, 5]);
+
+        await a2.push(6);
+        await a2.insertAt(7, 0);
+
+        expect (a2.contents()).toEqual([7, 6]);
+
+        await a1.save();
+        await a2.save();
+
+        await a1.loadAllChanges();
+        await a2.loadAllChanges();
+
+        // both replicas keep the same 3 most recent insertions (3 had already been evicted by a1)
+
+        expect (a1.contents()).toEqual(a2.contents());
+        expect (a1.size()).toEqual(3);
+        expect (a1.contents().indexOf(3)).toEqual(-1);
+
+        // checkpoints only carry the window
+
+        const state = a1.exportMutableState();
+
+        expect (Object.keys(state._currentInsertOpOrds).length).toEqual(3);
+
+        let r = new MutableArray<number>({duplicates: true, capacity: {maxElements: 3}});
+        r.importMutableState(state);
+
+        expect (r.contents()).toEqual(a1.contents());
+
+        done();
+    });
+});
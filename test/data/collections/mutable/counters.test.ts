@@ -0,0 +1,107 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { Identity, RSAKeyPair } from 'data/identity';
+import { GrowOnlyCounter, PNCounter } from 'data/collections';
+
+import { Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
+
+describeProxy('[CNT] Counters', () => {
+
+    test('[CNT01] Grow-only counter', async (done) => {
+
+        let store = new Store(new MemoryBackend('CNT01 - ' + new RNGImpl().randomHexString(128)));
+
+        let kp = await RSAKeyPair.generate(2048);
+        let i  = Identity.fromKeyPair({}, kp);
+
+        await store.save(kp);
+        await store.save(i);
+
+        let c = new GrowOnlyCounter();
+
+        await store.save(c);
+
+        let c1 = await store.load(c.hash()) as GrowOnlyCounter;
+        let c2 = await store.load(c.hash()) as GrowOnlyCounter;
+
+        await c1.increment();
+        await c1.increment(2, i);
+        await c2.increment(5);
+
+        expect (c1.getValue()).toEqual(3);
+        expect (c2.getValue()).toEqual(5);
+
+        expect (() => c1.increment(0)).toThrow();
+        expect (() => c1.increment(-1)).toThrow();
+        expect (() => c1.increment(1.5)).toThrow();
+
+        await c1.save();
+        await c2.save();
+
+        await c1.loadAllChanges();
+
+        expect (c1.getValue()).toEqual(8);
+        expect (c1.getValueForAuthor(i)).toEqual(2);
+        expect (c1.getValueForAuthor()).toEqual(6);
+
+        let r = await store.load(c.hash()) as GrowOnlyCounter;
+
+        expect (r.getValue()).toEqual(8);
+
+        const checkpoint = await r.saveCheckpoint();
+
+        await r.increment(10);
+        await r.save();
+
+        expect (r.getValue()).toEqual(18);
+
+        await r.restoreCheckpoint(checkpoint);
+
+        expect (r.getValue()).toEqual(8);
+        expect (r.getValueForAuthor(i)).toEqual(2);
+
+        done();
+    });
+
+    test('[CNT02] PN counter', async (done) => {
+
+        let store = new Store(new MemoryBackend('CNT02 - ' + new RNGImpl().randomHexString(128)));
+
+        let c = new PNCounter();
+
+        await store.save(c);
+
+        let c1 = await store.load(c.hash()) as PNCounter;
+        let c2 = await store.load(c.hash()) as PNCounter;
+
+        await c1.increment(3);
+        await c2.decrement(5);
+        await c2.increment();
+
+        expect (c1.getValue()).toEqual(3);
+        expect (c2.getValue()).toEqual(-4);
+
+        expect (() => c2.decrement(0)).toThrow();
+
+        await c1.save();
+        await c2.save();
+
+        await c2.loadAllChanges();
+
+        expect (c2.getValue()).toEqual(-1);
+
+        let r = await store.load(c.hash()) as PNCounter;
+
+        expect (r.getValue()).toEqual(-1);
+
+        const clone = new PNCounter();
+        clone.importMutableState(r.exportMutableState());
+
+        expect (clone.getValue()).toEqual(-1);
+        expect (clone.getValueForAuthor()).toEqual(-1);
+
+        done();
+    });
+
+});
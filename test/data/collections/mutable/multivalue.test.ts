@@ -0,0 +1,58 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { MultiValueRegister } from 'data/collections';
+
+import { Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
+
+describeProxy('[MVR] Multi-value registers', () => {
+
+    test('[MVR01] Multi-value register concurrent writes', async (done) => {
+
+        let store = new Store(new MemoryBackend('MVR01 - ' + new RNGImpl().randomHexString(128)));
+
+        let r = new MultiValueRegister<string>();
+
+        await r.setValue('zero');
+
+        expect (r.getValues()).toEqual(['zero']);
+
+        await store.save(r);
+
+        let r1 = await store.load(r.hash()) as MultiValueRegister<string>;
+        let r2 = await store.load(r.hash()) as MultiValueRegister<string>;
+        let r3 = await store.load(r.hash()) as MultiValueRegister<string>;
+
+        await r1.setValue('one');
+        await r2.setValue('two');
+        await r2.setValue('two, again');
+
+        expect (r1.getValues()).toEqual(['one']);
+        expect (r2.getValues()).toEqual(['two, again']);
+
+        await r1.save();
+        await r2.save();
+
+        await r1.loadAllChanges();
+        await r2.loadAllChanges();
+
+        expect (r1.hasConflicts()).toBeTruthy();
+        expect (r1.getValues()).toEqual(r2.getValues());
+        expect (new Set(r1.getValues())).toEqual(new Set(['one', 'two, again']));
+
+        // a write that has observed both values supersedes them
+
+        await r1.setValue('merged');
+        await r1.save();
+
+        await r3.setValue('offline');
+        await r3.save();
+
+        await r2.loadAllChanges();
+
+        expect (new Set(r2.getValues())).toEqual(new Set(['merged', 'offline']));
+
+        done();
+    });
+
+});
@@ -0,0 +1,169 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { LWWRegister, LWWRegisterSetOp } from 'data/collections';
+import { Context, HashedObject, MutationOp } from 'data/model';
+import { HybridClock } from 'util/timestamps';
+
+import { Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
+
+describeProxy('[LWW] Last-writer-wins registers', () => {
+
+    test('[LWW01] Hybrid clock ordering', () => {
+
+        const clock = new HybridClock();
+
+        const t1 = clock.now();
+        const t2 = clock.now();
+
+        expect (HybridClock.isTimestamp(t1)).toBeTruthy();
+        expect (t1 < t2).toBeTruthy();
+
+        const future = HybridClock.encode(Date.now() + HybridClock.maxDrift / 2, 7);
+
+        clock.update(future);
+
+        const t3 = clock.now();
+
+        expect (t3 > future).toBeTruthy();
+        expect (HybridClock.parse(t3).counter).toEqual(8);
+
+        // the clock is not dragged further than maxDrift ahead of the wall clock...
+
+        const farFuture = HybridClock.encode(Date.now() + 60 * 60 * 1000, 7);
+
+        clock.update(farFuture);
+
+        const t4 = clock.now();
+
+        expect (t4 > t3).toBeTruthy();
+        expect (t4 < farFuture).toBeTruthy();
+        expect (HybridClock.parse(t4).physical).toBeLessThanOrEqual(Date.now() + HybridClock.maxDrift);
+
+        // ...but it can still produce a timestamp that comes after it, when it must
+
+        const t5 = clock.nowAfter([farFuture, t4]);
+
+        expect (t5 > farFuture).toBeTruthy();
+        expect (HybridClock.parse(clock.now()).physical).toBeLessThanOrEqual(Date.now() + HybridClock.maxDrift);
+    });
+
+    test('[LWW02] Register set', async (done) => {
+
+        let r = new LWWRegister<string>({acceptedTypes: ['string']});
+
+        expect (r.getValue()).toBeUndefined();
+
+        await r.setValue('hi');
+
+        expect (r.getValue()).toEqual('hi');
+
+        await r.setValue('bye');
+
+        expect (r.getValue()).toEqual('bye');
+        expect (r.hasConflicts()).toBeFalsy();
+        expect (r.getConflictingValues()).toEqual(['bye']);
+
+        expect (() => r.setValue(1 as any)).toThrow();
+
+        done();
+    });
+
+    test('[LWW03] Register concurrent writes', async (done) => {
+
+        let store = new Store(new MemoryBackend('LWW03 - ' + new RNGImpl().randomHexString(128)));
+
+        let r = new LWWRegister<string>();
+
+        await store.save(r);
+
+        let r1 = await store.load(r.hash()) as LWWRegister<string>;
+        let r2 = await store.load(r.hash()) as LWWRegister<string>;
+
+        await r1.setValue('one');
+        await r2.setValue('two');
+
+        await r1.save();
+        await r2.save();
+
+        await r1.loadAllChanges();
+        await r2.loadAllChanges();
+
+        expect (r1.getValue()).toEqual(r2.getValue());
+        expect (r1.hasConflicts()).toBeTruthy();
+        expect (r1.getConflictingValues()).toEqual(r2.getConflictingValues());
+        expect (r1.getConflictingValues()[0]).toEqual(r1.getValue());
+        expect (new Set(r1.getConflictingValues())).toEqual(new Set(['one', 'two']));
+
+        await r1.setValue('three');
+        await r1.save();
+
+        await r2.loadAllChanges();
+
+        expect (r2.getValue()).toEqual('three');
+        expect (r2.hasConflicts()).toBeFalsy();
+
+        done();
+    });
+
+    test('[LWW04] Register write timestamps are validated', async (done) => {
+
+        let store = new Store(new MemoryBackend('LWW04 - ' + new RNGImpl().randomHexString(128)));
+
+        let r = new LWWRegister<string>();
+
+        await store.save(r);
+
+        await r.setValue('one');
+        await r.save();
+
+        const first = (await store.loadAllOps(r.hash()))[0] as LWWRegisterSetOp<string>;
+        const parsed = HybridClock.parse(first.getTimestamp());
+
+        const received = (value: string, timestamp: string) => {
+
+            const op = new LWWRegisterSetOp(r, value, timestamp);
+            op.setPrevOps([first as MutationOp].values());
+
+            const context = new Context();
+
+            for (const obj of [first, op]) {
+                for (const [hash, literal] of obj.toContext().literals.entries()) {
+                    context.literals.set(hash, literal);
+                }
+            }
+
+            return HashedObject.fromContextWithValidation(context, op.hash());
+        };
+
+        expect (await received('two', HybridClock.encode(parsed.physical, parsed.counter + 1))).toBeInstanceOf(LWWRegisterSetOp);
+
+        // a write can't go back in time to lose against the write it supersedes...
+        await expect (received('three', HybridClock.encode(parsed.physical - 1000, 0))).rejects.toThrow();
+        await expect (received('three', first.getTimestamp())).rejects.toThrow();
+
+        // a write far in the future is valid regardless of the local clock, but the register's clock
+        // won't follow it past the drift bound: only the writes that supersede it come after it
+
+        const farAhead = await received('four', HybridClock.encode(Date.now() + HybridClock.maxDrift + 60 * 1000, 0)) as LWWRegisterSetOp<string>;
+
+        await store.save(farAhead);
+        await r.loadAllChanges();
+
+        expect (r.getValue()).toEqual('four');
+        expect (r._clock.physical).toBeLessThanOrEqual(Date.now() + HybridClock.maxDrift);
+
+        await r.setValue('five');
+        await r.save();
+
+        expect (r.getValue()).toEqual('five');
+        expect (r._clock.physical).toBeLessThanOrEqual(Date.now() + HybridClock.maxDrift);
+
+        const reloaded = await store.load(r.hash()) as LWWRegister<string>;
+
+        expect (reloaded.getValue()).toEqual('five');
+
+        done();
+    });
+
+});
@@ -0,0 +1,101 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { MutableText } from 'data/collections';
+
+import { Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
+
+describeProxy('[TXT] Mutable text', () => {
+
+    test('[TXT01] Mutable text insert and delete', async (done) => {
+
+        let t = new MutableText();
+
+        expect (t.getText()).toEqual('');
+
+        await t.insertAt('hello world', 0);
+        await t.insertAt(',', 5);
+        await t.append('!');
+
+        expect (t.getText()).toEqual('hello, world!');
+        expect (t._runs.size).toEqual(3);
+
+        await t.insertAt('>> ', 0);
+
+        expect (t.getText()).toEqual('>> hello, world!');
+
+        await t.deleteRange(3, 7);
+
+        expect (t.getText()).toEqual('>> world!');
+        expect (t.length()).toEqual(9);
+
+        await t.insertAt('brave new ', 3);
+
+        expect (t.getText()).toEqual('>> brave new world!');
+
+        const pos = t.positionAt(13) as {op: string, index: number};
+
+        expect (t.offsetOf(pos)).toEqual(13);
+
+        await t.deleteRange(0, 3);
+
+        expect (t.getText()).toEqual('brave new world!');
+        expect (t.offsetOf(pos)).toEqual(10);
+
+        await t.deleteRange(10, 1);
+
+        expect (t.isDeleted(pos)).toBeTruthy();
+        expect (t.offsetOf(pos)).toEqual(10);
+
+        await expect (t.insertAt('x', 100)).rejects.toThrow();
+
+        const clone = new MutableText();
+        clone.importMutableState(t.exportMutableState());
+
+        expect (clone.getText()).toEqual(t.getText());
+
+        done();
+    });
+
+    test('[TXT02] Mutable text concurrent edits', async (done) => {
+
+        let store = new Store(new MemoryBackend('TXT02 - ' + new RNGImpl().randomHexString(128)));
+
+        let t = new MutableText();
+
+        await store.save(t);
+
+        await t.insertAt('the fox jumps', 0);
+        await t.save();
+
+        let t1 = await store.load(t.hash()) as MutableText;
+        let t2 = await store.load(t.hash()) as MutableText;
+
+        await t1.insertAt('quick ', 4);
+        await t2.insertAt('brown ', 4);
+        await t2.deleteRange(0, 4);
+        await t1.append(' high');
+        await t2.insertAt('big ', t2.length());
+
+        await t1.save();
+        await t2.save();
+
+        let r1 = await store.load(t.hash()) as MutableText;
+
+        // both concurrent insertions are kept whole, in some order
+
+        expect (['quick brown fox jumps high', 'brown quick fox jumps high'].indexOf(r1.getText().split('big ').join('')) >= 0).toBeTruthy();
+        expect (r1.getText().indexOf('the')).toEqual(-1);
+
+        // and every replica agrees on it
+
+        await t1.loadAllChanges();
+        await t2.loadAllChanges();
+
+        expect (t1.getText()).toEqual(r1.getText());
+        expect (t2.getText()).toEqual(r1.getText());
+
+        done();
+    });
+
+});
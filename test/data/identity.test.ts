@@ -1,7 +1,12 @@
-import { RSAPublicKey as _PK } from 'data/identity';
-import { HashedObject } from 'data/model';
+import { RSAPublicKey as _PK, Ed25519KeyPair, Identity, ThresholdIdentity, X25519KeyPair } from 'data/identity';
+import { MutableSet, MutableSetAddOp } from 'data/collections';
+import { HashedObject, Literal } from 'data/model';
 import { TestIdentity } from './types/TestIdentity';
+import { SomethingHashed } from './types/SomethingHashed';
 import { describeProxy } from '../config';
+import { RNGImpl } from 'crypto/random';
+import { Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
 
 describeProxy('[IDN] Identity', () => {
     test( '[IDN01] Basic identity', async () => {
@@ -31,4 +36,152 @@ describeProxy('[IDN] Identity', () => {
         
         expect(id.getKeyPairHash()).toEqual(keyPair.hash());
     });
-});
\ No newline at end of file
+
+    test( '[IDN03] Ed25519 identity', async () => {
+
+        let keyPair = await Ed25519KeyPair.generate();
+
+        let id = Identity.fromKeyPair({name: 'ed25519 identity'}, keyPair);
+
+        expect(id.getKeyPairHash()).toEqual(keyPair.hash());
+        expect(await keyPair.validate()).toBeTruthy();
+
+        let text = 'a short string';
+
+        let signature = await id.sign(text);
+
+        expect(await id.verifySignature(text, signature)).toBeTruthy();
+        expect(await id.verifySignature('another string', signature)).toBeFalsy();
+
+        // signatures are checked when validating a literal context
+
+        let store = new Store(new MemoryBackend('IDN03 - ' + new RNGImpl().randomHexString(128)));
+
+        await store.save(keyPair);
+
+        let thing = new SomethingHashed();
+        thing.name = 'signed using Ed25519';
+        thing.setAuthor(id);
+
+        await store.save(thing);
+
+        let literalContext = thing.toLiteralContext();
+
+        let validated = await HashedObject.fromLiteralContextWithValidation(literalContext);
+
+        expect(validated.equals(thing)).toBeTruthy();
+
+        (literalContext.literals[thing.hash()] as Literal).signature = await id.sign('something else');
+
+        await expect(HashedObject.fromLiteralContextWithValidation(literalContext)).rejects.toThrow();
+
+        // the store attaches the key pair when loading the identity
+
+        let loaded = await store.load(id.hash()) as Identity;
+
+        expect(loaded.hasKeyPair()).toBeTruthy();
+        expect(loaded.getKeyPair() instanceof Ed25519KeyPair).toBeTruthy();
+
+        store.close();
+    });
+
+    test( '[IDN04] X25519 key agreement', async () => {
+
+        let alice = Identity.fromKeyPair({name: 'alice'}, await Ed25519KeyPair.generate(), await X25519KeyPair.generate());
+        let bob   = Identity.fromKeyPair({name: 'bob'}, await TestIdentity.getFistTestKeyPair(), await X25519KeyPair.generate());
+
+        let secret = await alice.deriveSharedSecret(bob);
+
+        expect(secret.length).toEqual(64);
+        expect(await bob.deriveSharedSecret(alice)).toEqual(secret);
+
+        let bobCopy = HashedObject.fromLiteralContext(bob.toLiteralContext()) as Identity;
+
+        expect(bobCopy.equals(bob)).toBeTruthy();
+        expect(await alice.deriveSharedSecret(bobCopy)).toEqual(secret);
+
+        // the agreement key pair is checked on validation
+
+        expect(await alice.getAgreementKeyPair().validate()).toBeTruthy();
+
+        let mismatched = X25519KeyPair.fromKeys(alice.getAgreementKey().getPublicKey(), bob.getAgreementKeyPair().getPrivateKey());
+
+        expect(await mismatched.validate()).toBeFalsy();
+        expect(() => bob.encrypt('text')).not.toThrow();
+        expect(() => alice.encrypt('text')).toThrow();
+    });
+
+    test( '[IDN05] Threshold identity', async () => {
+
+        let store = new Store(new MemoryBackend('IDN05 - ' + new RNGImpl().randomHexString(128)));
+
+        let members: Array<Identity> = [];
+
+        for (let i=0; i<3; i++) {
+            members.push(Identity.fromKeyPair({member: i}, await Ed25519KeyPair.generate()));
+        }
+
+        let outsider = Identity.fromKeyPair({name: 'outsider'}, await Ed25519KeyPair.generate());
+
+        let org = ThresholdIdentity.fromMembers({name: 'org'}, members, 2);
+
+        expect(await org.validate()).toBeTruthy();
+        expect(await ThresholdIdentity.fromMembers({name: 'bad'}, members, 4).validate()).toBeFalsy();
+
+        let s = new MutableSet<string>({writer: org});
+
+        await store.save(s);
+
+        let op = new MutableSetAddOp(s, 'approved', org);
+        s.prepareNewOp(op);
+
+        await expect(store.save(op)).rejects.toThrow();
+
+        // a first member signs, and the op is passed around
+
+        await org.addPartialSignature(op, members[0]);
+        await expect(org.addPartialSignature(op, outsider)).rejects.toThrow();
+
+        let exported = JSON.parse(JSON.stringify(ThresholdIdentity.exportPartiallySigned(op)));
+
+        await expect(HashedObject.fromLiteralContextWithValidation(exported)).rejects.toThrow();
+
+        let received = await ThresholdIdentity.importPartiallySigned(exported, store) as MutableSetAddOp<string>;
+
+        expect(received.equals(op)).toBeTruthy();
+        expect(await org.isThresholdMet(received)).toBeFalsy();
+        await expect(store.save(received)).rejects.toThrow();
+
+        // signing twice with the same member does not count
+
+        await org.addPartialSignature(received, members[0]);
+        expect(org.getSigners(received.getLastSignature())).toEqual([members[0].hash()]);
+        expect(await org.isThresholdMet(received)).toBeFalsy();
+
+        // a tampered partial signature is rejected on import
+
+        let tampered = JSON.parse(JSON.stringify(exported));
+        (tampered.literals[op.hash()] as Literal).signature = JSON.stringify({[members[1].hash()]: await members[1].sign('something else')});
+
+        await expect(ThresholdIdentity.importPartiallySigned(tampered, store)).rejects.toThrow();
+
+        // once a second member signs, the op is valid
+
+        await (received.getAuthor() as ThresholdIdentity).addPartialSignature(received, members[2]);
+
+        expect(await org.isThresholdMet(received)).toBeTruthy();
+        expect(org.getSigners(received.getLastSignature()).sort()).toEqual([members[0].hash(), members[2].hash()].sort());
+
+        let validated = await HashedObject.fromLiteralContextWithValidation(received.toLiteralContext());
+
+        expect(validated.equals(op)).toBeTruthy();
+
+        await store.save(received);
+
+        let sCopy = await store.load(s.hash()) as MutableSet<string>;
+
+        expect(sCopy.has('approved')).toBeTruthy();
+
+        store.close();
+    });
+});
@@ -3,13 +3,13 @@ import { TestPeerGroupPods } from '../mock/TestPeerGroupPods';
 import { TestIdentity } from 'data/types/TestIdentity';
 
 import { StateGossipAgent } from 'mesh/agents/state/StateGossipAgent';
-import { PeerGroupAgent } from 'mesh/agents/peer';
+import { PeerGroupAgent, PeerInfo } from 'mesh/agents/peer';
 import { Hash, HashedLiteral, HashedObject } from 'data/model';
 import { RNGImpl } from 'crypto/random';
 import { LinearStateAgent } from '../mock/LinearStateAgent';
 import { Store } from 'storage/store';
 import { IdbBackend, MemoryBackend } from 'storage/backends';
-import { MutableSet } from 'data/collections';
+import { MutableReference, MutableSet } from 'data/collections';
 import { Identity } from 'data/identity';
 import { describeProxy } from 'config';
 import { HeaderBasedSyncAgent, HistorySynchronizer, TerminalOpsSyncAgent } from 'mesh/agents/state';
@@ -91,6 +91,12 @@ describeProxy('[SYN] State sync', () => {
 
     }, 300000);
 
+    test('[SYN13] Causal history agent-based sync of a compacted reference, bootstrapping from its checkpoint (ws)', async (done) => {
+
+        await compactedSyncInSmallPeerGroup(done, 'ws', 5320);
+
+    }, 300000);
+
 });
 
 async function gossipInSmallPeerGroup(done: () => void, network: 'wrtc'|'ws'|'mix' = 'wrtc', basePort?: number) {
@@ -862,4 +868,103 @@ async function diamondSyncInSmallPeerGroup(done: () => void, network: 'wrtc'|'ws
     expect(replicated).toBeTruthy();
 
     done();
-}
\ No newline at end of file
+}
+
+async function compactedSyncInSmallPeerGroup(done: () => void, network: 'wrtc'|'ws'|'mix' = 'wrtc', basePort?: number) {
+
+    const size = 3;
+
+    let peerNetworkId = new RNGImpl().randomHexString(64);
+
+    let pods = await TestPeerGroupPods.generate(peerNetworkId, size, size, size-1, network, 'no-discovery', basePort);
+
+    let stores : Array<Store> = [];
+
+    for (let i=0; i<size; i++) {
+        const peerNetwork = pods[i].getAgent(PeerGroupAgent.agentIdForPeerGroup(peerNetworkId)) as PeerGroupAgent;
+        const store = new Store(new MemoryBackend('store-for-peer-' + peerNetwork.getLocalPeer().endpoint));
+        stores.push(store);
+        let gossip = new StateGossipAgent(peerNetworkId, peerNetwork);
+
+        pods[i].registerAgent(gossip);
+    }
+
+    // the first peer prunes all the ops covered by its checkpoint before syncing starts
+
+    let ref = new MutableReference<number>();
+    ref.setStore(stores[0]);
+
+    await ref.setValue(1);
+    await ref.setValue(2);
+    await ref.setValue(3);
+    await ref.save();
+    await ref.saveCheckpoint();
+    await ref.setValue(4);
+    await ref.save();
+
+    const report = await stores[0].compact(ref.hash());
+
+    expect(report.requiresCheckpointBootstrap).toBeTruthy();
+
+    // only the first peer is trusted to send checkpoints
+
+    const firstPeer = (pods[0].getAgent(PeerGroupAgent.agentIdForPeerGroup(peerNetworkId)) as PeerGroupAgent).getLocalPeer().endpoint;
+
+    for (let i=0; i<size; i++) {
+        const peerGroupAgent = pods[i].getAgent(PeerGroupAgent.agentIdForPeerGroup(peerNetworkId)) as PeerGroupAgent;
+
+        let agent = new HeaderBasedSyncAgent(peerGroupAgent, ref, await Resources.create({store: stores[i]}), ref.getAcceptedMutationOpClasses());
+        agent.acceptCheckpointsFrom((peer: PeerInfo) => peer.endpoint === firstPeer);
+        let gossip = pods[i].getAgent(StateGossipAgent.agentIdForGossipId(peerNetworkId)) as StateGossipAgent;
+        gossip.trackAgentState(agent.getAgentId());
+        pods[i].registerAgent(agent);
+    }
+
+    let meshReady = false;
+
+    let count = 0;
+
+    while (!meshReady && count < 1000) {
+        await new Promise(r => setTimeout(r, 100));
+        const meshAgent = pods[size-1].getAgent(PeerGroupAgent.agentIdForPeerGroup(peerNetworkId)) as PeerGroupAgent
+        meshReady = meshAgent.getPeers().length === (size-1);
+        count = count + 1;
+    }
+
+    let replicated = false;
+
+    if (meshReady) {
+        count = 0;
+
+        while (!replicated && count < 1500) {
+
+            await new Promise(r => setTimeout(r, 100));
+
+            const rr = await stores[size-1].load(ref.hash()) as MutableReference<number> | undefined;
+
+            if (rr !== undefined) {
+                await rr.loadAllChanges();
+                replicated = rr.getValue() === 4;
+            }
+
+            count = count + 1;
+        }
+    }
+
+    for (const pod of pods) {
+        pod.shutdown();
+    }
+
+    expect(meshReady).toBeTruthy();
+    expect(replicated).toBeTruthy();
+
+    // the replica got the checkpoint, and none of the pruned ops
+
+    expect(await stores[size-1].loadLastCheckpoint(ref.hash())).toBeDefined();
+
+    for (const opHash of report.prunedOps) {
+        expect(await stores[size-1].loadLiteral(opHash)).toBeUndefined();
+    }
+
+    done();
+}
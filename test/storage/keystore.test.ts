@@ -0,0 +1,116 @@
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { Identity, RSAKeyPair, X25519KeyPair } from 'data/identity';
+
+import { KeyStore, Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
+
+import { SomethingHashed } from '../data/types/SomethingHashed';
+
+describeProxy('[KST] Encrypted keystore', () => {
+
+    test('[KST01] Export and import an identity with its keys', async () => {
+
+        let keyPair = await RSAKeyPair.generate(1024);
+        let id      = Identity.fromKeyPair({name: 'exported'}, keyPair, await X25519KeyPair.generate());
+
+        let exported = JSON.parse(JSON.stringify(KeyStore.exportIdentity(id, 'a passphrase', {rounds: 16})));
+
+        expect(JSON.stringify(exported).indexOf(keyPair.getPrivateKey().split('\n')[1])).toEqual(-1);
+
+        await expect(KeyStore.importIdentity(exported, 'the wrong passphrase')).rejects.toThrow();
+
+        let imported = await KeyStore.importIdentity(exported, 'a passphrase');
+
+        expect(imported.equals(id)).toBeTruthy();
+        expect(imported.getKeyPair().hash()).toEqual(keyPair.hash());
+        expect(imported.hasAgreementKeyPair()).toBeTruthy();
+
+        let signature = await imported.sign('some text');
+
+        expect(await id.verifySignature('some text', signature)).toBeTruthy();
+        expect(await imported.deriveSharedSecret(id)).toEqual(await id.deriveSharedSecret(imported));
+    });
+
+    test('[KST02] Unlock an identity into a store for a session', async () => {
+
+        let store = new Store(new MemoryBackend('KST02 - ' + new RNGImpl().randomHexString(128)));
+
+        let keyPair = await RSAKeyPair.generate(1024);
+        let id      = Identity.fromKeyPair({name: 'unlocked'}, keyPair);
+
+        let exported = KeyStore.exportIdentity(id, 'a passphrase', {rounds: 16});
+
+        await KeyStore.unlock(store, exported, 'a passphrase');
+
+        let loaded = await store.load(id.hash()) as Identity;
+
+        expect(loaded.hasKeyPair()).toBeTruthy();
+
+        let thing = new SomethingHashed();
+        thing.name = 'signed while unlocked';
+        thing.setAuthor(loaded);
+
+        await store.save(thing);
+
+        expect((await store.loadLiteral(thing.hash()))?.signature).toBeDefined();
+
+        // the private key never reaches the backend
+
+        expect(await store.loadLiteral(keyPair.hash())).toBeUndefined();
+
+        KeyStore.lock(store, id);
+
+        expect(loaded.hasKeyPair()).toBeFalsy();
+        await expect(loaded.sign('some text')).rejects.toThrow();
+
+        let relocked = await store.load(id.hash()) as Identity;
+
+        expect(relocked.hasKeyPair()).toBeFalsy();
+
+        let another = new SomethingHashed();
+        another.name = 'signed after locking';
+        another.setAuthor(relocked);
+
+        await expect(store.save(another)).rejects.toThrow();
+
+        store.close();
+    });
+
+    test('[KST03] Locking removes the keys from every identity that was loaded while unlocked', async () => {
+
+        let store = new Store(new MemoryBackend('KST03 - ' + new RNGImpl().randomHexString(128)));
+
+        let id = Identity.fromKeyPair({name: 'unlocked'}, await RSAKeyPair.generate(1024), await X25519KeyPair.generate());
+
+        let unlocked = await KeyStore.unlock(store, KeyStore.exportIdentity(id, 'a passphrase', {rounds: 16}), 'a passphrase');
+
+        let first  = await store.load(id.hash()) as Identity;
+        let second = await store.load(id.hash()) as Identity;
+
+        for (const loaded of [unlocked, first, second]) {
+            expect(loaded.hasKeyPair()).toBeTruthy();
+            expect(loaded.hasAgreementKeyPair()).toBeTruthy();
+        }
+
+        KeyStore.lock(store, unlocked);
+
+        for (const loaded of [unlocked, first, second]) {
+            expect(loaded.hasKeyPair()).toBeFalsy();
+            expect(loaded.hasAgreementKeyPair()).toBeFalsy();
+            await expect(loaded.sign('some text')).rejects.toThrow();
+        }
+
+        // identities loaded before closing the store lose them too
+
+        await KeyStore.unlock(store, KeyStore.exportIdentity(id, 'a passphrase', {rounds: 16}), 'a passphrase');
+
+        let third = await store.load(id.hash()) as Identity;
+
+        expect(third.hasKeyPair()).toBeTruthy();
+
+        store.close();
+
+        expect(third.hasKeyPair()).toBeFalsy();
+    });
+});
@@ -0,0 +1,110 @@
+import { MessageChannel } from 'worker_threads';
+
+import { describeProxy } from 'config';
+import { RNGImpl } from 'crypto/random';
+import { Ed25519KeyPair, Identity, RemoteIdentityProvider, SignerHost, SignTextReply, SignTextRequest } from 'data/identity';
+import { Resources } from 'spaces/spaces';
+
+import { Store } from 'storage/store';
+import { MemoryBackend } from 'storage/backends';
+
+import { SomethingHashed } from '../data/types/SomethingHashed';
+
+describeProxy('[SGN] Remote signing', () => {
+
+    test('[SGN01] Sign through an identity provider over a message channel', async () => {
+
+        const channel = new MessageChannel();
+
+        // the signer end holds the keys...
+
+        let keyPair = await Ed25519KeyPair.generate();
+        let id      = Identity.fromKeyPair({name: 'remote signer'}, keyPair);
+
+        let host = new SignerHost();
+        host.addIdentity(id);
+        host.serve(channel.port2 as any);
+
+        // ...while the store only gets to see the public part
+
+        let publicId = Identity.fromPublicKey({name: 'remote signer'}, id.getPublicKey());
+
+        expect(publicId.equals(id)).toBeTruthy();
+        expect(publicId.hasKeyPair()).toBeFalsy();
+
+        let provider = new RemoteIdentityProvider(channel.port1 as any, 5000);
+
+        let store = new Store(new MemoryBackend('SGN01 - ' + new RNGImpl().randomHexString(128)));
+        await Resources.create({store: store, config: {id: publicId}, identityProvider: provider});
+
+        await store.save(publicId);
+
+        let thing = new SomethingHashed();
+        thing.name = 'signed remotely';
+        thing.setAuthor(publicId);
+
+        await store.save(thing);
+
+        let literal = await store.loadLiteral(thing.hash());
+
+        expect(literal?.signature).toBeDefined();
+        expect(await id.verifySignature(thing.hash(), literal?.signature as string)).toBeTruthy();
+        expect(await store.loadLiteral(keyPair.hash())).toBeUndefined();
+
+        let loaded = await store.load(thing.hash()) as SomethingHashed;
+
+        expect(loaded.getAuthor()?.equals(id)).toBeTruthy();
+
+        // the signer refuses identities it has no keys for
+
+        let other = Identity.fromKeyPair({name: 'unknown to the signer'}, await Ed25519KeyPair.generate());
+        let unknown = Identity.fromPublicKey({name: 'unknown to the signer'}, other.getPublicKey());
+
+        let another = new SomethingHashed();
+        another.name = 'cannot be signed';
+        another.setAuthor(unknown);
+
+        await expect(store.save(another)).rejects.toThrow();
+
+        provider.close();
+        channel.port1.close();
+        channel.port2.close();
+        store.close();
+    });
+
+    test('[SGN02] The signer replies with an error if its reply cannot be sent', async () => {
+
+        let id = Identity.fromKeyPair({name: 'remote signer'}, await Ed25519KeyPair.generate());
+
+        let host = new SignerHost();
+        host.addIdentity(id);
+
+        let replies: Array<SignTextReply> = [];
+
+        // a channel that can't carry signatures (e.g. they fail to be cloned)
+        let channel = {
+            postMessage: (msg: SignTextReply) => {
+                if (msg.signature !== undefined) {
+                    throw new Error('cannot send signature');
+                }
+                replies.push(msg);
+            },
+            onmessage: null as ((ev: { data: any }) => any) | null
+        };
+
+        host.serve(channel);
+
+        let request: SignTextRequest = { type: 'sign-text-request', requestId: 'request-1', author: id.hash(), text: 'some text' };
+
+        channel.onmessage?.({ data: request });
+
+        for (let i=0; i<100 && replies.length === 0; i++) {
+            await new Promise(r => setTimeout(r, 10));
+        }
+
+        expect(replies.length).toEqual(1);
+        expect(replies[0].requestId).toEqual('request-1');
+        expect(replies[0].signature).toBeUndefined();
+        expect(replies[0].error).toBeDefined();
+    });
+});
@@ -1,6 +1,6 @@
 import { Store } from 'storage/store';
-import { IdbBackend, MemoryBackend } from 'storage/backends';
-import { Hash, HashedObject, HashedSet, HashReference, MutationOp } from 'data/model';
+import { Backend, EncryptedBackend, IdbBackend, MemoryBackend } from 'storage/backends';
+import { Context, Hash, HashedObject, HashedSet, HashReference, Hashing, Literal, MigrationRegistry, MutationOp } from 'data/model';
 
 import { SomethingHashed, createHashedObjects } from '../data/types/SomethingHashed';
 import { SomethingMutable, SomeMutation } from '../data//types/SomethingMutable';
@@ -9,7 +9,7 @@ import { HistoryFragment } from 'data/history/HistoryFragment';
 import { OpHeader } from 'data/history/OpHeader';
 import { MutableReference } from 'index';
 
-//import { SQLiteBackend } from '@hyper-hyper-space/sqlite';
+import { SQLiteBackend } from 'storage/backends/SQLiteBackend';
 
 
 describeProxy('[STR] Storage', () => {
@@ -25,11 +25,11 @@ describeProxy('[STR] Storage', () => {
         store.close();
     });
 
-    /*test('[STR03] SQLite-based load / store cycle', async() => {
+    test('[STR03] SQLite-based load / store cycle', async() => {
         let store = new Store(new SQLiteBackend(':memory:'));
         await testLoadStoreCycle(store);
         store.close();
-    });*/
+    });
 
     test('[STR04] Indexeddb-based reference-based load hit', async () => {
         let store = new Store(new IdbBackend('test-storage-backend'));
@@ -43,11 +43,11 @@ describeProxy('[STR] Storage', () => {
         store.close();
     });
 
-    /*test('[STR06] SQLite-based reference-based load hit', async () => {
+    test('[STR06] SQLite-based reference-based load hit', async () => {
         let store = new Store(new SQLiteBackend(':memory:'));
         await testReferenceBasedLoadHit(store);
         store.close();
-    });*/
+    });
 
     test('[STR07] Indexeddb-based reference-based load miss', async () => {
         let store = new Store(new IdbBackend('test-storage-backend'));
@@ -61,11 +61,11 @@ describeProxy('[STR] Storage', () => {
         store.close();
     });
 
-    /*test('[STR09] SQLite-based reference-based load miss', async () => {
+    test('[STR09] SQLite-based reference-based load miss', async () => {
         let store = new Store(new SQLiteBackend(':memory:'));
         await testReferenceBasedLoadMiss(store);
         store.close();
-    });*/
+    });
     
     test('[STR07] Indexeddb-based mutation op saving and loading', async () => {
         let store = new Store(new IdbBackend('test-storage-backend'));
@@ -79,11 +79,11 @@ describeProxy('[STR] Storage', () => {
         store.close();
     });
 
-    /*test('[STR09] SQLite-based mutation op saving and loading', async () => {
+    test('[STR09] SQLite-based mutation op saving and loading', async () => {
         let store = new Store(new SQLiteBackend(':memory:'));
         await testMutationOps(store);
         store.close();
-    });*/
+    });
 
     test('[STR10] Indexeddb-based mutation op saving and auto-loading', async () => {
         let store = new Store(new IdbBackend('test-storage-backend'));
@@ -97,11 +97,11 @@ describeProxy('[STR] Storage', () => {
         store.close();
     });
 
-    /*test('[STR12] SQLite-based mutation op saving and auto-loading', async () => {
+    test('[STR12] SQLite-based mutation op saving and auto-loading', async () => {
         let store = new Store(new SQLiteBackend(':memory:'));
         await testMutationOpAutoLoad(store);
         store.close();
-    });*/
+    });
 
     test('[STR13] Indexeddb-based mutation op automatic prevOp generation', async () => {
         let store = new Store(new IdbBackend('test-storage-backend'));
@@ -115,11 +115,11 @@ describeProxy('[STR] Storage', () => {
         store.close();
     });
 
-    /*test('[STR15] SQLite-based mutation op automatic prevOp generation', async () => {
+    test('[STR15] SQLite-based mutation op automatic prevOp generation', async () => {
         let store = new Store(new SQLiteBackend(':memory:'));
         await testPrevOpGeneration(store);
         store.close();
-    });*/
+    });
 
     test('[STR16] Validate history retrieved from IDB store', async () => {
         let store = new Store(new IdbBackend('test-storage-backend'));
@@ -133,11 +133,11 @@ describeProxy('[STR] Storage', () => {
         store.close();
     });
 
-    /*test('[STR18] Validate history retrieved from SQLite store', async () => {
+    test('[STR18] Validate history retrieved from SQLite store', async () => {
         let store = new Store(new SQLiteBackend(':memory:'));
         await testHistoryGeneration(store);
         store.close();
-    });*/
+    });
 
     test('[STR19] Validate save/load checkpoint cycle for MutableReference with memory store', async () => {
         let store = new Store(new MemoryBackend('test-storage-backend'));
@@ -145,6 +145,183 @@ describeProxy('[STR] Storage', () => {
         store.close();
     })
 
+    test('[STR20] Validate save/load checkpoint cycle for MutableReference with SQLite store', async () => {
+        let store = new Store(new SQLiteBackend(':memory:'));
+        await testCheckpointSaveLoadCycle(store);
+        store.close();
+    });
+
+    test('[STR45] Validate save/load checkpoint cycle for MutableReference with IDB store', async () => {
+        let store = new Store(new IdbBackend('test-storage-backend-checkpoints'));
+        await testCheckpointSaveLoadCycle(store);
+        store.close();
+    });
+
+    test('[STR21] SQLite-based paginated search and skip to object', async () => {
+        let store = new Store(new SQLiteBackend(':memory:'));
+        await testPaginatedSearch(store);
+        store.close();
+    });
+
+    test('[STR22] Indexeddb-based garbage collection', async () => {
+        let store = new Store(new IdbBackend('test-storage-backend-gc'));
+        await testGarbageCollection(store);
+        store.close();
+    });
+
+    test('[STR23] Memory-based garbage collection', async () => {
+        let store = new Store(new MemoryBackend('test-storage-backend'));
+        await testGarbageCollection(store);
+        store.close();
+    });
+
+    test('[STR24] SQLite-based garbage collection', async () => {
+        let store = new Store(new SQLiteBackend(':memory:'));
+        await testGarbageCollection(store);
+        store.close();
+    });
+
+    test('[STR25] Indexeddb-based atomic batch save', async () => {
+        let backend = new IdbBackend('test-storage-backend-batch');
+        await testAtomicBatchSave(backend);
+        backend.close();
+    });
+
+    test('[STR26] Memory-based atomic batch save', async () => {
+        let backend = new MemoryBackend('test-storage-backend-batch');
+        await testAtomicBatchSave(backend);
+        backend.close();
+    });
+
+    test('[STR27] SQLite-based atomic batch save', async () => {
+        let backend = new SQLiteBackend(':memory:');
+        await testAtomicBatchSave(backend);
+        backend.close();
+    });
+
+    test('[STR28] Export a store subgraph to an archive and import it into an empty store', async () => {
+        let source = new Store(new MemoryBackend('test-storage-backend-archive-source'));
+        let target = new Store(new SQLiteBackend(':memory:'));
+        await testArchiveExportImport(source, target);
+        source.close();
+        target.close();
+    });
+
+    test('[STR29] Reject tampered archives on import', async () => {
+        let source = new Store(new MemoryBackend('test-storage-backend-archive-source-2'));
+        let target = new Store(new MemoryBackend('test-storage-backend-archive-target-2'));
+        await testArchiveTampering(source, target);
+        source.close();
+        target.close();
+    });
+
+    test('[STR30] Encrypted memory-based load / store cycle', async () => {
+        let store = new Store(new EncryptedBackend(new MemoryBackend('test-storage-backend-enc-1'), 'secret passphrase'));
+        await testLoadStoreCycle(store);
+        await testReferenceBasedLoadHit(store);
+        store.close();
+    });
+
+    test('[STR31] Encrypted memory-based mutation op saving, auto-loading and prevOp generation', async () => {
+        let store = new Store(new EncryptedBackend(new MemoryBackend('test-storage-backend-enc-2'), 'secret passphrase'));
+        await testMutationOpAutoLoad(store);
+        await testPrevOpGeneration(store);
+        store.close();
+    });
+
+    test('[STR32] Encrypted SQLite-based history and checkpoints', async () => {
+        let store = new Store(new EncryptedBackend(new SQLiteBackend(':memory:'), 'secret passphrase'));
+        await testHistoryGeneration(store);
+        await testCheckpointSaveLoadCycle(store);
+        await testPaginatedSearch(store);
+        store.close();
+    });
+
+    test('[STR33] Encrypted backend contents are opaque without the passphrase', async () => {
+        await testEncryptedContents();
+    });
+
+    test('[STR34] Indexeddb-based field index search', async () => {
+        let store = new Store(new IdbBackend('test-storage-backend-field-idx'));
+        await testFieldIndexSearch(store);
+        store.close();
+    });
+
+    test('[STR35] Memory-based field index search', async () => {
+        let store = new Store(new MemoryBackend('test-storage-backend-field-idx'));
+        await testFieldIndexSearch(store);
+        store.close();
+    });
+
+    test('[STR36] SQLite-based field index search', async () => {
+        let store = new Store(new SQLiteBackend(':memory:'));
+        await testFieldIndexSearch(store);
+        store.close();
+    });
+
+    test('[STR37] Encrypted field index search by exact value', async () => {
+        let store = new Store(new EncryptedBackend(new MemoryBackend('test-storage-backend-enc-field-idx'), 'secret passphrase'));
+        await testEncryptedFieldIndexSearch(store);
+        store.close();
+    });
+
+    test('[STR38] Memory-based live queries', async () => {
+        let store = new Store(new MemoryBackend('test-storage-backend-live-query'));
+        await testLiveQuery(store);
+        store.close();
+    });
+
+    test('[STR39] SQLite-based live queries', async () => {
+        let store = new Store(new SQLiteBackend(':memory:'));
+        await testLiveQuery(store);
+        store.close();
+    });
+
+    test('[STR40] Load objects saved by an older version of their class through migrations', async () => {
+        let backend = new MemoryBackend('test-storage-backend-migrations');
+        try {
+            await testMigrations(backend);
+        } finally {
+            MigrationRegistry.unregister('hhs-test/OldThing');
+            backend.close();
+        }
+        expect(MigrationRegistry.lookup('hhs-test/OldThing')).toEqual([]);
+    });
+
+    test('[STR46] Keep the identity of migrated mutable objects when they are modified', async () => {
+        let backend = new MemoryBackend('test-storage-backend-migrated-mutable');
+        try {
+            await testMigratedMutable(backend);
+        } finally {
+            MigrationRegistry.unregister('hhs-test/OldReference');
+            backend.close();
+        }
+    });
+
+    test('[STR41] Indexeddb-based stats and hash iteration', async () => {
+        let store = new Store(new IdbBackend('test-storage-backend-stats'));
+        await testStatsAndHashIteration(store);
+        store.close();
+    });
+
+    test('[STR42] Memory-based stats and hash iteration', async () => {
+        let store = new Store(new MemoryBackend('test-storage-backend-stats'));
+        await testStatsAndHashIteration(store);
+        store.close();
+    });
+
+    test('[STR43] SQLite-based stats and hash iteration', async () => {
+        let store = new Store(new SQLiteBackend(':memory:'));
+        await testStatsAndHashIteration(store);
+        store.close();
+    });
+
+    test('[STR44] Encrypted stats and hash iteration', async () => {
+        let store = new Store(new EncryptedBackend(new MemoryBackend('test-storage-backend-enc-stats'), 'secret passphrase'));
+        await testStatsAndHashIteration(store);
+        store.close();
+    });
+
 });
 
 async function testLoadStoreCycle(store: Store) {
@@ -251,6 +428,608 @@ async function testCheckpointSaveLoadCycle(store: Store) {
     expect(sm.getValue()).toEqual('!');
 }
 
+async function testPaginatedSearch(store: Store) {
+    let sm = new SomethingMutable();
+
+    await store.save(sm);
+
+    for (let i=0; i<5; i++) {
+        await sm.testOperation('op' + i);
+    }
+
+    await store.save(sm);
+
+    const all = await store.loadByReference('targetObject', sm.hash());
+
+    expect(all.objects.length).toEqual(5);
+
+    const first = await store.loadByReference('targetObject', sm.hash(), {order: 'asc', limit: 2});
+    const second = await store.loadByReference('targetObject', sm.hash(), {order: 'asc', limit: 2, start: first.end});
+
+    expect(first.objects.map((o: HashedObject) => o.hash())).toEqual(all.objects.slice(0, 2).map((o: HashedObject) => o.hash()));
+    expect(second.objects.map((o: HashedObject) => o.hash())).toEqual(all.objects.slice(2, 4).map((o: HashedObject) => o.hash()));
+
+    const desc = await store.loadByReference('targetObject', sm.hash(), {order: 'desc', limit: 2});
+
+    expect(desc.objects.map((o: HashedObject) => o.hash())).toEqual(all.objects.slice(3).reverse().map((o: HashedObject) => o.hash()));
+
+    const skip = await store.skipToObjectByReference('targetObject', sm.hash(), all.objects[3].hash());
+    const skipped = await store.loadByReference('targetObject', sm.hash(), {order: 'asc', start: skip});
+
+    expect(skipped.objects.map((o: HashedObject) => o.hash())).toEqual(all.objects.slice(3).map((o: HashedObject) => o.hash()));
+}
+
+async function testGarbageCollection(store: Store) {
+    let objects = createHashedObjects();
+
+    let a: SomethingHashed = objects.a;
+    let b: SomethingHashed = objects.b;
+
+    await store.save(a);
+
+    let sm = new SomethingMutable();
+
+    await store.save(sm);
+
+    for (let i=0; i<3; i++) {
+        await sm.testOperation('op' + i);
+    }
+
+    await store.save(sm);
+
+    const opHashes = Array.from(sm._operations.keys());
+
+    const dryRun = await store.collectGarbage([sm.hash()], {dryRun: true, batchSize: 2});
+
+    expect(dryRun.dryRun).toBeTruthy();
+    expect(dryRun.reachable).toEqual(4);
+    expect(dryRun.missing.length).toEqual(0);
+    expect(new Set(dryRun.unreachable)).toEqual(new Set([a.hash(), b.hash()]));
+    expect(dryRun.deleted.length).toEqual(0);
+    expect(await store.loadLiteral(a.hash())).toBeDefined();
+
+    const report = await store.collectGarbage([sm.hash()], {batchSize: 2});
+
+    expect(new Set(report.deleted)).toEqual(new Set([a.hash(), b.hash()]));
+    expect(await store.loadLiteral(a.hash())).toBeUndefined();
+    expect(await store.loadLiteral(b.hash())).toBeUndefined();
+
+    for (const opHash of opHashes) {
+        expect(await store.loadLiteral(opHash)).toBeDefined();
+    }
+
+    const sm2 = await store.load(sm.hash()) as SomethingMutable;
+
+    expect(sm2._operations.size).toEqual(3);
+
+    const second = await store.collectGarbage([sm.hash()]);
+
+    expect(second.unreachable.length).toEqual(0);
+
+    // the checkpoints of unreachable mutables go away with them
+
+    const kept = new MutableReference<string>();
+    const gone = new MutableReference<string>();
+
+    for (const ref of [kept, gone]) {
+        await store.save(ref);
+        await ref.setValue('value');
+        await store.save(ref);
+        await ref.saveCheckpoint();
+    }
+
+    const third = await store.collectGarbage([sm.hash(), kept.hash()]);
+
+    expect(third.deleted).toContain(gone.hash());
+    expect(third.deleted).not.toContain(kept.hash());
+    expect(await store.loadLastCheckpoint(gone.hash())).toBeUndefined();
+    expect(await store.loadLastCheckpoint(kept.hash())).toBeDefined();
+    expect((await store.getStats()).checkpoints).toEqual(1);
+}
+
+async function testAtomicBatchSave(backend: Backend) {
+    let store = new Store(backend);
+
+    let objects = createHashedObjects();
+
+    let a: SomethingHashed = objects.a;
+    let b: SomethingHashed = objects.b;
+
+    // when watch callbacks fire, the whole save must already be in the store
+
+    let fired = 0;
+    let complete = true;
+
+    store.watchClass(SomethingHashed.className, async () => {
+        fired = fired + 1;
+        complete = complete && (await store.loadLiteral(a.hash())) !== undefined && (await store.loadLiteral(b.hash())) !== undefined;
+    });
+
+    await store.save(a);
+
+    expect(fired).toEqual(2);
+    expect(complete).toBeTruthy();
+
+    // a batch with an op that is missing its header fails, and none of it is stored
+
+    let c = new SomethingHashed();
+    c.name = 'c';
+    let cLiteral = c.toLiteral();
+
+    let sm = new SomethingMutable();
+    await sm.testOperation('hello');
+    let op = sm._operations.values().next().value as MutationOp;
+    let opLiteral = op.toContext().literals.get(op.hash()) as Literal;
+
+    let failed = false;
+
+    try {
+        await backend.storeBatch([{literal: cLiteral}, {literal: opLiteral}]);
+    } catch (e) {
+        failed = true;
+    }
+
+    expect(failed).toBeTruthy();
+    expect(await backend.load(c.hash())).toBeUndefined();
+    expect(await backend.load(op.hash())).toBeUndefined();
+    expect(fired).toEqual(2);
+
+    // the same if storing fails partway, after some of the batch has already been written
+
+    let d = new SomethingHashed();
+    d.name = 'd';
+
+    let broken = new SomethingHashed();
+    broken.name = 'broken';
+    let brokenLiteral = broken.toLiteral();
+    brokenLiteral.dependencies = undefined as any;
+
+    failed = false;
+
+    try {
+        await backend.storeBatch([{literal: cLiteral}, {literal: d.toLiteral()}, {literal: brokenLiteral}]);
+    } catch (e) {
+        failed = true;
+    }
+
+    expect(failed).toBeTruthy();
+    expect(await backend.load(c.hash())).toBeUndefined();
+    expect(await backend.load(d.hash())).toBeUndefined();
+    expect(await backend.load(broken.hash())).toBeUndefined();
+    expect(fired).toEqual(2);
+}
+
+async function testArchiveExportImport(source: Store, target: Store) {
+    let objects = createHashedObjects();
+
+    let a: SomethingHashed = objects.a;
+    let b: SomethingHashed = objects.b;
+
+    await source.save(a);
+
+    let ref = new MutableReference<SomethingHashed>();
+    await source.save(ref);
+    await ref.setValue(b);
+    await source.save(ref);
+    await ref.saveCheckpoint();
+    await ref.setValue(a);
+    await source.save(ref);
+
+    let unrelated = new SomethingHashed();
+    unrelated.name = 'not in the archive';
+    await source.save(unrelated);
+
+    const lines = new Array<string>();
+
+    const exported = await source.exportArchive([ref.hash()], (line: string) => { lines.push(line); });
+
+    expect(exported.missing.length).toEqual(0);
+    expect(exported.opHeaders).toEqual(2);
+    expect(exported.checkpoints).toEqual(1);
+    expect(lines.length).toEqual(1 + exported.literals + exported.opHeaders + exported.checkpoints);
+
+    const imported = await target.importArchive(lines);
+
+    expect(imported.roots).toEqual([ref.hash()]);
+    expect(imported.literals.length).toEqual(exported.literals);
+    expect(imported.checkpoints).toEqual([ref.hash()]);
+
+    expect(await target.loadLiteral(unrelated.hash())).toBeUndefined();
+
+    const ref2 = await target.load(ref.hash()) as MutableReference<SomethingHashed>;
+
+    expect(ref2.getValue()?.hash()).toEqual(a.hash());
+    expect((await target.loadLastCheckpoint(ref.hash()))?.terminalOpHashes).toEqual((await source.loadLastCheckpoint(ref.hash()))?.terminalOpHashes);
+
+    // importing the same archive again is harmless
+
+    await target.importArchive(lines);
+}
+
+async function testArchiveTampering(source: Store, target: Store) {
+    let objects = createHashedObjects();
+
+    let a: SomethingHashed = objects.a;
+
+    await source.save(a);
+
+    const lines = new Array<string>();
+
+    await source.exportArchive([a.hash()], (line: string) => { lines.push(line); });
+
+    const tampered = lines.map((line: string) => line.replace('la la la', 'lo lo lo'));
+
+    expect(tampered).not.toEqual(lines);
+
+    await expect(target.importArchive(tampered)).rejects.toThrow();
+    expect(await target.loadLiteral(a.hash())).toBeUndefined();
+
+    await expect(target.importArchive(lines.slice(1))).rejects.toThrow();
+
+    await target.importArchive(lines);
+    expect(await target.loadLiteral(a.hash())).toBeDefined();
+}
+
+async function testEncryptedContents() {
+    let inner = new MemoryBackend('test-storage-backend-enc-3');
+    let store = new Store(new EncryptedBackend(inner, 'secret passphrase'));
+
+    let objects = createHashedObjects();
+
+    let a: SomethingHashed = objects.a;
+
+    await store.save(a);
+
+    let sm = new SomethingMutable();
+    await store.save(sm);
+    await sm.testOperation('hello');
+    await store.save(sm);
+
+    const stored = JSON.stringify(Array.from(inner.repr.objects.values()));
+
+    expect(stored.indexOf('la la la')).toBeLessThan(0);
+    expect(stored.indexOf(SomethingHashed.className)).toBeLessThan(0);
+    expect(stored.indexOf(a.hash())).toBeLessThan(0);
+    expect(stored.indexOf(sm.hash())).toBeLessThan(0);
+
+    expect((await store.loadByClass(SomethingHashed.className)).objects.length).toEqual(2);
+    expect((await store.loadTerminalOpsForMutable(sm.hash()))?.terminalOps).toEqual(Array.from(sm._operations.keys()));
+
+    let wrong = new EncryptedBackend(new MemoryBackend('test-storage-backend-enc-3'), 'wrong passphrase');
+
+    expect(await wrong.load(a.hash())).toBeUndefined();
+
+    let sameTokens = new EncryptedBackend(new MemoryBackend('test-storage-backend-enc-3'), 'secret passphrase');
+    let loaded = await sameTokens.load(a.hash());
+    expect(loaded?.literal.hash).toEqual(a.hash());
+
+    // tamper with the stored ciphertext
+
+    const envelope = (await inner.searchAll()).items[0];
+    const payload = envelope.value._fields['payload'];
+    payload.ciphertext = (payload.ciphertext[0] === '0'? '1' : '0') + payload.ciphertext.substring(1);
+
+    await expect(sameTokens.searchAll()).rejects.toThrow();
+
+    store.close();
+}
+
+function createIndexedObjects(): Array<SomethingHashed> {
+
+    const amounts = [5, 10, 10, 20, 30];
+
+    return amounts.map((amount: number, i: number) => {
+        const o = new SomethingHashed();
+        o.name = 'n' + i;
+        o.amount = amount;
+        return o;
+    });
+}
+
+function namesOf(objects: Array<HashedObject>): Array<string|undefined> {
+    return objects.map((o: HashedObject) => (o as SomethingHashed).name);
+}
+
+async function testFieldIndexSearch(store: Store) {
+
+    const objects = createIndexedObjects();
+
+    // the first few are already there when the index is declared, the rest come later
+
+    for (const o of objects.slice(0, 3)) {
+        await store.save(o);
+    }
+
+    await store.declareFieldIndex(SomethingHashed.className, 'amount');
+    await store.declareFieldIndex(SomethingHashed.className, 'amount');
+    await store.declareFieldIndex(SomethingHashed.className, 'name');
+
+    for (const o of objects.slice(3)) {
+        await store.save(o);
+    }
+
+    const byField = async (fieldPath: string, query: any, params?: any) =>
+        namesOf((await store.loadByField(SomethingHashed.className, fieldPath, query, params)).objects);
+
+    expect(await byField('amount', {equals: 10})).toEqual(['n1', 'n2']);
+    expect(await byField('amount', {equals: '10'})).toEqual([]);
+    expect(await byField('amount', {from: 10, to: 20})).toEqual(['n1', 'n2', 'n3']);
+    expect(await byField('amount', {from: 15})).toEqual(['n3', 'n4']);
+    expect(await byField('amount', {to: 5})).toEqual(['n0']);
+    expect(await byField('amount', {from: 31})).toEqual([]);
+    expect(await byField('amount', {}, {order: 'desc'})).toEqual(['n4', 'n3', 'n2', 'n1', 'n0']);
+    expect(await byField('name', {equals: 'n3'})).toEqual(['n3']);
+
+    // pagination, in both directions
+
+    let page = await store.loadByField(SomethingHashed.className, 'amount', {}, {limit: 2});
+    expect(namesOf(page.objects)).toEqual(['n0', 'n1']);
+    page = await store.loadByField(SomethingHashed.className, 'amount', {}, {limit: 2, start: page.end});
+    expect(namesOf(page.objects)).toEqual(['n2', 'n3']);
+    page = await store.loadByField(SomethingHashed.className, 'amount', {}, {limit: 2, start: page.end});
+    expect(namesOf(page.objects)).toEqual(['n4']);
+    page = await store.loadByField(SomethingHashed.className, 'amount', {}, {limit: 2, start: page.end});
+    expect(page.objects.length).toEqual(0);
+
+    page = await store.loadByField(SomethingHashed.className, 'amount', {from: 10}, {limit: 2, order: 'desc'});
+    expect(namesOf(page.objects)).toEqual(['n4', 'n3']);
+    page = await store.loadByField(SomethingHashed.className, 'amount', {from: 10}, {limit: 2, order: 'desc', start: page.end});
+    expect(namesOf(page.objects)).toEqual(['n2', 'n1']);
+    page = await store.loadByField(SomethingHashed.className, 'amount', {from: 10}, {limit: 2, order: 'desc', start: page.end});
+    expect(page.objects.length).toEqual(0);
+
+    await expect(store.loadByField(SomethingHashed.className, 'reference', {equals: 'x'})).rejects.toThrow();
+    await expect(store.loadByField(SomethingHashed.className, 'amount', {equals: 10, from: 5})).rejects.toThrow();
+}
+
+async function testEncryptedFieldIndexSearch(store: Store) {
+
+    const objects = createIndexedObjects();
+
+    // envelopes are not re-written, so objects saved before the declaration are not indexed
+
+    const early = new SomethingHashed();
+    early.name = 'early';
+    early.amount = 10;
+
+    await store.save(early);
+
+    await expect(store.loadByField(SomethingHashed.className, 'amount', {equals: 10})).rejects.toThrow();
+
+    await store.declareFieldIndex(SomethingHashed.className, 'amount');
+
+    for (const o of objects) {
+        await store.save(o);
+    }
+
+    const byAmount = async (query: any, params?: any) =>
+        (await store.loadByField(SomethingHashed.className, 'amount', query, params));
+
+    expect(namesOf((await byAmount({equals: 10})).objects)).toEqual(['n1', 'n2']);
+    expect(namesOf((await byAmount({equals: 30})).objects)).toEqual(['n4']);
+    expect((await byAmount({equals: '10'})).objects.length).toEqual(0);
+
+    const page = await byAmount({equals: 10}, {limit: 1});
+    expect(namesOf(page.objects)).toEqual(['n1']);
+    expect(namesOf((await byAmount({equals: 10}, {limit: 1, start: page.end})).objects)).toEqual(['n2']);
+
+    await expect(byAmount({from: 10})).rejects.toThrow();
+}
+
+async function testLiveQuery(store: Store) {
+
+    const objects = createIndexedObjects();
+
+    for (const o of objects.slice(0, 3)) {
+        await store.save(o);
+    }
+
+    // existing matches come first (loaded in pages of batchSize), then new ones
+
+    const byClass = store.query({className: SomethingHashed.className}, {batchSize: 2});
+
+    for (const name of ['n0', 'n1', 'n2']) {
+        expect(((await byClass.next(1000)) as SomethingHashed).name).toEqual(name);
+    }
+
+    await store.save(objects[3]);
+    expect(((await byClass.next(1000)) as SomethingHashed).name).toEqual('n3');
+
+    byClass.close();
+    expect(byClass.atEnd()).toBeTruthy();
+
+    await store.save(objects[4]);
+    expect(byClass.countAvailableItems()).toEqual(0);
+
+    // by reference: the ops of a mutable object
+
+    let sm = new SomethingMutable();
+    await store.save(sm);
+
+    await sm.testOperation('op0');
+    await sm.testOperation('op1');
+    await store.save(sm);
+
+    const byReference = store.query({referringPath: 'targetObject', referencedHash: sm.hash()});
+
+    const first  = await byReference.next(1000) as SomeMutation;
+    const second = await byReference.next(1000) as SomeMutation;
+
+    expect(new Set([first.payload, second.payload])).toEqual(new Set(['op0', 'op1']));
+
+    await sm.testOperation('op2');
+    await store.save(sm);
+
+    expect(((await byReference.next(1000)) as SomeMutation).payload).toEqual('op2');
+    expect(byReference.countAvailableItems()).toEqual(0);
+
+    byReference.close();
+
+    expect(() => store.query({referringPath: 'targetObject'})).toThrow();
+    expect(() => store.query({className: SomeMutation.className, referringPath: 'targetObject', referencedHash: sm.hash()})).toThrow();
+}
+
+async function testMigrations(backend: Backend) {
+
+    const store = new Store(backend);
+
+    // pretend objects of class SomethingHashed were saved long ago as 'hhs-test/OldThing',
+    // with the amount stored as a string in a field called 'qty' (and later, as a number)
+
+    const b = new SomethingHashed();
+    b.name = 'referenced';
+    await store.save(b);
+
+    const oldLiteral = new SomethingHashed().toLiteral();
+
+    oldLiteral.value['_class'] = 'hhs-test/OldThing';
+    oldLiteral.value['_fields'] = { name: 'old', qty: '42', reference: b.createReference().literalize() };
+    oldLiteral.hash = Hashing.forValue(oldLiteral.value);
+    oldLiteral.dependencies = [{path: 'reference', hash: b.hash(), className: SomethingHashed.className, type: 'reference', direct: true}];
+
+    const original = JSON.stringify(oldLiteral);
+
+    await backend.store(oldLiteral);
+
+    MigrationRegistry.register('hhs-test/OldThing', (value: any) => {
+        if (typeof(value['_fields']['qty']) === 'string') {
+            value['_fields']['qty'] = Number.parseInt(value['_fields']['qty']);
+        }
+        return value;
+    });
+
+    MigrationRegistry.register('hhs-test/OldThing', (value: any) => {
+        value['_class'] = SomethingHashed.className;
+        value['_fields']['amount'] = value['_fields']['qty'];
+        delete value['_fields']['qty'];
+        return value;
+    });
+
+    const loaded = await store.load(oldLiteral.hash) as SomethingHashed;
+
+    expect(loaded instanceof SomethingHashed).toBeTruthy();
+    expect(loaded.name).toEqual('old');
+    expect(loaded.amount).toEqual(42);
+    expect(loaded.reference?.hash).toEqual(b.hash());
+    expect(loaded.getLastHash()).toEqual(oldLiteral.hash);
+
+    // the stored literal is untouched, and still hashes to its original hash
+
+    const stored = await store.loadLiteral(oldLiteral.hash) as Literal;
+
+    expect(JSON.stringify(stored)).toEqual(original);
+    expect(Hashing.forValue(stored.value)).toEqual(oldLiteral.hash);
+
+    // validation looks at the literal as it was stored (and there's no local class for it)
+
+    const context = new Context();
+    context.literals.set(stored.hash, stored);
+    context.objects.set(b.hash(), b);
+    await expect(HashedObject.fromContextWithValidation(context, stored.hash)).rejects.toThrow();
+
+    // objects of unmigrated classes are not affected
+
+    expect((await store.load(b.hash()) as SomethingHashed).name).toEqual('referenced');
+
+    // a context passed in by the caller is not left set up to apply migrations
+
+    const callerContext = new Context();
+    const byClass = await store.loadByClass('hhs-test/OldThing', undefined, callerContext);
+
+    expect(byClass.objects.length).toEqual(1);
+    expect(byClass.objects[0] instanceof SomethingHashed).toBeTruthy();
+    expect(callerContext.applyMigrations).toBeUndefined();
+}
+
+async function testMigratedMutable(backend: Backend) {
+
+    const store = new Store(backend);
+
+    // a reference saved long ago, when its class was called 'hhs-test/OldReference'
+
+    const oldLiteral = new MutableReference<string>().toLiteral();
+
+    oldLiteral.value['_class'] = 'hhs-test/OldReference';
+    oldLiteral.hash = Hashing.forValue(oldLiteral.value);
+
+    const original = JSON.stringify(oldLiteral);
+
+    await backend.store(oldLiteral);
+
+    MigrationRegistry.register('hhs-test/OldReference', (value: any) => {
+        value['_class'] = MutableReference.className;
+        return value;
+    });
+
+    const loaded = await store.load(oldLiteral.hash) as MutableReference<string>;
+
+    expect(loaded instanceof MutableReference).toBeTruthy();
+    expect(loaded.hash()).toEqual(oldLiteral.hash);
+    expect(loaded.clone().hash()).toEqual(oldLiteral.hash);
+
+    // ops created by new code target the hash it was saved with...
+
+    await loaded.setValue('updated');
+    await loaded.save();
+
+    const ops = await store.loadAllOps(oldLiteral.hash);
+
+    expect(ops.length).toEqual(1);
+    expect(ops[0].getTargetObject().hash()).toEqual(oldLiteral.hash);
+
+    // ...and saving it again leaves the stored literal as it was
+
+    expect(JSON.stringify(await store.loadLiteral(oldLiteral.hash))).toEqual(original);
+
+    const reloaded = await store.load(oldLiteral.hash) as MutableReference<string>;
+
+    expect(reloaded instanceof MutableReference).toBeTruthy();
+    expect(reloaded.hash()).toEqual(oldLiteral.hash);
+    expect(reloaded.getValue()).toEqual('updated');
+}
+
+async function testStatsAndHashIteration(store: Store) {
+
+    const objects = createHashedObjects();
+
+    await store.save(objects.a);
+
+    const ref = new MutableReference<string>();
+    await store.save(ref);
+    await ref.setValue('hello');
+    await ref.setValue('world');
+    await store.save(ref);
+
+    await ref.saveCheckpoint();
+
+    const stats = await store.getStats();
+
+    expect(stats.objects).toEqual(5);
+    expect(stats.objectsByClass[SomethingHashed.className]).toEqual(2);
+    expect(stats.objectsByClass[MutableReference.className]).toEqual(1);
+    expect(stats.opsByMutable).toEqual({[ref.hash()]: 2});
+    expect(stats.opHeaders).toEqual(2);
+    expect(stats.checkpoints).toEqual(1);
+    expect(Object.keys(stats.checkpointSizes)).toEqual([ref.hash()]);
+
+    const sizes = stats.approxSizes;
+    expect(sizes.objects).toBeGreaterThan(0);
+    expect(sizes.opHeaders).toBeGreaterThan(0);
+    expect(sizes.checkpoints).toBeGreaterThan(0);
+    expect(sizes.total).toEqual(sizes.objects + sizes.opHeaders + sizes.checkpoints);
+
+    const hashes = new Array<Hash>();
+
+    for await (const hash of store.allHashes(2)) {
+        hashes.push(hash);
+    }
+
+    const expected = [objects.a.hash(), objects.b.hash(), ref.hash()].concat(Array.from(ref._allAppliedOps));
+
+    expect(hashes.length).toEqual(5);
+    expect(new Set(hashes)).toEqual(new Set(expected));
+}
+
 async function testMutationOpAutoLoad(store: Store) {
     let sm = new SomethingMutable();
 